@@ -0,0 +1,11 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[paymentReference]` on the table `Order` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "paymentReference" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_paymentReference_key" ON "public"."Order"("paymentReference");
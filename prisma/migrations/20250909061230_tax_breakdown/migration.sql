@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "taxBreakdown" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "tax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxBreakdown" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "shippingMethod" TEXT,
+ADD COLUMN     "shippingProviderId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."Order" ADD CONSTRAINT "Order_shippingProviderId_fkey" FOREIGN KEY ("shippingProviderId") REFERENCES "public"."ShippingProvider"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."ShipmentStatus" AS ENUM ('SHIPPED', 'IN_TRANSIT', 'DELIVERED');
+
+-- CreateTable
+CREATE TABLE "public"."Shipment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "trackingNumber" TEXT,
+    "trackingUrl" TEXT,
+    "status" "public"."ShipmentStatus" NOT NULL DEFAULT 'SHIPPED',
+    "shippedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ShipmentItem" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "ShipmentItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shipment_orderId_idx" ON "public"."Shipment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ShipmentItem_orderItemId_idx" ON "public"."ShipmentItem"("orderItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentItem_shipmentId_orderItemId_key" ON "public"."ShipmentItem"("shipmentId", "orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Shipment" ADD CONSTRAINT "Shipment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShipmentItem" ADD CONSTRAINT "ShipmentItem_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "public"."Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShipmentItem" ADD CONSTRAINT "ShipmentItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Address" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "fullName" TEXT,
+ADD COLUMN     "phoneNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Address_userId_idx" ON "public"."Address"("userId");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "invoiceNumber" TEXT,
+ADD COLUMN     "invoicedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."InvoiceSequence" (
+    "period" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceSequence_pkey" PRIMARY KEY ("period")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_invoiceNumber_key" ON "public"."Order"("invoiceNumber");
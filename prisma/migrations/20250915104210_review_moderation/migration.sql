@@ -0,0 +1,36 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[userId,productId]` on the table `Review` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- DropIndex
+DROP INDEX "public"."Review_userId_idx";
+
+-- DropIndex
+DROP INDEX "public"."Review_productId_idx";
+
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Review_productId_status_idx" ON "public"."Review"("productId", "status");
+
+-- CreateIndex
+CREATE INDEX "Review_status_idx" ON "public"."Review"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_userId_productId_key" ON "public"."Review"("userId", "productId");
+
+-- Replace hand-entered ratings with the figures from approved reviews
+UPDATE "public"."Product" SET "rating" = 0;
+
+UPDATE "public"."Product" AS p
+SET "rating" = r."rating", "reviewCount" = r."count"
+FROM (
+    SELECT "productId", ROUND(AVG("rating")::numeric, 1)::double precision AS "rating", COUNT(*)::integer AS "count"
+    FROM "public"."Review"
+    WHERE "status" = 'APPROVED'
+    GROUP BY "productId"
+) AS r
+WHERE p."id" = r."productId";
@@ -0,0 +1,18 @@
+-- DropForeignKey
+ALTER TABLE "public"."WishlistItem" DROP CONSTRAINT "WishlistItem_productId_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."WishlistItem" ADD COLUMN     "addedPrice" DOUBLE PRECISION,
+ADD COLUMN     "alertedPrice" DOUBLE PRECISION,
+ADD COLUMN     "inStock" BOOLEAN NOT NULL DEFAULT true;
+
+-- Existing entries start from the product's current price
+UPDATE "public"."WishlistItem" AS w
+SET "addedPrice" = p."price"
+FROM "public"."Product" AS p
+WHERE w."productId" = p."id";
+
+ALTER TABLE "public"."WishlistItem" ALTER COLUMN "addedPrice" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "public"."WishlistItem" ADD CONSTRAINT "WishlistItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
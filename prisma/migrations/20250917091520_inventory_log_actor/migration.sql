@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "public"."InventoryLog_productId_idx";
+
+-- AlterTable
+ALTER TABLE "public"."InventoryLog" ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "InventoryLog_productId_createdAt_idx" ON "public"."InventoryLog"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryLog_userId_idx" ON "public"."InventoryLog"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."InventoryLog" ADD CONSTRAINT "InventoryLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
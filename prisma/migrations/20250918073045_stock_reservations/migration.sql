@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."ReservationStatus" AS ENUM ('RESERVED', 'COMMITTED', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "public"."StockReservation" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "status" "public"."ReservationStatus" NOT NULL DEFAULT 'RESERVED',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockReservation_orderId_idx" ON "public"."StockReservation"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_status_expiresAt_idx" ON "public"."StockReservation"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."StockReservation" ADD CONSTRAINT "StockReservation_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
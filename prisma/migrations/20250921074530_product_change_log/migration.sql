@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."ProductChangeLog" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductChangeLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductChangeLog_productId_createdAt_idx" ON "public"."ProductChangeLog"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductChangeLog_userId_idx" ON "public"."ProductChangeLog"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductChangeLog" ADD CONSTRAINT "ProductChangeLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,101 @@
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "public"."Service" ADD COLUMN     "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "public"."BlogPost" ADD COLUMN     "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "public"."Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Service_searchVector_idx" ON "public"."Service" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "BlogPost_searchVector_idx" ON "public"."BlogPost" USING GIN ("searchVector");
+
+-- Products: title (A) > tags (B) > short description and description (C)
+CREATE OR REPLACE FUNCTION "public"."product_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(t."name", ' ')
+      FROM "public"."_ProductToProductTag" pt
+      JOIN "public"."ProductTag" t ON t."id" = pt."B"
+      WHERE pt."A" = NEW."id"
+    ), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."shortDescription", '') || ' ' || coalesce(NEW."description", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Product_searchVector_update"
+  BEFORE INSERT OR UPDATE OF "title", "shortDescription", "description" ON "public"."Product"
+  FOR EACH ROW EXECUTE FUNCTION "public"."product_search_vector_update"();
+
+-- Tagging or untagging a product, or renaming a tag, rewrites the title so the trigger above runs again
+CREATE OR REPLACE FUNCTION "public"."product_tags_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'ProductTag' THEN
+    UPDATE "public"."Product" p SET "title" = p."title"
+    FROM "public"."_ProductToProductTag" pt
+    WHERE pt."B" = NEW."id" AND p."id" = pt."A";
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE "public"."Product" SET "title" = "title" WHERE "id" = OLD."A";
+  ELSE
+    UPDATE "public"."Product" SET "title" = "title" WHERE "id" = NEW."A";
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ProductToProductTag_searchVector_update"
+  AFTER INSERT OR DELETE ON "public"."_ProductToProductTag"
+  FOR EACH ROW EXECUTE FUNCTION "public"."product_tags_search_vector_update"();
+
+CREATE TRIGGER "ProductTag_searchVector_update"
+  AFTER UPDATE OF "name" ON "public"."ProductTag"
+  FOR EACH ROW EXECUTE FUNCTION "public"."product_tags_search_vector_update"();
+
+-- Services: name (A) > description (B)
+CREATE OR REPLACE FUNCTION "public"."service_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'B');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Service_searchVector_update"
+  BEFORE INSERT OR UPDATE OF "name", "description" ON "public"."Service"
+  FOR EACH ROW EXECUTE FUNCTION "public"."service_search_vector_update"();
+
+-- The plain text of a Tiptap document: every "text" value in it, in document order
+CREATE OR REPLACE FUNCTION "public"."tiptap_text"(document jsonb) RETURNS text AS $$
+  SELECT coalesce(string_agg(value #>> '{}', ' '), '')
+  FROM jsonb_path_query(document, 'strict $.**.text')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Blog posts: title (A) > excerpt (B) > content text (C)
+CREATE OR REPLACE FUNCTION "public"."blog_post_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."excerpt", '')), 'B') ||
+    setweight(to_tsvector('english', "public"."tiptap_text"(NEW."content")), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "BlogPost_searchVector_update"
+  BEFORE INSERT OR UPDATE OF "title", "excerpt", "content" ON "public"."BlogPost"
+  FOR EACH ROW EXECUTE FUNCTION "public"."blog_post_search_vector_update"();
+
+-- Fill in the existing rows
+UPDATE "public"."Product" SET "title" = "title";
+UPDATE "public"."Service" SET "name" = "name";
+UPDATE "public"."BlogPost" SET "title" = "title";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "discount" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."DiscountRedemption" (
+    "id" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "releasedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DiscountRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountRedemption_orderId_key" ON "public"."DiscountRedemption"("orderId");
+
+-- CreateIndex
+CREATE INDEX "DiscountRedemption_discountId_createdAt_idx" ON "public"."DiscountRedemption"("discountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DiscountRedemption_userId_idx" ON "public"."DiscountRedemption"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_discountId_fkey" FOREIGN KEY ("discountId") REFERENCES "public"."Discount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
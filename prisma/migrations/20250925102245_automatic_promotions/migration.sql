@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "public"."DiscountStacking" AS ENUM ('EXCLUSIVE', 'STACKABLE');
+
+-- AlterEnum
+ALTER TYPE "public"."DiscountType" ADD VALUE 'BUY_X_GET_Y';
+
+-- DropIndex
+DROP INDEX "public"."DiscountRedemption_orderId_key";
+
+-- AlterTable
+ALTER TABLE "public"."Discount" ADD COLUMN     "buyQuantity" INTEGER,
+ADD COLUMN     "getQuantity" INTEGER,
+ADD COLUMN     "isAutomatic" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "stacking" "public"."DiscountStacking" NOT NULL DEFAULT 'STACKABLE',
+ALTER COLUMN "code" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Discount_isAutomatic_isActive_idx" ON "public"."Discount"("isAutomatic", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountRedemption_orderId_discountId_key" ON "public"."DiscountRedemption"("orderId", "discountId");
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "public"."DiscountRedemption" ADD COLUMN     "couponCodeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."CouponBatch" (
+    "id" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CouponBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CouponCode" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "redeemedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CouponCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CouponBatch_discountId_createdAt_idx" ON "public"."CouponBatch"("discountId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouponCode_code_key" ON "public"."CouponCode"("code");
+
+-- CreateIndex
+CREATE INDEX "CouponCode_batchId_redeemedAt_idx" ON "public"."CouponCode"("batchId", "redeemedAt");
+
+-- CreateIndex
+CREATE INDEX "CouponCode_discountId_idx" ON "public"."CouponCode"("discountId");
+
+-- CreateIndex
+CREATE INDEX "DiscountRedemption_couponCodeId_idx" ON "public"."DiscountRedemption"("couponCodeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_couponCodeId_fkey" FOREIGN KEY ("couponCodeId") REFERENCES "public"."CouponCode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponBatch" ADD CONSTRAINT "CouponBatch_discountId_fkey" FOREIGN KEY ("discountId") REFERENCES "public"."Discount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponBatch" ADD CONSTRAINT "CouponBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponCode" ADD CONSTRAINT "CouponCode_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."CouponBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CouponCode" ADD CONSTRAINT "CouponCode_discountId_fkey" FOREIGN KEY ("discountId") REFERENCES "public"."Discount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
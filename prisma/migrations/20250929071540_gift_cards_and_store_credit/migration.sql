@@ -0,0 +1,107 @@
+-- CreateEnum
+CREATE TYPE "public"."GiftCardStatus" AS ENUM ('ACTIVE', 'VOIDED');
+
+-- CreateEnum
+CREATE TYPE "public"."BalanceTransactionType" AS ENUM ('ISSUE', 'REDEEM', 'RELEASE', 'REFUND', 'ADJUSTMENT', 'VOID');
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "giftCardAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "storeCreditAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "storedValueReleasedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "storeCredit" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."GiftCard" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "initialBalance" DOUBLE PRECISION NOT NULL,
+    "balance" DOUBLE PRECISION NOT NULL,
+    "status" "public"."GiftCardStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3),
+    "userId" TEXT,
+    "recipientEmail" TEXT,
+    "note" TEXT,
+    "issuedById" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GiftCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GiftCardTransaction" (
+    "id" TEXT NOT NULL,
+    "giftCardId" TEXT NOT NULL,
+    "type" "public"."BalanceTransactionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balanceAfter" DOUBLE PRECISION NOT NULL,
+    "orderId" TEXT,
+    "createdById" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GiftCardTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."StoreCreditTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."BalanceTransactionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balanceAfter" DOUBLE PRECISION NOT NULL,
+    "orderId" TEXT,
+    "createdById" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoreCreditTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_code_key" ON "public"."GiftCard"("code");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_userId_idx" ON "public"."GiftCard"("userId");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_status_createdAt_idx" ON "public"."GiftCard"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_giftCardId_createdAt_idx" ON "public"."GiftCardTransaction"("giftCardId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_orderId_idx" ON "public"."GiftCardTransaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StoreCreditTransaction_userId_createdAt_idx" ON "public"."StoreCreditTransaction"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StoreCreditTransaction_orderId_idx" ON "public"."StoreCreditTransaction"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "public"."GiftCard" ADD CONSTRAINT "GiftCard_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GiftCard" ADD CONSTRAINT "GiftCard_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "public"."GiftCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."StoreCreditTransaction" ADD CONSTRAINT "StoreCreditTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."StoreCreditTransaction" ADD CONSTRAINT "StoreCreditTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."StoreCreditTransaction" ADD CONSTRAINT "StoreCreditTransaction_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ReturnStatus" ADD VALUE 'REFUNDING';
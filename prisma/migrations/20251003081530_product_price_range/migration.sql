@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "maxPrice" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "minPrice" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Product_minPrice_idx" ON "public"."Product"("minPrice");
+
+-- CreateIndex
+CREATE INDEX "Product_maxPrice_idx" ON "public"."Product"("maxPrice");
+
+-- The price range customers can pay: across the variants, or the product price without variants
+CREATE OR REPLACE FUNCTION "public"."product_price_range_update"() RETURNS trigger AS $$
+BEGIN
+  SELECT coalesce(min(v."price"), NEW."price"), coalesce(max(v."price"), NEW."price")
+  INTO NEW."minPrice", NEW."maxPrice"
+  FROM "public"."ProductVariant" v
+  WHERE v."productId" = NEW."id";
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Product_priceRange_update"
+  BEFORE INSERT OR UPDATE OF "price" ON "public"."Product"
+  FOR EACH ROW EXECUTE FUNCTION "public"."product_price_range_update"();
+
+-- Adding, repricing or removing a variant rewrites the product price so the trigger above runs again
+CREATE OR REPLACE FUNCTION "public"."variant_price_range_update"() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE "public"."Product" SET "price" = "price" WHERE "id" = OLD."productId";
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE "public"."Product" SET "price" = "price" WHERE "id" = NEW."productId";
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ProductVariant_priceRange_update"
+  AFTER INSERT OR DELETE OR UPDATE OF "price", "productId" ON "public"."ProductVariant"
+  FOR EACH ROW EXECUTE FUNCTION "public"."variant_price_range_update"();
+
+-- Fill in the range for existing products
+UPDATE "public"."Product" SET "price" = "price";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ReturnRequest" ADD COLUMN     "storeCreditRefund" DOUBLE PRECISION NOT NULL DEFAULT 0;
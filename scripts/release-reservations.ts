@@ -0,0 +1,17 @@
+// scripts/release-reservations.ts
+// Puts stock held by unpaid checkouts back on sale once the hold expires. Run it on a schedule, e.g. every 5 minutes from cron.
+
+import { prisma } from "@/lib/db";
+import { releaseExpiredReservations } from "@/lib/inventory/reservations";
+
+async function main() {
+  const summary = await releaseExpiredReservations();
+  console.log(`Released ${summary.reservations} expired stock reservations across ${summary.orders} orders`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Releasing stock reservations failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
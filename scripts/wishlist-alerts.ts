@@ -0,0 +1,20 @@
+// scripts/wishlist-alerts.ts
+// Emails customers about restocked or cheaper wishlist items. Run it on a schedule, e.g. hourly from cron.
+
+import { prisma } from "@/lib/db";
+import { runWishlistAlerts } from "@/lib/wishlist/alerts";
+
+async function main() {
+  const summary = await runWishlistAlerts();
+  console.log(
+    `Checked ${summary.checked} wishlist items: ${summary.emailsSent} emails sent ` +
+      `(${summary.backInStock} back in stock, ${summary.priceDrops} price drops), ${summary.failed} failed`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Wishlist alerts failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
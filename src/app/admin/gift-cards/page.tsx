@@ -0,0 +1,17 @@
+import { GiftCardsTable } from "@/components/admin/gift-cards-table"
+import { StoreCreditTable } from "@/components/admin/store-credit-table"
+
+export default function GiftCardsPage() {
+  return (
+    <div className="p-6 space-y-10">
+      <section>
+        <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Gift Cards</h1>
+        <GiftCardsTable />
+      </section>
+      <section>
+        <h2 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Store Credit</h2>
+        <StoreCreditTable />
+      </section>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { ProductOverview } from "@/components/admin/product-overview";
 import { RecentOrders } from "@/components/admin/recent-orders";
 import { TopSellingProducts } from "@/components/admin/top-selling-products";
 import { InventoryAlerts } from "@/components/admin/inventory-alerts";
+import { ReorderSuggestions } from "@/components/admin/reorder-suggestions";
 
 export default async function AdminDashboard() {
   const session = await getAuthSession();
@@ -26,6 +27,9 @@ export default async function AdminDashboard() {
           <TopSellingProducts />
           <RecentOrders />
         </div>
+        <div className="mt-6">
+          <ReorderSuggestions />
+        </div>
       </div>
   );
 }
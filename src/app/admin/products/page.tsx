@@ -1,22 +1,33 @@
 import Link from "next/link"
-import { Plus } from "lucide-react"
+import { Download, Plus } from "lucide-react"
+import { ProductImportDialog } from "@/components/admin/product-import-dialog"
 import { ProductsTable } from "@/components/admin/products-table"
+import { PRODUCT_EXPORT_URL } from "@/lib/api/product-import"
 
 export default function ProductsPage() {
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-semibold text-[#1c1c1c]">Products</h1>
-        <Link
-          href="/admin/products/add"
-          className="flex items-center gap-2 px-4 py-2 bg-[#4f507f] text-white rounded-md hover:bg-[#3e3f63] transition-colors"
-        >
-          <Plus size={16} />
-          <span>Add Product</span>
-        </Link>
+        <div className="flex items-center gap-2">
+          <a
+            href={PRODUCT_EXPORT_URL}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <Download size={16} />
+            <span>Export</span>
+          </a>
+          <ProductImportDialog />
+          <Link
+            href="/admin/products/add"
+            className="flex items-center gap-2 px-4 py-2 bg-[#4f507f] text-white rounded-md hover:bg-[#3e3f63] transition-colors"
+          >
+            <Plus size={16} />
+            <span>Add Product</span>
+          </Link>
+        </div>
       </div>
       <ProductsTable />
     </div>
   )
 }
-
@@ -0,0 +1,10 @@
+import { PurchaseOrdersTable } from "@/components/admin/purchase-orders-table"
+
+export default function PurchaseOrdersPage() {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Purchase Orders</h1>
+      <PurchaseOrdersTable />
+    </div>
+  )
+}
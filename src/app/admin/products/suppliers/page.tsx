@@ -0,0 +1,10 @@
+import { SuppliersManager } from "@/components/admin/suppliers-manager"
+
+export default function SuppliersPage() {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Suppliers</h1>
+      <SuppliersManager />
+    </div>
+  )
+}
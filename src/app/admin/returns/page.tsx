@@ -0,0 +1,10 @@
+import { ReturnsTable } from "@/components/admin/returns-table"
+
+export default function ReturnsPage() {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Returns</h1>
+      <ReturnsTable />
+    </div>
+  )
+}
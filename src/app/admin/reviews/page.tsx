@@ -0,0 +1,10 @@
+import { ReviewsTable } from "@/components/admin/reviews-table"
+
+export default function ReviewsPage() {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Reviews</h1>
+      <ReviewsTable />
+    </div>
+  )
+}
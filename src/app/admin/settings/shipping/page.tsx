@@ -0,0 +1,10 @@
+import { ShippingProviders } from "@/components/admin/shipping-providers"
+
+export default function ShippingSettingsPage() {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Shipping</h1>
+      <ShippingProviders />
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+import { TaxCategories } from "@/components/admin/tax-categories"
+import { TaxRates } from "@/components/admin/tax-rates"
+
+export default function TaxSettingsPage() {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold text-[#1c1c1c] mb-6">Tax</h1>
+      <div className="space-y-6">
+        <TaxRates />
+        <TaxCategories />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { AddressError, deleteAddress, updateAddress } from '@/lib/account/addresses';
+import { addressSchema } from '@/lib/validations/account-schema';
+
+/**
+ * PATCH /api/addresses/[id]
+ * Updates one of the signed-in customer's addresses or makes it the default.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const validation = addressSchema.partial().safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const address = await updateAddress(session.user.id, id, validation.data);
+    return NextResponse.json(address);
+  } catch (error) {
+    if (error instanceof AddressError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update address:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/addresses/[id]
+ * Removes one of the signed-in customer's addresses.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await deleteAddress(session.user.id, id);
+    return NextResponse.json({ message: 'Address deleted' });
+  } catch (error) {
+    if (error instanceof AddressError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to delete address:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
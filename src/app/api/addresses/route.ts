@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { AddressError, createAddress, listAddresses } from '@/lib/account/addresses';
+import { addressSchema } from '@/lib/validations/account-schema';
+
+/**
+ * GET /api/addresses
+ * Lists the signed-in customer's saved addresses, default first.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const addresses = await listAddresses(session.user.id);
+    return NextResponse.json(addresses);
+  } catch (error) {
+    console.error('Failed to fetch addresses:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/addresses
+ * Saves a new address for the signed-in customer.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = addressSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const address = await createAddress(session.user.id, validation.data);
+    return NextResponse.json(address, { status: 201 });
+  } catch (error) {
+    if (error instanceof AddressError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to create address:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import {
+  adjustGiftCard,
+  giftCardInclude,
+  giftCardTransactionInclude,
+  voidGiftCard,
+} from '@/lib/stored-value/gift-cards';
+import { StoredValueError } from '@/lib/stored-value/ledger';
+import * as z from 'zod';
+
+const note = z.string().trim().min(1, 'Give a reason').max(500);
+
+const updateGiftCardSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('adjust'), amount: z.number().refine((value) => value !== 0), note }),
+  z.object({ action: z.literal('void'), note }),
+]);
+
+/**
+ * GET /api/admin/gift-cards/[id]
+ * Fetches a gift card with its full ledger.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const giftCard = await prisma.giftCard.findUnique({
+      where: { id },
+      include: {
+        ...giftCardInclude,
+        transactions: { orderBy: { createdAt: 'desc' }, include: giftCardTransactionInclude },
+      },
+    });
+    if (!giftCard) {
+      return NextResponse.json({ error: 'Gift card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(giftCard);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch gift card:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/gift-cards/[id]
+ * Adjusts a gift card's balance by a positive or negative amount, or voids the card.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await checkAdmin();
+    const { id } = await params;
+
+    const validation = updateGiftCardSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const input = validation.data;
+    switch (input.action) {
+      case 'adjust':
+        return NextResponse.json(await adjustGiftCard(id, input.amount, input.note, admin.id));
+      case 'void':
+        return NextResponse.json(await voidGiftCard(id, input.note, admin.id));
+    }
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof StoredValueError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update gift card:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
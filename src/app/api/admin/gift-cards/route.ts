@@ -0,0 +1,119 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { GiftCardStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { giftCardInclude, issueGiftCard } from '@/lib/stored-value/gift-cards';
+import { StoredValueError } from '@/lib/stored-value/ledger';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.nativeEnum(GiftCardStatus).optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+const issueSchema = z.object({
+  amount: z.number().positive(),
+  expiresAt: z.string().datetime().optional().nullable(),
+  // Registers the card to the customer with this email
+  customerEmail: z.string().trim().email().optional().nullable(),
+  recipientEmail: z.string().trim().email().optional().nullable(),
+  note: z.string().trim().max(500).optional().nullable(),
+  code: z.string().trim().min(4).max(40).optional().nullable(),
+});
+
+/**
+ * GET /api/admin/gift-cards
+ * Lists gift cards with pagination, filtered by status or by code, customer or recipient email.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { page, limit, status, search } = validation.data;
+    const where: Prisma.GiftCardWhereInput = {
+      ...(status && { status }),
+      ...(search && {
+        OR: [
+          { code: { contains: search, mode: 'insensitive' } },
+          { recipientEmail: { contains: search, mode: 'insensitive' } },
+          { user: { email: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [giftCards, total] = await Promise.all([
+      prisma.giftCard.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: giftCardInclude,
+      }),
+      prisma.giftCard.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      data: giftCards,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch gift cards:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/gift-cards
+ * Issues a new gift card, optionally registered to an existing customer.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await checkAdmin();
+
+    const validation = issueSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { customerEmail, expiresAt, ...input } = validation.data;
+    let userId: string | null = null;
+    if (customerEmail) {
+      const customer = await prisma.user.findUnique({ where: { email: customerEmail }, select: { id: true } });
+      if (!customer) {
+        return NextResponse.json({ error: 'No customer has this email address' }, { status: 404 });
+      }
+      userId = customer.id;
+    }
+
+    const giftCard = await issueGiftCard(
+      { ...input, userId, expiresAt: expiresAt ? new Date(expiresAt) : null },
+      admin.id
+    );
+    return NextResponse.json(giftCard, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof StoredValueError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to issue gift card:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { getInventoryDetail } from '@/lib/inventory/levels';
+import { InventoryError, updateInventory } from '@/lib/inventory/stock';
+import * as z from 'zod';
+
+const updateInventorySchema = z.object({
+  stockQuantity: z.number().int().min(0, 'Stock cannot be negative').optional(),
+  lowStockThreshold: z.number().int().min(0).optional(),
+  variants: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        stockQuantity: z.number().int().min(0, 'Stock cannot be negative'),
+      })
+    )
+    .optional(),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+/**
+ * GET /api/admin/inventory/[productId]
+ * Fetches a product's stock, per variant where it has them, with its recent stock history.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { productId } = await params;
+
+    const inventory = await getInventoryDetail(productId);
+    if (!inventory) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(inventory);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch product inventory:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/inventory/[productId]
+ * Records counted stock levels for a product and its variants, or changes its low-stock threshold.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const admin = await checkAdmin();
+    const { productId } = await params;
+
+    const body = await req.json();
+    const validation = updateInventorySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    await updateInventory(productId, validation.data, admin.id);
+    return NextResponse.json(await getInventoryDetail(productId));
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof InventoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update product inventory:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { getInventoryOverview } from '@/lib/inventory/levels';
+
+/**
+ * GET /api/admin/inventory/overview
+ * Counts products in stock, running low and sold out, plus the total units on hand.
+ */
+export async function GET() {
+  try {
+    await checkAdmin();
+    return NextResponse.json(await getInventoryOverview());
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch inventory overview:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
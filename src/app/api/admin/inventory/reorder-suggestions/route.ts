@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { getReorderSuggestions } from '@/lib/purchasing/reorder';
+import * as z from 'zod';
+
+const reorderQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  coverDays: z.coerce.number().int().min(1).max(365).default(30),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/admin/inventory/reorder-suggestions
+ * Suggests reorder quantities from the sales of the last `days` days, enough to cover `coverDays` more.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = reorderQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    return NextResponse.json(await getReorderSuggestions(validation.data));
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch reorder suggestions:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { listInventory } from '@/lib/inventory/levels';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().trim().min(1).optional(),
+  stock: z.enum(['in', 'low', 'out']).optional(),
+});
+
+/**
+ * GET /api/admin/inventory
+ * Lists stock levels with pagination, lowest first, filtered by title/SKU or by in stock, low or out of stock.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { page, limit, search, stock } = validation.data;
+    const { data, total } = await listInventory({ page, limit, search, stock });
+
+    return NextResponse.json({
+      data,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch inventory:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { renderInvoice } from '@/lib/invoices/documents';
+import { documentFileName, InvoiceError, issueInvoice, pdfResponseHeaders } from '@/lib/invoices/invoice';
+import { sendInvoiceEmail } from '@/lib/mailer';
+
+/**
+ * GET /api/admin/orders/[id]/invoice
+ * Downloads the order's tax invoice as a PDF, issuing its invoice number if needed.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const order = await issueInvoice(id);
+    const pdf = renderInvoice(order);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: pdfResponseHeaders(documentFileName('invoice', order.invoiceNumber)),
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to generate invoice:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/invoice
+ * Emails the invoice PDF to the customer.
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const order = await issueInvoice(id);
+    if (!order.user.email) {
+      return NextResponse.json({ error: 'This customer has no email address' }, { status: 409 });
+    }
+
+    await sendInvoiceEmail(order.user.email, order.orderNumber, order.invoiceNumber, [
+      {
+        filename: documentFileName('invoice', order.invoiceNumber),
+        content: renderInvoice(order),
+        contentType: 'application/pdf',
+      },
+    ]);
+
+    return NextResponse.json({ message: `Invoice sent to ${order.user.email}`, invoiceNumber: order.invoiceNumber });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to email invoice:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { OrderStatus } from '@prisma/client';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { renderPackingSlip } from '@/lib/invoices/documents';
+import { documentFileName, InvoiceError, loadOrderDocument, pdfResponseHeaders } from '@/lib/invoices/invoice';
+
+/**
+ * GET /api/admin/orders/[id]/packing-slip
+ * Downloads a packing slip PDF listing the order's items and where they go.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const order = await loadOrderDocument(id);
+    if (order.status === OrderStatus.CANCELLED) {
+      return NextResponse.json({ error: 'Cancelled orders are not packed' }, { status: 409 });
+    }
+
+    return new NextResponse(new Uint8Array(renderPackingSlip(order)), {
+      headers: pdfResponseHeaders(documentFileName('packing-slip', order.orderNumber)),
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to generate packing slip:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
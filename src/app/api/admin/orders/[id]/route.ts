@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { orderDetailInclude, OrderError, updateOrder } from '@/lib/orders/admin';
+import { OrderStatus, PaymentStatus } from '@prisma/client';
+import * as z from 'zod';
+
+const updateOrderSchema = z.object({
+  status: z.nativeEnum(OrderStatus).optional(),
+  paymentStatus: z.nativeEnum(PaymentStatus).optional(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+/**
+ * GET /api/admin/orders/[id]
+ * Fetches a single order with its items, customer and shipping address.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: orderDetailInclude,
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(order);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/orders/[id]
+ * Updates order status, payment status or notes. Status changes must follow the allowed transitions.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = updateOrderSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const order = await updateOrder(id, validation.data, admin.id);
+    return NextResponse.json(order);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { OrderError } from '@/lib/orders/admin';
+import { updateShipment } from '@/lib/orders/fulfilment';
+import { ShipmentStatus } from '@prisma/client';
+import * as z from 'zod';
+
+const updateShipmentSchema = z.object({
+  carrier: z.string().trim().min(1).optional(),
+  trackingNumber: z.string().trim().optional().nullable(),
+  trackingUrl: z.string().trim().url('Tracking link must be a valid URL').optional().nullable().or(z.literal('')),
+  notes: z.string().max(1000).optional().nullable(),
+  status: z.nativeEnum(ShipmentStatus).optional(),
+});
+
+/**
+ * PATCH /api/admin/orders/[id]/shipments/[shipmentId]
+ * Updates tracking details or moves a shipment on. Delivering the last parcel completes the order.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; shipmentId: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id, shipmentId } = await params;
+
+    const body = await req.json();
+    const validation = updateShipmentSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const shipment = await updateShipment(id, shipmentId, validation.data);
+    return NextResponse.json(shipment);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update shipment:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { OrderError, shipmentInclude } from '@/lib/orders/admin';
+import { createShipment } from '@/lib/orders/fulfilment';
+import * as z from 'zod';
+
+const createShipmentSchema = z.object({
+  carrier: z.string().trim().min(1, 'Carrier is required'),
+  trackingNumber: z.string().trim().optional().nullable(),
+  trackingUrl: z.string().trim().url('Tracking link must be a valid URL').optional().nullable().or(z.literal('')),
+  notes: z.string().max(1000).optional().nullable(),
+  shippedAt: z.coerce.date().optional(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(1),
+      })
+    )
+    .min(1, 'Select at least one item to ship'),
+});
+
+/**
+ * GET /api/admin/orders/[id]/shipments
+ * Lists the parcels sent for an order.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const shipments = await prisma.shipment.findMany({
+      where: { orderId: id },
+      include: shipmentInclude,
+      orderBy: { shippedAt: 'asc' },
+    });
+
+    return NextResponse.json(shipments);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch shipments:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/shipments
+ * Records a parcel for some or all of an order's items and moves the order status on.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = createShipmentSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const shipment = await createShipment(id, validation.data);
+    return NextResponse.json(shipment, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to create shipment:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
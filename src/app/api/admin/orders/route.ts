@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { checkAdmin } from '@/lib/auth-helper';
+import { buildOrderWhere, orderListInclude } from '@/lib/orders/admin';
+import { OrderStatus, PaymentStatus } from '@prisma/client';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.nativeEnum(OrderStatus).optional(),
+  paymentStatus: z.nativeEnum(PaymentStatus).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  customer: z.string().trim().min(1).optional(),
+});
+
+/**
+ * GET /api/admin/orders
+ * Lists orders with pagination and filters on status, payment status, date range and customer.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { page, limit, ...filters } = validation.data;
+    const where = buildOrderWhere(filters);
+
+    const [orders, total] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: orderListInclude,
+      }),
+      prisma.order.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      data: orders,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    if (error.message === 'Not authenticated') {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+    if (error.message === 'Forbidden: Insufficient privileges') {
+      return NextResponse.json({ error: 'You do not have permission to perform this action.' }, { status: 403 });
+    }
+    console.error('Failed to fetch orders:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
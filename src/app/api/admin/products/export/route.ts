@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { csvResponseHeaders } from '@/lib/csv';
+import { exportProductsCsv } from '@/lib/products/csv';
+
+/**
+ * GET /api/admin/products/export
+ * Downloads the catalogue as CSV: one row per product followed by its variants.
+ */
+export async function GET() {
+  try {
+    await checkAdmin();
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(exportProductsCsv(), { headers: csvResponseHeaders(`products-${date}.csv`) });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to export products:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
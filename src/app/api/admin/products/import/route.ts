@@ -0,0 +1,89 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { InventoryError } from '@/lib/inventory/stock';
+import { applyProductImport, planProductImport } from '@/lib/products/csv';
+import { ProductVariantError } from '@/lib/products/variants';
+import * as z from 'zod';
+
+// Large files are applied over several requests so none of them runs into a timeout
+const importQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * POST /api/admin/products/import
+ * Validates a product CSV and reports the errors per row. Unless `dryRun` is true, and only when
+ * the whole file is valid, it then upserts the products from `offset` to `offset + limit` by SKU.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await checkAdmin();
+
+    const formData = await req.formData();
+    const validation = importQuerySchema.safeParse(
+      Object.fromEntries(
+        ['dryRun', 'offset', 'limit']
+          .map((key) => [key, formData.get(key)])
+          .filter(([, value]) => typeof value === 'string' && value !== '')
+      )
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Choose a CSV file to import' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'The file is larger than 10 MB. Split it into smaller files.' }, { status: 400 });
+    }
+
+    const { dryRun, offset, limit } = validation.data;
+    const plan = await planProductImport(await file.text());
+    const report = {
+      dryRun,
+      rows: plan.rows,
+      products: plan.items.length,
+      toCreate: plan.items.filter((item) => !item.existingId).length,
+      toUpdate: plan.items.filter((item) => item.existingId).length,
+      errors: plan.errors,
+    };
+
+    if (dryRun) {
+      return NextResponse.json(report);
+    }
+    if (plan.errors.length > 0) {
+      return NextResponse.json({ ...report, error: 'Fix the errors in the file before importing it' }, { status: 400 });
+    }
+
+    const batch = plan.items.slice(offset, offset + limit);
+    const result = await applyProductImport(batch, user.id);
+    const processed = offset + batch.length;
+
+    return NextResponse.json({
+      ...report,
+      ...result,
+      processed,
+      nextOffset: processed < plan.items.length ? processed : null,
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof ProductVariantError || error instanceof InventoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'A product or variant with one of these SKUs already exists' }, { status: 409 });
+    }
+    console.error('Failed to import products:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { PurchaseOrderError, receivePurchaseOrder } from '@/lib/purchasing/purchase-orders';
+import { receivePurchaseOrderSchema } from '@/lib/validations/purchasing-schema';
+
+/**
+ * POST /api/admin/purchase-orders/[id]/receive
+ * Books a delivery against a sent purchase order into stock. Lines can be received in parts.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = receivePurchaseOrderSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const purchaseOrder = await receivePurchaseOrder(id, validation.data, admin.id);
+    return NextResponse.json(purchaseOrder);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to receive purchase order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
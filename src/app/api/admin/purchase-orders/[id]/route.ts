@@ -0,0 +1,82 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { PurchaseOrderStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import {
+  purchaseOrderInclude,
+  PurchaseOrderError,
+  setPurchaseOrderStatus,
+  updatePurchaseOrder,
+} from '@/lib/purchasing/purchase-orders';
+import { purchaseOrderSchema } from '@/lib/validations/purchasing-schema';
+import * as z from 'zod';
+
+const updatePurchaseOrderSchema = purchaseOrderSchema.partial().extend({
+  status: z.enum([PurchaseOrderStatus.SENT, PurchaseOrderStatus.CANCELLED]).optional(),
+});
+
+/**
+ * GET /api/admin/purchase-orders/[id]
+ * Fetches a purchase order with its supplier and line items.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude,
+    });
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch purchase order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/purchase-orders/[id]
+ * Edits a draft purchase order, or marks it as sent or cancelled with `status`.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = updatePurchaseOrderSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { status, ...changes } = validation.data;
+    let purchaseOrder = await updatePurchaseOrder(id, changes);
+    if (status) {
+      purchaseOrder = await setPurchaseOrderStatus(id, status);
+    }
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update purchase order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
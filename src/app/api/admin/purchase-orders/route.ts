@@ -0,0 +1,104 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { Prisma, PurchaseOrderStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import {
+  createPurchaseOrder,
+  purchaseOrderInclude,
+  PurchaseOrderError,
+} from '@/lib/purchasing/purchase-orders';
+import { purchaseOrderSchema } from '@/lib/validations/purchasing-schema';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(PurchaseOrderStatus).optional(),
+  supplierId: z.string().uuid().optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+/**
+ * GET /api/admin/purchase-orders
+ * Lists purchase orders with pagination, newest first, filtered by status and supplier, or searched by PO number, supplier or product.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { page, limit, status, supplierId, search } = validation.data;
+    const where: Prisma.PurchaseOrderWhereInput = {
+      ...(status && { status }),
+      ...(supplierId && { supplierId }),
+      ...(search && {
+        OR: [
+          { poNumber: { contains: search, mode: 'insensitive' } },
+          { supplier: { name: { contains: search, mode: 'insensitive' } } },
+          { items: { some: { product: { title: { contains: search, mode: 'insensitive' } } } } },
+          { items: { some: { product: { sku: { contains: search, mode: 'insensitive' } } } } },
+        ],
+      }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: purchaseOrderInclude,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      data: purchaseOrders,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch purchase orders:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/purchase-orders
+ * Drafts a purchase order for a supplier.
+ */
+export async function POST(req: Request) {
+  try {
+    const admin = await checkAdmin();
+
+    const body = await req.json();
+    const validation = purchaseOrderSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const purchaseOrder = await createPurchaseOrder(validation.data, admin.id);
+    return NextResponse.json(purchaseOrder, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to create purchase order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ReturnStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { receiveReturn, refundReturn, ReturnError, returnInclude, reviewReturn } from '@/lib/returns/returns';
+import * as z from 'zod';
+
+const adminNotes = z.string().max(1000).optional().nullable();
+
+const updateReturnSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve'), adminNotes }),
+  z.object({ action: z.literal('reject'), adminNotes }),
+  z.object({
+    action: z.literal('receive'),
+    adminNotes,
+    items: z.array(z.object({ id: z.string().uuid(), restock: z.boolean() })).optional(),
+  }),
+  z.object({
+    action: z.literal('refund'),
+    adminNotes,
+    items: z.array(z.object({ id: z.string().uuid(), refundAmount: z.number().min(0) })).optional(),
+    refundTo: z.enum(['ORIGINAL', 'STORE_CREDIT']).optional(),
+  }),
+]);
+
+/**
+ * GET /api/admin/returns/[id]
+ * Fetches a single return request with its items.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id },
+      include: returnInclude,
+    });
+    if (!returnRequest) {
+      return NextResponse.json({ error: 'Return request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(returnRequest);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch return request:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/returns/[id]
+ * Moves a return along: approve, reject, receive (restocking items) or refund (in full or per line,
+ * to the original payment or as store credit).
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = updateReturnSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const input = validation.data;
+    switch (input.action) {
+      case 'approve':
+        return NextResponse.json(await reviewReturn(id, ReturnStatus.APPROVED, input.adminNotes));
+      case 'reject':
+        return NextResponse.json(await reviewReturn(id, ReturnStatus.REJECTED, input.adminNotes));
+      case 'receive':
+        return NextResponse.json(await receiveReturn(id, input, admin.id));
+      case 'refund':
+        return NextResponse.json(await refundReturn(id, input, admin.id));
+    }
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof ReturnError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update return request:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
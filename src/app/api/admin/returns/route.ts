@@ -0,0 +1,69 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { Prisma, ReturnStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { returnInclude } from '@/lib/returns/returns';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.nativeEnum(ReturnStatus).optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+/**
+ * GET /api/admin/returns
+ * Lists return requests with pagination, filtered by status or RMA/order number.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { page, limit, status, search } = validation.data;
+    const where: Prisma.ReturnRequestWhereInput = {
+      ...(status && { status }),
+      ...(search && {
+        OR: [
+          { rmaNumber: { contains: search, mode: 'insensitive' } },
+          { order: { orderNumber: { contains: search, mode: 'insensitive' } } },
+          { user: { email: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [returns, total] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: returnInclude,
+      }),
+      prisma.returnRequest.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      data: returns,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch returns:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
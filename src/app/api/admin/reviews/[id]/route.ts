@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { deleteReview, ReviewError } from '@/lib/reviews/reviews';
+
+/**
+ * DELETE /api/admin/reviews/[id]
+ * Deletes a review, e.g. spam, and refreshes the product's rating.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    await deleteReview(id);
+
+    return NextResponse.json({ message: 'Review deleted' });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to delete review:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { Prisma, ReviewStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { moderateReviews, ReviewError, reviewInclude } from '@/lib/reviews/reviews';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(ReviewStatus).optional(),
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+const moderateReviewsSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1, 'Select at least one review').max(100),
+  status: z.enum([ReviewStatus.APPROVED, ReviewStatus.REJECTED]),
+});
+
+/**
+ * GET /api/admin/reviews
+ * Lists reviews for moderation with pagination, filtered by status, star rating or product/customer.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { page, limit, status, rating, search } = validation.data;
+    const where: Prisma.ReviewWhereInput = {
+      ...(status && { status }),
+      ...(rating && { rating }),
+      ...(search && {
+        OR: [
+          { comment: { contains: search, mode: 'insensitive' } },
+          { product: { title: { contains: search, mode: 'insensitive' } } },
+          { product: { sku: { contains: search, mode: 'insensitive' } } },
+          { user: { email: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        // Oldest first so the queue is worked through in the order reviews came in
+        orderBy: { createdAt: status === ReviewStatus.PENDING ? 'asc' : 'desc' },
+        include: reviewInclude,
+      }),
+      prisma.review.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      data: reviews,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch reviews:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/reviews
+ * Approves or rejects several reviews at once and refreshes the affected product ratings.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    await checkAdmin();
+
+    const body = await req.json();
+    const validation = moderateReviewsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const result = await moderateReviews(validation.data.ids, validation.data.status);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to moderate reviews:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { shippingProviderSchema } from '@/lib/validations/shipping-schema';
+
+/**
+ * PATCH /api/admin/shipping/providers/[id]
+ * Updates a shipping provider. configSettings is replaced as a whole.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = shippingProviderSchema.partial().safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const provider = await prisma.shippingProvider.update({
+      where: { id },
+      data: validation.data,
+    });
+
+    return NextResponse.json(provider);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Shipping provider not found' }, { status: 404 });
+    }
+    console.error('Failed to update shipping provider:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/shipping/providers/[id]
+ * Deletes a shipping provider. Past orders keep the method name and cost they were charged.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    await prisma.shippingProvider.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Shipping provider deleted' });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Shipping provider not found' }, { status: 404 });
+    }
+    console.error('Failed to delete shipping provider:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
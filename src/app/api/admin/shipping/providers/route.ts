@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { shippingProviderSchema } from '@/lib/validations/shipping-schema';
+
+/**
+ * GET /api/admin/shipping/providers
+ * Lists every shipping provider, active or not.
+ */
+export async function GET() {
+  try {
+    await checkAdmin();
+
+    const providers = await prisma.shippingProvider.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(providers);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch shipping providers:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/shipping/providers
+ * Creates a shipping provider. configSettings.type picks how it prices delivery.
+ */
+export async function POST(req: Request) {
+  try {
+    await checkAdmin();
+
+    const body = await req.json();
+    const validation = shippingProviderSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const provider = await prisma.shippingProvider.create({
+      data: validation.data,
+    });
+
+    return NextResponse.json(provider, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to create shipping provider:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { StoredValueError } from '@/lib/stored-value/ledger';
+import {
+  changeCustomerStoreCredit,
+  StoreCreditAction,
+  storeCreditTransactionInclude,
+} from '@/lib/stored-value/store-credit';
+import * as z from 'zod';
+
+const changeSchema = z.object({
+  action: z.enum([StoreCreditAction.ISSUE, StoreCreditAction.ADJUST, StoreCreditAction.VOID]),
+  amount: z.number().optional(),
+  note: z.string().trim().min(1, 'Give a reason').max(500),
+});
+
+/**
+ * GET /api/admin/store-credit/[userId]
+ * Fetches a customer's store credit balance with its full ledger.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { userId } = await params;
+
+    const customer = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        storeCredit: true,
+        storeCreditLedger: { orderBy: { createdAt: 'desc' }, include: storeCreditTransactionInclude },
+      },
+    });
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(customer);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch store credit:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/store-credit/[userId]
+ * Issues, adjusts or voids a customer's store credit.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const admin = await checkAdmin();
+    const { userId } = await params;
+
+    const validation = changeSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const balance = await changeCustomerStoreCredit(userId, validation.data, admin.id);
+    return NextResponse.json({ balance });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error instanceof StoredValueError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to change store credit:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { supplierSchema } from '@/lib/validations/purchasing-schema';
+
+/**
+ * PATCH /api/admin/suppliers/[id]
+ * Updates a supplier. Inactive suppliers cannot be put on new purchase orders.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = supplierSchema.partial().safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: validation.data,
+    });
+
+    return NextResponse.json(supplier);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+    console.error('Failed to update supplier:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/suppliers/[id]
+ * Deletes a supplier that has no purchase orders.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    await prisma.supplier.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Supplier deleted' });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+    if (error.code === 'P2003') {
+      return NextResponse.json(
+        { error: 'Suppliers with purchase orders cannot be deleted. Mark them inactive instead.' },
+        { status: 409 }
+      );
+    }
+    console.error('Failed to delete supplier:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { supplierSchema } from '@/lib/validations/purchasing-schema';
+
+/**
+ * GET /api/admin/suppliers
+ * Lists every supplier, active or not, with how many purchase orders each has.
+ */
+export async function GET() {
+  try {
+    await checkAdmin();
+
+    const suppliers = await prisma.supplier.findMany({
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { purchaseOrders: true } } },
+    });
+
+    return NextResponse.json(suppliers);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch suppliers:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/suppliers
+ * Creates a supplier.
+ */
+export async function POST(req: Request) {
+  try {
+    await checkAdmin();
+
+    const body = await req.json();
+    const validation = supplierSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const supplier = await prisma.supplier.create({
+      data: validation.data,
+    });
+
+    return NextResponse.json(supplier, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to create supplier:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { taxCategorySchema } from '@/lib/validations/tax-schema';
+
+/**
+ * PATCH /api/admin/tax/categories/[id]
+ * Updates a tax category's name or description.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = taxCategorySchema.partial().safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const category = await prisma.taxCategory.update({
+      where: { id },
+      data: validation.data,
+    });
+
+    return NextResponse.json(category);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Tax category not found' }, { status: 404 });
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'A tax category with this name already exists' }, { status: 409 });
+    }
+    console.error('Failed to update tax category:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/tax/categories/[id]
+ * Deletes a tax category. Products in it fall back to the standard rates.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    await prisma.$transaction([
+      prisma.product.updateMany({ where: { taxCategoryId: id }, data: { taxCategoryId: null } }),
+      prisma.taxCategory.delete({ where: { id } }),
+    ]);
+
+    return NextResponse.json({ message: 'Tax category deleted' });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Tax category not found' }, { status: 404 });
+    }
+    console.error('Failed to delete tax category:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
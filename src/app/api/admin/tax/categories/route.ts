@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { taxCategorySchema } from '@/lib/validations/tax-schema';
+
+/**
+ * GET /api/admin/tax/categories
+ * Lists tax categories with how many products and rates use them.
+ */
+export async function GET() {
+  try {
+    await checkAdmin();
+
+    const categories = await prisma.taxCategory.findMany({
+      include: { _count: { select: { products: true, taxRates: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(categories);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch tax categories:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/tax/categories
+ * Creates a tax category.
+ */
+export async function POST(req: Request) {
+  try {
+    await checkAdmin();
+
+    const body = await req.json();
+    const validation = taxCategorySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const category = await prisma.taxCategory.create({
+      data: {
+        name: validation.data.name,
+        description: validation.data.description || null,
+      },
+    });
+
+    return NextResponse.json(category, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'A tax category with this name already exists' }, { status: 409 });
+    }
+    console.error('Failed to create tax category:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { taxRateSchema } from '@/lib/validations/tax-schema';
+import { Prisma } from '@prisma/client';
+
+/**
+ * PATCH /api/admin/tax/rates/[id]
+ * Updates a tax rate. Sending taxCategoryIds replaces the categories it applies to.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = taxRateSchema.partial().safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { taxCategoryIds, state, zipCode, ...rest } = validation.data;
+    const data: Prisma.TaxRateUpdateInput = { ...rest };
+    if (state !== undefined) data.state = state || null;
+    if (zipCode !== undefined) data.zipCode = zipCode || null;
+    if (taxCategoryIds) {
+      data.taxCategories = { set: taxCategoryIds.map((categoryId) => ({ id: categoryId })) };
+    }
+
+    const rate = await prisma.taxRate.update({
+      where: { id },
+      data,
+      include: { taxCategories: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json(rate);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Tax rate or category not found' }, { status: 404 });
+    }
+    console.error('Failed to update tax rate:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/tax/rates/[id]
+ * Deletes a tax rate.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await checkAdmin();
+    const { id } = await params;
+
+    await prisma.taxRate.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Tax rate deleted' });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 });
+    }
+    console.error('Failed to delete tax rate:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authErrorResponse, checkAdmin } from '@/lib/auth-helper';
+import { taxRateSchema } from '@/lib/validations/tax-schema';
+
+/**
+ * GET /api/admin/tax/rates
+ * Lists tax rates with the categories they apply to.
+ */
+export async function GET() {
+  try {
+    await checkAdmin();
+
+    const rates = await prisma.taxRate.findMany({
+      include: { taxCategories: { select: { id: true, name: true } } },
+      orderBy: [{ country: 'asc' }, { state: 'asc' }, { priority: 'asc' }],
+    });
+
+    return NextResponse.json(rates);
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    console.error('Failed to fetch tax rates:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/tax/rates
+ * Creates a tax rate. A rate without categories applies to products that have no tax category.
+ */
+export async function POST(req: Request) {
+  try {
+    await checkAdmin();
+
+    const body = await req.json();
+    const validation = taxRateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { taxCategoryIds, state, zipCode, ...data } = validation.data;
+
+    const rate = await prisma.taxRate.create({
+      data: {
+        ...data,
+        state: state || null,
+        zipCode: zipCode || null,
+        taxCategories: { connect: taxCategoryIds.map((id) => ({ id })) },
+      },
+      include: { taxCategories: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json(rate, { status: 201 });
+  } catch (error: any) {
+    const authError = authErrorResponse(error);
+    if (authError) return authError;
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'One or more tax categories were not found' }, { status: 400 });
+    }
+    console.error('Failed to create tax rate:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
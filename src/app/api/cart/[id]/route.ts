@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { CartError, removeCartItem, updateCartItemQuantity } from '@/lib/cart/cart';
+import * as z from 'zod';
+
+const updateItemSchema = z.object({
+  quantity: z.number().int().min(0),
+});
+
+/**
+ * PATCH /api/cart/[id] - Sets the quantity of a cart line (0 removes it)
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = updateItemSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const items = await updateCartItemQuantity(session.user.id, id, validation.data.quantity);
+    return NextResponse.json({ items });
+  } catch (error) {
+    if (error instanceof CartError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update cart item:', error);
+    return NextResponse.json({ error: 'Failed to update cart item' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/cart/[id] - Removes a line from the cart
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await removeCartItem(session.user.id, id);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Failed to remove cart item:', error);
+    return NextResponse.json({ error: 'Failed to remove cart item' }, { status: 500 });
+  }
+}
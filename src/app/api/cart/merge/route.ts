@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { mergeCart } from '@/lib/cart/cart';
+import * as z from 'zod';
+
+const mergeCartSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    productVariantId: z.string().uuid().optional().nullable(),
+    quantity: z.number().int().min(1),
+  })).max(100),
+});
+
+/**
+ * POST /api/cart/merge
+ * Merges the anonymous localStorage cart into the account cart after sign-in.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = mergeCartSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const items = await mergeCart(session.user.id, validation.data.items);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Failed to merge cart:', error);
+    return NextResponse.json({ error: 'Failed to merge cart' }, { status: 500 });
+  }
+}
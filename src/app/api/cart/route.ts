@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { addCartItem, CartError, clearCart, getCart } from '@/lib/cart/cart';
+import * as z from 'zod';
+
+const addItemSchema = z.object({
+  productId: z.string().uuid(),
+  productVariantId: z.string().uuid().optional().nullable(),
+  quantity: z.number().int().min(1).default(1),
+});
+
+/**
+ * GET /api/cart - Fetches the signed-in user's cart
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await getCart(session.user.id);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Failed to fetch cart:', error);
+    return NextResponse.json({ error: 'Failed to fetch cart' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cart - Adds a product (or tops up its quantity) in the cart
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = addItemSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const items = await addCartItem(session.user.id, validation.data);
+    return NextResponse.json({ items }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CartError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to add cart item:', error);
+    return NextResponse.json({ error: 'Failed to add item to cart' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/cart - Empties the cart
+ */
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await clearCart(session.user.id);
+    return NextResponse.json({ items: [] });
+  } catch (error) {
+    console.error('Failed to clear cart:', error);
+    return NextResponse.json({ error: 'Failed to clear cart' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { CATALOG_SORTS, getCatalog } from '@/lib/products/catalog';
+import * as z from 'zod';
+
+const flag = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const catalogQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(24),
+    sort: z.enum(CATALOG_SORTS).default('newest'),
+    category: z.string().trim().min(1).optional(),
+    minPrice: z.coerce.number().min(0).optional(),
+    maxPrice: z.coerce.number().min(0).optional(),
+    // Comma separated
+    tags: z
+      .string()
+      .transform((value) => value.split(',').map((tag) => tag.trim()).filter(Boolean))
+      .optional(),
+    // Repeated as option=Colour:Red&option=Size:M
+    option: z
+      .array(z.string().regex(/^[^:]+:.+$/, { message: 'Options must look like Colour:Red' }))
+      .optional(),
+    inStock: flag.optional(),
+    isBestSeller: flag.optional(),
+    isNewProduct: flag.optional(),
+  })
+  .refine((query) => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice, {
+    message: 'The minimum price cannot be above the maximum',
+    path: ['minPrice'],
+  });
+
+// Groups "Colour:Red", "Colour:Blue", "Size:M" into { Colour: ['Red', 'Blue'], Size: ['M'] }
+function groupOptions(pairs: string[] = []) {
+  const options: Record<string, string[]> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf(':');
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    options[name] = [...(options[name] ?? []), value];
+  }
+  return options;
+}
+
+/**
+ * GET /api/catalog
+ * Lists published products with filters, sorting and the facet counts for a storefront listing page.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const params = Object.fromEntries(
+      [...searchParams.entries()].filter(([key, value]) => key !== 'option' && value !== '')
+    );
+    const validation = catalogQuerySchema.safeParse({
+      ...params,
+      option: searchParams.getAll('option').filter(Boolean),
+    });
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { option, ...query } = validation.data;
+    return NextResponse.json(await getCatalog({ ...query, options: groupOptions(option) }));
+  } catch (error) {
+    console.error('Failed to fetch the catalogue:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
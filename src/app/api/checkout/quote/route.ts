@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { quoteCheckout, CheckoutError } from '@/lib/orders/checkout';
+import * as z from 'zod';
+
+const quoteSchema = z.object({
+  addressId: z.string().uuid().optional().nullable(),
+  address: z
+    .object({
+      country: z.string().trim().min(1, 'Country is required'),
+      state: z.string().trim().optional().nullable(),
+      postalCode: z.string().trim().optional().nullable(),
+    })
+    .optional()
+    .nullable(),
+  discountCode: z.string().trim().min(1).optional().nullable(),
+  giftCardCode: z.string().trim().min(1).optional().nullable(),
+  useStoreCredit: z.boolean().optional(),
+  shippingMethodId: z.string().uuid().optional().nullable(),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid(),
+        variantId: z.string().uuid().optional().nullable(),
+        quantity: z.number().int().min(1),
+      })
+    )
+    .max(100)
+    .optional(),
+});
+
+/**
+ * POST /api/checkout/quote
+ * Prices a cart with discount, tax and shipping without placing an order, and shows what a gift
+ * card and store credit would cover.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+
+    const body = await req.json();
+    const validation = quoteSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const quote = await quoteCheckout(session?.user?.id ?? null, validation.data);
+    return NextResponse.json(quote);
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to quote checkout:', error);
+    return NextResponse.json({ error: 'Failed to calculate totals' }, { status: 500 });
+  }
+}
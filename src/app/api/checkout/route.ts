@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { placeOrder, CheckoutError } from '@/lib/orders/checkout';
+import { getActiveGateway } from '@/lib/payments/registry';
+import { startPayment } from '@/lib/payments/service';
+import { prisma } from '@/lib/db';
+import { PaymentStatus } from '@prisma/client';
+import * as z from 'zod';
+
+const checkoutSchema = z.object({
+  addressId: z.string().uuid('A valid shipping address is required'),
+  discountCode: z.string().trim().min(1).optional().nullable(),
+  shippingMethodId: z.string().uuid().optional().nullable(),
+  // Not needed when a gift card and store credit cover the whole order
+  paymentMethod: z.string().min(1).optional().nullable(),
+  giftCardCode: z.string().trim().min(1).optional().nullable(),
+  useStoreCredit: z.boolean().optional(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+/**
+ * POST /api/checkout
+ * Places an order from the signed-in user's cart and opens a payment with the chosen gateway
+ * for whatever a gift card and store credit leave to pay.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in to checkout.' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = checkoutSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const gateway = validation.data.paymentMethod ? await getActiveGateway(validation.data.paymentMethod) : null;
+    if (validation.data.paymentMethod && !gateway) {
+      return NextResponse.json({ error: 'This payment method is not available' }, { status: 400 });
+    }
+
+    const order = await placeOrder(session.user.id, { ...validation.data, paymentMethod: gateway?.name ?? null });
+    // Nothing is left to pay, since discounts, a gift card or store credit covered the total
+    if (!gateway || order.paymentStatus === PaymentStatus.PAID) {
+      return NextResponse.json(order, { status: 201 });
+    }
+
+    try {
+      const payment = await startPayment(gateway, order.id);
+      return NextResponse.json({ ...order, paymentStatus: payment.status, payment }, { status: 201 });
+    } catch (error) {
+      console.error('Failed to start payment:', error);
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { paymentStatus: PaymentStatus.FAILED },
+      });
+      return NextResponse.json(
+        { error: 'Your order was placed but the payment could not be started', orderId: order.id },
+        { status: 502 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Checkout failed:', error);
+    return NextResponse.json({ error: 'Failed to place order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { csvResponseHeaders } from "@/lib/csv";
+import { exportCouponCodesCsv } from "@/lib/discounts/coupons";
+
+/**
+ * GET /api/discounts/[id]/batches/[batchId]/export
+ * Downloads every code of a batch as CSV, with who redeemed it.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, batchId } = await params;
+    const batch = await prisma.couponBatch.findFirst({ where: { id: batchId, discountId: id } });
+    if (!batch) {
+      return NextResponse.json({ error: 'Coupon batch not found' }, { status: 404 });
+    }
+
+    const fileName = `coupons-${batch.prefix.replace(/-+$/, '') || 'batch'}-${batch.createdAt.toISOString().slice(0, 10)}.csv`;
+    return new Response(exportCouponCodesCsv(batch.id), { headers: csvResponseHeaders(fileName.toLowerCase()) });
+  } catch (error) {
+    console.error('Error exporting coupon codes:', error);
+    return NextResponse.json({ error: 'Failed to export coupon codes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import * as z from "zod";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { couponRedemptionInclude } from "@/lib/discounts/coupons";
+
+const querySchema = z.object({
+  status: z.enum(['AVAILABLE', 'REDEEMED']).optional(),
+  search: z.string().trim().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * GET /api/discounts/[id]/batches/[batchId]
+ * A page of a batch's codes, with the order and customer that redeemed each used one.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = querySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+    const { status, search, page, limit } = validation.data;
+
+    const { id, batchId } = await params;
+    const batch = await prisma.couponBatch.findFirst({ where: { id: batchId, discountId: id } });
+    if (!batch) {
+      return NextResponse.json({ error: 'Coupon batch not found' }, { status: 404 });
+    }
+
+    const where = {
+      batchId,
+      ...(status && { redeemedAt: status === 'REDEEMED' ? { not: null } : null }),
+      ...(search && { code: { contains: search.toUpperCase() } }),
+    };
+
+    const [codes, total] = await Promise.all([
+      prisma.couponCode.findMany({
+        where,
+        include: couponRedemptionInclude,
+        orderBy: { code: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.couponCode.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      batch,
+      codes: codes.map(({ redemptions, ...code }) => ({ ...code, redemption: redemptions[0] ?? null })),
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    console.error('Error fetching coupon codes:', error);
+    return NextResponse.json({ error: 'Failed to fetch coupon codes' }, { status: 500 });
+  }
+}
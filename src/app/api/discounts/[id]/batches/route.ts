@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import * as z from "zod";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { CouponError, createCouponBatch, DEFAULT_COUPON_PATTERN, MAX_BATCH_SIZE } from "@/lib/discounts/coupons";
+
+const batchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  prefix: z
+    .string()
+    .trim()
+    .max(20)
+    .regex(/^[A-Za-z0-9-]*$/, "Use letters, digits and dashes only")
+    .default(""),
+  pattern: z
+    .string()
+    .trim()
+    .min(1)
+    .max(32)
+    .regex(/^[XxAa#-]+$/, "Use X, A, # and dashes only")
+    .default(DEFAULT_COUPON_PATTERN),
+  quantity: z.coerce.number().int().min(1).max(MAX_BATCH_SIZE),
+});
+
+/**
+ * GET /api/discounts/[id]/batches
+ * The coupon batches of a discount, newest first, with how many of their codes have been redeemed.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const batches = await prisma.couponBatch.findMany({
+      where: { discountId: id },
+      include: { createdBy: { select: { id: true, firstName: true, lastName: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const redeemed = await prisma.couponCode.groupBy({
+      by: ['batchId'],
+      where: { discountId: id, redeemedAt: { not: null } },
+      _count: { _all: true },
+    });
+    const redeemedCounts = new Map(redeemed.map((group) => [group.batchId, group._count._all]));
+
+    return NextResponse.json(
+      batches.map((batch) => ({ ...batch, redeemedCount: redeemedCounts.get(batch.id) ?? 0 }))
+    );
+  } catch (error) {
+    console.error('Error fetching coupon batches:', error);
+    return NextResponse.json({ error: 'Failed to fetch coupon batches' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/discounts/[id]/batches
+ * Generates a batch of unique single-use codes that redeem this discount's rules.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = batchSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const batch = await createCouponBatch({
+      ...validation.data,
+      discountId: id,
+      createdById: session.user.id,
+    });
+
+    return NextResponse.json({ ...batch, redeemedCount: 0 }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating coupon batch:', error);
+    return NextResponse.json({ error: 'Failed to create coupon batch' }, { status: 500 });
+  }
+}
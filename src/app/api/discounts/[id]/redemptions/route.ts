@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import * as z from "zod";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+
+const querySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/discounts/[id]/redemptions
+ * The orders that used a discount, newest first, including released ones.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = querySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+    const { page, limit } = validation.data;
+
+    const { id } = await params;
+    const discount = await prisma.discount.findUnique({
+      where: { id },
+      select: { id: true, code: true, name: true, usageCount: true, usageLimit: true, perUserLimit: true },
+    });
+    if (!discount) {
+      return NextResponse.json({ error: 'Discount not found' }, { status: 404 });
+    }
+
+    const [redemptions, total, totals] = await Promise.all([
+      prisma.discountRedemption.findMany({
+        where: { discountId: id },
+        include: {
+          order: { select: { id: true, orderNumber: true, status: true, total: true } },
+          user: { select: { id: true, firstName: true, lastName: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.discountRedemption.count({ where: { discountId: id } }),
+      prisma.discountRedemption.aggregate({
+        where: { discountId: id, releasedAt: null },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      discount,
+      totalDiscounted: totals._sum.amount ?? 0,
+      redemptions,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    console.error('Error fetching discount redemptions:', error);
+    return NextResponse.json({ error: 'Failed to fetch discount redemptions' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/lib/auth";
-import { DiscountType, DiscountApplicability } from "@prisma/client";
+import { DiscountType, DiscountApplicability, DiscountStacking } from "@prisma/client";
 
 type DiscountUpdateData = {
   name?: string;
@@ -18,6 +18,12 @@ type DiscountUpdateData = {
   usageLimit?: number | null;
   perUserLimit?: number | null;
   minQuantity?: number | null;
+  newDaysThreshold?: number | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  isAutomatic?: boolean;
+  stacking?: DiscountStacking;
+  priority?: number;
 };
 
 export async function GET(
@@ -100,12 +106,44 @@ export async function PATCH(
 
     const { id } = await params;
     const body = await request.json();
-    
+    // The discount form sends productIds and categoryIds
+    const { productIds, categoryIds, products = productIds, categories = categoryIds, ...fields } = body;
+
     // Handle date conversion if provided
-    const data: Partial<DiscountUpdateData> = { ...body };
+    const data: Partial<DiscountUpdateData> = { ...fields };
     if (data.validFrom) data.validFrom = new Date(data.validFrom as string);
     if (data.validTo) data.validTo = new Date(data.validTo as string);
 
+    const current = await prisma.discount.findUnique({ where: { id }, select: { code: true, isAutomatic: true } });
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Discount not found' },
+        { status: 404 }
+      );
+    }
+
+    // A code cannot be changed once given out, but automatic promotions have none: it is dropped
+    // when a discount becomes automatic and has to be given when it stops being automatic
+    const isAutomatic = data.isAutomatic ?? current.isAutomatic;
+    let code: string | null | undefined = undefined;
+    if (isAutomatic) {
+      code = null;
+    } else if (!current.code) {
+      code = typeof fields.code === 'string' ? fields.code.trim() : '';
+      if (!code) {
+        return NextResponse.json(
+          { error: 'Code is required' },
+          { status: 400 }
+        );
+      }
+      if (await prisma.couponCode.findUnique({ where: { code } })) {
+        return NextResponse.json(
+          { error: 'Discount code already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
     // Update the discount (removed unused variable)
     await prisma.discount.update({
       where: { id },
@@ -113,21 +151,21 @@ export async function PATCH(
         ...data,
         // Don't allow updating these fields directly
         id: undefined,
-        code: undefined
+        code
       }
     });
 
     // Update product relations if provided
-    if (body.products) {
+    if (products) {
       // First, remove all existing product relations
       await prisma.productDiscount.deleteMany({
         where: { discountId: id }
       });
 
       // Then add the new ones
-      if (body.products.length > 0) {
+      if (products.length > 0) {
         await prisma.productDiscount.createMany({
-          data: body.products.map((productId: string) => ({
+          data: products.map((productId: string) => ({
             productId,
             discountId: id
           }))
@@ -136,16 +174,16 @@ export async function PATCH(
     }
 
     // Update category relations if provided
-    if (body.categories) {
+    if (categories) {
       // First, remove all existing category relations
       await prisma.categoryDiscount.deleteMany({
         where: { discountId: id }
       });
 
       // Then add the new ones
-      if (body.categories.length > 0) {
+      if (categories.length > 0) {
         await prisma.categoryDiscount.createMany({
-          data: body.categories.map((categoryId: string) => ({
+          data: categories.map((categoryId: string) => ({
             categoryId,
             discountId: id
           }))
@@ -175,7 +213,10 @@ export async function PATCH(
     });
 
     return NextResponse.json(updatedDiscountWithRelations);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'Discount code already exists' }, { status: 409 });
+    }
     console.error('Error updating discount:', error);
     return NextResponse.json(
       { error: 'Failed to update discount' },
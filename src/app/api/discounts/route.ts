@@ -3,14 +3,14 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/lib/auth"; // Use the correct auth import
-import { Discount, DiscountType, DiscountApplicability } from "@prisma/client";
+import { Discount, DiscountType, DiscountApplicability, DiscountStacking } from "@prisma/client";
 
 // Note: You would typically define these Zod schemas in a shared validation file
 import { z } from "zod";
 
 const discountSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  code: z.string().min(1, "Code is required"),
+  code: z.string().trim().min(1).optional().nullable(),
   description: z.string().optional().nullable(),
   discountType: z.nativeEnum(DiscountType),
   discountValue: z.coerce.number().min(0.01),
@@ -20,9 +20,20 @@ const discountSchema = z.object({
   validFrom: z.string().datetime(),
   validTo: z.string().datetime(),
   usageLimit: z.coerce.number().int().min(1).optional().nullable(),
+  perUserLimit: z.coerce.number().int().min(1).optional().nullable(),
+  minQuantity: z.coerce.number().int().min(1).optional().nullable(),
+  newDaysThreshold: z.coerce.number().int().min(1).optional().nullable(),
+  buyQuantity: z.coerce.number().int().min(1).optional().nullable(),
+  getQuantity: z.coerce.number().int().min(1).optional().nullable(),
+  isAutomatic: z.boolean().default(false),
+  stacking: z.nativeEnum(DiscountStacking).default(DiscountStacking.STACKABLE),
+  priority: z.coerce.number().int().default(0),
   isActive: z.boolean().default(true),
   productIds: z.array(z.string()).optional(),
   categoryIds: z.array(z.string()).optional(),
+}).refine((data) => data.isAutomatic || !!data.code, {
+  message: "Code is required",
+  path: ["code"],
 });
 
 export async function GET() {
@@ -70,9 +81,17 @@ export async function POST(request: Request) {
     }
     
     const { productIds, categoryIds, ...discountData } = validation.data;
-
-    const existingDiscount = await prisma.discount.findUnique({ where: { code: discountData.code } });
-    if (existingDiscount) {
+    // Automatic promotions apply without a code
+    if (discountData.isAutomatic) discountData.code = null;
+
+    // Coupon codes from batches share the namespace, since either can be entered at checkout
+    const [existingDiscount, existingCoupon] = discountData.code
+      ? await Promise.all([
+          prisma.discount.findUnique({ where: { code: discountData.code } }),
+          prisma.couponCode.findUnique({ where: { code: discountData.code } }),
+        ])
+      : [null, null];
+    if (existingDiscount || existingCoupon) {
       return NextResponse.json({ error: 'Discount code already exists' }, { status: 409 });
     }
 
@@ -1,180 +1,99 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/db"
+import * as z from "zod";
 import { auth } from "@/lib/auth";
-
+import { applyDiscounts } from "@/lib/discounts/validate";
+import type { DiscountEvaluation } from "@/lib/discounts/engine";
+import { CheckoutError, loadCheckoutLines, type PricedLine } from "@/lib/orders/checkout";
+
+const validateSchema = z.object({
+  code: z.string().trim().min(1, "Discount code is required"),
+  // Guests send their cart; signed-in users are checked against their saved cart when this is left out
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid(),
+        variantId: z.string().uuid().optional().nullable(),
+        quantity: z.number().int().min(1),
+      })
+    )
+    .max(100)
+    .optional(),
+});
+
+const toLineResults = (lines: PricedLine[], evaluation: DiscountEvaluation) =>
+  lines.map((line, index) => ({
+    productId: line.productId,
+    productVariantId: line.productVariantId,
+    title: line.title,
+    eligible: evaluation.lines[index].eligible,
+    discount: evaluation.lines[index].discount,
+    reason: evaluation.lines[index].reason,
+  }));
+
+/**
+ * POST /api/discounts/validate
+ * Checks a discount code against the cart, priced from the catalogue, and shows what it takes off each line.
+ * The code is worked out after any automatic promotions that come first and may not combine with them.
+ */
 export async function POST(request: Request) {
   try {
-    const user = await auth();
-    const body = await request.json();
-    const { code, productIds = [], categoryIds = [], userId, subtotal = 0, quantity = 1 } = body;
+    const session = await auth();
+    const userId = session?.user?.id ?? null;
 
-    if (!code) {
-      return NextResponse.json(
-        { error: 'Discount code is required' },
-        { status: 400 }
-      );
+    const body = await request.json();
+    const validation = validateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
     }
 
-    // Find the discount by code
-    const discount = await prisma.discount.findUnique({
-      where: { code },
-      include: {
-        products: {
-          select: { productId: true }
-        },
-        categories: {
-          select: { categoryId: true }
-        }
-      }
-    });
-
-    if (!discount) {
-      return NextResponse.json(
-        { error: 'Invalid discount code' },
-        { status: 404 }
-      );
+    const lines = await loadCheckoutLines(userId, validation.data.items);
+    if (lines.length === 0) {
+      return NextResponse.json({ error: "Your cart is empty" }, { status: 400 });
     }
 
-    const now = new Date();
-    const validFrom = new Date(discount.validFrom);
-    const validTo = new Date(discount.validTo);
-
-    // Check if discount is active and within validity period
-    if (!discount.isActive || now < validFrom || now > validTo) {
-      return NextResponse.json(
-        { error: 'This discount code is not currently valid' },
-        { status: 400 }
-      );
-    }
+    const result = await applyDiscounts({
+      lines,
+      code: validation.data.code,
+      userId: userId ?? undefined,
+    });
 
-    // Check minimum purchase amount if set
-    if (discount.minimumPurchase && subtotal < discount.minimumPurchase) {
-      return NextResponse.json(
-        { 
-          error: `Minimum purchase amount of ₹${discount.minimumPurchase} required for this discount` 
-        },
-        { status: 400 }
-      );
-    }
+    // Automatic promotions that apply alongside the code
+    const promotions = result.applied
+      .filter(({ discount }) => discount.isAutomatic)
+      .map(({ discount, evaluation }) => ({ id: discount.id, name: discount.name, amount: evaluation.amount }));
 
-    // Check minimum quantity for volume discounts
-    if (discount.minQuantity && quantity < discount.minQuantity) {
+    if (result.codeError) {
       return NextResponse.json(
-        { 
-          error: `Minimum quantity of ${discount.minQuantity} items required for this discount` 
+        {
+          error: result.codeError.message,
+          reason: result.codeError.evaluation?.rejection?.reason ?? null,
+          lines: result.codeError.evaluation ? toLineResults(lines, result.codeError.evaluation) : [],
+          promotions,
         },
-        { status: 400 }
-      );
-    }
-
-    // Check if discount is applicable to the products in cart
-    if (discount.applicability === 'SPECIFIC_PRODUCTS') {
-      const discountProductIds = discount.products.map(p => p.productId);
-      const hasMatchingProduct = productIds.some((id: string) => 
-        discountProductIds.includes(id)
-      );
-
-      if (!hasMatchingProduct) {
-        return NextResponse.json(
-          { error: 'This discount code is not applicable to any items in your cart' },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Check if discount is applicable to the categories in cart
-    if (discount.applicability === 'SPECIFIC_CATEGORIES') {
-      const discountCategoryIds = discount.categories.map(c => c.categoryId);
-      const hasMatchingCategory = categoryIds.some((id: string) => 
-        discountCategoryIds.includes(id)
+        { status: result.codeError.status }
       );
-
-      if (!hasMatchingCategory) {
-        return NextResponse.json(
-          { error: 'This discount code is not applicable to any items in your cart' },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Check first purchase discount
-    if (discount.applicability === 'FIRST_PURCHASE' && userId) {
-      const orderCount = await prisma.order.count({
-        where: { userId }
-      });
-
-      if (orderCount > 0) {
-        return NextResponse.json(
-          { error: 'This discount is only valid for first-time customers' },
-          { status: 400 }
-        );
-      }
     }
 
-    // Check usage limit
-    if (discount.usageLimit) {
-      const usageCount = await prisma.userDiscountUsage.aggregate({
-        where: { discountId: discount.id },
-        _sum: { usageCount: true }
-      });
+    const { discount, evaluation } = result.applied.find(({ discount }) => !discount.isAutomatic)!;
 
-      const totalUsage = usageCount._sum.usageCount || 0;
-      
-      if (totalUsage >= discount.usageLimit) {
-        return NextResponse.json(
-          { error: 'This discount has reached its maximum usage limit' },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Check per-user usage limit if user is logged in
-    if (userId) {
-      const userUsage = await prisma.userDiscountUsage.findUnique({
-        where: {
-          userId_discountId: {
-            userId,
-            discountId: discount.id
-          }
-        }
-      });
-
-      if (userUsage && discount.perUserLimit && userUsage.usageCount >= discount.perUserLimit) {
-        return NextResponse.json(
-          { error: 'You have already used this discount the maximum number of times' },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Calculate discount amount
-    let discountAmount = 0;
-    
-    if (discount.discountType === 'PERCENTAGE') {
-      discountAmount = (subtotal * discount.discountValue) / 100;
-      
-      // Apply maximum discount cap if set
-      if (discount.maximumDiscount && discountAmount > discount.maximumDiscount) {
-        discountAmount = discount.maximumDiscount;
-      }
-    } else {
-      // Fixed amount discount
-      discountAmount = Math.min(discount.discountValue, subtotal);
-    }
-
-    // Prepare response
-    const response = {
+    return NextResponse.json({
       id: discount.id,
       code: discount.code,
       name: discount.name,
       description: discount.description,
       discountType: discount.discountType,
       discountValue: discount.discountValue,
-      amount: discountAmount
-    };
-
-    return NextResponse.json(response);
+      applicability: discount.applicability,
+      amount: evaluation.amount,
+      eligibleSubtotal: evaluation.eligibleSubtotal,
+      lines: toLineResults(lines, evaluation),
+      promotions,
+      totalDiscount: result.amount,
+    });
   } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error validating discount code:', error);
     return NextResponse.json(
       { error: 'Failed to validate discount code' },
@@ -0,0 +1,89 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { addGiftCardToAccount } from '@/lib/stored-value/gift-cards';
+import { StoredValueError } from '@/lib/stored-value/ledger';
+import * as z from 'zod';
+
+const addSchema = z.object({
+  code: z.string().trim().min(1, 'Enter a gift card code'),
+});
+
+const customerGiftCardSelect = {
+  id: true,
+  code: true,
+  initialBalance: true,
+  balance: true,
+  status: true,
+  expiresAt: true,
+  createdAt: true,
+  transactions: {
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+    select: {
+      id: true,
+      type: true,
+      amount: true,
+      balanceAfter: true,
+      note: true,
+      createdAt: true,
+      order: { select: { id: true, orderNumber: true } },
+    },
+  },
+} satisfies Prisma.GiftCardSelect;
+
+/**
+ * GET /api/gift-cards
+ * Lists the gift cards registered to the signed-in customer with their recent activity.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const giftCards = await prisma.giftCard.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      select: customerGiftCardSelect,
+    });
+
+    return NextResponse.json(giftCards);
+  } catch (error) {
+    console.error('Failed to fetch gift cards:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/gift-cards
+ * Adds a gift card to the signed-in customer's account by its code.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const validation = addSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const card = await addGiftCardToAccount(session.user.id, validation.data.code);
+    const giftCard = await prisma.giftCard.findUniqueOrThrow({
+      where: { id: card.id },
+      select: customerGiftCardSelect,
+    });
+    return NextResponse.json(giftCard, { status: 201 });
+  } catch (error) {
+    if (error instanceof StoredValueError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to add gift card:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
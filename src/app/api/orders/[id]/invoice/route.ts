@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { renderInvoice } from '@/lib/invoices/documents';
+import { documentFileName, InvoiceError, issueInvoice, pdfResponseHeaders } from '@/lib/invoices/invoice';
+
+/**
+ * GET /api/orders/[id]/invoice
+ * Downloads the invoice PDF for one of the signed-in customer's paid orders.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const order = await issueInvoice(id, session.user.id);
+
+    return new NextResponse(new Uint8Array(renderInvoice(order)), {
+      headers: pdfResponseHeaders(documentFileName('invoice', order.invoiceNumber)),
+    });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to generate invoice:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { createReturnRequest, openReturnItemsInclude, ReturnError, returnableQuantity } from '@/lib/returns/returns';
+import * as z from 'zod';
+
+const createReturnSchema = z.object({
+  reason: z.string().trim().min(1, 'Tell us why you are returning these items').max(500),
+  notes: z.string().trim().max(1000).optional().nullable(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(1),
+      })
+    )
+    .min(1, 'Select at least one item to return'),
+});
+
+/**
+ * GET /api/orders/[id]/returns
+ * Lists the signed-in customer's returns for an order and how much of each item can still be returned.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const order = await prisma.order.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        items: {
+          include: {
+            ...openReturnItemsInclude,
+            product: { select: { title: true } },
+            variant: { select: { name: true } },
+          },
+        },
+        returnRequests: {
+          include: { items: { select: { id: true, orderItemId: true, quantity: true, refundAmount: true } } },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      items: order.items.map((item) => ({
+        id: item.id,
+        title: item.variant ? `${item.product.title} - ${item.variant.name}` : item.product.title,
+        quantity: item.quantity,
+        returnable: returnableQuantity(item),
+      })),
+      // Admin notes are internal and are left out
+      returns: order.returnRequests.map((returnRequest) => ({
+        id: returnRequest.id,
+        rmaNumber: returnRequest.rmaNumber,
+        status: returnRequest.status,
+        reason: returnRequest.reason,
+        customerNotes: returnRequest.customerNotes,
+        refundAmount: returnRequest.refundAmount,
+        createdAt: returnRequest.createdAt,
+        refundedAt: returnRequest.refundedAt,
+        items: returnRequest.items,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch order returns:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/orders/[id]/returns
+ * Requests a return for some or all of the items of a delivered order.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const validation = createReturnSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const returnRequest = await createReturnRequest(session.user.id, id, validation.data);
+
+    return NextResponse.json(
+      { id: returnRequest.id, rmaNumber: returnRequest.rmaNumber, status: returnRequest.status },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to create return request:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+/**
+ * GET /api/orders/[id]
+ * Fetches one of the signed-in customer's orders with its items and shipping address.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const order = await prisma.order.findFirst({
+      where: { id, userId: session.user.id },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        paymentStatus: true,
+        paymentMethod: true,
+        subtotal: true,
+        discount: true,
+        tax: true,
+        taxBreakdown: true,
+        shippingCost: true,
+        shippingMethod: true,
+        total: true,
+        giftCardAmount: true,
+        storeCreditAmount: true,
+        refundedAmount: true,
+        invoiceNumber: true,
+        createdAt: true,
+        shippingAddress: true,
+        items: {
+          select: {
+            id: true,
+            quantity: true,
+            price: true,
+            total: true,
+            product: { select: { id: true, title: true } },
+            variant: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    // Someone else's order looks the same as a missing one
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.error('Failed to fetch order:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { shipmentInclude } from '@/lib/orders/admin';
+import { summariseFulfilment } from '@/lib/orders/fulfilment';
+
+/**
+ * GET /api/orders/[id]/tracking
+ * Shows the signed-in customer where the parcels for one of their orders are.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const order = await prisma.order.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        items: {
+          include: {
+            product: { select: { title: true } },
+            variant: { select: { name: true } },
+            shipmentItems: { include: { shipment: { select: { status: true } } } },
+          },
+        },
+        shipments: { include: shipmentInclude, orderBy: { shippedAt: 'asc' } },
+      },
+    });
+
+    // Someone else's order looks the same as a missing one
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const fulfilment = summariseFulfilment(order.items);
+
+    return NextResponse.json({
+      id: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      createdAt: order.createdAt,
+      shippingMethod: order.shippingMethod,
+      items: order.items.map((item, index) => ({
+        id: item.id,
+        title: item.variant ? `${item.product.title} - ${item.variant.name}` : item.product.title,
+        quantity: item.quantity,
+        shipped: fulfilment[index].shipped,
+        delivered: fulfilment[index].delivered,
+      })),
+      // Shipment notes are for the warehouse team and are left out
+      shipments: order.shipments.map((shipment) => ({
+        id: shipment.id,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+        status: shipment.status,
+        shippedAt: shipment.shippedAt,
+        deliveredAt: shipment.deliveredAt,
+        items: shipment.items,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch order tracking:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getActiveGateways } from '@/lib/payments/registry';
+
+/**
+ * GET /api/payments/gateways
+ * Lists the payment methods a customer can choose at checkout.
+ */
+export async function GET() {
+  try {
+    const gateways = await getActiveGateways();
+    return NextResponse.json(
+      gateways.map(({ id, name, provider }) => ({
+        id,
+        name,
+        provider: provider.key,
+        displayName: provider.displayName,
+      }))
+    );
+  } catch (error) {
+    console.error('Failed to fetch payment gateways:', error);
+    return NextResponse.json({ error: 'Failed to fetch payment methods' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveGateway } from '@/lib/payments/registry';
+import { applyPaymentStatus } from '@/lib/payments/service';
+import { SECURITY_EVENTS, logSecurityEventWithRequest } from '@/lib/security-logger';
+import { SecurityEventLevel } from '@prisma/client';
+
+/**
+ * POST /api/payments/webhook/[gateway]
+ * Receives payment status callbacks from a gateway and updates Order.paymentStatus.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ gateway: string }> }
+) {
+  try {
+    const { gateway: gatewayName } = await params;
+    const gateway = await getActiveGateway(gatewayName);
+    if (!gateway) {
+      return NextResponse.json({ error: 'Unknown payment gateway' }, { status: 404 });
+    }
+
+    // Signatures are computed over the exact bytes that were sent
+    const rawBody = await req.text();
+    const event = await gateway.provider.verifyWebhook(rawBody, req.headers);
+
+    if (!event) {
+      await logSecurityEventWithRequest(
+        req,
+        SECURITY_EVENTS.AUTH_UNAUTHORIZED_ACCESS,
+        { gateway: gateway.name, reason: 'invalid_webhook_signature', context: 'payment_webhook' },
+        SecurityEventLevel.WARN
+      );
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+    }
+
+    const order = await applyPaymentStatus(event.reference, event.status);
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ received: true, paymentStatus: order.paymentStatus });
+  } catch (error) {
+    console.error('Payment webhook failed:', error);
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
+  }
+}
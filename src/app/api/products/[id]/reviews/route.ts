@@ -0,0 +1,104 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ReviewStatus } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { publicReviewSelect, ReviewError, submitReview } from '@/lib/reviews/reviews';
+import { reviewSchema } from '@/lib/validations/review-schema';
+import * as z from 'zod';
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+/**
+ * GET /api/products/[id]/reviews
+ * Lists a product's approved reviews with its rating and how many reviews gave each star count.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const validation = listQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      select: { id: true, rating: true, reviewCount: true },
+    });
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const { page, limit } = validation.data;
+    const where = { productId: id, status: ReviewStatus.APPROVED };
+    const [reviews, stars] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: publicReviewSelect,
+      }),
+      prisma.review.groupBy({ by: ['rating'], where, _count: { _all: true } }),
+    ]);
+
+    const distribution = Object.fromEntries(
+      [5, 4, 3, 2, 1].map((rating) => [rating, stars.find((row) => row.rating === rating)?._count._all ?? 0])
+    );
+
+    return NextResponse.json({
+      data: reviews,
+      summary: { rating: product.rating ?? 0, reviewCount: product.reviewCount, distribution },
+      pagination: {
+        total: product.reviewCount,
+        page,
+        limit,
+        totalPages: Math.ceil(product.reviewCount / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch product reviews:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/products/[id]/reviews
+ * Submits or replaces the customer's review of a product they have received; it waits for moderation.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const validation = reviewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const review = await submitReview(session.user.id, id, validation.data);
+
+    return NextResponse.json(review, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to submit review:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
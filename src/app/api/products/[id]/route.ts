@@ -2,21 +2,15 @@
 import { NextResponse, NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/lib/auth";
+import { InventoryError, setStock } from "@/lib/inventory/stock";
 import { uploadImageToS3 } from "@/lib/s3";
 import { Product, ProductStatus } from "@prisma/client";
 import { productSchema } from "@/lib/validations/product-schema";
 import { z } from "zod";
 
+// Variants are managed through /api/products/[id]/variants
 type ProductUpdateData = Partial<z.infer<typeof productSchema>> & {
   images?: string[];
-  variants?: Array<{
-    id?: string;
-    name: string;
-    price: number;
-    sku: string;
-    stock: number;
-    attributes: Record<string, unknown>;
-  }>;
 };
 
 // Zod schema for validating product updates
@@ -93,46 +87,36 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
       });
     }
 
-    // Extract variants, images from data, and other data
-    const { variants, images: dataImages, ...productDataToUpdate } = dataToUpdate;
+    // Extract images from data, and other data
+    const { images: dataImages, stockQuantity, ...productDataToUpdate } = dataToUpdate;
     
     // Update the product with proper type handling
-    const updatedProduct = await prisma.product.update({
-      where: { id },
-      data: {
-        ...productDataToUpdate,
-        // Handle optional fields
-        categoryId: productDataToUpdate.categoryId || null,
-        taxCategoryId: productDataToUpdate.taxCategoryId || null,
-      },
-      include: {
-        images: true,
-        variants: true,
-      },
+    const updatedProduct = await prisma.$transaction(async (tx) => {
+      // Stock edits go through the inventory service so they appear in the stock history
+      if (stockQuantity !== undefined) {
+        await setStock(tx, { productId: id, quantity: stockQuantity, userId: session.user.id });
+      }
+
+      return tx.product.update({
+        where: { id },
+        data: {
+          ...productDataToUpdate,
+          // Handle optional fields
+          categoryId: productDataToUpdate.categoryId || null,
+          taxCategoryId: productDataToUpdate.taxCategoryId || null,
+        },
+        include: {
+          images: true,
+          variants: true,
+        },
+      });
     });
     
-    // Handle variants if provided
-    if (variants && variants.length > 0) {
-      // Delete existing variants
-      await prisma.productVariant.deleteMany({
-        where: { productId: id },
-      });
-      
-      // Create new variants
-      await prisma.productVariant.createMany({
-        data: variants.map(variant => ({
-          name: variant.name,
-          sku: variant.sku,
-          price: variant.price,
-          stockQuantity: variant.stock || 0,
-          attributes: variant.attributes as any,
-          productId: id,
-        })),
-      });
-    }
-
     return NextResponse.json(updatedProduct, { status: 200 });
   } catch (error) {
+    if (error instanceof InventoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Failed to update product:", error);
     return NextResponse.json(
       { error: "Internal Server Error" },
@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ProductStatus } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { InventoryError } from '@/lib/inventory/stock';
+import { getProductVariants, ProductVariantError, saveProductVariants } from '@/lib/products/variants';
+import { productVariantsSchema } from '@/lib/validations/variant-schema';
+
+const isStaff = (role?: string) => role === 'ADMIN' || role === 'EDITOR';
+
+/**
+ * GET /api/products/[id]/variants
+ * Lists a product's options and variants. Unpublished products are only visible to staff.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+
+    const product = await prisma.product.findUnique({ where: { id }, select: { status: true } });
+    if (!product || (product.status !== ProductStatus.PUBLISHED && !isStaff(session?.user?.role))) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getProductVariants(id));
+  } catch (error) {
+    console.error('Failed to fetch product variants:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/products/[id]/variants
+ * Replaces a product's options and variant matrix. Variants are matched by id; ones left out are removed.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user || !isStaff(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const validation = productVariantsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const product = await prisma.product.findUnique({ where: { id }, select: { id: true } });
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction((tx) => saveProductVariants(tx, id, validation.data, session.user.id));
+
+    return NextResponse.json(await getProductVariants(id));
+  } catch (error: any) {
+    if (error instanceof ProductVariantError || error instanceof InventoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'Another variant already uses one of these SKUs' }, { status: 409 });
+    }
+    console.error('Failed to save product variants:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { applyBulkProductOperation, ProductBulkError } from '@/lib/products/bulk-ops';
+import { productBulkSchema } from '@/lib/validations/product-bulk-schema';
+
+/**
+ * POST /api/products/bulk
+ * Applies one action (status, category, tags, price, flags or delete) to many products at once.
+ * Deleting is limited to admins, like deleting a single product.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user || !['ADMIN', 'EDITOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const validation = productBulkSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+    if (validation.data.operation === 'delete' && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Only admins can delete products' }, { status: 403 });
+    }
+
+    const affected = await applyBulkProductOperation(validation.data, session.user.id);
+
+    return NextResponse.json({ affected });
+  } catch (error: any) {
+    if (error instanceof ProductBulkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error.code === 'P2003') {
+      return NextResponse.json({ error: 'Some of these products are still in use and cannot be deleted' }, { status: 409 });
+    }
+    console.error('Failed to apply bulk product action:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -2,8 +2,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/lib/auth";
+import { changeStock, InventoryAction } from "@/lib/inventory/stock";
+import { saveProductVariants } from "@/lib/products/variants";
 import { uploadImageToS3 } from "@/lib/s3";
 import { productSchema } from "@/lib/validations/product-schema";
+import { productVariantSchema, productVariantsSchema } from "@/lib/validations/variant-schema";
 import { z } from "zod";
 import { Prisma, ProductStatus } from "@prisma/client";
 
@@ -20,23 +23,33 @@ type ProductFormData = {
   categoryId: string;
   madeOf?: string;
   weight?: string;
-  rating?: string;
   sku: string;
   images?: File[];
-  variants?: Array<{
-    name: string;
-    price: string;
-    sku: string;
-    stock: string;
-    attributes: Record<string, unknown>;
-  }>;
 };
 
+// Variants created with a new product point at one of the uploaded images by its position
+const newProductVariantsSchema = productVariantsSchema.safeExtend({
+  variants: z.array(productVariantSchema.extend({ imageIndex: z.number().int().min(0).optional() })),
+});
+
+// The options and variants arrive as JSON fields of the multipart form
+function parseJsonField(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== "string" || value === "") return [];
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * GET handler for fetching products with pagination and search.
+ * Staff see every product; everyone else only published ones (see /api/catalog for the storefront listing).
  */
 export async function GET(req: NextRequest) {
   try {
+    const session = await auth();
+    const isStaff = !!session?.user && ["ADMIN", "EDITOR"].includes(session.user.role);
     const { searchParams } = new URL(req.url);
     const page = parseInt(searchParams.get("page") || "1", 10);
     const limit = parseInt(searchParams.get("limit") || "10", 10);
@@ -44,14 +57,17 @@ export async function GET(req: NextRequest) {
 
     const skip = (page - 1) * limit;
 
-    const whereClause: Prisma.ProductWhereInput = searchTerm
-      ? {
-          OR: [
-            { title: { contains: searchTerm, mode: "insensitive" } },
-            { sku: { contains: searchTerm, mode: "insensitive" } },
-          ],
-        }
-      : {};
+    const whereClause: Prisma.ProductWhereInput = {
+      ...(isStaff ? {} : { status: ProductStatus.PUBLISHED }),
+      ...(searchTerm
+        ? {
+            OR: [
+              { title: { contains: searchTerm, mode: "insensitive" } },
+              { sku: { contains: searchTerm, mode: "insensitive" } },
+            ],
+          }
+        : {}),
+    };
 
     const [products, total] = await Promise.all([
       prisma.product.findMany({
@@ -100,7 +116,7 @@ export async function POST(req: NextRequest) {
     // Convert FormData to a plain object with proper typing
     const formDataObj: Partial<ProductFormData> = {};
     formData.forEach((value, key) => {
-      if (key !== "images" && key !== "variants") {
+      if (key !== "images" && key !== "variants" && key !== "options") {
         (formDataObj as any)[key] = value.toString();
       }
     });
@@ -115,7 +131,6 @@ export async function POST(req: NextRequest) {
       isBestSeller: formDataObj.isBestSeller === 'true',
       isNewProduct: formDataObj.isNewProduct === 'true',
       weight: formDataObj.weight ? parseFloat(formDataObj.weight) : undefined,
-      rating: formDataObj.rating ? parseFloat(formDataObj.rating) : undefined,
     };
 
     const validationResult = productSchema.safeParse(parsedData);
@@ -129,6 +144,17 @@ export async function POST(req: NextRequest) {
 
     const validatedData = validationResult.data;
 
+    const variantsValidation = newProductVariantsSchema.safeParse({
+      options: parseJsonField(formData.get("options")),
+      variants: parseJsonField(formData.get("variants")),
+    });
+    if (!variantsValidation.success) {
+      return NextResponse.json(
+        { error: variantsValidation.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
     if (!validatedData.categoryId) {
       return NextResponse.json(
         { error: "Category is required" },
@@ -162,7 +188,6 @@ export async function POST(req: NextRequest) {
           title: validatedData.title,
           description: validatedData.description,
           price: validatedData.price,
-          stockQuantity: validatedData.stockQuantity,
           comparePrice: validatedData.comparePrice,
           lowStockThreshold: validatedData.lowStockThreshold,
           isBestSeller: validatedData.isBestSeller || false,
@@ -171,11 +196,18 @@ export async function POST(req: NextRequest) {
           categoryId: validatedData.categoryId,
           madeOf: validatedData.madeOf || null,
           weight: validatedData.weight,
-          rating: validatedData.rating,
           sku: validatedData.sku,
         },
       });
 
+      // Opening stock is logged like any other stock movement
+      await changeStock(prisma, {
+        productId: newProduct.id,
+        quantity: validatedData.stockQuantity,
+        action: InventoryAction.INITIAL,
+        userId: session.user.id,
+      });
+
       // Add images
       if (imageUrls.length > 0) {
         await prisma.productImage.createMany({
@@ -187,11 +219,33 @@ export async function POST(req: NextRequest) {
         });
       }
 
-      return newProduct;
+      const { options, variants } = variantsValidation.data;
+      if (variants.length > 0) {
+        await saveProductVariants(
+          prisma,
+          newProduct.id,
+          {
+            options,
+            variants: variants.map(({ imageIndex, ...variant }) => ({
+              ...variant,
+              imageUrl: imageIndex !== undefined ? imageUrls[imageIndex] ?? null : variant.imageUrl,
+            })),
+          },
+          session.user.id
+        );
+      }
+
+      return { ...newProduct, stockQuantity: validatedData.stockQuantity };
     });
 
     return NextResponse.json(product, { status: 201 });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A product or variant with this SKU already exists" },
+        { status: 409 }
+      );
+    }
     console.error("Failed to create product:", error);
     return NextResponse.json(
       { error: "Internal Server Error" },
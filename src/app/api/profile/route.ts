@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { profileSchema } from '@/lib/validations/account-schema';
+
+const profileSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phoneNumber: true,
+  authMethod: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api/profile
+ * Fetches the signed-in customer's profile.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: profileSelect,
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Failed to fetch profile:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/profile
+ * Updates the signed-in customer's name. Email and phone number are used to sign in and are not changed here.
+ */
+export async function PATCH(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = profileSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: validation.data,
+      select: profileSelect,
+    });
+
+    return NextResponse.json(user);
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+    }
+    console.error('Failed to update profile:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
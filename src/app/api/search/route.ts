@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { search, SEARCH_TYPES } from '@/lib/search/search';
+import * as z from 'zod';
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, { message: 'Type at least 2 characters' }).max(200),
+  // Comma separated; all types when left out
+  types: z
+    .string()
+    .transform((value) => value.split(',').map((type) => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(SEARCH_TYPES)).min(1))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+/**
+ * GET /api/search
+ * Full-text search across published products, active services and published blog posts,
+ * best match first, with highlighted snippets. Words match as prefixes, so it works for typeahead.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const validation = searchQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { q, types, limit } = validation.data;
+    return NextResponse.json({ query: q, results: await search(q, { types, limit }) });
+  } catch (error) {
+    console.error('Failed to search:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
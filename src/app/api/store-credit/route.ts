@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+/**
+ * GET /api/store-credit
+ * Returns the signed-in customer's store credit balance and its latest movements.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        storeCredit: true,
+        storeCreditLedger: {
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+          select: {
+            id: true,
+            type: true,
+            amount: true,
+            balanceAfter: true,
+            note: true,
+            createdAt: true,
+            order: { select: { id: true, orderNumber: true } },
+          },
+        },
+      },
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ balance: user.storeCredit, transactions: user.storeCreditLedger });
+  } catch (error) {
+    console.error('Failed to fetch store credit:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
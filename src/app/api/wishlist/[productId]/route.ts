@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { removeFromWishlist, WishlistError } from '@/lib/wishlist/wishlist';
+
+/**
+ * DELETE /api/wishlist/[productId]
+ * Removes a product from the signed-in customer's wishlist.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const { productId } = await params;
+    await removeFromWishlist(session.user.id, productId);
+    return NextResponse.json({ message: 'Removed from wishlist' });
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to remove from wishlist:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { addToWishlist, listWishlist, WishlistError } from '@/lib/wishlist/wishlist';
+import * as z from 'zod';
+
+const addToWishlistSchema = z.object({
+  productId: z.string().uuid(),
+});
+
+/**
+ * GET /api/wishlist
+ * Lists the signed-in customer's wishlisted products with their current price and stock.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const items = await listWishlist(session.user.id);
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error('Failed to fetch wishlist:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/wishlist
+ * Adds a product to the signed-in customer's wishlist.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'You must be logged in.' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = addToWishlistSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const item = await addToWishlist(session.user.id, validation.data.productId);
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to add to wishlist:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
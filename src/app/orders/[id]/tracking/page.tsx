@@ -0,0 +1,172 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { CheckCircle, Loader2, Package, Truck } from "lucide-react"
+import { OrderStatus, ShipmentStatus } from "@prisma/client"
+import { OrderReturns } from "@/components/order-returns"
+
+interface Tracking {
+  id: string
+  orderNumber: string
+  status: OrderStatus
+  createdAt: string
+  shippingMethod: string | null
+  items: { id: string; title: string; quantity: number; shipped: number; delivered: number }[]
+  shipments: {
+    id: string
+    carrier: string
+    trackingNumber: string | null
+    trackingUrl: string | null
+    status: ShipmentStatus
+    shippedAt: string
+    deliveredAt: string | null
+    items: { id: string; quantity: number; orderItemId: string }[]
+  }[]
+}
+
+const STEPS: OrderStatus[] = ["PENDING", "PROCESSING", "SHIPPED", "DELIVERED"]
+
+const STEP_LABELS: Record<string, string> = {
+  PENDING: "Order placed",
+  PROCESSING: "Preparing",
+  SHIPPED: "Shipped",
+  DELIVERED: "Delivered",
+}
+
+export default function OrderTrackingPage() {
+  const { id } = useParams<{ id: string }>()
+  const [tracking, setTracking] = useState<Tracking | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/orders/${id}/tracking`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(typeof data.error === "string" ? data.error : "Could not load tracking")
+        }
+        setTracking(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not load tracking")
+      }
+    }
+    load()
+  }, [id])
+
+  if (error) {
+    return (
+      <div className="max-w-2xl mx-auto p-6 text-center">
+        <p className="text-red-600">{error}</p>
+        {error.includes("logged in") && (
+          <Link href="/login" className="text-[#a08452] underline">
+            Sign in
+          </Link>
+        )}
+      </div>
+    )
+  }
+
+  if (!tracking) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  const currentStep = STEPS.indexOf(tracking.status)
+  const titleFor = (orderItemId: string) => tracking.items.find((item) => item.id === orderItemId)?.title ?? "Item"
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Order {tracking.orderNumber}</h1>
+        <p className="text-sm text-gray-500">
+          Placed on {new Date(tracking.createdAt).toLocaleDateString()}
+          {tracking.shippingMethod && ` · ${tracking.shippingMethod}`}
+        </p>
+      </div>
+
+      {currentStep === -1 ? (
+        <p className="border rounded-md p-4 bg-gray-50">This order was {tracking.status.toLowerCase()}.</p>
+      ) : (
+        <ol className="flex justify-between">
+          {STEPS.map((step, index) => (
+            <li key={step} className="flex-1 flex flex-col items-center text-center">
+              <span
+                className={`h-8 w-8 rounded-full flex items-center justify-center ${
+                  index <= currentStep ? "bg-[#a08452] text-white" : "bg-gray-200 text-gray-500"
+                }`}
+              >
+                {index < currentStep ? <CheckCircle size={16} /> : index + 1}
+              </span>
+              <span className="mt-1 text-xs">{STEP_LABELS[step]}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Parcels</h2>
+        {tracking.shipments.length === 0 ? (
+          <p className="text-sm text-gray-500">Your order has not shipped yet.</p>
+        ) : (
+          tracking.shipments.map((shipment) => (
+            <div key={shipment.id} className="border rounded-md p-4 bg-white">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-medium">
+                  {shipment.status === "DELIVERED" ? <Package size={18} /> : <Truck size={18} />}
+                  {shipment.carrier}
+                </span>
+                <span className="text-sm">
+                  {shipment.status === "DELIVERED" && shipment.deliveredAt
+                    ? `Delivered ${new Date(shipment.deliveredAt).toLocaleDateString()}`
+                    : `Shipped ${new Date(shipment.shippedAt).toLocaleDateString()}`}
+                </span>
+              </div>
+              {shipment.trackingNumber && (
+                <p className="text-sm text-gray-600 mt-1">
+                  Tracking number:{" "}
+                  {shipment.trackingUrl ? (
+                    <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                      {shipment.trackingNumber}
+                    </a>
+                  ) : (
+                    shipment.trackingNumber
+                  )}
+                </p>
+              )}
+              <ul className="mt-2 text-sm text-gray-600 list-disc list-inside">
+                {shipment.items.map((line) => (
+                  <li key={line.id}>
+                    {titleFor(line.orderItemId)} x{line.quantity}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </section>
+
+      {tracking.items.some((item) => item.shipped < item.quantity) && (
+        <section>
+          <h2 className="text-lg font-medium">Still to ship</h2>
+          <ul className="text-sm text-gray-600 list-disc list-inside">
+            {tracking.items
+              .filter((item) => item.shipped < item.quantity)
+              .map((item) => (
+                <li key={item.id}>
+                  {item.title} x{item.quantity - item.shipped}
+                </li>
+              ))}
+          </ul>
+        </section>
+      )}
+
+      <OrderReturns orderId={tracking.id} canRequest={tracking.status === "DELIVERED"} />
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import { AddressBook } from "@/components/account/address-book"
+
+export default function ProfileAddressesPage() {
+  return <AddressBook />
+}
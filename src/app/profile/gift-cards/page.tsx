@@ -0,0 +1,5 @@
+import { GiftCards } from "@/components/account/gift-cards"
+
+export default function ProfileGiftCardsPage() {
+  return <GiftCards />
+}
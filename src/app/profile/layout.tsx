@@ -0,0 +1,20 @@
+"use client"
+
+import type React from "react"
+import QueryProvider from "@/lib/queryclient"
+import { AccountNav } from "@/components/account/account-nav"
+
+export default function ProfileLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <QueryProvider>
+      <div className="max-w-5xl mx-auto p-6 flex flex-col md:flex-row gap-6">
+        <AccountNav />
+        <main className="flex-1 min-w-0">{children}</main>
+      </div>
+    </QueryProvider>
+  )
+}
@@ -0,0 +1,9 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { OrderDetail } from "@/components/account/order-detail"
+
+export default function ProfileOrderPage() {
+  const { id } = useParams<{ id: string }>()
+  return <OrderDetail orderId={id} />
+}
@@ -0,0 +1,10 @@
+import { OrderHistory } from "@/components/account/order-history"
+
+export default function ProfileOrdersPage() {
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold mb-6">Your orders</h1>
+      <OrderHistory />
+    </div>
+  )
+}
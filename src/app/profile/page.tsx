@@ -0,0 +1,53 @@
+"use client"
+
+import Link from "next/link"
+import { useSession } from "next-auth/react"
+import { useQuery } from "@tanstack/react-query"
+import { OrderHistory } from "@/components/account/order-history"
+import { accountApi } from "@/lib/api/account"
+
+export default function ProfilePage() {
+  const { data: session } = useSession()
+  const { data: addresses = [] } = useQuery({
+    queryKey: ["addresses"],
+    queryFn: accountApi.getAddresses,
+  })
+
+  const defaultAddress = addresses.find((address) => address.isDefault)
+
+  return (
+    <div className="space-y-8">
+      <h1 className="text-2xl font-semibold">Hello{session?.user?.name ? `, ${session.user.name}` : ""}</h1>
+
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-medium">Recent orders</h2>
+          <Link href="/profile/orders" className="text-sm text-[#a08452] underline">
+            View all
+          </Link>
+        </div>
+        <OrderHistory limit={3} paginate={false} />
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-medium">Default address</h2>
+          <Link href="/profile/addresses" className="text-sm text-[#a08452] underline">
+            Manage
+          </Link>
+        </div>
+        {defaultAddress ? (
+          <div className="border rounded-md bg-white p-4 text-sm">
+            {defaultAddress.fullName && <p className="font-medium">{defaultAddress.fullName}</p>}
+            <p>{defaultAddress.street}</p>
+            <p>
+              {defaultAddress.city}, {defaultAddress.state} {defaultAddress.postalCode}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">You have no saved addresses yet.</p>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { PasswordForm } from "@/components/account/password-form"
+import { ProfileForm } from "@/components/account/profile-form"
+
+export default function ProfileSettingsPage() {
+  return (
+    <div className="space-y-8">
+      <section>
+        <h1 className="text-2xl font-semibold mb-6">Account settings</h1>
+        <ProfileForm />
+      </section>
+      <section>
+        <h2 className="text-lg font-medium mb-4">Change password</h2>
+        <PasswordForm />
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import { Wishlist } from "@/components/account/wishlist"
+
+export default function ProfileWishlistPage() {
+  return <Wishlist />
+}
@@ -2,6 +2,7 @@ import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/db';
 import { ComponentRenderer } from '@/components/public/ComponentRenderer';
+import { getFeaturedReviews } from '@/lib/reviews/reviews';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -109,6 +110,23 @@ export default async function ServicePage({ params }: ServicePageProps) {
   }
   breadcrumbs.push({ name: service.name, href: `/services/${service.slug}` });
 
+  // Review cards show live reviews, so look them up for each one on the page
+  const componentReviews = new Map(
+    await Promise.all(
+      service.components
+        .filter((component) => component.type === 'REVIEW_CARD')
+        .map(async (component) => {
+          const content = component.content as Record<string, any>;
+          const reviews = await getFeaturedReviews({
+            sku: content.sku,
+            minRating: Number(content.minRating) || 1,
+            limit: Number(content.limit) || 3,
+          });
+          return [component.id, reviews] as const;
+        })
+    )
+  );
+
   // Determine if this is a leaf service (has components) or category (has children)
   const isLeafService = service.components.length > 0;
   const hasChildren = service.children.length > 0;
@@ -194,6 +212,7 @@ export default async function ServicePage({ params }: ServicePageProps) {
                   content={component.content as Record<string, any>}
                   styleVariant={component.styleVariant || undefined}
                   carouselImages={component.carouselImages}
+                  reviews={componentReviews.get(component.id)}
                 />
               </div>
             ))}
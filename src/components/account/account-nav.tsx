@@ -0,0 +1,46 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { signOut } from "next-auth/react"
+import { Gift, Heart, Home, LogOut, MapPin, Package, Settings } from "lucide-react"
+
+const LINKS = [
+  { href: "/profile", label: "Overview", icon: Home, exact: true },
+  { href: "/profile/orders", label: "Orders", icon: Package, exact: false },
+  { href: "/profile/wishlist", label: "Wishlist", icon: Heart, exact: false },
+  { href: "/profile/addresses", label: "Addresses", icon: MapPin, exact: false },
+  { href: "/profile/gift-cards", label: "Gift cards & credit", icon: Gift, exact: false },
+  { href: "/profile/settings", label: "Account settings", icon: Settings, exact: false },
+]
+
+export function AccountNav() {
+  const pathname = usePathname()
+
+  return (
+    <nav className="md:w-56 shrink-0 space-y-1">
+      {LINKS.map(({ href, label, icon: Icon, exact }) => {
+        const active = exact ? pathname === href : pathname.startsWith(href)
+        return (
+          <Link
+            key={href}
+            href={href}
+            className={`flex items-center gap-2 px-3 py-2 rounded-md text-sm ${
+              active ? "bg-[#a08452] text-white" : "text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <Icon size={16} />
+            {label}
+          </Link>
+        )
+      })}
+      <button
+        onClick={() => signOut({ callbackUrl: "/login" })}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+      >
+        <LogOut size={16} />
+        Sign out
+      </button>
+    </nav>
+  )
+}
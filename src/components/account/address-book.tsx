@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import AddressFormModal from "@/components/address-form-modal"
+import { accountApi, Address, AddressPayload } from "@/lib/api/account"
+
+export function AddressBook() {
+  const queryClient = useQueryClient()
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editing, setEditing] = useState<Address | null>(null)
+
+  const { data: addresses = [], isLoading, error } = useQuery({
+    queryKey: ["addresses"],
+    queryFn: accountApi.getAddresses,
+  })
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["addresses"] })
+
+  const closeForm = () => {
+    setIsFormOpen(false)
+    setEditing(null)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: AddressPayload) =>
+      editing ? accountApi.updateAddress(editing.id, payload) : accountApi.createAddress(payload),
+    onSuccess: () => {
+      toast.success(editing ? "Address updated" : "Address added")
+      closeForm()
+      refresh()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const defaultMutation = useMutation({
+    mutationFn: (id: string) => accountApi.updateAddress(id, { isDefault: true }),
+    onSuccess: () => {
+      toast.success("Default address updated")
+      refresh()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: accountApi.deleteAddress,
+    onSuccess: () => {
+      toast.success("Address deleted")
+      refresh()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleDelete = (address: Address) => {
+    if (!confirm(`Delete the address at ${address.street}?`)) return
+    deleteMutation.mutate(address.id)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Addresses</h1>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="flex items-center gap-1 px-4 py-2 bg-[#a08452] hover:bg-[#8c703d] text-white rounded text-sm"
+        >
+          <Plus size={16} />
+          Add address
+        </button>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading addresses...</p>}
+      {error && <p className="text-sm text-red-600">Could not load your addresses</p>}
+      {!isLoading && addresses.length === 0 && (
+        <p className="text-sm text-gray-500">You have no saved addresses yet.</p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {addresses.map((address) => (
+          <div key={address.id} className="border rounded-md bg-white p-4 text-sm space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <p className="font-medium">{address.fullName || "Address"}</p>
+              {address.isDefault && (
+                <span className="px-2 text-xs leading-5 font-semibold rounded-full bg-[#f3ede3] text-[#795d2a]">
+                  Default
+                </span>
+              )}
+            </div>
+            <p>{address.street}</p>
+            <p>
+              {address.city}, {address.state} {address.postalCode}
+            </p>
+            {address.phoneNumber && <p className="text-gray-500">{address.phoneNumber}</p>}
+            <div className="flex items-center gap-3 pt-2">
+              <button
+                onClick={() => {
+                  setEditing(address)
+                  setIsFormOpen(true)
+                }}
+                className="flex items-center gap-1 text-gray-600 hover:text-gray-900"
+              >
+                <Pencil size={14} />
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(address)}
+                disabled={deleteMutation.isPending}
+                className="flex items-center gap-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                <Trash2 size={14} />
+                Delete
+              </button>
+              {!address.isDefault && (
+                <button
+                  onClick={() => defaultMutation.mutate(address.id)}
+                  disabled={defaultMutation.isPending}
+                  className="ml-auto text-[#a08452] underline disabled:opacity-50"
+                >
+                  Make default
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <AddressFormModal
+        key={editing?.id ?? "new"}
+        isOpen={isFormOpen}
+        onClose={closeForm}
+        onSubmit={(payload) => saveMutation.mutate(payload)}
+        address={editing}
+        isSubmitting={saveMutation.isPending}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { accountApi, BalanceTransaction, GiftCard } from "@/lib/api/account"
+
+const TRANSACTION_LABELS: Record<BalanceTransaction["type"], string> = {
+  ISSUE: "Issued",
+  REDEEM: "Spent",
+  RELEASE: "Returned",
+  REFUND: "Refund",
+  ADJUSTMENT: "Adjustment",
+  VOID: "Cancelled",
+}
+
+function giftCardState(card: GiftCard) {
+  if (card.status === "VOIDED") return "Cancelled"
+  if (card.expiresAt && new Date(card.expiresAt) < new Date()) return "Expired"
+  if (card.balance <= 0) return "Used up"
+  return card.expiresAt ? `Valid until ${format(new Date(card.expiresAt), "MMM d, yyyy")}` : "Active"
+}
+
+function TransactionList({ transactions }: { transactions: BalanceTransaction[] }) {
+  if (transactions.length === 0) return <p className="text-sm text-gray-500">No activity yet.</p>
+
+  return (
+    <ul className="divide-y text-sm">
+      {transactions.map((transaction) => (
+        <li key={transaction.id} className="flex justify-between gap-4 py-2">
+          <div>
+            <p>
+              {TRANSACTION_LABELS[transaction.type]}
+              {transaction.order && (
+                <>
+                  {" "}
+                  &middot;{" "}
+                  <Link href={`/profile/orders/${transaction.order.id}`} className="text-[#a08452] underline">
+                    {transaction.order.orderNumber}
+                  </Link>
+                </>
+              )}
+            </p>
+            <p className="text-gray-500">{format(new Date(transaction.createdAt), "MMM d, yyyy")}</p>
+          </div>
+          <p className={transaction.amount < 0 ? "text-gray-700" : "text-green-600"}>
+            {transaction.amount < 0 ? "-" : "+"}₹{Math.abs(transaction.amount).toLocaleString()}
+          </p>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function GiftCards() {
+  const queryClient = useQueryClient()
+  const [code, setCode] = useState("")
+
+  const giftCards = useQuery({ queryKey: ["gift-cards"], queryFn: accountApi.getGiftCards })
+  const storeCredit = useQuery({ queryKey: ["store-credit"], queryFn: accountApi.getStoreCredit })
+
+  const addMutation = useMutation({
+    mutationFn: accountApi.addGiftCard,
+    onSuccess: (card) => {
+      toast.success(`Gift card ${card.code} added`)
+      setCode("")
+      queryClient.invalidateQueries({ queryKey: ["gift-cards"] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (code.trim()) addMutation.mutate(code.trim())
+  }
+
+  if (giftCards.isLoading || storeCredit.isLoading) {
+    return <p className="text-sm text-gray-500">Loading gift cards...</p>
+  }
+  if (giftCards.error || storeCredit.error) {
+    return <p className="text-sm text-red-600">Could not load your gift cards and store credit</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Gift cards & store credit</h1>
+        <p className="text-sm text-gray-500">Both can pay for all or part of an order at checkout.</p>
+      </div>
+
+      <section className="border rounded-md bg-white p-4 space-y-3">
+        <div className="flex items-baseline justify-between">
+          <h2 className="font-medium">Store credit</h2>
+          <p className="text-xl font-semibold">₹{(storeCredit.data?.balance ?? 0).toLocaleString()}</p>
+        </div>
+        <TransactionList transactions={storeCredit.data?.transactions ?? []} />
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="font-medium">Gift cards</h2>
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="Gift card code"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+          />
+          <button
+            type="submit"
+            disabled={addMutation.isPending || !code.trim()}
+            className="px-4 py-2 bg-[#a08452] text-white rounded-md text-sm disabled:opacity-50"
+          >
+            {addMutation.isPending ? "Adding..." : "Add to account"}
+          </button>
+        </form>
+
+        {giftCards.data?.length === 0 ? (
+          <p className="text-sm text-gray-500">You have no gift cards yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {giftCards.data?.map((card) => (
+              <li key={card.id} className="border rounded-md bg-white p-4 space-y-3">
+                <div className="flex items-baseline justify-between gap-4">
+                  <div>
+                    <p className="font-mono font-medium">{card.code}</p>
+                    <p className="text-sm text-gray-500">{giftCardState(card)}</p>
+                  </div>
+                  <p className="text-right">
+                    <span className="text-xl font-semibold">₹{card.balance.toLocaleString()}</span>
+                    <span className="block text-sm text-gray-500">
+                      of ₹{card.initialBalance.toLocaleString()}
+                    </span>
+                  </p>
+                </div>
+                <TransactionList transactions={card.transactions} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import Link from "next/link"
+import { useQuery } from "@tanstack/react-query"
+import { Loader2 } from "lucide-react"
+import { accountApi } from "@/lib/api/account"
+import { reviewApi } from "@/lib/api/reviews"
+import { OrderStatusBadge } from "./order-status-badge"
+import { ProductReview } from "./product-review"
+
+export function OrderDetail({ orderId }: { orderId: string }) {
+  const { data: order, isLoading, error } = useQuery({
+    queryKey: ["my-order", orderId],
+    queryFn: () => accountApi.getOrder(orderId),
+  })
+
+  // Only received items can be reviewed
+  const canReview = order?.status === "DELIVERED"
+  const { data: reviews = [] } = useQuery({
+    queryKey: ["my-reviews"],
+    queryFn: reviewApi.getMyReviews,
+    enabled: canReview,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !order) {
+    return <p className="text-red-600">{error instanceof Error ? error.message : "Order not found"}</p>
+  }
+
+  const address = order.shippingAddress
+  const taxes = order.taxBreakdown ?? []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Order {order.orderNumber}</h1>
+          <p className="text-sm text-gray-500">Placed on {new Date(order.createdAt).toLocaleString()}</p>
+        </div>
+        <OrderStatusBadge status={order.status} />
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <Link href={`/orders/${order.id}/tracking`} className="text-[#a08452] underline">
+          Track parcels and returns
+        </Link>
+        {(order.paymentStatus === "PAID" || order.paymentStatus === "REFUNDED") && (
+          <a href={`/api/orders/${order.id}/invoice`} className="text-[#a08452] underline">
+            Download invoice{order.invoiceNumber && ` ${order.invoiceNumber}`}
+          </a>
+        )}
+      </div>
+
+      <section className="border rounded-md bg-white">
+        <ul className="divide-y">
+          {order.items.map((item, index) => (
+            <li key={item.id} className="p-4 text-sm space-y-2">
+              <div className="flex justify-between gap-4">
+                <span>
+                  {item.product.title}
+                  {item.variant && <span className="text-gray-500"> ({item.variant.name})</span>} x{item.quantity}
+                </span>
+                <span>₹{item.total.toLocaleString()}</span>
+              </div>
+              {/* One review per product, even when several variants were bought */}
+              {canReview && order.items.findIndex((line) => line.product.id === item.product.id) === index && (
+                <ProductReview
+                  key={reviews.find((review) => review.productId === item.product.id)?.updatedAt}
+                  productId={item.product.id}
+                  review={reviews.find((review) => review.productId === item.product.id)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="border-t p-4 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span>Subtotal</span>
+            <span>₹{order.subtotal.toLocaleString()}</span>
+          </div>
+          {order.discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Discount</span>
+              <span>-₹{order.discount.toLocaleString()}</span>
+            </div>
+          )}
+          {taxes.length > 0 ? (
+            taxes.map((tax) => (
+              <div key={tax.rateId} className="flex justify-between">
+                <span>
+                  {tax.name} ({tax.rate}%)
+                </span>
+                <span>₹{tax.amount.toLocaleString()}</span>
+              </div>
+            ))
+          ) : (
+            <div className="flex justify-between">
+              <span>Tax</span>
+              <span>₹{order.tax.toLocaleString()}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Delivery{order.shippingMethod && ` (${order.shippingMethod})`}</span>
+            <span>{order.shippingCost === 0 ? "Free" : `₹${order.shippingCost.toLocaleString()}`}</span>
+          </div>
+          <div className="flex justify-between font-medium text-base pt-2">
+            <span>Total</span>
+            <span>₹{order.total.toLocaleString()}</span>
+          </div>
+          {order.giftCardAmount > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Paid by gift card</span>
+              <span>₹{order.giftCardAmount.toLocaleString()}</span>
+            </div>
+          )}
+          {order.storeCreditAmount > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Paid with store credit</span>
+              <span>₹{order.storeCreditAmount.toLocaleString()}</span>
+            </div>
+          )}
+          {order.refundedAmount > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Refunded</span>
+              <span>₹{order.refundedAmount.toLocaleString()}</span>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-2 text-sm">
+        <section className="border rounded-md bg-white p-4">
+          <h2 className="font-medium mb-2">Shipping address</h2>
+          {address.fullName && <p>{address.fullName}</p>}
+          <p>{address.street}</p>
+          <p>
+            {address.city}, {address.state} {address.postalCode}
+          </p>
+          <p>{address.country}</p>
+          {address.phoneNumber && <p className="text-gray-500">{address.phoneNumber}</p>}
+        </section>
+        <section className="border rounded-md bg-white p-4">
+          <h2 className="font-medium mb-2">Payment</h2>
+          <p>{order.paymentMethod ?? "Not chosen"}</p>
+          <p className="text-gray-500">{order.paymentStatus.toLowerCase()}</p>
+        </section>
+      </div>
+    </div>
+  )
+}
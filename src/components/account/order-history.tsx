@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useQuery } from "@tanstack/react-query"
+import { accountApi } from "@/lib/api/account"
+import { OrderStatusBadge } from "./order-status-badge"
+
+interface OrderHistoryProps {
+  // Shows only the latest orders without paging, e.g. on the account overview
+  limit?: number
+  paginate?: boolean
+}
+
+export function OrderHistory({ limit = 10, paginate = true }: OrderHistoryProps) {
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["my-orders", currentPage, limit],
+    queryFn: () => accountApi.getOrders(currentPage, limit),
+  })
+
+  const orders = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading orders...</p>
+  if (error) return <p className="text-sm text-red-600">Could not load your orders</p>
+
+  if (orders.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        You have not placed any orders yet.{" "}
+        <Link href="/" className="text-[#a08452] underline">
+          Start shopping
+        </Link>
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y border rounded-md bg-white">
+        {orders.map((order) => (
+          <li key={order.id}>
+            <Link
+              href={`/profile/orders/${order.id}`}
+              className="flex items-center justify-between gap-4 p-4 hover:bg-gray-50"
+            >
+              <div>
+                <p className="font-medium">{order.orderNumber}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(order.createdAt).toLocaleDateString()} · {order._count.items}{" "}
+                  {order._count.items === 1 ? "item" : "items"}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-sm">₹{order.total.toLocaleString()}</span>
+                <OrderStatusBadge status={order.status} />
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      {paginate && totalPages > 1 && (
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-500">
+            Page {currentPage} of {totalPages}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+              disabled={currentPage === 1}
+              className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+              disabled={currentPage >= totalPages}
+              className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { OrderStatus } from "@prisma/client"
+
+const STATUS_STYLES: Record<OrderStatus, { label: string; className: string }> = {
+  PENDING: { label: "Placed", className: "bg-yellow-100 text-yellow-800" },
+  PROCESSING: { label: "Preparing", className: "bg-indigo-100 text-indigo-800" },
+  SHIPPED: { label: "Shipped", className: "bg-blue-100 text-blue-800" },
+  DELIVERED: { label: "Delivered", className: "bg-green-100 text-green-800" },
+  CANCELLED: { label: "Cancelled", className: "bg-red-100 text-red-800" },
+  REFUNDED: { label: "Refunded", className: "bg-gray-100 text-gray-800" },
+}
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  const style = STATUS_STYLES[status]
+  return (
+    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${style.className}`}>
+      {style.label}
+    </span>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { accountApi } from "@/lib/api/account"
+
+export function PasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const mutation = useMutation({
+    mutationFn: accountApi.changePassword,
+    onSuccess: () => {
+      toast.success("Password changed")
+      setCurrentPassword("")
+      setNewPassword("")
+      setConfirmPassword("")
+    },
+    onError: (err: Error) => setError(err.message),
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (newPassword.length < 8) {
+      setError("Password must be at least 8 characters")
+      return
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords don't match")
+      return
+    }
+    if (newPassword === currentPassword) {
+      setError("New password must be different from current password")
+      return
+    }
+    setError(null)
+    mutation.mutate({ currentPassword, newPassword })
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-w-sm">
+      <div>
+        <label htmlFor="currentPassword" className="block text-sm font-medium mb-1">
+          Current password
+        </label>
+        <input
+          id="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          className={inputClass}
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="newPassword" className="block text-sm font-medium mb-1">
+          New password
+        </label>
+        <input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          className={inputClass}
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium mb-1">
+          Confirm new password
+        </label>
+        <input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClass}
+          required
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={mutation.isPending}
+        className="px-4 py-2 bg-[#a08452] hover:bg-[#8c703d] text-white rounded text-sm disabled:opacity-50"
+      >
+        {mutation.isPending ? "Changing..." : "Change password"}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { Star } from "lucide-react"
+import { toast } from "sonner"
+import { MyReview, reviewApi } from "@/lib/api/reviews"
+
+const STATUS_LABELS: Record<MyReview["status"], string> = {
+  PENDING: "Awaiting moderation",
+  APPROVED: "Published",
+  REJECTED: "Not published",
+}
+
+/**
+ * Lets the customer rate a product from a delivered order, or edit the review they already left.
+ */
+export function ProductReview({ productId, review }: { productId: string; review?: MyReview }) {
+  const queryClient = useQueryClient()
+  const [isOpen, setIsOpen] = useState(false)
+  const [rating, setRating] = useState(review?.rating ?? 0)
+  const [comment, setComment] = useState(review?.comment ?? "")
+
+  const mutation = useMutation({
+    mutationFn: () => reviewApi.submitReview(productId, { rating, comment: comment.trim() || undefined }),
+    onSuccess: () => {
+      toast.success("Thanks! Your review will appear once it has been checked.")
+      setIsOpen(false)
+      queryClient.invalidateQueries({ queryKey: ["my-reviews"] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  if (!isOpen) {
+    return (
+      <div className="flex items-center gap-2 text-xs">
+        {review && <span className="text-gray-500">Your review: {STATUS_LABELS[review.status]}</span>}
+        <button onClick={() => setIsOpen(true)} className="text-[#a08452] underline">
+          {review ? "Edit review" : "Write a review"}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        mutation.mutate()
+      }}
+      className="space-y-2 w-full"
+    >
+      <div className="flex gap-1" role="radiogroup" aria-label="Rating">
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={`${value} ${value === 1 ? "star" : "stars"}`}
+            onClick={() => setRating(value)}
+          >
+            <Star size={20} className={value <= rating ? "text-yellow-400 fill-yellow-400" : "text-gray-300"} />
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="What did you think of it?"
+        rows={3}
+        maxLength={2000}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setIsOpen(false)} className="px-3 py-1 border rounded text-xs">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={rating === 0 || mutation.isPending}
+          className="px-3 py-1 bg-[#a08452] hover:bg-[#8c703d] text-white rounded text-xs disabled:opacity-50"
+        >
+          {mutation.isPending ? "Submitting..." : "Submit review"}
+        </button>
+      </div>
+    </form>
+  )
+}
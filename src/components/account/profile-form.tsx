@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { accountApi, Profile } from "@/lib/api/account"
+
+function ProfileFields({ profile }: { profile: Profile }) {
+  const queryClient = useQueryClient()
+  const [firstName, setFirstName] = useState(profile.firstName)
+  const [lastName, setLastName] = useState(profile.lastName)
+
+  const mutation = useMutation({
+    mutationFn: accountApi.updateProfile,
+    onSuccess: (updated) => {
+      toast.success("Profile updated")
+      queryClient.setQueryData(["profile"], updated)
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        mutation.mutate({ firstName, lastName })
+      }}
+      className="space-y-4"
+    >
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label htmlFor="firstName" className="block text-sm font-medium mb-1">
+            First name
+          </label>
+          <input
+            id="firstName"
+            value={firstName}
+            onChange={(e) => setFirstName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="lastName" className="block text-sm font-medium mb-1">
+            Last name
+          </label>
+          <input
+            id="lastName"
+            value={lastName}
+            onChange={(e) => setLastName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
+          />
+        </div>
+      </div>
+      {profile.email && <p className="text-sm text-gray-500">Email: {profile.email}</p>}
+      {profile.phoneNumber && <p className="text-sm text-gray-500">Phone: {profile.phoneNumber}</p>}
+      <button
+        type="submit"
+        disabled={mutation.isPending}
+        className="px-4 py-2 bg-[#a08452] hover:bg-[#8c703d] text-white rounded text-sm disabled:opacity-50"
+      >
+        {mutation.isPending ? "Saving..." : "Save changes"}
+      </button>
+    </form>
+  )
+}
+
+export function ProfileForm() {
+  const { data: profile, isLoading, error } = useQuery({
+    queryKey: ["profile"],
+    queryFn: accountApi.getProfile,
+  })
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading profile...</p>
+  if (error || !profile) return <p className="text-sm text-red-600">Could not load your profile</p>
+
+  return <ProfileFields profile={profile} />
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import Image from "next/image"
+import Link from "next/link"
+import { wishlistApi } from "@/lib/api/wishlist"
+import { WishlistButton } from "@/components/wishlist-button"
+
+export function Wishlist() {
+  const queryClient = useQueryClient()
+
+  const { data: items = [], isLoading, error } = useQuery({
+    queryKey: ["wishlist"],
+    queryFn: wishlistApi.getWishlist,
+  })
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading wishlist...</p>
+  if (error) return <p className="text-sm text-red-600">Could not load your wishlist</p>
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Wishlist</h1>
+        <p className="text-sm text-gray-500">
+          We&apos;ll email you when something here comes back in stock or gets cheaper.
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Your wishlist is empty.{" "}
+          <Link href="/" className="text-[#a08452] underline">
+            Start shopping
+          </Link>
+        </p>
+      ) : (
+        <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {items.map((item) => (
+            <li key={item.id} className="relative border rounded-md bg-white overflow-hidden">
+              {item.product.image ? (
+                <Image
+                  src={item.product.image}
+                  alt={item.product.title}
+                  width={400}
+                  height={192}
+                  className="w-full h-48 object-cover"
+                />
+              ) : (
+                <div className="w-full h-48 bg-gray-100" />
+              )}
+              <WishlistButton
+                productId={item.productId}
+                isWishlisted
+                onChange={() => queryClient.invalidateQueries({ queryKey: ["wishlist"] })}
+                className="absolute top-2 right-2"
+              />
+              <div className="p-4 space-y-1 text-sm">
+                <p className="font-medium">{item.product.title}</p>
+                <p>
+                  ₹{item.product.price.toLocaleString()}
+                  {item.product.price < item.addedPrice && (
+                    <span className="ml-2 text-green-600">
+                      was ₹{item.addedPrice.toLocaleString()} when you saved it
+                    </span>
+                  )}
+                </p>
+                <p className={item.product.inStock ? "text-gray-500" : "text-red-600"}>
+                  {item.product.status !== "PUBLISHED"
+                    ? "No longer available"
+                    : item.product.inStock
+                      ? "In stock"
+                      : "Out of stock"}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -5,33 +5,42 @@ import type React from "react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import type { Address, AddressPayload } from "@/lib/api/account";
+import { STATES } from "@/lib/account/states";
 
 interface AddressFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (addressData: any) => void;
+  onSubmit: (addressData: AddressPayload) => void;
+  // Fills the form in for editing a saved address
+  address?: Address | null;
+  isSubmitting?: boolean;
 }
 
 export default function AddressFormModal({
   isOpen,
   onClose,
   onSubmit,
+  address,
+  isSubmitting = false,
 }: AddressFormModalProps) {
-  const [isDefaultAddress, setIsDefaultAddress] = useState(false);
+  const [isDefaultAddress, setIsDefaultAddress] = useState(address?.isDefault ?? false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
     // Get form data
     const formData = new FormData(e.target as HTMLFormElement);
-    const addressData = {
-      name: formData.get("name"),
-      mobile: formData.get("mobile"),
-      building: formData.get("building"),
-      area: formData.get("area"),
-      city: formData.get("city"),
-      pincode: formData.get("pincode"),
-      state: formData.get("state"),
+    const building = String(formData.get("building") ?? "").trim();
+    const area = String(formData.get("area") ?? "").trim();
+    const addressData: AddressPayload = {
+      fullName: String(formData.get("name") ?? ""),
+      phoneNumber: String(formData.get("mobile") ?? ""),
+      street: area ? `${building}, ${area}` : building,
+      city: String(formData.get("city") ?? ""),
+      postalCode: String(formData.get("pincode") ?? ""),
+      state: String(formData.get("state") ?? ""),
+      country: address?.country ?? "IN",
       isDefault: isDefaultAddress,
     };
 
@@ -43,7 +52,9 @@ export default function AddressFormModal({
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-md max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
-        <h2 className="text-2xl font-medium mb-6">Enter a New Address</h2>
+        <h2 className="text-2xl font-medium mb-6">
+          {address ? "Edit Address" : "Enter a New Address"}
+        </h2>
 
         <form onSubmit={handleSubmit}>
           <div className="space-y-4">
@@ -52,6 +63,7 @@ export default function AddressFormModal({
               <input
                 type="text"
                 name="name"
+                defaultValue={address?.fullName ?? ""}
                 placeholder="Enter Name"
                 className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
                 required
@@ -65,6 +77,7 @@ export default function AddressFormModal({
               <input
                 type="tel"
                 name="mobile"
+                defaultValue={address?.phoneNumber ?? ""}
                 placeholder="Enter Your Mobile Number"
                 className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
                 required
@@ -78,6 +91,7 @@ export default function AddressFormModal({
               <input
                 type="text"
                 name="building"
+                defaultValue={address?.street ?? ""}
                 className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
                 required
               />
@@ -91,24 +105,19 @@ export default function AddressFormModal({
                 type="text"
                 name="area"
                 className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
-                required
               />
             </div>
 
             <div>
               <label className="block text-sm font-medium mb-1">City</label>
-              <select
+              <input
+                type="text"
                 name="city"
-                className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452] appearance-none"
+                defaultValue={address?.city ?? ""}
+                placeholder="Enter City"
+                className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
                 required
-              >
-                <option value="">Select City</option>
-                <option value="delhi">Delhi</option>
-                <option value="mumbai">Mumbai</option>
-                <option value="bangalore">Bangalore</option>
-                <option value="chennai">Chennai</option>
-                <option value="kolkata">Kolkata</option>
-              </select>
+              />
             </div>
 
             <div>
@@ -116,6 +125,7 @@ export default function AddressFormModal({
               <input
                 type="text"
                 name="pincode"
+                defaultValue={address?.postalCode ?? ""}
                 placeholder="Enter Pin Code"
                 className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452]"
                 required
@@ -126,15 +136,16 @@ export default function AddressFormModal({
               <label className="block text-sm font-medium mb-1">State</label>
               <select
                 name="state"
+                defaultValue={address?.state ?? ""}
                 className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-[#a08452] appearance-none"
                 required
               >
                 <option value="">Select State</option>
-                <option value="delhi">Delhi</option>
-                <option value="maharashtra">Maharashtra</option>
-                <option value="karnataka">Karnataka</option>
-                <option value="tamil-nadu">Tamil Nadu</option>
-                <option value="west-bengal">West Bengal</option>
+                {STATES.map((state) => (
+                  <option key={state} value={state}>
+                    {state}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -158,8 +169,9 @@ export default function AddressFormModal({
               <Button
                 type="submit"
                 className="flex-1 bg-[#a08452] hover:bg-[#8c703d] text-white py-3"
+                disabled={isSubmitting}
               >
-                Add New Address
+                {isSubmitting ? "Saving..." : address ? "Save Address" : "Add New Address"}
               </Button>
               <Button
                 type="button"
@@ -3,8 +3,15 @@ import { useState } from "react";
 import type React from "react";
 
 import { ChevronDown } from "lucide-react";
+import { accountApi, type Address } from "@/lib/api/account";
+import { STATES } from "@/lib/account/states";
 
-export default function AddressForm() {
+interface AddressFormProps {
+  // Called with the saved address, e.g. to select it at checkout
+  onSaved?: (address: Address) => void;
+}
+
+export default function AddressForm({ onSaved }: AddressFormProps) {
   const [formData, setFormData] = useState({
     name: "",
     mobile: "",
@@ -15,6 +22,8 @@ export default function AddressForm() {
     state: "",
     isDefault: false,
   });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   const [errors, setErrors] = useState({
     name: "",
@@ -69,8 +78,8 @@ export default function AddressForm() {
       valid = false;
     }
 
-    if (!formData.city) {
-      newErrors.city = "Please select a city";
+    if (!formData.city.trim()) {
+      newErrors.city = "City is required";
       valid = false;
     }
 
@@ -91,12 +100,25 @@ export default function AddressForm() {
     return valid;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (validateForm()) {
-      // Submit form data
-      console.log("Form submitted:", formData);
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const address = await accountApi.createAddress({
+        fullName: formData.name.trim(),
+        phoneNumber: formData.mobile.trim(),
+        street: `${formData.flat.trim()}, ${formData.area.trim()}`,
+        city: formData.city.trim(),
+        state: formData.state,
+        postalCode: formData.pincode.trim(),
+        country: "IN",
+        isDefault: formData.isDefault,
+      });
+      onSaved?.(address);
       // Reset form after submission
       setFormData({
         name: "",
@@ -108,6 +130,10 @@ export default function AddressForm() {
         state: "",
         isDefault: false,
       });
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Could not save the address");
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -215,27 +241,19 @@ export default function AddressForm() {
             <label htmlFor="city" className="block text-sm font-medium mb-1">
               City
             </label>
-            <div className="relative">
-              <select
-                id="city"
-                name="city"
-                value={formData.city}
-                onChange={handleChange}
-                className={`w-full px-4 py-3 border ${
-                  errors.city ? "border-red-500" : "border-gray-300"
-                } rounded-md focus:outline-none focus:ring-1 focus:ring-[#795d2a] appearance-none`}
-                aria-invalid={errors.city ? "true" : "false"}
-                aria-describedby={errors.city ? "city-error" : undefined}
-              >
-                <option value="">Select City</option>
-                <option value="delhi">Delhi</option>
-                <option value="mumbai">Mumbai</option>
-                <option value="bangalore">Bangalore</option>
-                <option value="chennai">Chennai</option>
-                <option value="kolkata">Kolkata</option>
-              </select>
-              <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 pointer-events-none" />
-            </div>
+            <input
+              type="text"
+              id="city"
+              name="city"
+              value={formData.city}
+              onChange={handleChange}
+              placeholder="Enter City"
+              className={`w-full px-4 py-3 border ${
+                errors.city ? "border-red-500" : "border-gray-300"
+              } rounded-md focus:outline-none focus:ring-1 focus:ring-[#795d2a]`}
+              aria-invalid={errors.city ? "true" : "false"}
+              aria-describedby={errors.city ? "city-error" : undefined}
+            />
             {errors.city && (
               <p id="city-error" className="mt-1 text-xs text-red-500">
                 {errors.city}
@@ -284,11 +302,11 @@ export default function AddressForm() {
                 aria-describedby={errors.state ? "state-error" : undefined}
               >
                 <option value="">Select State</option>
-                <option value="delhi">Delhi</option>
-                <option value="maharashtra">Maharashtra</option>
-                <option value="karnataka">Karnataka</option>
-                <option value="tamil-nadu">Tamil Nadu</option>
-                <option value="west-bengal">West Bengal</option>
+                {STATES.map((state) => (
+                  <option key={state} value={state}>
+                    {state}
+                  </option>
+                ))}
               </select>
               <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 pointer-events-none" />
             </div>
@@ -322,12 +340,15 @@ export default function AddressForm() {
             </div>
           </div>
 
+          {submitError && <p className="text-sm text-red-500">{submitError}</p>}
+
           <div className="pt-4">
             <button
               type="submit"
-              className="w-full md:w-auto px-6 py-3 bg-[#a08452] hover:bg-[#8c703d] text-white rounded"
+              disabled={isSubmitting}
+              className="w-full md:w-auto px-6 py-3 bg-[#a08452] hover:bg-[#8c703d] text-white rounded disabled:opacity-50"
             >
-              Add New Address
+              {isSubmitting ? "Saving..." : "Add New Address"}
             </button>
           </div>
         </div>
@@ -1,54 +1,34 @@
 "use client";
 
 import { useState } from "react";
-import { Upload, X, Check, Plus, Trash2, ChevronRight } from "lucide-react";
+import { Upload, X, Check } from "lucide-react";
 import Image from "next/image";
 import UploadPopup from "../UploadPopup";
 import { Category, Product } from "@/types/product-types";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { categoryApi } from "@/lib/api/categories";
-import cuid from "cuid";
-import { varientApi } from "@/lib/api/varients";
-import { productApi } from "@/lib/api/productdetails";
 import { productsApi } from "@/lib/api/products";
+import { productVariantsSchema } from "@/lib/validations/variant-schema";
+import {
+  OptionForm,
+  toVariantsPayload,
+  VariantForm,
+  VariantMatrixEditor,
+} from "@/components/admin/variant-matrix-editor";
 
 export function AddProductForm() {
   const [isUploadPopupOpen, setIsUploadPopupOpen] = useState(false);
-  const [varientId, setVarientId] = useState<string>("");
-  const [varientImgPopUp, setVarientImgPopUp] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
   const [derror, setderror] = useState<string>("");
 
   const router = useRouter();
 
-  const Sizes = [
-    "SIZE_5",
-    "SIZE_6",
-    "SIZE_7",
-    "SIZE_8",
-    "SIZE_9",
-    "SIZE_10",
-    "SIZE_11",
-    "SIZE_12",
-  ];
-
-  interface Variant {
-    isOpen: boolean;
-    id: string;
-    color: string;
-    customColor: boolean;
-    images: {
-      url: string;
-      type: "IMAGE" | "VIDEO";
-    }[];
-    sizes: {
-      id: string;
-      name: string;
-      quantity: number;
-    }[];
-  }
-  const [variants, setVariants] = useState<Variant[]>([]);
+  // Variant SKUs are generated from the product's SKU, so it is picked up front
+  const [sku] = useState(() => `PROD-${Date.now()}`);
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [options, setOptions] = useState<OptionForm[]>([]);
+  const [variants, setVariants] = useState<VariantForm[]>([]);
   const [errors, setErrors] = useState({
     name: "",
     description: "",
@@ -104,113 +84,15 @@ export function AddProductForm() {
       newErrors.material = "Please select a material";
     }
 
-    if (variants.length > 0) {
-      const hasInvalidVariant = variants.some(
-        (variant) =>
-          !variant.color ||
-          variant.images.length === 0 ||
-          variant.sizes.length === 0
-      );
-      if (hasInvalidVariant) {
-        newErrors.variants = "All variants must have color, images and sizes";
-      }
+    const matrix = productVariantsSchema.safeParse(toVariantsPayload(options, variants));
+    if (!matrix.success) {
+      newErrors.variants = matrix.error.issues[0].message;
     }
 
     setErrors(newErrors);
     return Object.values(newErrors).every((error) => !error);
   };
 
-  const addVariant = () => {
-    setVariants([
-      ...variants,
-      {
-        id: cuid(),
-        color: "",
-        customColor: false,
-        images: [],
-        sizes: [
-          {
-            id: cuid(),
-            name: "SIZE_5",
-            quantity: 0,
-          },
-        ],
-        isOpen: true,
-      },
-    ]);
-  };
-
-  const addSize = (variantId: string) => {
-    setVariants(
-      variants.map((variant) => {
-        if (variant.id === variantId) {
-          return {
-            ...variant,
-            sizes: [...variant.sizes, { id: cuid(), name: "", quantity: 0 }],
-          };
-        }
-        return variant;
-      })
-    );
-  };
-
-  const removeVariant = (variantId: string) => {
-    setVariants(variants.filter((v) => v.id !== variantId));
-  };
-
-  const removeSize = (variantId: string, sizeId: string) => {
-    setVariants(
-      variants.map((variant) => {
-        if (variant.id === variantId) {
-          return {
-            ...variant,
-            sizes: variant.sizes.filter((size) => size.id !== sizeId),
-          };
-        }
-        return variant;
-      })
-    );
-  };
-
-  const handleAddVarientImage = (file: File) => {
-    const imageUrl = URL.createObjectURL(file);
-    // In a real app, this would open a file picker
-    setVariants(
-      variants.map((variant) => {
-        if (variant.id === varientId) {
-          return {
-            ...variant,
-            images: [...variant.images, { 
-              asset_url: imageUrl,
-              url: imageUrl,
-              type: "IMAGE",
-              colorId: null,
-              productId: null
-            }],
-          };
-        }
-        return variant;
-      })
-    );
-    setVarientImgPopUp(false);
-  };
-
-  const handleRemoveVariantImage = (variantId: string, imageIndex: number) => {
-    setVariants(
-      variants.map((variant) => {
-        if (variant.id === variantId) {
-          const newImages = [...variant.images];
-          newImages.splice(imageIndex, 1);
-          return {
-            ...variant,
-            images: newImages,
-          };
-        }
-        return variant;
-      })
-    );
-  };
-
   const categoryQuery = useQuery({
     queryKey: ["categories"],
     queryFn: () => categoryApi.getAll(),
@@ -218,6 +100,7 @@ export function AddProductForm() {
 
   const handleAddImage = (file: File) => {
     const imageUrl = URL.createObjectURL(file);
+    setImageFiles((prev) => [...prev, file]);
     setProduct({
       ...product,
       assets: [...(product.assets || []), { 
@@ -238,83 +121,48 @@ export function AddProductForm() {
       ...product,
       assets: newAssets,
     });
+    setImageFiles((prev) => prev.filter((_, i) => i !== index));
+    // Variants refer to images by position
+    setVariants((prev) =>
+      prev.map((variant) => {
+        if (variant.image === "") return variant;
+        const position = Number(variant.image);
+        if (position === index) return { ...variant, image: "" };
+        return position > index ? { ...variant, image: String(position - 1) } : variant;
+      })
+    );
   };
-  const variantMutation = useMutation({
-    mutationFn: (variant: {
-      productId: string;
-      color: string;
-      assets: {
-        asset_url: string;
-        url?: string;
-        type: "IMAGE" | "VIDEO";
-        colorId: string | null;
-        productId: string | null;
-      }[];
-      sizes: {
-        size:
-          | "SIZE_5"
-          | "SIZE_6"
-          | "SIZE_7"
-          | "SIZE_8"
-          | "SIZE_9"
-          | "SIZE_10"
-          | "SIZE_11"
-          | "SIZE_12";
-        stock: number;
-      }[];
-    }) => varientApi.addVarient(variant),
-  });
-
   const productMutation = useMutation({
     mutationFn: async (productData: Product) => {
+      const matrix = toVariantsPayload(options, variants, () => null);
       // Convert Product to AddProductPayload format
       const payload = {
         title: productData.name,
         description: productData.description,
         price: productData.price,
         comparePrice: productData.discountPrice,
-        sku: `PROD-${Date.now()}`,
+        sku,
         stockQuantity: 0,
         categoryId: productData.category_id,
         isBestseller: false,
         isNewProduct: true,
         status: productData.status as any,
-        images: [] as File[], // We'll handle images separately
+        images: imageFiles,
+        options: matrix.options,
+        // Images are uploaded with the product, so variants point at them by position
+        variants: matrix.variants.map((variant, index) => ({
+          ...variant,
+          imageIndex: variants[index].image === "" ? undefined : Number(variants[index].image),
+        })),
       };
       return productsApi.addProduct(payload);
     },
     onSuccess: (data) => {
-      if (data && data.id) {
-        const productId = data.id;
-        variants.forEach((variant) => {
-          variantMutation.mutate({
-            productId,
-            color: variant.color,
-            assets: variant.images.map(img => ({
-              asset_url: img.url,
-              url: img.url,
-              type: img.type,
-              colorId: null,
-              productId: null
-            })),
-            sizes: variant.sizes.map((size) => ({
-              size: size.name as
-                | "SIZE_5"
-                | "SIZE_6"
-                | "SIZE_7"
-                | "SIZE_8"
-                | "SIZE_9"
-                | "SIZE_10"
-                | "SIZE_11"
-                | "SIZE_12",
-              stock: size.quantity,
-            })),
-          });
-        });
-      }
-
       router.push(`/product/${data.id}`);
     },
+    onError: (error: Error) => {
+      setErrors((prev) => ({ ...prev, variants: error.message }));
+    },
   });
 
   const saveProduct = async () => {
@@ -492,257 +340,29 @@ export function AddProductForm() {
           </div>
         </div>
         <div className="bg-white rounded-lg p-6 shadow-sm">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-semibold text-[#4f507f]">
-              Product Variants
-            </h2>
-            <button
-              onClick={addVariant}
-              className="px-4 py-2 text-sm bg-[#4f507f] text-white rounded-md hover:bg-[#3e3f63] transition-colors duration-200 flex items-center gap-2">
-              <Plus size={16} />
-              Add Color Variant
-            </button>
-          </div>
+          <h2 className="text-xl font-semibold mb-2 text-[#4f507f]">
+            Product Variants
+          </h2>
           <p className="text-sm text-gray-500 mb-6">
-            Add different color variants and their corresponding sizes and
-            quantities for your product.
+            Add the options customers choose from, such as Colour and Size,
+            then generate a variant for every combination with its own SKU,
+            price, stock and image.
           </p>
-          <div className="grid gap-6">
-            {variants.map((variant) => (
-              <div
-                key={variant.id}
-                className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm hover:border-[#4f507f] transition-colors duration-200">
-                <div
-                  className="flex justify-between items-center mb-6 cursor-pointer"
-                  onClick={() => {
-                    setVariants(
-                      variants.map((v) =>
-                        v.id === variant.id ? { ...v, isOpen: !v.isOpen } : v
-                      )
-                    );
-                  }}>
-                  <div className="flex items-center gap-4">
-                    <div
-                      className={`transform transition-transform ${
-                        variant.isOpen ? "rotate-90" : ""
-                      }`}>
-                      <ChevronRight size={20} />
-                    </div>
-                    <div className="w-64">
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Color Variant
-                      </label>
-                      {variant.customColor ? (
-                        <div className="flex gap-2">
-                          <input
-                            type="text"
-                            className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#4f507f] focus:border-[#4f507f] bg-white shadow-sm"
-                            value={variant.color}
-                            onClick={(e) => e.stopPropagation()}
-                            onChange={(e) => {
-                              setVariants(
-                                variants.map((v) =>
-                                  v.id === variant.id
-                                    ? { ...v, color: e.target.value }
-                                    : v
-                                )
-                              );
-                            }}
-                            placeholder="Enter custom color"
-                          />
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setVariants(
-                                variants.map((v) =>
-                                  v.id === variant.id
-                                    ? { ...v, customColor: false, color: "" }
-                                    : v
-                                )
-                              );
-                            }}
-                            className="px-3 py-2 text-sm bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200">
-                            Back
-                          </button>
-                        </div>
-                      ) : (
-                        <select
-                          className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#4f507f] focus:border-[#4f507f] bg-white shadow-sm"
-                          value={variant.color}
-                          onClick={(e) => e.stopPropagation()}
-                          onChange={(e) => {
-                            if (e.target.value === "custom") {
-                              setVariants(
-                                variants.map((v) =>
-                                  v.id === variant.id
-                                    ? { ...v, customColor: true, color: "" }
-                                    : v
-                                )
-                              );
-                            } else {
-                              setVariants(
-                                variants.map((v) =>
-                                  v.id === variant.id
-                                    ? { ...v, color: e.target.value }
-                                    : v
-                                )
-                              );
-                            }
-                          }}>
-                          <option value="">Select Color</option>
-                          <option value="Red">Red</option>
-                          <option value="Blue">Blue</option>
-                          <option value="Green">Green</option>
-                          <option value="Black">Black</option>
-                          <option value="White">White</option>
-                          <option value="custom">Custom Color...</option>
-                        </select>
-                      )}
-                    </div>
-                  </div>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      removeVariant(variant.id);
-                    }}
-                    className="text-gray-400 hover:text-red-500 transition-colors duration-200 p-2 rounded-full hover:bg-red-50"
-                    title="Remove Color Variant">
-                    <Trash2 size={18} />
-                  </button>
-                </div>
-                {variant.isOpen && (
-                  <div className="space-y-6">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-3">
-                        Variant Images
-                      </label>
-                      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-                        {variant.images?.map((image, index) => (
-                          <div key={index} className="relative group">
-                            <Image
-                              src={image.url || "/logo.svg"}
-                              width={200}
-                              height={200}
-                              alt={`${variant.color} variant image ${
-                                index + 1
-                              }`}
-                              className="w-full h-28 object-contain rounded-md border border-gray-200"
-                            />
-                            <button
-                              onClick={() =>
-                                handleRemoveVariantImage(variant.id, index)
-                              }
-                              className="absolute top-2 right-2 bg-white rounded-full p-1.5 shadow-md opacity-0 group-hover:opacity-100 transition-opacity">
-                              <X size={14} />
-                            </button>
-                          </div>
-                        ))}
-
-                        <button
-                          onClick={() => {
-                            setVarientId(variant.id);
-                            setVarientImgPopUp(true);
-                          }}
-                          className="w-full h-28 border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center text-gray-500 hover:text-[#4f507f] hover:border-[#4f507f] transition-colors">
-                          <Upload size={20} />
-                          <span className="mt-2 text-sm">Add Image</span>
-                        </button>
-                      </div>
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-3">
-                        Size Options
-                      </label>
-                      <div className="grid gap-4">
-                        {variant.sizes.map((size) => (
-                          <div
-                            key={size.id}
-                            className="flex gap-6 items-center bg-gray-50 p-4 rounded-lg">
-                            <div className="w-48">
-                              <label className="block text-xs text-gray-500 mb-1.5">
-                                Size
-                              </label>
-                              <select
-                                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#4f507f] focus:border-[#4f507f] bg-white shadow-sm"
-                                value={size.name}
-                                onChange={(e) => {
-                                  setVariants(
-                                    variants.map((v) => {
-                                      if (v.id === variant.id) {
-                                        return {
-                                          ...v,
-                                          sizes: v.sizes.map((s) =>
-                                            s.id === size.id
-                                              ? { ...s, name: e.target.value }
-                                              : s
-                                          ),
-                                        };
-                                      }
-                                      return v;
-                                    })
-                                  );
-                                }}>
-                                {Sizes.map((size) => (
-                                  <option key={size} value={size}>
-                                    {size.replace(/[^0-9]/g, "")}
-                                  </option>
-                                ))}
-                              </select>
-                            </div>
-                            <div className="w-48">
-                              <label className="block text-xs text-gray-500 mb-1.5">
-                                Stock Quantity
-                              </label>
-                              <input
-                                type="number"
-                                placeholder="Enter quantity"
-                                className="w-full px-4 py-2 border bg-white rounded-lg focus:ring-2 focus:ring-[#4f507f] focus:border-[#4f507f] shadow-sm"
-                                value={size.quantity}
-                                onChange={(e) => {
-                                  setVariants(
-                                    variants.map((v) => {
-                                      if (v.id === variant.id) {
-                                        return {
-                                          ...v,
-                                          sizes: v.sizes.map((s) =>
-                                            s.id === size.id
-                                              ? {
-                                                  ...s,
-                                                  quantity:
-                                                    parseInt(e.target.value) ||
-                                                    0,
-                                                }
-                                              : s
-                                          ),
-                                        };
-                                      }
-                                      return v;
-                                    })
-                                  );
-                                }}
-                              />
-                            </div>
-                            <button
-                              onClick={() => removeSize(variant.id, size.id)}
-                              className="text-gray-400 hover:text-red-500 transition-colors duration-200 p-2 rounded-full hover:bg-red-50 mt-6"
-                              title="Remove Size Option">
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                      <button
-                        onClick={() => addSize(variant.id)}
-                        className="mt-4 text-sm text-[#4f507f] hover:text-[#3e3f63] flex items-center gap-2 px-4 py-2 rounded-md hover:bg-[#edeefc] transition-colors duration-200">
-                        <Plus size={16} />
-                        Add Size Option
-                      </button>
-                    </div>
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
+          <VariantMatrixEditor
+            options={options}
+            variants={variants}
+            onOptionsChange={setOptions}
+            onVariantsChange={setVariants}
+            baseSku={sku}
+            basePrice={product.price}
+            imageChoices={(product.assets || []).map((_, index) => ({
+              value: String(index),
+              label: `Image ${index + 1}`,
+            }))}
+          />
+          {errors.variants && (
+            <p className="mt-2 text-red-500 text-xs">{errors.variants}</p>
+          )}
         </div>{" "}
       </div>{" "}
       <div className="space-y-6">
@@ -928,12 +548,6 @@ export function AddProductForm() {
           onClose={() => setIsUploadPopupOpen(false)}
         />
       )}
-      {varientImgPopUp && (
-        <UploadPopup
-          onSuccess={handleAddVarientImage}
-          onClose={() => setVarientImgPopUp(false)}
-        />
-      )}
     </div>
   );
 }
@@ -0,0 +1,53 @@
+"use client"
+
+import { BalanceTransactionType } from "@prisma/client"
+import { LedgerEntry } from "@/lib/api/gift-cards"
+
+const TYPE_LABELS: Record<BalanceTransactionType, string> = {
+  ISSUE: "Issued",
+  REDEEM: "Redeemed",
+  RELEASE: "Released",
+  REFUND: "Refund",
+  ADJUSTMENT: "Adjustment",
+  VOID: "Voided",
+}
+
+// The audit trail of a gift card or a customer's store credit, newest first
+export function BalanceLedger({ entries }: { entries: LedgerEntry[] }) {
+  if (entries.length === 0) return <p className="text-sm text-gray-500">No ledger entries yet.</p>
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {entries.map((entry) => (
+          <tr key={entry.id}>
+            <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+            <td className="px-3 py-2 whitespace-nowrap">{TYPE_LABELS[entry.type]}</td>
+            <td className={`px-3 py-2 whitespace-nowrap text-right ${entry.amount < 0 ? "text-red-600" : "text-green-600"}`}>
+              {entry.amount < 0 ? "-" : "+"}₹{Math.abs(entry.amount).toFixed(2)}
+            </td>
+            <td className="px-3 py-2 whitespace-nowrap text-right">₹{entry.balanceAfter.toFixed(2)}</td>
+            <td className="px-3 py-2 text-gray-600">
+              {entry.order && <div>Order {entry.order.orderNumber}</div>}
+              {entry.note && <div>{entry.note}</div>}
+              {entry.createdBy && (
+                <div className="text-xs text-gray-500">
+                  by {entry.createdBy.firstName} {entry.createdBy.lastName}
+                </div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,328 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { format } from "date-fns"
+import { ArrowLeft, Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/components/ui/use-toast"
+
+interface CouponBatch {
+  id: string
+  name: string
+  prefix: string
+  pattern: string
+  quantity: number
+  redeemedCount: number
+  createdAt: string
+  createdBy: { firstName: string; lastName: string } | null
+}
+
+interface CouponCode {
+  id: string
+  code: string
+  redeemedAt: string | null
+  redemption: {
+    order: { id: string; orderNumber: string; status: string }
+    user: { firstName: string; lastName: string; email: string | null }
+  } | null
+}
+
+interface CouponPage {
+  batch: CouponBatch
+  codes: CouponCode[]
+  pagination: { page: number; totalPages: number; total: number }
+}
+
+type CodeStatus = '' | 'AVAILABLE' | 'REDEEMED'
+
+interface DiscountCouponsDialogProps {
+  discount: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+const emptyForm = { name: '', prefix: '', pattern: 'XXXX-XXXX', quantity: '100' }
+
+// Generates batches of single-use codes for a discount and shows which of them have been redeemed
+export function DiscountCouponsDialog({ discount, onOpenChange }: DiscountCouponsDialogProps) {
+  const [batches, setBatches] = useState<CouponBatch[] | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [generating, setGenerating] = useState(false)
+  const [batchId, setBatchId] = useState<string | null>(null)
+  const [status, setStatus] = useState<CodeStatus>('')
+  const [page, setPage] = useState(1)
+  const [codes, setCodes] = useState<CouponPage | null>(null)
+  const { toast } = useToast()
+
+  const discountId = discount?.id ?? null
+
+  const loadBatches = useCallback(async (id: string) => {
+    const res = await fetch(`/api/discounts/${id}/batches`)
+    if (!res.ok) throw new Error('Failed to load coupon batches')
+    setBatches(await res.json())
+  }, [])
+
+  useEffect(() => {
+    setBatches(null)
+    setBatchId(null)
+    setForm(emptyForm)
+    if (!discountId) return
+    loadBatches(discountId).catch((err: Error) => {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' })
+    })
+  }, [discountId, loadBatches, toast])
+
+  useEffect(() => {
+    if (!discountId || !batchId) return
+    let cancelled = false
+    setCodes(null)
+    const query = new URLSearchParams({ page: String(page), status })
+    fetch(`/api/discounts/${discountId}/batches/${batchId}?${query}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to load coupon codes')
+        const body: CouponPage = await res.json()
+        if (!cancelled) setCodes(body)
+      })
+      .catch((err: Error) => {
+        if (!cancelled) toast({ title: 'Error', description: err.message, variant: 'destructive' })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [discountId, batchId, page, status, toast])
+
+  const handleGenerate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!discountId) return
+    try {
+      setGenerating(true)
+      const res = await fetch(`/api/discounts/${discountId}/batches`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, quantity: Number(form.quantity) }),
+      })
+      const body = await res.json()
+      if (!res.ok) {
+        const message = typeof body.error === 'string' ? body.error : Object.values(body.error).flat().join(', ')
+        throw new Error(message || 'Failed to generate codes')
+      }
+      toast({ title: 'Success', description: `${body.quantity} codes generated` })
+      setForm(emptyForm)
+      await loadBatches(discountId)
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' })
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const openBatch = (id: string) => {
+    setPage(1)
+    setStatus('')
+    setBatchId(id)
+  }
+
+  const exportUrl = (id: string) => `/api/discounts/${discountId}/batches/${id}/export`
+
+  return (
+    <Dialog open={discount !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Coupon codes{discount ? ` for ${discount.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {batchId ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Button variant="ghost" size="sm" onClick={() => setBatchId(null)}>
+                <ArrowLeft className="mr-2 h-4 w-4" /> All batches
+              </Button>
+              <div className="flex items-center gap-2">
+                <select
+                  value={status}
+                  onChange={(e) => {
+                    setStatus(e.target.value as CodeStatus)
+                    setPage(1)
+                  }}
+                  className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                >
+                  <option value="">All codes</option>
+                  <option value="AVAILABLE">Available</option>
+                  <option value="REDEEMED">Redeemed</option>
+                </select>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={exportUrl(batchId)}>
+                    <Download className="mr-2 h-4 w-4" /> Export CSV
+                  </a>
+                </Button>
+              </div>
+            </div>
+
+            {!codes ? (
+              <div className="flex justify-center p-8"><Loader2 className="h-6 w-6 animate-spin" /></div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  {codes.batch.name}: {codes.pagination.total} matching codes.
+                </p>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {codes.codes.map((code) => (
+                      <tr key={code.id}>
+                        <td className="px-3 py-2 whitespace-nowrap font-mono">{code.code}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {code.redeemedAt
+                            ? `Redeemed ${format(new Date(code.redeemedAt), 'MMM d, yyyy')}`
+                            : 'Available'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{code.redemption?.order.orderNumber ?? '—'}</td>
+                        <td className="px-3 py-2">
+                          {code.redemption ? (
+                            <>
+                              {code.redemption.user.firstName} {code.redemption.user.lastName}
+                              {code.redemption.user.email && (
+                                <div className="text-xs text-gray-500">{code.redemption.user.email}</div>
+                              )}
+                            </>
+                          ) : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {codes.pagination.totalPages > 1 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-500">
+                      Page {codes.pagination.page} of {codes.pagination.totalPages}
+                    </span>
+                    <div className="space-x-2">
+                      <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={page >= codes.pagination.totalPages}
+                        onClick={() => setPage(page + 1)}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <form onSubmit={handleGenerate} className="grid grid-cols-2 gap-4 rounded-md border p-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="batch-name">Campaign name</Label>
+                <Input
+                  id="batch-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Diwali newsletter"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-prefix">Prefix</Label>
+                <Input
+                  id="batch-prefix"
+                  value={form.prefix}
+                  onChange={(e) => setForm({ ...form, prefix: e.target.value.toUpperCase() })}
+                  placeholder="DIWALI-"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-pattern">Pattern</Label>
+                <Input
+                  id="batch-pattern"
+                  value={form.pattern}
+                  onChange={(e) => setForm({ ...form, pattern: e.target.value.toUpperCase() })}
+                  required
+                />
+                <p className="text-xs text-gray-500">X is a letter or digit, A a letter and # a digit.</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-quantity">Number of codes</Label>
+                <Input
+                  id="batch-quantity"
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="flex items-end justify-end">
+                <Button type="submit" disabled={generating}>
+                  {generating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Generate codes
+                </Button>
+              </div>
+            </form>
+
+            {!batches ? (
+              <div className="flex justify-center p-8"><Loader2 className="h-6 w-6 animate-spin" /></div>
+            ) : batches.length === 0 ? (
+              <p className="text-sm text-gray-500">No coupon codes have been generated for this discount yet.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Campaign</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Format</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Redeemed</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {batches.map((batch) => (
+                    <tr key={batch.id}>
+                      <td className="px-3 py-2 font-medium">{batch.name}</td>
+                      <td className="px-3 py-2 whitespace-nowrap font-mono">{batch.prefix}{batch.pattern}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{batch.redeemedCount} / {batch.quantity}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {format(new Date(batch.createdAt), 'MMM d, yyyy')}
+                        {batch.createdBy && (
+                          <div className="text-xs text-gray-500">
+                            {batch.createdBy.firstName} {batch.createdBy.lastName}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openBatch(batch.id)}>
+                          View codes
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={exportUrl(batch.id)} aria-label="Export CSV">
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -14,7 +14,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
-import { Discount as PrismaDiscount, DiscountType, DiscountApplicability, Product, Category } from "@prisma/client";
+import { Discount as PrismaDiscount, DiscountType, DiscountApplicability, DiscountStacking, Product, Category } from "@prisma/client";
 import {
   Popover,
   PopoverContent,
@@ -48,7 +48,7 @@ type DiscountWithRelations = PrismaDiscount & {
 // Form validation schema
 const discountFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  code: z.string().min(1, "Code is required"),
+  code: z.string().optional().nullable(),
   description: z.string().optional().nullable(),
   discountType: z.nativeEnum(DiscountType),
   discountValue: z.number().min(0.01, "Value must be greater than 0"),
@@ -62,16 +62,34 @@ const discountFormSchema = z.object({
   perUserLimit: z.number().int().min(1).optional().nullable(),
   minQuantity: z.number().int().min(1).optional().nullable(),
   newDaysThreshold: z.number().int().min(1).optional().nullable(),
+  buyQuantity: z.number().int().min(1).optional().nullable(),
+  getQuantity: z.number().int().min(1).optional().nullable(),
+  isAutomatic: z.boolean().default(false),
+  stacking: z.nativeEnum(DiscountStacking).default(DiscountStacking.STACKABLE),
+  priority: z.number().int().default(0),
   productIds: z.array(z.string()).default([]),
   categoryIds: z.array(z.string()).default([]),
 }).refine((data) => data.validFrom < data.validTo, {
   message: "End date must be after start date",
   path: ["validTo"],
+}).refine((data) => data.isAutomatic || !!data.code?.trim(), {
+  message: "Code is required",
+  path: ["code"],
 });
 
 // Type definition for form values
 type DiscountFormValues = z.infer<typeof discountFormSchema>;
 
+// Modes whose products are chosen in the form; for VOLUME they are optional and limit what counts
+const PRODUCT_APPLICABILITIES: DiscountApplicability[] = [
+  DiscountApplicability.SPECIFIC_PRODUCTS,
+  DiscountApplicability.BUNDLE,
+  DiscountApplicability.VOLUME,
+];
+
+// Leaves an emptied number field unset instead of NaN
+const optionalNumber = { setValueAs: (value: string) => (value === "" || value === null ? null : Number(value)) };
+
 
 interface DiscountFormProps {
   discount?: DiscountWithRelations;
@@ -197,7 +215,7 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
     resolver: zodResolver(discountFormSchema),
     defaultValues: discount ? {
       name: discount.name,
-      code: discount.code,
+      code: discount.code ?? "",
       description: discount.description ?? undefined,
       discountType: discount.discountType,
       discountValue: discount.discountValue,
@@ -207,6 +225,14 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
       validFrom: new Date(discount.validFrom),
       validTo: new Date(discount.validTo),
       usageLimit: discount.usageLimit ?? undefined,
+      perUserLimit: discount.perUserLimit ?? undefined,
+      minQuantity: discount.minQuantity ?? undefined,
+      newDaysThreshold: discount.newDaysThreshold ?? undefined,
+      buyQuantity: discount.buyQuantity ?? undefined,
+      getQuantity: discount.getQuantity ?? undefined,
+      isAutomatic: discount.isAutomatic,
+      stacking: discount.stacking,
+      priority: discount.priority,
       isActive: discount.isActive,
       productIds: discount.products?.map(p => p.productId) || [],
       categoryIds: discount.categories?.map(c => c.categoryId) || [],
@@ -219,6 +245,9 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
       applicability: DiscountApplicability.ALL_PRODUCTS,
       minimumPurchase: undefined,
       maximumDiscount: undefined,
+      isAutomatic: false,
+      stacking: DiscountStacking.STACKABLE,
+      priority: 0,
       isActive: true,
       productIds: [],
       categoryIds: [],
@@ -236,6 +265,7 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
   };
   const watchApplicability = watch("applicability");
   const watchDiscountType = watch("discountType");
+  const watchIsAutomatic = watch("isAutomatic");
 
   const onSubmit = async (data: DiscountFormValues) => {
     try {
@@ -248,6 +278,8 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...data,
+          // Automatic promotions apply without a code
+          code: data.isAutomatic ? null : data.code?.trim(),
           validFrom: data.validFrom?.toISOString(),
           validTo: data.validTo?.toISOString(),
           // Ensure arrays are always defined
@@ -293,12 +325,56 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
             {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
           </div>
           <div className="space-y-2">
-            <Label>Code *</Label>
-            <Input {...form.register("code")} />
+            <Label>Code {watchIsAutomatic ? '' : '*'}</Label>
+            <Input
+              {...form.register("code")}
+              disabled={watchIsAutomatic}
+              placeholder={watchIsAutomatic ? 'Applied automatically' : undefined}
+            />
             {errors.code && <p className="text-sm text-red-500">{errors.code.message}</p>}
           </div>
         </div>
 
+        <div className="flex items-center space-x-2">
+          <Controller
+            name="isAutomatic"
+            control={control}
+            render={({ field }) => (
+              <Checkbox
+                id="isAutomatic"
+                checked={field.value}
+                onCheckedChange={field.onChange}
+              />
+            )}
+          />
+          <Label htmlFor="isAutomatic" className="!m-0">Automatic promotion (applies to every qualifying cart without a code)</Label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Stacking</Label>
+            <Controller
+              name="stacking"
+              control={control}
+              render={({ field }) => (
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <SelectTrigger><SelectValue placeholder="Select stacking" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DiscountStacking.STACKABLE}>Stackable with other promotions and codes</SelectItem>
+                    <SelectItem value={DiscountStacking.EXCLUSIVE}>Exclusive (never combined)</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Input type="number" step="1" {...form.register("priority", { valueAsNumber: true })} />
+            <p className="text-xs text-gray-500">Higher priorities are applied first and win when discounts cannot be combined.</p>
+            {errors.priority && <p className="text-sm text-red-500">{errors.priority.message}</p>}
+          </div>
+        </div>
+
         <div className="space-y-2">
           <Label>Description</Label>
           <Textarea {...form.register("description")} />
@@ -317,6 +393,7 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
                   <SelectContent>
                     <SelectItem value={DiscountType.PERCENTAGE}>Percentage</SelectItem>
                     <SelectItem value={DiscountType.FIXED_AMOUNT}>Fixed Amount</SelectItem>
+                    <SelectItem value={DiscountType.BUY_X_GET_Y}>Buy X Get Y</SelectItem>
                   </SelectContent>
                 </Select>
               )}
@@ -325,7 +402,11 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
 
           <div className="space-y-2">
             <Label>
-              {watchDiscountType === DiscountType.PERCENTAGE ? 'Discount % *' : 'Amount *'}
+              {watchDiscountType === DiscountType.PERCENTAGE
+                ? 'Discount % *'
+                : watchDiscountType === DiscountType.BUY_X_GET_Y
+                  ? 'Discount % on the Y items (100 = free) *'
+                  : 'Amount *'}
             </Label>
             <div className="relative">
               <Input
@@ -335,13 +416,28 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
                 {...form.register("discountValue", { valueAsNumber: true })}
               />
               <div className="absolute inset-y-0 right-3 flex items-center pointer-events-none">
-                {watchDiscountType === DiscountType.PERCENTAGE ? '%' : '₹'}
+                {watchDiscountType === DiscountType.FIXED_AMOUNT ? '₹' : '%'}
               </div>
             </div>
             {errors.discountValue && <p className="text-sm text-red-500">{errors.discountValue.message}</p>}
           </div>
         </div>
 
+        {watchDiscountType === DiscountType.BUY_X_GET_Y && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Buy (X)</Label>
+              <Input type="number" min="1" placeholder="1" {...form.register("buyQuantity", optionalNumber)} />
+              {errors.buyQuantity && <p className="text-sm text-red-500">{errors.buyQuantity.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Get (Y)</Label>
+              <Input type="number" min="1" placeholder="1" {...form.register("getQuantity", optionalNumber)} />
+              {errors.getQuantity && <p className="text-sm text-red-500">{errors.getQuantity.message}</p>}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-2">
           <Label>Applies To *</Label>
           <Controller
@@ -354,22 +450,46 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
                   <SelectItem value={DiscountApplicability.ALL_PRODUCTS}>All Products</SelectItem>
                   <SelectItem value={DiscountApplicability.SPECIFIC_PRODUCTS}>Specific Products</SelectItem>
                   <SelectItem value={DiscountApplicability.SPECIFIC_CATEGORIES}>Specific Categories</SelectItem>
+                  <SelectItem value={DiscountApplicability.NEW_PRODUCTS}>New Products</SelectItem>
+                  <SelectItem value={DiscountApplicability.BEST_SELLERS}>Best Sellers</SelectItem>
+                  <SelectItem value={DiscountApplicability.FIRST_PURCHASE}>First Purchase</SelectItem>
+                  <SelectItem value={DiscountApplicability.BUNDLE}>Bundle</SelectItem>
+                  <SelectItem value={DiscountApplicability.VOLUME}>Volume</SelectItem>
                 </SelectContent>
               </Select>
             )}
           />
         </div>
 
-        {watchApplicability === DiscountApplicability.SPECIFIC_PRODUCTS && (
+        {PRODUCT_APPLICABILITIES.includes(watchApplicability) && (
             <MultiSelectCombobox 
                 control={control}
                 name="productIds"
-                label="Products"
+                label={
+                  watchApplicability === DiscountApplicability.BUNDLE
+                    ? "Bundle Products (all must be in the cart)"
+                    : watchApplicability === DiscountApplicability.VOLUME
+                      ? "Products (leave empty to count the whole cart)"
+                      : "Products"
+                }
                 options={productOptions}
                 isLoading={isLoadingProducts}
             />
         )}
 
+        {watchApplicability === DiscountApplicability.NEW_PRODUCTS && (
+          <div className="space-y-2">
+            <Label>Products Added Within (days)</Label>
+            <Input
+              type="number"
+              min="1"
+              placeholder="30"
+              {...form.register("newDaysThreshold", optionalNumber)}
+            />
+            {errors.newDaysThreshold && <p className="text-sm text-red-500">{errors.newDaysThreshold.message}</p>}
+          </div>
+        )}
+
         {watchApplicability === DiscountApplicability.SPECIFIC_CATEGORIES && (
             <MultiSelectCombobox 
                 control={control}
@@ -414,6 +534,31 @@ export function DiscountForm({ discount, onSuccess }: DiscountFormProps) {
           </div>
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>
+              {watchApplicability === DiscountApplicability.VOLUME ? 'Minimum Qualifying Items' : 'Minimum Items in Cart'}
+            </Label>
+            <Input
+              type="number"
+              min="1"
+              placeholder={watchApplicability === DiscountApplicability.VOLUME ? '2' : undefined}
+              {...form.register("minQuantity", optionalNumber)}
+            />
+            {errors.minQuantity && <p className="text-sm text-red-500">{errors.minQuantity.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Uses per Customer</Label>
+            <Input
+              type="number"
+              min="1"
+              {...form.register("perUserLimit", optionalNumber)}
+            />
+            {errors.perUserLimit && <p className="text-sm text-red-500">{errors.perUserLimit.message}</p>}
+          </div>
+        </div>
+
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -1,12 +1,14 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Edit, Trash2, Loader2 } from "lucide-react"
+import { Edit, History, Ticket, Trash2, Loader2 } from "lucide-react"
 import { format } from "date-fns"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
-import { Discount, DiscountType } from "@prisma/client"
+import { Discount, DiscountStacking, DiscountType } from "@prisma/client"
+import { DiscountCouponsDialog } from "./discount-coupons-dialog"
 import { DiscountModal } from "./discount-modal"
+import { DiscountRedemptionsDialog } from "./discount-redemptions-dialog"
 
 interface DiscountWithRelations extends Discount {
   products: { productId: string }[]
@@ -14,11 +16,19 @@ interface DiscountWithRelations extends Discount {
   _count?: { userUsages: number }
 }
 
+const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  PERCENTAGE: 'Percentage',
+  FIXED_AMOUNT: 'Fixed Amount',
+  BUY_X_GET_Y: 'Buy X Get Y',
+}
+
 export function DiscountList() {
   const [discounts, setDiscounts] = useState<DiscountWithRelations[]>([])
   const [loading, setLoading] = useState(true)
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [selectedDiscount, setSelectedDiscount] = useState<DiscountWithRelations | null>(null)
+  const [historyDiscountId, setHistoryDiscountId] = useState<string | null>(null)
+  const [couponDiscount, setCouponDiscount] = useState<DiscountWithRelations | null>(null)
   const { toast } = useToast()
 
   const fetchDiscounts = async () => {
@@ -89,6 +99,7 @@ export function DiscountList() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid Until</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -98,15 +109,30 @@ export function DiscountList() {
               {discounts.map((discount) => (
                 <tr key={discount.id}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {discount.code}
+                    {discount.code ?? discount.name}
+                    {discount.isAutomatic && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                        Automatic
+                      </span>
+                    )}
+                    {discount.stacking === DiscountStacking.EXCLUSIVE && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800">
+                        Exclusive
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {discount.discountType === DiscountType.PERCENTAGE ? 'Percentage' : 'Fixed Amount'}
+                    {DISCOUNT_TYPE_LABELS[discount.discountType]}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {discount.discountType === DiscountType.PERCENTAGE 
-                      ? `${discount.discountValue}%` 
-                      : `₹${discount.discountValue}`}
+                    {discount.discountType === DiscountType.FIXED_AMOUNT
+                      ? `₹${discount.discountValue}`
+                      : discount.discountType === DiscountType.BUY_X_GET_Y
+                        ? `Buy ${discount.buyQuantity ?? 1} get ${discount.getQuantity ?? 1} at ${discount.discountValue}% off`
+                        : `${discount.discountValue}%`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {discount.usageLimit ? `${discount.usageCount} / ${discount.usageLimit}` : discount.usageCount}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {format(new Date(discount.validTo), 'MMM d, yyyy')}
@@ -122,6 +148,22 @@ export function DiscountList() {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    <button
+                      onClick={() => setHistoryDiscountId(discount.id)}
+                      className="text-gray-600 hover:text-gray-900"
+                      aria-label="Redemption history"
+                    >
+                      <History size={18} />
+                    </button>
+                    {!discount.isAutomatic && (
+                      <button
+                        onClick={() => setCouponDiscount(discount)}
+                        className="text-gray-600 hover:text-gray-900"
+                        aria-label="Coupon codes"
+                      >
+                        <Ticket size={18} />
+                      </button>
+                    )}
                     <button 
                       onClick={() => {
                         setSelectedDiscount(discount)
@@ -152,6 +194,16 @@ export function DiscountList() {
         discount={selectedDiscount || undefined}
         onSuccess={fetchDiscounts}
       />
+
+      <DiscountRedemptionsDialog
+        discountId={historyDiscountId}
+        onOpenChange={(open) => !open && setHistoryDiscountId(null)}
+      />
+
+      <DiscountCouponsDialog
+        discount={couponDiscount}
+        onOpenChange={(open) => !open && setCouponDiscount(null)}
+      />
     </div>
   )
 }
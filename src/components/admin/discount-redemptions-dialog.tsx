@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+interface Redemption {
+  id: string
+  amount: number
+  createdAt: string
+  releasedAt: string | null
+  order: { id: string; orderNumber: string; status: string; total: number }
+  user: { id: string; firstName: string; lastName: string; email: string | null }
+}
+
+interface RedemptionPage {
+  discount: { code: string | null; name: string; usageCount: number; usageLimit: number | null }
+  totalDiscounted: number
+  redemptions: Redemption[]
+  pagination: { page: number; totalPages: number; total: number }
+}
+
+interface DiscountRedemptionsDialogProps {
+  discountId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+// Every order that used a discount; released uses belong to cancelled or refunded orders
+export function DiscountRedemptionsDialog({ discountId, onOpenChange }: DiscountRedemptionsDialogProps) {
+  const [page, setPage] = useState(1)
+  const [data, setData] = useState<RedemptionPage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setPage(1)
+  }, [discountId])
+
+  useEffect(() => {
+    if (!discountId) return
+    let cancelled = false
+    setData(null)
+    setError(null)
+    fetch(`/api/discounts/${discountId}/redemptions?page=${page}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to load redemptions')
+        const body: RedemptionPage = await res.json()
+        if (!cancelled) setData(body)
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [discountId, page])
+
+  return (
+    <Dialog open={discountId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Redemptions{data ? ` of ${data.discount.code ?? data.discount.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {!data && !error && (
+          <div className="flex justify-center p-8"><Loader2 className="h-6 w-6 animate-spin" /></div>
+        )}
+
+        {data && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Used {data.discount.usageCount}
+              {data.discount.usageLimit ? ` of ${data.discount.usageLimit}` : ''} times,
+              {' '}₹{data.totalDiscounted.toFixed(2)} discounted in total.
+            </p>
+
+            {data.redemptions.length === 0 ? (
+              <p className="text-sm text-gray-500">This discount has not been used yet.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Discount</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {data.redemptions.map((redemption) => (
+                    <tr key={redemption.id} className={redemption.releasedAt ? 'text-gray-400' : ''}>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {format(new Date(redemption.createdAt), 'MMM d, yyyy HH:mm')}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap font-medium">{redemption.order.orderNumber}</td>
+                      <td className="px-3 py-2">
+                        {redemption.user.firstName} {redemption.user.lastName}
+                        {redemption.user.email && <div className="text-xs text-gray-500">{redemption.user.email}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">₹{redemption.amount.toFixed(2)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {redemption.releasedAt
+                          ? `Released ${format(new Date(redemption.releasedAt), 'MMM d, yyyy')}`
+                          : redemption.order.status}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {data.pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-500">
+                  Page {data.pagination.page} of {data.pagination.totalPages}
+                </span>
+                <div className="space-x-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= data.pagination.totalPages}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
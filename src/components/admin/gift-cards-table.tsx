@@ -0,0 +1,340 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Eye, Plus, Search } from "lucide-react"
+import { GiftCardStatus } from "@prisma/client"
+import { toast } from "sonner"
+import { BalanceLedger } from "@/components/admin/balance-ledger"
+import { GiftCard, giftCardApi, GiftCardFilters, IssueGiftCardPayload, UpdateGiftCardPayload } from "@/lib/api/gift-cards"
+import { useDebounce } from "@/hooks/useDebounce"
+
+const emptyIssueForm = { amount: "", expiresAt: "", customerEmail: "", recipientEmail: "", code: "", note: "" }
+
+const isExpired = (card: GiftCard) => !!card.expiresAt && new Date(card.expiresAt) < new Date()
+
+const getGiftCardStatusColor = (card: GiftCard) => {
+  if (card.status === "VOIDED") return "bg-red-100 text-red-800"
+  if (isExpired(card)) return "bg-gray-100 text-gray-800"
+  return "bg-green-100 text-green-800"
+}
+
+function IssueGiftCardForm({ onDone }: { onDone: () => void }) {
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState(emptyIssueForm)
+
+  const mutation = useMutation({
+    mutationFn: (payload: IssueGiftCardPayload) => giftCardApi.issueGiftCard(payload),
+    onSuccess: (card) => {
+      toast.success(`Gift card ${card.code} issued`)
+      queryClient.invalidateQueries({ queryKey: ["gift-cards"] })
+      onDone()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    mutation.mutate({
+      amount: Number(form.amount),
+      expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+      customerEmail: form.customerEmail.trim() || null,
+      recipientEmail: form.recipientEmail.trim() || null,
+      code: form.code.trim() || null,
+      note: form.note.trim() || null,
+    })
+  }
+
+  const field = (key: keyof typeof emptyIssueForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value }),
+    className: "w-full mt-1 p-2 border rounded-md text-sm",
+  })
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+      <h3 className="text-lg font-medium">Issue gift card</h3>
+      <div className="grid grid-cols-2 gap-3">
+        <label>
+          Amount (₹)
+          <input type="number" min={1} step="0.01" required {...field("amount")} />
+        </label>
+        <label>
+          Expires on
+          <input type="date" {...field("expiresAt")} />
+        </label>
+        <label>
+          Customer account email
+          <input type="email" placeholder="Optional" {...field("customerEmail")} />
+        </label>
+        <label>
+          Recipient email
+          <input type="email" placeholder="Optional" {...field("recipientEmail")} />
+        </label>
+        <label className="col-span-2">
+          Code
+          <input placeholder="Generated when left blank" {...field("code")} />
+        </label>
+        <label className="col-span-2">
+          Note
+          <input placeholder="e.g. Goodwill for delayed order" {...field("note")} />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onDone} className="px-3 py-1 border rounded-md">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={mutation.isPending}
+          className="px-3 py-1 bg-[#a08452] text-white rounded-md disabled:opacity-50"
+        >
+          Issue
+        </button>
+      </div>
+    </form>
+  )
+}
+
+function GiftCardDetail({ id }: { id: string }) {
+  const queryClient = useQueryClient()
+  const [amount, setAmount] = useState("")
+  const [note, setNote] = useState("")
+
+  const { data: card, isLoading } = useQuery({
+    queryKey: ["gift-cards", "detail", id],
+    queryFn: () => giftCardApi.getGiftCard(id),
+  })
+
+  const mutation = useMutation({
+    mutationFn: (payload: UpdateGiftCardPayload) => giftCardApi.updateGiftCard(id, payload),
+    onSuccess: (updated) => {
+      toast.success(updated.status === "VOIDED" ? "Gift card voided" : `Balance is now ₹${updated.balance.toFixed(2)}`)
+      setAmount("")
+      setNote("")
+      queryClient.invalidateQueries({ queryKey: ["gift-cards"] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  if (isLoading || !card) return <div className="p-4">Loading...</div>
+
+  const reason = note.trim()
+
+  const handleVoid = () => {
+    if (!confirm(`Void gift card ${card.code}? Its remaining ₹${card.balance.toFixed(2)} will be written off.`)) return
+    mutation.mutate({ action: "void", note: reason })
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h3 className="text-lg font-medium font-mono">{card.code}</h3>
+        <p className="text-gray-500">
+          Issued {new Date(card.createdAt).toLocaleDateString()}
+          {card.issuedBy && ` by ${card.issuedBy.firstName} ${card.issuedBy.lastName}`}
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <p>Balance: ₹{card.balance.toFixed(2)} of ₹{card.initialBalance.toFixed(2)}</p>
+        <p>Status: {card.status}{card.status === "ACTIVE" && isExpired(card) && " (expired)"}</p>
+        <p>Expires: {card.expiresAt ? new Date(card.expiresAt).toLocaleDateString() : "Never"}</p>
+        <p>
+          Customer: {card.user ? card.user.email ?? `${card.user.firstName} ${card.user.lastName}` : "Not registered"}
+        </p>
+        {card.recipientEmail && <p>Recipient: {card.recipientEmail}</p>}
+        {card.note && <p className="col-span-2 text-gray-600">{card.note}</p>}
+      </div>
+
+      {card.status === "ACTIVE" && (
+        <div className="space-y-2 border rounded-md p-3">
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="+/- amount"
+              className="w-32 p-2 border rounded-md"
+            />
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Reason (required)"
+              className="flex-1 p-2 border rounded-md"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => mutation.mutate({ action: "adjust", amount: Number(amount), note: reason })}
+              disabled={mutation.isPending || !reason || !Number(amount)}
+              className="px-3 py-1 bg-[#a08452] text-white rounded-md disabled:opacity-50"
+            >
+              Adjust balance
+            </button>
+            <button
+              onClick={handleVoid}
+              disabled={mutation.isPending || !reason}
+              className="px-3 py-1 bg-red-600 text-white rounded-md disabled:opacity-50"
+            >
+              Void card
+            </button>
+          </div>
+        </div>
+      )}
+
+      <BalanceLedger entries={card.transactions} />
+    </div>
+  )
+}
+
+export function GiftCardsTable() {
+  const [currentPage, setCurrentPage] = useState(1)
+  const [filters, setFilters] = useState<GiftCardFilters>({ status: "" })
+  const [search, setSearch] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isIssuing, setIsIssuing] = useState(false)
+  const itemsPerPage = 10
+
+  const debouncedSearch = useDebounce(search, 300)
+
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [filters, debouncedSearch])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["gift-cards", currentPage, itemsPerPage, filters, debouncedSearch],
+    queryFn: () => giftCardApi.getGiftCards(currentPage, itemsPerPage, { ...filters, search: debouncedSearch }),
+  })
+
+  const giftCards = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+  const closeModal = () => {
+    setSelectedId(null)
+    setIsIssuing(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 bg-white p-4 rounded-lg shadow-sm">
+        <div className="relative flex-1 min-w-[220px]">
+          <input
+            type="text"
+            placeholder="Search by code or email..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+        <select
+          value={filters.status}
+          onChange={(e) => setFilters({ ...filters, status: e.target.value as GiftCardStatus | "" })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All statuses</option>
+          {Object.values(GiftCardStatus).map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsIssuing(true)}
+          className="flex items-center gap-1 px-4 py-2 bg-[#a08452] text-white rounded-lg text-sm"
+        >
+          <Plus size={16} /> Issue gift card
+        </button>
+      </div>
+
+      {isLoading && <div className="flex justify-center p-4">Loading...</div>}
+      {error && <div className="text-red-500 p-4">Error loading gift cards</div>}
+
+      <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {!isLoading && giftCards.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-sm text-gray-500">No gift cards found</td>
+              </tr>
+            )}
+            {giftCards.map((card) => (
+              <tr key={card.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono font-medium text-gray-900">{card.code}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  ₹{card.balance.toFixed(2)} / ₹{card.initialBalance.toFixed(2)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {card.user?.email ?? card.recipientEmail ?? "—"}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {card.expiresAt ? new Date(card.expiresAt).toLocaleDateString() : "Never"}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getGiftCardStatusColor(card)}`}
+                  >
+                    {card.status === "ACTIVE" && isExpired(card) ? "EXPIRED" : card.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => setSelectedId(card.id)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                    title="View gift card"
+                  >
+                    <Eye size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center bg-white p-4 rounded-lg shadow">
+        <span className="text-sm text-gray-500">
+          Page {currentPage} of {totalPages} ({data?.pagination.total ?? 0} gift cards)
+        </span>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage >= totalPages}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {(selectedId || isIssuing) && (
+        <div
+          className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-20"
+          onClick={closeModal}
+        >
+          <div
+            className="relative top-20 mx-auto p-5 border w-[40rem] max-w-full shadow-lg rounded-md bg-white"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {selectedId ? <GiftCardDetail id={selectedId} /> : <IssueGiftCardForm onDone={closeModal} />}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
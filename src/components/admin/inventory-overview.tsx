@@ -8,7 +8,7 @@ export function InventoryOverview() {
   const [totalProducts, setTotalProducts] = useState(0)
   const [lowStockItems, setLowStockItems] = useState(0)
   const [outOfStock, setOutOfStock] = useState(0)
-  const [restockAlerts, setRestockAlerts] = useState(0)
+  const [inStock, setInStock] = useState(0)
 
   const { data , isLoading } = useQuery({
     queryKey: ["inventoryOverview"],
@@ -18,9 +18,9 @@ export function InventoryOverview() {
   useEffect(() => {
     if (data) {
       setTotalProducts(data.totalProducts)
-      setLowStockItems(data.lowStockItems)
+      setLowStockItems(data.lowStock)
       setOutOfStock(data.outOfStock)
-      setRestockAlerts(data.restockAlerts)
+      setInStock(data.inStock)
     }
   }, [data])
 
@@ -28,7 +28,7 @@ export function InventoryOverview() {
     { title: "Total Products", value: totalProducts, icon: Package, color: "bg-blue-100 text-blue-800" },
     { title: "Low Stock Items", value: lowStockItems, icon: AlertTriangle, color: "bg-yellow-100 text-yellow-800" },
     { title: "Out of Stock", value: outOfStock, icon: TrendingDown, color: "bg-red-100 text-red-800" },
-    { title: "In Stock", value: restockAlerts, icon: TrendingUp, color: "bg-green-100 text-green-800" },
+    { title: "In Stock", value: inStock, icon: TrendingUp, color: "bg-green-100 text-green-800" },
   ]
 
   if (isLoading) {
@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import { Edit, Search } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { inventoryApi, InventoryItem } from "@/lib/api/inventory";
+import { inventoryApi, InventoryItem, StockStatus } from "@/lib/api/inventory";
 import { useDebounce } from "@/hooks/useDebounce";
 import Link from "next/link";
 
@@ -12,46 +12,57 @@ export function InventoryTable() {
     [] as InventoryItem[]
   );
   const [searchTerm, setSearchTerm] = useState("");
+  const [stockFilter, setStockFilter] = useState<StockStatus | "">("");
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
 
   // Debounce search term to avoid excessive API calls
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
-  // Reset to first page when search term changes
+  // Reset to first page when the filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [debouncedSearchTerm]);
+  }, [debouncedSearchTerm, stockFilter]);
 
   // Query the backend with pagination and search parameters
   const { data, isLoading, error } = useQuery({
-    queryKey: ["inventory", currentPage, itemsPerPage, debouncedSearchTerm],
+    queryKey: ["inventory", currentPage, itemsPerPage, debouncedSearchTerm, stockFilter],
     queryFn: () =>
-      inventoryApi.getInventory(currentPage, itemsPerPage, debouncedSearchTerm),
+      inventoryApi.getInventory(currentPage, itemsPerPage, debouncedSearchTerm, stockFilter),
   });
 
   // When backend data returns update local inventory state (if needed)
   useEffect(() => {
-    if (data && data.products) {
-      setInventory(data.products);
+    if (data && data.data) {
+      setInventory(data.data);
     }
   }, [data]);
 
-  // Assume backend returns pagination info like { totalPages: number }
   const { totalPages = 1 } = data?.pagination || {};
 
   return (
     <div className="space-y-4">
       {/* Search Bar */}
-      <div className="relative">
-        <input
-          type="text"
-          placeholder="Search inventory..."
-          className="w-full bg-white p-2 pl-10 border rounded-lg"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-        />
-        <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            placeholder="Search by product or SKU..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+        <select
+          value={stockFilter}
+          onChange={(e) => setStockFilter(e.target.value as StockStatus | "")}
+          className="px-4 bg-white py-2 border rounded-lg text-gray-700">
+          <option value="">All stock levels</option>
+          <option value="low">Low stock</option>
+          <option value="out">Out of stock</option>
+          <option value="in">In stock</option>
+        </select>
       </div>
 
       {isLoading && <div className="flex justify-center p-4">Loading...</div>}
@@ -60,7 +71,7 @@ export function InventoryTable() {
       )}
       {error && <div className="text-red-500 p-4">Error loading inventory</div>}
 
-      {!isLoading && inventory.length && (
+      {!isLoading && inventory.length > 0 && (
         <>
           <div className="bg-white shadow-sm rounded-lg overflow-hidden">
             <table className="min-w-full divide-y divide-gray-200">
@@ -83,18 +94,24 @@ export function InventoryTable() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {inventory.map((item) => (
                   <tr key={item.id}>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {item.name}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">{item.title}</div>
+                      <div className="text-gray-500">{item.sku}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {item.inStock}
+                      {item.stockLevel}
+                      {item.variantCount > 0 && (
+                        <span className="ml-1 text-xs">
+                          across {item.variantCount} {item.variantCount === 1 ? "variant" : "variants"}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {item.inStock === 0 ? (
+                      {item.stock === "out" ? (
                         <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
                           Out of Stock
                         </span>
-                      ) : item.inStock <= item.lowStockThreshold ? (
+                      ) : item.stock === "low" ? (
                         <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
                           Low Stock
                         </span>
@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { Package, Truck } from "lucide-react"
+import { ShipmentStatus } from "@prisma/client"
+import { toast } from "sonner"
+import { orderApi, Order, UpdateShipmentPayload } from "@/lib/api/orders"
+import { SHIPMENT_STATUS_TRANSITIONS } from "@/lib/orders/status"
+
+const SHIPPABLE_STATUSES = ["PENDING", "PROCESSING", "SHIPPED"]
+
+const shipmentStatusColor = (status: ShipmentStatus) =>
+  status === "DELIVERED" ? "bg-green-100 text-green-800" : "bg-blue-100 text-blue-800"
+
+export function OrderShipments({ order }: { order: Order }) {
+  const queryClient = useQueryClient()
+  const shipments = order.shipments ?? []
+
+  // Units of each order item already in a parcel
+  const shipped = new Map<string, number>()
+  for (const shipment of shipments) {
+    for (const line of shipment.items) {
+      shipped.set(line.orderItemId, (shipped.get(line.orderItemId) ?? 0) + line.quantity)
+    }
+  }
+  const remaining = order.items
+    .map((item) => ({ item, remaining: item.quantity - (shipped.get(item.id) ?? 0) }))
+    .filter(({ remaining }) => remaining > 0)
+
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [carrier, setCarrier] = useState("")
+  const [trackingNumber, setTrackingNumber] = useState("")
+  const [trackingUrl, setTrackingUrl] = useState("")
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["order", order.id] })
+    queryClient.invalidateQueries({ queryKey: ["orders"] })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      orderApi.createShipment(order.id, {
+        carrier,
+        trackingNumber,
+        trackingUrl,
+        items: remaining
+          .map(({ item, remaining }) => ({ orderItemId: item.id, quantity: quantities[item.id] ?? remaining }))
+          .filter((line) => line.quantity > 0),
+      }),
+    onSuccess: () => {
+      toast.success("Shipment created")
+      setIsFormOpen(false)
+      setCarrier("")
+      setTrackingNumber("")
+      setTrackingUrl("")
+      setQuantities({})
+      refresh()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...payload }: UpdateShipmentPayload & { id: string }) =>
+      orderApi.updateShipment(order.id, id, payload),
+    onSuccess: () => {
+      toast.success("Shipment updated")
+      refresh()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const canShip = SHIPPABLE_STATUSES.includes(order.status) && remaining.length > 0
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-md font-medium text-gray-900">Shipments</h4>
+        {canShip && !isFormOpen && (
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="text-xs px-2 py-1 border rounded hover:bg-gray-50 flex items-center gap-1"
+          >
+            <Truck size={14} />
+            Ship items
+          </button>
+        )}
+      </div>
+
+      {shipments.length === 0 && !isFormOpen && <p className="text-sm text-gray-500">Nothing has shipped yet.</p>}
+
+      <ul className="space-y-2 mt-2">
+        {shipments.map((shipment) => (
+          <li key={shipment.id} className="border rounded p-2 text-sm text-gray-600">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-1 font-medium text-gray-900">
+                <Package size={14} />
+                {shipment.carrier}
+                {shipment.trackingNumber && ` · ${shipment.trackingNumber}`}
+              </span>
+              <span
+                className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${shipmentStatusColor(shipment.status)}`}
+              >
+                {shipment.status.replace("_", " ")}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Shipped {new Date(shipment.shippedAt).toLocaleDateString()}
+              {shipment.deliveredAt && `, delivered ${new Date(shipment.deliveredAt).toLocaleDateString()}`}
+            </p>
+            <ul className="list-disc list-inside text-xs">
+              {shipment.items.map((line) => (
+                <li key={line.id}>
+                  {line.orderItem.product.title}
+                  {line.orderItem.variant ? ` (${line.orderItem.variant.name})` : ""} x{line.quantity}
+                </li>
+              ))}
+            </ul>
+            {SHIPMENT_STATUS_TRANSITIONS[shipment.status].length > 0 && (
+              <div className="mt-1 flex gap-2">
+                {SHIPMENT_STATUS_TRANSITIONS[shipment.status].map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => updateMutation.mutate({ id: shipment.id, status })}
+                    disabled={updateMutation.isPending}
+                    className="text-xs px-2 py-1 border rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Mark {status.replace("_", " ").toLowerCase()}
+                  </button>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isFormOpen && (
+        <form
+          className="mt-2 border rounded p-3 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            createMutation.mutate()
+          }}
+        >
+          <input
+            value={carrier}
+            onChange={(e) => setCarrier(e.target.value)}
+            placeholder="Carrier, e.g. Delhivery"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            required
+          />
+          <input
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            placeholder="Tracking number"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <input
+            type="url"
+            value={trackingUrl}
+            onChange={(e) => setTrackingUrl(e.target.value)}
+            placeholder="Tracking link"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <div className="space-y-1">
+            {remaining.map(({ item, remaining }) => (
+              <label key={item.id} className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                <span>
+                  {item.product.title}
+                  {item.variant ? ` (${item.variant.name})` : ""}
+                </span>
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={remaining}
+                    value={quantities[item.id] ?? remaining}
+                    onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                  <span className="text-xs text-gray-400">of {remaining}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="text-xs px-3 py-1 border rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              {createMutation.isPending ? "Saving..." : "Create shipment"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
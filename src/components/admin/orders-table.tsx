@@ -1,185 +1,376 @@
 "use client"
 
-import { useState } from "react"
-import { Eye, Truck, CheckCircle, X } from "lucide-react"
-
-const initialOrders = [
-  {
-    id: "1234",
-    customer: "John Doe",
-    date: "2023-06-01",
-    total: 99.99,
-    status: "Pending",
-    items: [
-      { name: "Product A", quantity: 2 },
-      { name: "Product B", quantity: 1 },
-    ],
-  },
-  {
-    id: "1235",
-    customer: "Jane Smith",
-    date: "2023-06-02",
-    total: 149.99,
-    status: "Shipped",
-    items: [{ name: "Product C", quantity: 3 }],
-  },
-  {
-    id: "1236",
-    customer: "Bob Johnson",
-    date: "2023-06-03",
-    total: 79.99,
-    status: "Delivered",
-    items: [
-      { name: "Product D", quantity: 1 },
-      { name: "Product E", quantity: 2 },
-    ],
-  },
-  {
-    id: "1237",
-    customer: "Alice Brown",
-    date: "2023-06-04",
-    total: 199.99,
-    status: "Pending",
-    items: [{ name: "Product F", quantity: 4 }],
-  },
-  {
-    id: "1238",
-    customer: "Charlie Davis",
-    date: "2023-06-05",
-    total: 59.99,
-    status: "Shipped",
-    items: [{ name: "Product G", quantity: 1 }],
-  },
-]
-
-interface Order {
-  id: string
-  customer: string
-  date: string
-  total: number
-  status: string
-  items: Item[]
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Eye, Truck, CheckCircle, X, Cog, Search, FileText, Mail, PackageOpen } from "lucide-react"
+import { OrderStatus, PaymentStatus } from "@prisma/client"
+import { toast } from "sonner"
+import { orderApi, Order, OrderFilters } from "@/lib/api/orders"
+import { ORDER_STATUS_TRANSITIONS, PAYMENT_STATUS_TRANSITIONS } from "@/lib/orders/status"
+import { useDebounce } from "@/hooks/useDebounce"
+import { OrderShipments } from "./order-shipments"
+
+const ORDER_STATUSES = Object.values(OrderStatus)
+const PAYMENT_STATUSES = Object.values(PaymentStatus)
+
+// Invoices are issued for orders that have been paid, including ones refunded since
+const INVOICEABLE_STATUSES: PaymentStatus[] = ["PAID", "REFUNDED"]
+
+// Icon and colour for each action that moves an order to a new status
+const STATUS_ACTIONS: Partial<Record<OrderStatus, { icon: typeof Truck; className: string; label: string }>> = {
+  PROCESSING: { icon: Cog, className: "text-indigo-600 hover:text-indigo-900", label: "Mark as processing" },
+  SHIPPED: { icon: Truck, className: "text-blue-600 hover:text-blue-900", label: "Mark as shipped" },
+  DELIVERED: { icon: CheckCircle, className: "text-green-600 hover:text-green-900", label: "Mark as delivered" },
+  CANCELLED: { icon: X, className: "text-red-600 hover:text-red-900", label: "Cancel order" },
 }
 
-interface Item {
-  name: string
-  quantity: number
+export const getStatusColor = (status: OrderStatus | PaymentStatus) => {
+  switch (status) {
+    case "PENDING":
+      return "bg-yellow-100 text-yellow-800"
+    case "PROCESSING":
+      return "bg-indigo-100 text-indigo-800"
+    case "SHIPPED":
+      return "bg-blue-100 text-blue-800"
+    case "DELIVERED":
+    case "PAID":
+      return "bg-green-100 text-green-800"
+    case "CANCELLED":
+    case "FAILED":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
 }
 
+const customerName = (order: Order) =>
+  `${order.user.firstName} ${order.user.lastName}`.trim() || order.user.email || order.user.phoneNumber || "Unknown"
+
 export function OrdersTable() {
-  const [orders, setOrders] = useState(initialOrders)
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Pending":
-        return "bg-yellow-100 text-yellow-800"
-      case "Shipped":
-        return "bg-blue-100 text-blue-800"
-      case "Delivered":
-        return "bg-green-100 text-green-800"
-      default:
-        return "bg-gray-100 text-gray-800"
-    }
-  }
+  const queryClient = useQueryClient()
+  const [currentPage, setCurrentPage] = useState(1)
+  const [filters, setFilters] = useState<OrderFilters>({ status: "", paymentStatus: "", from: "", to: "" })
+  const [customerSearch, setCustomerSearch] = useState("")
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
+  const itemsPerPage = 10
 
-  const handleShip = (id: string) => {
-    setOrders(orders.map((order) => (order.id === id ? { ...order, status: "Shipped" } : order)))
-  }
+  const debouncedCustomer = useDebounce(customerSearch, 300)
 
-  const handleDeliver = (id: string) => {
-    setOrders(orders.map((order) => (order.id === id ? { ...order, status: "Delivered" } : order)))
-  }
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [filters, debouncedCustomer])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["orders", currentPage, itemsPerPage, filters, debouncedCustomer],
+    queryFn: () =>
+      orderApi.getOrders(currentPage, itemsPerPage, {
+        ...filters,
+        // Include the whole of the "to" day
+        to: filters.to ? `${filters.to}T23:59:59` : "",
+        customer: debouncedCustomer,
+      }),
+  })
+
+  const { data: selectedOrder } = useQuery({
+    queryKey: ["order", selectedOrderId],
+    queryFn: () => orderApi.getById(selectedOrderId!),
+    enabled: !!selectedOrderId,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...payload }: { id: string; status?: OrderStatus; paymentStatus?: PaymentStatus }) =>
+      orderApi.updateOrder(id, payload),
+    onSuccess: (order) => {
+      toast.success(`Order ${order.orderNumber} updated`)
+      queryClient.invalidateQueries({ queryKey: ["orders"] })
+      queryClient.invalidateQueries({ queryKey: ["order", order.id] })
+      queryClient.invalidateQueries({ queryKey: ["recent-orders"] })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
 
-  const handleCancel = (id: string) => {
-    setOrders(orders.map((order) => (order.id === id ? { ...order, status: "Cancelled" } : order)))
+  const emailInvoiceMutation = useMutation({
+    mutationFn: (id: string) => orderApi.emailInvoice(id),
+    onSuccess: (result, id) => {
+      toast.success(result.message)
+      queryClient.invalidateQueries({ queryKey: ["order", id] })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const orders = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+
+  const handleStatusChange = (order: Order, status: OrderStatus) => {
+    if (status === "CANCELLED" && !confirm(`Cancel order ${order.orderNumber}? Its items will be returned to stock.`)) {
+      return
+    }
+    updateMutation.mutate({ id: order.id, status })
   }
 
   return (
-    <div className="bg-white shadow-sm rounded-lg overflow-hidden">
-      <table className="min-w-full divide-y divide-gray-200">
-        <thead className="bg-gray-50">
-          <tr>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order ID</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-          </tr>
-        </thead>
-        <tbody className="bg-white divide-y divide-gray-200">
-          {orders.map((order) => (
-            <tr key={order.id}>
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{order.id}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.customer}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.date}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${order.total.toFixed(2)}</td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <span
-                  className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(order.status)}`}
-                >
-                  {order.status}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                <button onClick={() => setSelectedOrder(order)} className="text-indigo-600 hover:text-indigo-900 mr-4">
-                  <Eye size={18} />
-                </button>
-                {order.status === "Pending" && (
-                  <button onClick={() => handleShip(order.id)} className="text-blue-600 hover:text-blue-900 mr-4">
-                    <Truck size={18} />
-                  </button>
-                )}
-                {order.status === "Shipped" && (
-                  <button onClick={() => handleDeliver(order.id)} className="text-green-600 hover:text-green-900 mr-4">
-                    <CheckCircle size={18} />
-                  </button>
-                )}
-                {(order.status === "Pending" || order.status === "Shipped") && (
-                  <button onClick={() => handleCancel(order.id)} className="text-red-600 hover:text-red-900">
-                    <X size={18} />
-                  </button>
-                )}
-              </td>
-            </tr>
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 bg-white p-4 rounded-lg shadow-sm">
+        <div className="relative flex-1 min-w-[220px]">
+          <input
+            type="text"
+            placeholder="Search by order number or customer..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={customerSearch}
+            onChange={(e) => setCustomerSearch(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+        <select
+          value={filters.status}
+          onChange={(e) => setFilters({ ...filters, status: e.target.value as OrderStatus | "" })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All statuses</option>
+          {ORDER_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <select
+          value={filters.paymentStatus}
+          onChange={(e) => setFilters({ ...filters, paymentStatus: e.target.value as PaymentStatus | "" })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All payments</option>
+          {PAYMENT_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
           ))}
-        </tbody>
-      </table>
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+          aria-label="To date"
+        />
+      </div>
+
+      {isLoading && <div className="flex justify-center p-4">Loading...</div>}
+      {error && <div className="text-red-500 p-4">Error loading orders</div>}
 
-      {selectedOrder && (
+      <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {!isLoading && orders.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-sm text-gray-500">No orders found</td>
+              </tr>
+            )}
+            {orders.map((order) => (
+              <tr key={order.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{order.orderNumber}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customerName(order)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(order.createdAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">₹{order.total.toFixed(2)}</td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(order.status)}`}
+                  >
+                    {order.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(order.paymentStatus)}`}
+                  >
+                    {order.paymentStatus}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => setSelectedOrderId(order.id)}
+                    className="text-indigo-600 hover:text-indigo-900 mr-4"
+                    title="View order"
+                  >
+                    <Eye size={18} />
+                  </button>
+                  {ORDER_STATUS_TRANSITIONS[order.status].map((status) => {
+                    const action = STATUS_ACTIONS[status]
+                    if (!action) return null
+                    const Icon = action.icon
+                    return (
+                      <button
+                        key={status}
+                        onClick={() => handleStatusChange(order, status)}
+                        className={`${action.className} mr-4 disabled:opacity-50`}
+                        disabled={updateMutation.isPending}
+                        title={action.label}
+                      >
+                        <Icon size={18} />
+                      </button>
+                    )
+                  })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center bg-white p-4 rounded-lg shadow">
+        <span className="text-sm text-gray-500">
+          Page {currentPage} of {totalPages} ({data?.pagination.total ?? 0} orders)
+        </span>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage >= totalPages}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {selectedOrderId && (
         <div
-          className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full"
-          onClick={() => setSelectedOrder(null)}
+          className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-20"
+          onClick={() => setSelectedOrderId(null)}
         >
           <div
-            className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white"
+            className="relative top-20 mx-auto p-5 border w-[32rem] max-w-full shadow-lg rounded-md bg-white"
             onClick={(e) => e.stopPropagation()}
           >
-            <div className="mt-3 text-center">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">Order Details</h3>
-              <div className="mt-2 px-7 py-3">
-                <p className="text-sm text-gray-500">Order ID: {selectedOrder.id}</p>
-                <p className="text-sm text-gray-500">Customer: {selectedOrder.customer}</p>
-                <p className="text-sm text-gray-500">Date: {selectedOrder.date}</p>
-                <p className="text-sm text-gray-500">Total: ${selectedOrder.total.toFixed(2)}</p>
-                <p className="text-sm text-gray-500">Status: {selectedOrder.status}</p>
-                <div className="mt-4">
-                  <h4 className="text-md font-medium text-gray-900">Items:</h4>
-                  <ul className="list-disc list-inside">
-                    {selectedOrder.items.map((item: Item, index: number) => (
-                      <li key={index} className="text-sm text-gray-500">
-                        {item.name} (x{item.quantity})
-                      </li>
+            {!selectedOrder ? (
+              <div className="p-4 text-center text-sm text-gray-500">Loading...</div>
+            ) : (
+              <div className="mt-3">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 text-center">
+                  Order {selectedOrder.orderNumber}
+                </h3>
+                <div className="mt-2 px-7 py-3 space-y-1">
+                  <p className="text-sm text-gray-500">Customer: {customerName(selectedOrder)}</p>
+                  {selectedOrder.user.email && (
+                    <p className="text-sm text-gray-500">Email: {selectedOrder.user.email}</p>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    Date: {new Date(selectedOrder.createdAt).toLocaleString()}
+                  </p>
+                  {selectedOrder.shippingAddress && (
+                    <p className="text-sm text-gray-500">
+                      Ship to: {selectedOrder.shippingAddress.street}, {selectedOrder.shippingAddress.city},{" "}
+                      {selectedOrder.shippingAddress.state} {selectedOrder.shippingAddress.postalCode},{" "}
+                      {selectedOrder.shippingAddress.country}
+                    </p>
+                  )}
+                  <div className="mt-4">
+                    <h4 className="text-md font-medium text-gray-900">Items:</h4>
+                    <ul className="list-disc list-inside">
+                      {selectedOrder.items.map((item) => (
+                        <li key={item.id} className="text-sm text-gray-500">
+                          {item.product.title}
+                          {item.variant ? ` (${item.variant.name})` : ""} x{item.quantity} — ₹{item.total.toFixed(2)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <OrderShipments key={selectedOrder.id} order={selectedOrder} />
+                  <div className="mt-4 text-sm text-gray-500 space-y-1">
+                    <p>Subtotal: ₹{selectedOrder.subtotal.toFixed(2)}</p>
+                    {selectedOrder.discount > 0 && <p>Discount: -₹{selectedOrder.discount.toFixed(2)}</p>}
+                    <p>Tax: ₹{selectedOrder.tax.toFixed(2)}</p>
+                    <p>
+                      Shipping: ₹{selectedOrder.shippingCost.toFixed(2)}
+                      {selectedOrder.shippingMethod && ` (${selectedOrder.shippingMethod})`}
+                    </p>
+                    <p className="font-medium text-gray-900">Total: ₹{selectedOrder.total.toFixed(2)}</p>
+                    {selectedOrder.refundedAmount > 0 && (
+                      <p>Refunded: ₹{selectedOrder.refundedAmount.toFixed(2)}</p>
+                    )}
+                  </div>
+                  <div className="mt-4 flex items-center gap-2">
+                    <span className="text-sm text-gray-500">Payment:</span>
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(selectedOrder.paymentStatus)}`}
+                    >
+                      {selectedOrder.paymentStatus}
+                    </span>
+                    {PAYMENT_STATUS_TRANSITIONS[selectedOrder.paymentStatus].map((paymentStatus) => (
+                      <button
+                        key={paymentStatus}
+                        onClick={() => updateMutation.mutate({ id: selectedOrder.id, paymentStatus })}
+                        disabled={updateMutation.isPending}
+                        className="text-xs px-2 py-1 border rounded hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Mark {paymentStatus.toLowerCase()}
+                      </button>
                     ))}
-                  </ul>
+                  </div>
+                  {selectedOrder.notes && (
+                    <p className="mt-2 text-sm text-gray-500">Notes: {selectedOrder.notes}</p>
+                  )}
+                  <div className="mt-4 flex flex-wrap items-center gap-2">
+                    {INVOICEABLE_STATUSES.includes(selectedOrder.paymentStatus) && (
+                      <>
+                        <a
+                          href={`/api/admin/orders/${selectedOrder.id}/invoice`}
+                          className="text-xs px-2 py-1 border rounded hover:bg-gray-50 flex items-center gap-1"
+                        >
+                          <FileText size={14} />
+                          Invoice{selectedOrder.invoiceNumber && ` ${selectedOrder.invoiceNumber}`}
+                        </a>
+                        <button
+                          onClick={() => emailInvoiceMutation.mutate(selectedOrder.id)}
+                          disabled={emailInvoiceMutation.isPending || !selectedOrder.user.email}
+                          className="text-xs px-2 py-1 border rounded hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <Mail size={14} />
+                          {emailInvoiceMutation.isPending ? "Sending..." : "Email invoice"}
+                        </button>
+                      </>
+                    )}
+                    {selectedOrder.status !== "CANCELLED" && (
+                      <a
+                        href={`/api/admin/orders/${selectedOrder.id}/packing-slip`}
+                        className="text-xs px-2 py-1 border rounded hover:bg-gray-50 flex items-center gap-1"
+                      >
+                        <PackageOpen size={14} />
+                        Packing slip
+                      </a>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       )}
     </div>
   )
 }
-
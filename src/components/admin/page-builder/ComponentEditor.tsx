@@ -104,6 +104,7 @@ export function ComponentEditor({
       case 'IMAGE_CAROUSEL': return '🎠';
       case 'VIDEO_EMBED': return '🎥';
       case 'QUOTE_BLOCK': return '💬';
+      case 'REVIEW_CARD': return '⭐';
       case 'CTA_BUTTON': return '🔘';
       case 'SPACER': return '↔️';
       case 'DIVIDER': return '➖';
@@ -125,6 +126,8 @@ export function ComponentEditor({
         return component.content.url || 'Video embed';
       case 'QUOTE_BLOCK':
         return component.content.quote || 'Quote text';
+      case 'REVIEW_CARD':
+        return component.content.sku ? `Reviews of ${component.content.sku}` : 'Latest reviews';
       case 'CTA_BUTTON':
         return component.content.text || 'Button text';
       case 'SPACER':
@@ -424,6 +427,63 @@ export function ComponentEditor({
           </div>
         );
 
+      case 'REVIEW_CARD':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="reviews-title">Title</Label>
+              <Input
+                id="reviews-title"
+                value={component.content.title || ''}
+                onChange={(e) => updateContent('title', e.target.value)}
+                placeholder="Section title"
+              />
+            </div>
+            <div>
+              <Label htmlFor="reviews-sku">Product SKU (Optional)</Label>
+              <Input
+                id="reviews-sku"
+                value={component.content.sku || ''}
+                onChange={(e) => updateContent('sku', e.target.value.trim())}
+                placeholder="Leave empty to show reviews of any product"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reviews-min-rating">Minimum Rating</Label>
+                <Select
+                  onValueChange={(value) => updateContent('minRating', Number(value))}
+                  value={String(component.content.minRating || 1)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">Any rating</SelectItem>
+                    <SelectItem value="3">3 stars and up</SelectItem>
+                    <SelectItem value="4">4 stars and up</SelectItem>
+                    <SelectItem value="5">5 stars only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reviews-limit">Number of Reviews</Label>
+                <Input
+                  id="reviews-limit"
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={component.content.limit || 3}
+                  onChange={(e) => updateContent('limit', Number(e.target.value))}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Shows the newest approved reviews. Reviews are moderated under Products → Reviews.
+            </p>
+          </div>
+        );
+
       case 'CTA_BUTTON':
         return (
           <div className="space-y-4">
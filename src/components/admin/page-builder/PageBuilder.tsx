@@ -4,7 +4,7 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Plus, FileText, Image, Video, Quote, MousePointer, Minus, MoreHorizontal } from 'lucide-react';
+import { Plus, FileText, Image, Video, Quote, MousePointer, Minus, MoreHorizontal, Star } from 'lucide-react';
 import { ComponentEditor, PageComponent, PageComponentType } from './ComponentEditor';
 import { Separator } from '@/components/ui/separator';
 import {
@@ -74,6 +74,13 @@ export function PageBuilder({ components, onComponentsChange }: PageBuilderProps
       icon: <Quote className="h-4 w-4" />,
       category: 'content'
     },
+    {
+      type: 'REVIEW_CARD',
+      label: 'Reviews',
+      description: 'Latest approved customer reviews',
+      icon: <Star className="h-4 w-4" />,
+      category: 'content'
+    },
     {
       type: 'CTA_BUTTON',
       label: 'Call-to-Action',
@@ -109,6 +116,8 @@ export function PageBuilder({ components, onComponentsChange }: PageBuilderProps
         return { url: '', provider: 'youtube' };
       case 'QUOTE_BLOCK':
         return { quote: 'Enter quote text...', author: '', title: '' };
+      case 'REVIEW_CARD':
+        return { title: 'What our customers say', sku: '', minRating: 4, limit: 3 };
       case 'CTA_BUTTON':
         return { text: 'Click Here', url: '', variant: 'primary' };
       case 'SPACER':
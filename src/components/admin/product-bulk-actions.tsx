@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { categoryApi } from "@/lib/api/categories";
+import { productApi } from "@/lib/api/productdetails";
+import type { ProductBulkOperation, ProductBulkSchema } from "@/lib/validations/product-bulk-schema";
+
+const OPERATIONS: { value: ProductBulkOperation; label: string }[] = [
+  { value: "setStatus", label: "Change status" },
+  { value: "setCategory", label: "Move to category" },
+  { value: "addTags", label: "Add tags" },
+  { value: "removeTags", label: "Remove tags" },
+  { value: "adjustPrice", label: "Adjust price by %" },
+  { value: "setFlags", label: "Set flags" },
+  { value: "delete", label: "Delete" },
+];
+
+type FlagChoice = "" | "true" | "false";
+
+interface ProductBulkActionsProps {
+  selectedIds: string[];
+  onClear: () => void;
+}
+
+const toFlag = (choice: FlagChoice) => (choice === "" ? undefined : choice === "true");
+
+/**
+ * Toolbar shown above the products table while products are selected. Every action is applied
+ * to all selected products at once, or to none of them if anything fails.
+ */
+export function ProductBulkActions({ selectedIds, onClear }: ProductBulkActionsProps) {
+  const queryClient = useQueryClient();
+  const [operation, setOperation] = useState<ProductBulkOperation>("setStatus");
+  const [status, setStatus] = useState<"DRAFT" | "PUBLISHED" | "ARCHIVED">("PUBLISHED");
+  const [categoryId, setCategoryId] = useState("");
+  const [tags, setTags] = useState("");
+  const [percent, setPercent] = useState("");
+  const [isBestSeller, setIsBestSeller] = useState<FlagChoice>("");
+  const [isNewProduct, setIsNewProduct] = useState<FlagChoice>("");
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories"],
+    queryFn: categoryApi.getAll,
+    enabled: operation === "setCategory",
+  });
+
+  const toPayload = (): ProductBulkSchema => {
+    const productIds = selectedIds;
+    const tagList = tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
+    switch (operation) {
+      case "setStatus":
+        return { operation, productIds, status };
+      case "setCategory":
+        return { operation, productIds, categoryId };
+      case "addTags":
+      case "removeTags":
+        return { operation, productIds, tags: tagList };
+      case "adjustPrice":
+        return { operation, productIds, percent: Number(percent) };
+      case "setFlags":
+        return { operation, productIds, isBestSeller: toFlag(isBestSeller), isNewProduct: toFlag(isNewProduct) };
+      case "delete":
+        return { operation, productIds };
+    }
+  };
+
+  const bulkMutation = useMutation({
+    mutationFn: productApi.bulkUpdate,
+    onSuccess: ({ affected }) => {
+      toast.success(`${affected} of ${selectedIds.length} products updated`);
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      onClear();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const apply = () => {
+    if (
+      operation === "delete" &&
+      !confirm(`Delete ${selectedIds.length} products? This cannot be undone.`)
+    ) {
+      return;
+    }
+    bulkMutation.mutate(toPayload());
+  };
+
+  const fieldClassName = "px-3 py-2 bg-white border border-gray-300 rounded-md text-sm";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white p-3 rounded-lg shadow-sm border">
+      <span className="text-sm font-medium text-gray-700">{selectedIds.length} selected</span>
+
+      <select
+        value={operation}
+        onChange={(e) => setOperation(e.target.value as ProductBulkOperation)}
+        className={fieldClassName}
+        aria-label="Bulk action"
+      >
+        {OPERATIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {operation === "setStatus" && (
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as typeof status)}
+          className={fieldClassName}
+          aria-label="Status"
+        >
+          <option value="PUBLISHED">Published</option>
+          <option value="DRAFT">Draft</option>
+          <option value="ARCHIVED">Archived</option>
+        </select>
+      )}
+
+      {operation === "setCategory" && (
+        <select
+          value={categoryId}
+          onChange={(e) => setCategoryId(e.target.value)}
+          className={fieldClassName}
+          aria-label="Category"
+        >
+          <option value="">Choose a category</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.parent ? `${category.parent.name} > ${category.name}` : category.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {(operation === "addTags" || operation === "removeTags") && (
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, separated by commas"
+          className={`${fieldClassName} w-64`}
+        />
+      )}
+
+      {operation === "adjustPrice" && (
+        <input
+          type="number"
+          step="0.1"
+          value={percent}
+          onChange={(e) => setPercent(e.target.value)}
+          placeholder="e.g. 10 or -15"
+          className={`${fieldClassName} w-36`}
+          aria-label="Percentage"
+        />
+      )}
+
+      {operation === "setFlags" && (
+        <>
+          <select
+            value={isBestSeller}
+            onChange={(e) => setIsBestSeller(e.target.value as FlagChoice)}
+            className={fieldClassName}
+            aria-label="Best seller"
+          >
+            <option value="">Best seller: unchanged</option>
+            <option value="true">Best seller: on</option>
+            <option value="false">Best seller: off</option>
+          </select>
+          <select
+            value={isNewProduct}
+            onChange={(e) => setIsNewProduct(e.target.value as FlagChoice)}
+            className={fieldClassName}
+            aria-label="New product"
+          >
+            <option value="">New: unchanged</option>
+            <option value="true">New: on</option>
+            <option value="false">New: off</option>
+          </select>
+        </>
+      )}
+
+      <button
+        onClick={apply}
+        disabled={bulkMutation.isPending}
+        className={`px-4 py-2 text-sm text-white rounded-md disabled:opacity-50 flex items-center gap-2 ${
+          operation === "delete" ? "bg-red-600 hover:bg-red-700" : "bg-[#4f507f] hover:bg-[#3e3f63]"
+        }`}
+      >
+        {bulkMutation.isPending && <Loader2 size={16} className="animate-spin" />}
+        Apply
+      </button>
+
+      <button
+        onClick={onClear}
+        className="ml-auto text-gray-400 hover:text-gray-600"
+        aria-label="Clear selection"
+      >
+        <X size={18} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client"
+
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { Loader2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { productImportApi, ProductImportReport } from "@/lib/api/product-import"
+
+// Products saved per request; each batch is one round trip to the server
+const BATCH_SIZE = 100
+// A file full of mistakes is easier to fix from the first few errors
+const MAX_ERRORS_SHOWN = 200
+
+/**
+ * Imports products from CSV in two steps: the file is checked first and every problem listed
+ * by row, and only a file without errors can then be imported, in batches.
+ */
+export function ProductImportDialog() {
+  const queryClient = useQueryClient()
+  const [isOpen, setIsOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ProductImportReport | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [processed, setProcessed] = useState<number | null>(null)
+
+  const isImporting = processed !== null
+
+  const reset = (nextFile: File | null = null) => {
+    setFile(nextFile)
+    setReport(null)
+    setProcessed(null)
+  }
+
+  const check = async () => {
+    if (!file) return
+    setIsChecking(true)
+    try {
+      setReport(await productImportApi.checkImport(file))
+    } catch (error) {
+      toast.error((error as Error).message)
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const runImport = async () => {
+    if (!file || !report) return
+    const totals = { created: 0, updated: 0, variants: 0 }
+    let offset: number | null = 0
+
+    setProcessed(0)
+    try {
+      while (offset !== null) {
+        const result = await productImportApi.importBatch(file, offset, BATCH_SIZE)
+        totals.created += result.created
+        totals.updated += result.updated
+        totals.variants += result.variants
+        setProcessed(result.processed)
+        offset = result.nextOffset
+      }
+      toast.success(
+        `Imported ${totals.created} new and ${totals.updated} updated products with ${totals.variants} variants`
+      )
+      setIsOpen(false)
+      reset()
+    } catch (error) {
+      // Batches that went through stay imported, so checking the file again shows what is left
+      toast.error((error as Error).message)
+      setReport(null)
+      setProcessed(null)
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["products"] })
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import
+      </Button>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          if (isImporting) return
+          setIsOpen(open)
+          if (!open) reset()
+        }}
+      >
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Products</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Use the columns of the export. Products are matched by SKU: existing ones are updated and new ones
+              created. Variant rows name their product in <code>parentSku</code> and replace its variants. Leaving
+              the stock empty keeps the current stock.
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="product-import-file">CSV file</Label>
+              <Input
+                id="product-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                disabled={isImporting}
+                onChange={(e) => reset(e.target.files?.[0] ?? null)}
+              />
+            </div>
+
+            {report && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {[
+                    ["Rows", report.rows],
+                    ["New products", report.toCreate],
+                    ["Updates", report.toUpdate],
+                    ["Errors", report.errors.length],
+                  ].map(([label, value]) => (
+                    <div key={label} className="rounded-md border p-2">
+                      <p className="text-lg font-semibold">{value}</p>
+                      <p className="text-xs text-gray-500">{label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {report.errors.length > 0 ? (
+                  <div className="max-h-64 overflow-y-auto border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          <TableHead>SKU</TableHead>
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{error.row}</TableCell>
+                            <TableCell className="font-mono text-xs">{error.sku || "—"}</TableCell>
+                            <TableCell className="text-red-600 text-sm">{error.message}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {report.errors.length > MAX_ERRORS_SHOWN && (
+                      <p className="text-xs text-gray-500 p-2">
+                        And {report.errors.length - MAX_ERRORS_SHOWN} more. Fix these and check the file again.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700">The file is valid and ready to import.</p>
+                )}
+
+                {isImporting && (
+                  <div className="space-y-1">
+                    <Progress value={report.products ? ((processed ?? 0) / report.products) * 100 : 100} />
+                    <p className="text-xs text-gray-500">
+                      {processed} of {report.products} products imported
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isImporting}
+              onClick={() => {
+                setIsOpen(false)
+                reset()
+              }}
+            >
+              Cancel
+            </Button>
+            {report && report.errors.length === 0 && report.products > 0 ? (
+              <Button onClick={runImport} disabled={isImporting}>
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {report.products} products
+              </Button>
+            ) : (
+              <Button onClick={check} disabled={!file || isChecking}>
+                {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check file
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -8,12 +8,14 @@ import cuid from "cuid";
 import { productApi, Product } from "@/lib/api/productdetails";
 import { useState, useEffect } from "react";
 import { useDebounce } from "@/hooks/useDebounce";
+import { ProductBulkActions } from "@/components/admin/product-bulk-actions";
 
 export function ProductsTable() {
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
@@ -69,6 +71,22 @@ export function ProductsTable() {
   const products = data?.products || [];
   const { totalPages } = data?.pagination || { totalPages: 1 };
 
+  // Selection is kept across pages so products from several pages can be changed together
+  const pageIds = products.map((product: Product) => product.id);
+  const isPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id]
+    );
+
+  const togglePage = () =>
+    setSelectedIds((current) =>
+      isPageSelected
+        ? current.filter((id) => !pageIds.includes(id))
+        : [...new Set([...current, ...pageIds])]
+    );
+
   return (
     <div className="space-y-4">
       <div className="relative">
@@ -82,6 +100,10 @@ export function ProductsTable() {
         <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
       </div>
 
+      {selectedIds.length > 0 && (
+        <ProductBulkActions selectedIds={selectedIds} onClear={() => setSelectedIds([])} />
+      )}
+
       {isLoading && <div className="flex justify-center p-4">Loading...</div>}
       {!isLoading && !products.length && (
         <div className="p-4">No products found</div>
@@ -93,6 +115,14 @@ export function ProductsTable() {
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              <th className="pl-6 py-3 text-left">
+                <input
+                  type="checkbox"
+                  checked={isPageSelected}
+                  onChange={togglePage}
+                  aria-label="Select all products on this page"
+                />
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                 Image
               </th>
@@ -113,6 +143,14 @@ export function ProductsTable() {
           <tbody className="bg-white divide-y divide-gray-200">
             {products.map((product: Product) => (
               <tr key={product.id} className="hover:bg-gray-50">
+                <td className="pl-6 py-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(product.id)}
+                    onChange={() => toggleSelected(product.id)}
+                    aria-label={`Select ${product.title}`}
+                  />
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="relative w-20 h-20">
                     <Image
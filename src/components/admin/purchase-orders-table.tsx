@@ -0,0 +1,556 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Eye, Loader2, Plus, Search, X } from "lucide-react"
+import { PurchaseOrderStatus } from "@prisma/client"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { inventoryApi } from "@/lib/api/inventory"
+import { purchaseOrderApi, PurchaseOrder } from "@/lib/api/purchase-orders"
+import { supplierApi } from "@/lib/api/suppliers"
+import { useDebounce } from "@/hooks/useDebounce"
+
+const PURCHASE_ORDER_STATUSES = Object.values(PurchaseOrderStatus)
+
+const getPurchaseOrderStatusColor = (status: PurchaseOrderStatus) => {
+  switch (status) {
+    case "DRAFT":
+      return "bg-gray-100 text-gray-800"
+    case "SENT":
+      return "bg-blue-100 text-blue-800"
+    case "PARTIALLY_RECEIVED":
+      return "bg-yellow-100 text-yellow-800"
+    case "RECEIVED":
+      return "bg-green-100 text-green-800"
+    case "CANCELLED":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+const orderTotal = (purchaseOrder: PurchaseOrder) =>
+  purchaseOrder.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0)
+
+const itemName = (item: PurchaseOrder["items"][number]) =>
+  item.variant ? `${item.product.title} (${item.variant.name})` : item.product.title
+
+function PurchaseOrderDetail({ purchaseOrder, onDone }: { purchaseOrder: PurchaseOrder; onDone: () => void }) {
+  const queryClient = useQueryClient()
+  // Quantities being booked in now, per line
+  const [receiving, setReceiving] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState("")
+
+  const canReceive = purchaseOrder.status === "SENT" || purchaseOrder.status === "PARTIALLY_RECEIVED"
+
+  const onSuccess = (updated: PurchaseOrder) => {
+    toast.success(`${updated.poNumber} is now ${updated.status.replace("_", " ").toLowerCase()}`)
+    queryClient.invalidateQueries({ queryKey: ["purchase-orders"] })
+    queryClient.invalidateQueries({ queryKey: ["inventory"] })
+    queryClient.invalidateQueries({ queryKey: ["inventoryOverview"] })
+    queryClient.invalidateQueries({ queryKey: ["reorder-suggestions"] })
+    onDone()
+  }
+  const onError = (error: Error) => toast.error(error.message)
+
+  const statusMutation = useMutation({
+    mutationFn: (status: typeof PurchaseOrderStatus.SENT | typeof PurchaseOrderStatus.CANCELLED) =>
+      purchaseOrderApi.setStatus(purchaseOrder.id, status),
+    onSuccess,
+    onError,
+  })
+
+  const receiveMutation = useMutation({
+    mutationFn: () =>
+      purchaseOrderApi.receive(purchaseOrder.id, {
+        items: purchaseOrder.items.map((item) => ({ id: item.id, quantity: Number(receiving[item.id] || 0) })),
+        notes: notes.trim() || null,
+      }),
+    onSuccess,
+    onError,
+  })
+
+  const receiveAll = () =>
+    setReceiving(
+      Object.fromEntries(purchaseOrder.items.map((item) => [item.id, String(item.quantity - item.receivedQuantity)]))
+    )
+
+  const isPending = statusMutation.isPending || receiveMutation.isPending
+
+  return (
+    <div className="mt-3">
+      <h3 className="text-lg leading-6 font-medium text-gray-900 text-center">Purchase order {purchaseOrder.poNumber}</h3>
+      <div className="mt-2 px-7 py-3 space-y-1 text-sm text-gray-500">
+        <p>Supplier: {purchaseOrder.supplier.name}</p>
+        <p>Created: {new Date(purchaseOrder.createdAt).toLocaleString()}</p>
+        {purchaseOrder.sentAt && <p>Sent: {new Date(purchaseOrder.sentAt).toLocaleString()}</p>}
+        {purchaseOrder.expectedAt && <p>Expected: {new Date(purchaseOrder.expectedAt).toLocaleDateString()}</p>}
+        {purchaseOrder.receivedAt && <p>Received: {new Date(purchaseOrder.receivedAt).toLocaleString()}</p>}
+        {purchaseOrder.notes && <p>Notes: {purchaseOrder.notes}</p>}
+
+        <div className="mt-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-md font-medium text-gray-900">Items</h4>
+            {canReceive && (
+              <button onClick={receiveAll} className="text-xs text-indigo-600 hover:text-indigo-900">
+                Receive all outstanding
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2 mt-1">
+            {purchaseOrder.items.map((item) => {
+              const outstanding = item.quantity - item.receivedQuantity
+              return (
+                <li key={item.id} className="flex items-center justify-between gap-2">
+                  <span>
+                    {itemName(item)} — {item.receivedQuantity}/{item.quantity} received at ₹{item.unitCost.toFixed(2)}
+                  </span>
+                  {canReceive && outstanding > 0 && (
+                    <input
+                      type="number"
+                      min={0}
+                      max={outstanding}
+                      placeholder="0"
+                      value={receiving[item.id] ?? ""}
+                      onChange={(e) => setReceiving((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                      aria-label="Quantity received"
+                    />
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+          <p className="mt-2 font-medium text-gray-900">Total: ₹{orderTotal(purchaseOrder).toFixed(2)}</p>
+        </div>
+
+        {canReceive && (
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery notes, e.g. invoice number"
+            className="mt-3 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        )}
+
+        <div className="mt-3 flex justify-end gap-2">
+          {purchaseOrder.status === "DRAFT" && (
+            <button
+              onClick={() => statusMutation.mutate(PurchaseOrderStatus.SENT)}
+              disabled={isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              Mark sent
+            </button>
+          )}
+          {(purchaseOrder.status === "DRAFT" || purchaseOrder.status === "SENT") && (
+            <button
+              onClick={() =>
+                confirm(`Cancel purchase order ${purchaseOrder.poNumber}?`) &&
+                statusMutation.mutate(PurchaseOrderStatus.CANCELLED)
+              }
+              disabled={isPending}
+              className="text-xs px-3 py-1 border rounded text-red-600 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel order
+            </button>
+          )}
+          {canReceive && (
+            <button
+              onClick={() => receiveMutation.mutate()}
+              disabled={isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              {receiveMutation.isPending ? "Receiving..." : "Receive into stock"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface LineForm {
+  productId: string
+  title: string
+  // Products with variants must be ordered per variant
+  variants: { id: string; name: string }[]
+  variantId: string
+  quantity: number
+  unitCost: number
+}
+
+function NewPurchaseOrderDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const queryClient = useQueryClient()
+  const [supplierId, setSupplierId] = useState("")
+  const [expectedAt, setExpectedAt] = useState("")
+  const [notes, setNotes] = useState("")
+  const [lines, setLines] = useState<LineForm[]>([])
+  const [productSearch, setProductSearch] = useState("")
+
+  const debouncedSearch = useDebounce(productSearch, 300)
+
+  const { data: suppliers = [] } = useQuery({
+    queryKey: ["suppliers"],
+    queryFn: supplierApi.getSuppliers,
+    enabled: open,
+  })
+
+  const { data: products } = useQuery({
+    queryKey: ["inventory", 1, 8, debouncedSearch, ""],
+    queryFn: () => inventoryApi.getInventory(1, 8, debouncedSearch),
+    enabled: open && debouncedSearch !== "",
+  })
+
+  useEffect(() => {
+    if (!open) {
+      setSupplierId("")
+      setExpectedAt("")
+      setNotes("")
+      setLines([])
+      setProductSearch("")
+    }
+  }, [open])
+
+  const addProduct = async (productId: string, title: string, variantCount: number) => {
+    setProductSearch("")
+    try {
+      const variants =
+        variantCount > 0 ? (await inventoryApi.getProductInventory(productId)).variants : []
+      setLines((prev) => [
+        ...prev,
+        { productId, title, variants, variantId: variants[0]?.id ?? "", quantity: 1, unitCost: 0 },
+      ])
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const updateLine = <K extends keyof LineForm>(index: number, key: K, value: LineForm[K]) =>
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [key]: value } : line)))
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      purchaseOrderApi.createPurchaseOrder({
+        supplierId,
+        expectedAt: expectedAt || null,
+        notes: notes.trim() || null,
+        items: lines.map((line) => ({
+          productId: line.productId,
+          variantId: line.variantId || null,
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+        })),
+      }),
+    onSuccess: (created) => {
+      toast.success(`Purchase order ${created.poNumber} drafted`)
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] })
+      onOpenChange(false)
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            createMutation.mutate()
+          }}
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="po-supplier">Supplier</Label>
+              <select
+                id="po-supplier"
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="w-full h-10 px-3 border border-gray-300 rounded-md text-sm"
+                required
+              >
+                <option value="">Choose a supplier</option>
+                {suppliers
+                  .filter((supplier) => supplier.isActive)
+                  .map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-expected">Expected delivery</Label>
+              <Input id="po-expected" type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="po-notes">Notes</Label>
+              <Input id="po-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Items</Label>
+            <div className="relative">
+              <Input
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder="Search products by title or SKU to add them..."
+              />
+              {productSearch && products && (
+                <ul className="absolute z-10 mt-1 w-full bg-white border rounded-md shadow-lg max-h-60 overflow-y-auto">
+                  {products.data.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No products found</li>}
+                  {products.data.map((product) => (
+                    <li key={product.id}>
+                      <button
+                        type="button"
+                        onClick={() => addProduct(product.id, product.title, product.variantCount)}
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                      >
+                        {product.title} <span className="text-gray-500">({product.sku}, {product.stockLevel} in stock)</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {lines.length === 0 && <p className="text-sm text-gray-500">No items added yet.</p>}
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end border rounded-md p-3">
+                <div className="col-span-5 space-y-1">
+                  <p className="text-sm font-medium">{line.title}</p>
+                  {line.variants.length > 0 && (
+                    <select
+                      value={line.variantId}
+                      onChange={(e) => updateLine(index, "variantId", e.target.value)}
+                      className="w-full h-9 px-2 border border-gray-300 rounded-md text-sm"
+                      aria-label="Variant"
+                    >
+                      {line.variants.map((variant) => (
+                        <option key={variant.id} value={variant.id}>
+                          {variant.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="col-span-3 space-y-1">
+                  <Label htmlFor={`po-line-${index}-quantity`}>Quantity</Label>
+                  <Input
+                    id={`po-line-${index}-quantity`}
+                    type="number"
+                    min={1}
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, "quantity", Number(e.target.value))}
+                  />
+                </div>
+                <div className="col-span-3 space-y-1">
+                  <Label htmlFor={`po-line-${index}-cost`}>Unit cost (₹)</Label>
+                  <Input
+                    id={`po-line-${index}-cost`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, "unitCost", Number(e.target.value))}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                  className="col-span-1 pb-2 text-gray-400 hover:text-red-600"
+                  aria-label="Remove item"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending || lines.length === 0}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save draft
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function PurchaseOrdersTable() {
+  const [currentPage, setCurrentPage] = useState(1)
+  const [status, setStatus] = useState<PurchaseOrderStatus | "">("")
+  const [search, setSearch] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const itemsPerPage = 10
+
+  const debouncedSearch = useDebounce(search, 300)
+
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [status, debouncedSearch])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["purchase-orders", currentPage, itemsPerPage, status, debouncedSearch],
+    queryFn: () => purchaseOrderApi.getPurchaseOrders(currentPage, itemsPerPage, status, debouncedSearch),
+  })
+
+  const purchaseOrders = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+  const selectedOrder = purchaseOrders.find((purchaseOrder) => purchaseOrder.id === selectedId)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 bg-white p-4 rounded-lg shadow-sm">
+        <div className="relative flex-1 min-w-[220px]">
+          <input
+            type="text"
+            placeholder="Search by PO number, supplier or product..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as PurchaseOrderStatus | "")}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All statuses</option>
+          {PURCHASE_ORDER_STATUSES.map((value) => (
+            <option key={value} value={value}>{value.replace("_", " ")}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsCreateOpen(true)}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#4f507f] text-white text-sm hover:bg-[#3f4167]"
+        >
+          <Plus size={16} />
+          New Purchase Order
+        </button>
+      </div>
+
+      {isLoading && <div className="flex justify-center p-4">Loading...</div>}
+      {error && <div className="text-red-500 p-4">Error loading purchase orders</div>}
+
+      <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PO Number</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {!isLoading && purchaseOrders.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-6 py-4 text-sm text-gray-500">No purchase orders found</td>
+              </tr>
+            )}
+            {purchaseOrders.map((purchaseOrder) => (
+              <tr key={purchaseOrder.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {purchaseOrder.poNumber}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{purchaseOrder.supplier.name}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(purchaseOrder.createdAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {purchaseOrder.expectedAt ? new Date(purchaseOrder.expectedAt).toLocaleDateString() : "—"}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {purchaseOrder.items.reduce((sum, item) => sum + item.receivedQuantity, 0)}/
+                  {purchaseOrder.items.reduce((sum, item) => sum + item.quantity, 0)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  ₹{orderTotal(purchaseOrder).toFixed(2)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getPurchaseOrderStatusColor(purchaseOrder.status)}`}
+                  >
+                    {purchaseOrder.status.replace("_", " ")}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => setSelectedId(purchaseOrder.id)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                    title="View purchase order"
+                  >
+                    <Eye size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center bg-white p-4 rounded-lg shadow">
+        <span className="text-sm text-gray-500">
+          Page {currentPage} of {totalPages} ({data?.pagination.total ?? 0} purchase orders)
+        </span>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage >= totalPages}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {selectedOrder && (
+        <div
+          className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-20"
+          onClick={() => setSelectedId(null)}
+        >
+          <div
+            className="relative top-20 mx-auto p-5 border w-[36rem] max-w-full shadow-lg rounded-md bg-white"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <PurchaseOrderDetail
+              key={`${selectedOrder.id}-${selectedOrder.status}`}
+              purchaseOrder={selectedOrder}
+              onDone={() => setSelectedId(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      <NewPurchaseOrderDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+    </div>
+  )
+}
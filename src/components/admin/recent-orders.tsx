@@ -2,26 +2,24 @@
 
 import { useQuery } from "@tanstack/react-query";
 import Link from "next/link";
-import { mockOrders } from "@/lib/mockData";
+import { orderApi, Order } from "@/lib/api/orders";
+import { getStatusColor } from "@/components/admin/orders-table";
 
-interface Order {
-  id: string;
-  customer: string;
-  product: string;
-  amount: number;
-  status: string;
-  date: string;
-}
+const describeItems = (order: Order) => {
+  const [first, ...rest] = order.items;
+  if (!first) return "-";
+  return rest.length > 0 ? `${first.product.title} +${rest.length} more` : first.product.title;
+};
 
 export function RecentOrders() {
   const { data: orders, isLoading } = useQuery<Order[]>({
     queryKey: ['recent-orders'],
-    queryFn: () => Promise.resolve(mockOrders as Order[]),
-    refetchInterval: 5000,
+    queryFn: async () => (await orderApi.getOrders(1, 5)).data,
+    refetchInterval: 30000,
   });
 
   if (isLoading) return <div>Loading...</div>;
-  if (!orders) return <div>No orders found</div>;
+  if (!orders || orders.length === 0) return <div>No orders found</div>;
 
   return (
     <div className="space-y-4">
@@ -59,30 +57,24 @@ export function RecentOrders() {
             {orders.map((order) => (
               <tr key={order.id} className="hover:bg-gray-50">
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {order.id}
+                  {order.orderNumber}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {order.customer}
+                  {`${order.user.firstName} ${order.user.lastName}`.trim() || order.user.email}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {order.product}
+                  {describeItems(order)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  ${order.amount.toFixed(2)}
+                  ₹{order.total.toFixed(2)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                    order.status === 'Delivered' 
-                      ? 'bg-green-100 text-green-800' 
-                      : order.status === 'Shipped'
-                      ? 'bg-blue-100 text-blue-800'
-                      : 'bg-yellow-100 text-yellow-800'
-                  }`}>
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(order.status)}`}>
                     {order.status}
                   </span>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {new Date(order.date).toLocaleDateString()}
+                  {new Date(order.createdAt).toLocaleDateString()}
                 </td>
               </tr>
             ))}
@@ -0,0 +1,69 @@
+"use client";
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { inventoryApi } from "@/lib/api/inventory";
+
+export function ReorderSuggestions() {
+  const { data: suggestions, isLoading } = useQuery({
+    queryKey: ["reorder-suggestions"],
+    queryFn: () => inventoryApi.getReorderSuggestions(30, 8),
+  });
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!suggestions) {
+    return <div>No data</div>;
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-lg hover:shadow-xl transition-all duration-300">
+      <div className="flex items-center justify-between mb-6 border-b pb-3">
+        <h2 className="text-xl font-semibold text-[#4f507f]">Reorder Suggestions</h2>
+        <Link href="/admin/products/purchase-orders" className="text-sm text-indigo-600 hover:text-indigo-900">
+          Purchase orders
+        </Link>
+      </div>
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing needs reordering right now.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="pb-2">Product</th>
+              <th className="pb-2">In stock</th>
+              <th className="pb-2">On order</th>
+              <th className="pb-2">Sold / day</th>
+              <th className="pb-2">Reorder</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {suggestions.map((suggestion) => (
+              <tr key={`${suggestion.productId}-${suggestion.variantId ?? ""}`}>
+                <td className="py-2">
+                  <Link
+                    href={`/admin/products/inventory/edit/${suggestion.productId}`}
+                    className="font-medium text-gray-800 hover:text-indigo-600"
+                  >
+                    {suggestion.title}
+                    {suggestion.variantName && ` (${suggestion.variantName})`}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {suggestion.daysOfStock === null
+                      ? "No recent sales"
+                      : `Lasts about ${suggestion.daysOfStock} days, lead time ${suggestion.leadTimeDays} days`}
+                  </p>
+                </td>
+                <td className="py-2 text-gray-600">{suggestion.stock}</td>
+                <td className="py-2 text-gray-600">{suggestion.incoming}</td>
+                <td className="py-2 text-gray-600">{suggestion.soldPerDay}</td>
+                <td className="py-2 font-semibold text-gray-800">{suggestion.suggestedQuantity}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
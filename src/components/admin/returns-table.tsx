@@ -0,0 +1,357 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Eye, Search } from "lucide-react"
+import { ReturnStatus } from "@prisma/client"
+import { toast } from "sonner"
+import { returnApi, ReturnFilters, ReturnRequest, UpdateReturnPayload } from "@/lib/api/returns"
+import { useDebounce } from "@/hooks/useDebounce"
+
+const RETURN_STATUSES = Object.values(ReturnStatus)
+
+const getReturnStatusColor = (status: ReturnStatus) => {
+  switch (status) {
+    case "REQUESTED":
+      return "bg-yellow-100 text-yellow-800"
+    case "APPROVED":
+      return "bg-indigo-100 text-indigo-800"
+    case "RECEIVED":
+      return "bg-blue-100 text-blue-800"
+    case "REFUNDING":
+      return "bg-teal-100 text-teal-800"
+    case "REFUNDED":
+      return "bg-green-100 text-green-800"
+    case "REJECTED":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+const customerName = (returnRequest: ReturnRequest) =>
+  `${returnRequest.user.firstName} ${returnRequest.user.lastName}`.trim() || returnRequest.user.email || "Unknown"
+
+function ReturnDetail({ returnRequest, onDone }: { returnRequest: ReturnRequest; onDone: () => void }) {
+  const queryClient = useQueryClient()
+  const [adminNotes, setAdminNotes] = useState(returnRequest.adminNotes ?? "")
+  const [restock, setRestock] = useState<Record<string, boolean>>({})
+  // Lines left blank are refunded in full
+  const [refunds, setRefunds] = useState<Record<string, string>>({})
+  const [refundTo, setRefundTo] = useState<"ORIGINAL" | "STORE_CREDIT">("ORIGINAL")
+
+  const mutation = useMutation({
+    mutationFn: (payload: UpdateReturnPayload) => returnApi.updateReturn(returnRequest.id, payload),
+    onSuccess: (updated) => {
+      toast.success(`Return ${updated.rmaNumber} is now ${updated.status.toLowerCase()}`)
+      queryClient.invalidateQueries({ queryKey: ["returns"] })
+      queryClient.invalidateQueries({ queryKey: ["orders"] })
+      onDone()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const notes = adminNotes.trim() || null
+
+  const handleRefund = () => {
+    const items = Object.entries(refunds)
+      .filter(([, value]) => value !== "")
+      .map(([id, value]) => ({ id, refundAmount: Number(value) }))
+    const destination = refundTo === "STORE_CREDIT" ? "as store credit" : "to the customer's original payment method"
+    if (!confirm(`Refund return ${returnRequest.rmaNumber} ${destination}?`)) return
+    mutation.mutate({ action: "refund", adminNotes: notes, items, refundTo })
+  }
+
+  return (
+    <div className="mt-3">
+      <h3 className="text-lg leading-6 font-medium text-gray-900 text-center">Return {returnRequest.rmaNumber}</h3>
+      <div className="mt-2 px-7 py-3 space-y-1 text-sm text-gray-500">
+        <p>Order: {returnRequest.order.orderNumber}</p>
+        <p>Customer: {customerName(returnRequest)}</p>
+        <p>Requested: {new Date(returnRequest.createdAt).toLocaleString()}</p>
+        <p>Reason: {returnRequest.reason}</p>
+        {returnRequest.customerNotes && <p>Customer notes: {returnRequest.customerNotes}</p>}
+        <p>
+          Order total: ₹{returnRequest.order.total.toFixed(2)}, refunded so far: ₹
+          {returnRequest.order.refundedAmount.toFixed(2)}
+        </p>
+        {returnRequest.order.giftCardAmount + returnRequest.order.storeCreditAmount > 0 && (
+          <p>
+            Paid with gift card: ₹{returnRequest.order.giftCardAmount.toFixed(2)}, store credit: ₹
+            {returnRequest.order.storeCreditAmount.toFixed(2)} (refunded as store credit)
+          </p>
+        )}
+
+        <div className="mt-4">
+          <h4 className="text-md font-medium text-gray-900">Items</h4>
+          <ul className="space-y-2 mt-1">
+            {returnRequest.items.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-2">
+                <span>
+                  {item.orderItem.product.title}
+                  {item.orderItem.variant ? ` (${item.orderItem.variant.name})` : ""} x{item.quantity}
+                  {returnRequest.status === "REFUNDED" && ` — refunded ₹${item.refundAmount.toFixed(2)}`}
+                  {(returnRequest.status === "RECEIVED" || returnRequest.status === "REFUNDED") &&
+                    !item.restock &&
+                    " (not restocked)"}
+                </span>
+                {returnRequest.status === "APPROVED" && (
+                  <label className="flex items-center gap-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={restock[item.id] ?? true}
+                      onChange={(e) => setRestock((prev) => ({ ...prev, [item.id]: e.target.checked }))}
+                    />
+                    Restock
+                  </label>
+                )}
+                {returnRequest.status === "RECEIVED" && (
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Full"
+                    value={refunds[item.id] ?? ""}
+                    onChange={(e) => setRefunds((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                    aria-label="Refund amount"
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {returnRequest.status === "REFUNDED" && (
+          <p className="mt-2 font-medium text-gray-900">
+            Refunded ₹{returnRequest.refundAmount.toFixed(2)}
+            {returnRequest.refundReference && ` (${returnRequest.refundReference})`}
+          </p>
+        )}
+
+        <textarea
+          value={adminNotes}
+          onChange={(e) => setAdminNotes(e.target.value)}
+          placeholder="Internal notes"
+          rows={2}
+          className="mt-3 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          disabled={returnRequest.status === "REFUNDED" || returnRequest.status === "REJECTED"}
+        />
+
+        <div className="mt-3 flex justify-end gap-2">
+          {returnRequest.status === "RECEIVED" && (
+            <select
+              value={refundTo}
+              onChange={(e) => setRefundTo(e.target.value as "ORIGINAL" | "STORE_CREDIT")}
+              className="text-xs px-2 py-1 border border-gray-300 rounded"
+              aria-label="Refund to"
+            >
+              <option value="ORIGINAL">Original payment</option>
+              <option value="STORE_CREDIT">Store credit</option>
+            </select>
+          )}
+          {returnRequest.status === "REQUESTED" && (
+            <button
+              onClick={() => mutation.mutate({ action: "approve", adminNotes: notes })}
+              disabled={mutation.isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              Approve
+            </button>
+          )}
+          {(returnRequest.status === "REQUESTED" || returnRequest.status === "APPROVED") && (
+            <button
+              onClick={() => mutation.mutate({ action: "reject", adminNotes: notes })}
+              disabled={mutation.isPending}
+              className="text-xs px-3 py-1 border rounded text-red-600 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          )}
+          {returnRequest.status === "APPROVED" && (
+            <button
+              onClick={() =>
+                mutation.mutate({
+                  action: "receive",
+                  adminNotes: notes,
+                  items: returnRequest.items.map((item) => ({ id: item.id, restock: restock[item.id] ?? true })),
+                })
+              }
+              disabled={mutation.isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              Mark received
+            </button>
+          )}
+          {returnRequest.status === "RECEIVED" && (
+            <button
+              onClick={handleRefund}
+              disabled={mutation.isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              {mutation.isPending ? "Refunding..." : "Issue refund"}
+            </button>
+          )}
+          {/* The gateway has refunded, or did not need to, but the rest of the refund was not booked */}
+          {returnRequest.status === "REFUNDING" &&
+            (returnRequest.refundReference || returnRequest.storeCreditRefund >= returnRequest.refundAmount) && (
+              <button
+                onClick={() => mutation.mutate({ action: "refund", adminNotes: notes })}
+                disabled={mutation.isPending}
+                className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+              >
+                {mutation.isPending ? "Refunding..." : "Finish refund"}
+              </button>
+            )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function ReturnsTable() {
+  const [currentPage, setCurrentPage] = useState(1)
+  const [filters, setFilters] = useState<ReturnFilters>({ status: "" })
+  const [search, setSearch] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const itemsPerPage = 10
+
+  const debouncedSearch = useDebounce(search, 300)
+
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [filters, debouncedSearch])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["returns", currentPage, itemsPerPage, filters, debouncedSearch],
+    queryFn: () => returnApi.getReturns(currentPage, itemsPerPage, { ...filters, search: debouncedSearch }),
+  })
+
+  const returns = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+  const selectedReturn = returns.find((returnRequest) => returnRequest.id === selectedId)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 bg-white p-4 rounded-lg shadow-sm">
+        <div className="relative flex-1 min-w-[220px]">
+          <input
+            type="text"
+            placeholder="Search by RMA, order number or email..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+        <select
+          value={filters.status}
+          onChange={(e) => setFilters({ ...filters, status: e.target.value as ReturnStatus | "" })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All statuses</option>
+          {RETURN_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading && <div className="flex justify-center p-4">Loading...</div>}
+      {error && <div className="text-red-500 p-4">Error loading returns</div>}
+
+      <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">RMA</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {!isLoading && returns.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-sm text-gray-500">No returns found</td>
+              </tr>
+            )}
+            {returns.map((returnRequest) => (
+              <tr key={returnRequest.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {returnRequest.rmaNumber}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{returnRequest.order.orderNumber}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customerName(returnRequest)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(returnRequest.createdAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {returnRequest.items.reduce((sum, item) => sum + item.quantity, 0)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getReturnStatusColor(returnRequest.status)}`}
+                  >
+                    {returnRequest.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => setSelectedId(returnRequest.id)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                    title="View return"
+                  >
+                    <Eye size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center bg-white p-4 rounded-lg shadow">
+        <span className="text-sm text-gray-500">
+          Page {currentPage} of {totalPages} ({data?.pagination.total ?? 0} returns)
+        </span>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage >= totalPages}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {selectedReturn && (
+        <div
+          className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-20"
+          onClick={() => setSelectedId(null)}
+        >
+          <div
+            className="relative top-20 mx-auto p-5 border w-[32rem] max-w-full shadow-lg rounded-md bg-white"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <ReturnDetail
+              key={`${selectedReturn.id}-${selectedReturn.status}`}
+              returnRequest={selectedReturn}
+              onDone={() => setSelectedId(null)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Search, Star, Trash2 } from "lucide-react"
+import { ReviewStatus } from "@prisma/client"
+import { toast } from "sonner"
+import { Review, reviewApi, ReviewFilters } from "@/lib/api/reviews"
+import { useDebounce } from "@/hooks/useDebounce"
+
+const REVIEW_STATUSES = Object.values(ReviewStatus)
+
+const getReviewStatusColor = (status: ReviewStatus) => {
+  switch (status) {
+    case "PENDING":
+      return "bg-yellow-100 text-yellow-800"
+    case "APPROVED":
+      return "bg-green-100 text-green-800"
+    case "REJECTED":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+const customerName = (review: Review) =>
+  `${review.user.firstName} ${review.user.lastName}`.trim() || review.user.email || "Unknown"
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="flex" aria-label={`${rating} out of 5`}>
+      {Array.from({ length: 5 }, (_, i) => (
+        <Star key={i} size={14} className={i < rating ? "text-yellow-400 fill-yellow-400" : "text-gray-300"} />
+      ))}
+    </span>
+  )
+}
+
+export function ReviewsTable() {
+  const queryClient = useQueryClient()
+  const [currentPage, setCurrentPage] = useState(1)
+  const [filters, setFilters] = useState<ReviewFilters>({ status: "PENDING", rating: "" })
+  const [search, setSearch] = useState("")
+  const [selected, setSelected] = useState<string[]>([])
+  const itemsPerPage = 20
+
+  const debouncedSearch = useDebounce(search, 300)
+
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [filters, debouncedSearch])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["reviews", currentPage, itemsPerPage, filters, debouncedSearch],
+    queryFn: () => reviewApi.getReviews(currentPage, itemsPerPage, { ...filters, search: debouncedSearch }),
+  })
+
+  const reviews = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+
+  // Selections only make sense for the rows on screen
+  useEffect(() => {
+    setSelected([])
+  }, [data])
+
+  const moderateMutation = useMutation({
+    mutationFn: ({ ids, status }: { ids: string[]; status: typeof ReviewStatus.APPROVED | typeof ReviewStatus.REJECTED }) =>
+      reviewApi.moderateReviews(ids, status),
+    onSuccess: ({ count }, { status }) => {
+      toast.success(`${count} ${count === 1 ? "review" : "reviews"} ${status.toLowerCase()}`)
+      queryClient.invalidateQueries({ queryKey: ["reviews"] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => reviewApi.deleteReview(id),
+    onSuccess: () => {
+      toast.success("Review deleted")
+      queryClient.invalidateQueries({ queryKey: ["reviews"] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const allSelected = reviews.length > 0 && selected.length === reviews.length
+  const toggle = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 bg-white p-4 rounded-lg shadow-sm">
+        <div className="relative flex-1 min-w-[220px]">
+          <input
+            type="text"
+            placeholder="Search by product, SKU, email or text..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+        <select
+          value={filters.status}
+          onChange={(e) => setFilters({ ...filters, status: e.target.value as ReviewStatus | "" })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All statuses</option>
+          {REVIEW_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <select
+          value={filters.rating}
+          onChange={(e) => setFilters({ ...filters, rating: e.target.value })}
+          className="px-3 py-2 border rounded-lg bg-white text-sm"
+        >
+          <option value="">All ratings</option>
+          {[5, 4, 3, 2, 1].map((rating) => (
+            <option key={rating} value={rating}>
+              {rating} {rating === 1 ? "star" : "stars"}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex items-center justify-between bg-white p-4 rounded-lg shadow-sm text-sm">
+          <span>{selected.length} selected</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => moderateMutation.mutate({ ids: selected, status: "APPROVED" })}
+              disabled={moderateMutation.isPending}
+              className="text-xs px-3 py-1 rounded bg-[#4f507f] text-white hover:bg-[#3f4167] disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => moderateMutation.mutate({ ids: selected, status: "REJECTED" })}
+              disabled={moderateMutation.isPending}
+              className="text-xs px-3 py-1 border rounded text-red-600 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading && <div className="flex justify-center p-4">Loading...</div>}
+      {error && <div className="text-red-500 p-4">Error loading reviews</div>}
+
+      <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? [] : reviews.map((review) => review.id))}
+                  aria-label="Select all reviews"
+                />
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Review</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {!isLoading && reviews.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-sm text-gray-500">No reviews found</td>
+              </tr>
+            )}
+            {reviews.map((review) => (
+              <tr key={review.id}>
+                <td className="px-4 py-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(review.id)}
+                    onChange={() => toggle(review.id)}
+                    aria-label="Select review"
+                  />
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {review.product.title}
+                  <div className="text-xs text-gray-500">{review.product.sku}</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customerName(review)}</td>
+                <td className="px-6 py-4 text-sm text-gray-500 max-w-md">
+                  <Stars rating={review.rating} />
+                  {review.comment && <p className="mt-1 whitespace-pre-line">{review.comment}</p>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getReviewStatusColor(review.status)}`}
+                  >
+                    {review.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => {
+                      if (confirm("Delete this review? This cannot be undone.")) deleteMutation.mutate(review.id)
+                    }}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                    title="Delete review"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center bg-white p-4 rounded-lg shadow">
+        <span className="text-sm text-gray-500">
+          Page {currentPage} of {totalPages} ({data?.pagination.total ?? 0} reviews)
+        </span>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage >= totalPages}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
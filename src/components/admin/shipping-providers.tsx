@@ -0,0 +1,454 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Edit, Loader2, Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { shippingApi, ShippingProvider } from "@/lib/api/shipping"
+import type { ShippingConfig } from "@/lib/validations/shipping-schema"
+
+const TYPE_LABELS: Record<ShippingConfig["type"], string> = {
+  flat: "Flat rate",
+  weight: "Weight based",
+  free_over_threshold: "Free over threshold",
+  zones: "Country zones",
+}
+
+// Zones are edited as text and split into lists on save
+interface ZoneForm {
+  name: string
+  countries: string
+  states: string
+  cost: number
+  costPerKg: number
+}
+
+interface ProviderForm {
+  name: string
+  isActive: boolean
+  type: ShippingConfig["type"]
+  estimatedDelivery: string
+  cost: number
+  baseCost: number
+  costPerKg: number
+  defaultWeight: number
+  threshold: number
+  zones: ZoneForm[]
+}
+
+const EMPTY_ZONE: ZoneForm = { name: "", countries: "", states: "", cost: 0, costPerKg: 0 }
+
+const EMPTY_FORM: ProviderForm = {
+  name: "",
+  isActive: true,
+  type: "flat",
+  estimatedDelivery: "",
+  cost: 0,
+  baseCost: 0,
+  costPerKg: 0,
+  defaultWeight: 0,
+  threshold: 0,
+  zones: [EMPTY_ZONE],
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+function toForm(provider: ShippingProvider): ProviderForm {
+  const config = provider.configSettings
+  const form: ProviderForm = {
+    ...EMPTY_FORM,
+    name: provider.name,
+    isActive: provider.isActive,
+    type: config.type,
+    estimatedDelivery: config.estimatedDelivery ?? "",
+  }
+
+  switch (config.type) {
+    case "flat":
+      return { ...form, cost: config.cost }
+    case "weight":
+      return { ...form, baseCost: config.baseCost, costPerKg: config.costPerKg, defaultWeight: config.defaultWeight }
+    case "free_over_threshold":
+      return { ...form, threshold: config.threshold }
+    case "zones":
+      return {
+        ...form,
+        defaultWeight: config.defaultWeight,
+        zones: config.zones.map((zone) => ({
+          name: zone.name,
+          countries: zone.countries.join(", "),
+          states: zone.states?.join(", ") ?? "",
+          cost: zone.cost,
+          costPerKg: zone.costPerKg ?? 0,
+        })),
+      }
+  }
+}
+
+function toConfig(form: ProviderForm): ShippingConfig {
+  const estimatedDelivery = form.estimatedDelivery.trim() || undefined
+
+  switch (form.type) {
+    case "flat":
+      return { type: "flat", cost: form.cost, estimatedDelivery }
+    case "weight":
+      return {
+        type: "weight",
+        baseCost: form.baseCost,
+        costPerKg: form.costPerKg,
+        defaultWeight: form.defaultWeight,
+        estimatedDelivery,
+      }
+    case "free_over_threshold":
+      return { type: "free_over_threshold", threshold: form.threshold, estimatedDelivery }
+    case "zones":
+      return {
+        type: "zones",
+        defaultWeight: form.defaultWeight,
+        estimatedDelivery,
+        zones: form.zones.map((zone) => ({
+          name: zone.name,
+          countries: splitList(zone.countries),
+          states: splitList(zone.states),
+          cost: zone.cost,
+          costPerKg: zone.costPerKg || undefined,
+        })),
+      }
+  }
+}
+
+function describeConfig(config: ShippingConfig) {
+  switch (config.type) {
+    case "flat":
+      return `₹${config.cost} per order`
+    case "weight":
+      return `₹${config.baseCost} + ₹${config.costPerKg}/kg`
+    case "free_over_threshold":
+      return `Free from ₹${config.threshold}`
+    case "zones":
+      return config.zones.map((zone) => zone.name).join(", ")
+  }
+}
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} type="number" min={0} step="0.01" value={value} onChange={(e) => onChange(Number(e.target.value))} />
+    </div>
+  )
+}
+
+export function ShippingProviders() {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<ShippingProvider | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM)
+
+  const { data: providers = [], isLoading } = useQuery({
+    queryKey: ["shipping-providers"],
+    queryFn: shippingApi.getProviders,
+  })
+
+  const onSuccess = (message: string) => {
+    toast.success(message)
+    queryClient.invalidateQueries({ queryKey: ["shipping-providers"] })
+  }
+  const onError = (error: Error) => toast.error(error.message)
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = { name: form.name, isActive: form.isActive, configSettings: toConfig(form) }
+      return editing ? shippingApi.updateProvider(editing.id, payload) : shippingApi.createProvider(payload)
+    },
+    onSuccess: () => {
+      onSuccess(editing ? "Shipping method updated" : "Shipping method created")
+      setIsDialogOpen(false)
+    },
+    onError,
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (provider: ShippingProvider) =>
+      shippingApi.updateProvider(provider.id, { isActive: !provider.isActive }),
+    onSuccess: () => onSuccess("Shipping method updated"),
+    onError,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: shippingApi.deleteProvider,
+    onSuccess: () => onSuccess("Shipping method deleted"),
+    onError,
+  })
+
+  const openDialog = (provider: ShippingProvider | null) => {
+    setEditing(provider)
+    setForm(provider ? toForm(provider) : EMPTY_FORM)
+    setIsDialogOpen(true)
+  }
+
+  const update = <K extends keyof ProviderForm>(key: K, value: ProviderForm[K]) =>
+    setForm((current) => ({ ...current, [key]: value }))
+
+  const updateZone = <K extends keyof ZoneForm>(index: number, key: K, value: ZoneForm[K]) =>
+    update(
+      "zones",
+      form.zones.map((zone, i) => (i === index ? { ...zone, [key]: value } : zone))
+    )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Shipping Methods</CardTitle>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Method
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">
+          Customers can choose from every active method that delivers to their address. The cheapest one is selected
+          by default.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : providers.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            No shipping methods yet. Orders cannot be placed until one is active.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Rates</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {providers.map((provider) => (
+                <TableRow key={provider.id}>
+                  <TableCell className="font-medium">{provider.name}</TableCell>
+                  <TableCell>{TYPE_LABELS[provider.configSettings.type] ?? "Unknown"}</TableCell>
+                  <TableCell className="text-gray-500">{describeConfig(provider.configSettings)}</TableCell>
+                  <TableCell>
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full cursor-pointer ${
+                        provider.isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                      }`}
+                      onClick={() => toggleMutation.mutate(provider)}
+                    >
+                      {provider.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <button onClick={() => openDialog(provider)} className="text-indigo-600 hover:text-indigo-900">
+                      <Edit size={18} />
+                    </button>
+                    <button
+                      onClick={() =>
+                        confirm(`Delete the "${provider.name}" shipping method?`) && deleteMutation.mutate(provider.id)
+                      }
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Shipping Method" : "New Shipping Method"}</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              saveMutation.mutate()
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shipping-name">Name</Label>
+                <Input
+                  id="shipping-name"
+                  value={form.name}
+                  onChange={(e) => update("name", e.target.value)}
+                  placeholder="Standard Delivery"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shipping-type">Type</Label>
+                <select
+                  id="shipping-type"
+                  value={form.type}
+                  onChange={(e) => update("type", e.target.value as ShippingConfig["type"])}
+                  className="w-full h-10 px-3 border border-gray-300 rounded-md text-sm"
+                >
+                  {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="shipping-estimate">Estimated delivery</Label>
+                <Input
+                  id="shipping-estimate"
+                  value={form.estimatedDelivery}
+                  onChange={(e) => update("estimatedDelivery", e.target.value)}
+                  placeholder="3-5 business days"
+                />
+              </div>
+
+              {form.type === "flat" && (
+                <NumberField id="shipping-cost" label="Cost (₹)" value={form.cost} onChange={(v) => update("cost", v)} />
+              )}
+
+              {form.type === "weight" && (
+                <>
+                  <NumberField
+                    id="shipping-base-cost"
+                    label="Base cost (₹)"
+                    value={form.baseCost}
+                    onChange={(v) => update("baseCost", v)}
+                  />
+                  <NumberField
+                    id="shipping-cost-per-kg"
+                    label="Cost per kg (₹)"
+                    value={form.costPerKg}
+                    onChange={(v) => update("costPerKg", v)}
+                  />
+                </>
+              )}
+
+              {form.type === "free_over_threshold" && (
+                <NumberField
+                  id="shipping-threshold"
+                  label="Minimum order value (₹)"
+                  value={form.threshold}
+                  onChange={(v) => update("threshold", v)}
+                />
+              )}
+
+              {(form.type === "weight" || form.type === "zones") && (
+                <NumberField
+                  id="shipping-default-weight"
+                  label="Weight of products without one (kg)"
+                  value={form.defaultWeight}
+                  onChange={(v) => update("defaultWeight", v)}
+                />
+              )}
+            </div>
+
+            {form.type === "zones" && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Zones</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={() => update("zones", [...form.zones, EMPTY_ZONE])}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Zone
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  The first matching zone is used. Use * as the country for a rest-of-world zone and keep it last.
+                </p>
+                {form.zones.map((zone, index) => (
+                  <div key={index} className="grid grid-cols-2 gap-2 border rounded-md p-3 relative">
+                    {form.zones.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => update("zones", form.zones.filter((_, i) => i !== index))}
+                        className="absolute top-2 right-2 text-gray-400 hover:text-red-600"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                    <Input
+                      value={zone.name}
+                      onChange={(e) => updateZone(index, "name", e.target.value)}
+                      placeholder="Zone name"
+                      required
+                    />
+                    <Input
+                      value={zone.countries}
+                      onChange={(e) => updateZone(index, "countries", e.target.value)}
+                      placeholder="Countries, comma separated"
+                      required
+                    />
+                    <Input
+                      value={zone.states}
+                      onChange={(e) => updateZone(index, "states", e.target.value)}
+                      placeholder="States (optional)"
+                      className="col-span-2"
+                    />
+                    <NumberField
+                      id={`zone-${index}-cost`}
+                      label="Cost (₹)"
+                      value={zone.cost}
+                      onChange={(v) => updateZone(index, "cost", v)}
+                    />
+                    <NumberField
+                      id={`zone-${index}-per-kg`}
+                      label="Cost per kg (₹)"
+                      value={zone.costPerKg}
+                      onChange={(v) => updateZone(index, "costPerKg", v)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => update("isActive", checked)} />
+              Active
+            </label>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -20,6 +20,7 @@ import {
   MessageSquare,
   LogOut,
   Percent,
+  Gift,
   Settings,
   Activity,
   FileText,
@@ -28,6 +29,12 @@ import {
   Wrench,
   Cog,
   Layout,
+  Receipt,
+  Truck,
+  RotateCcw,
+  Star,
+  Factory,
+  ClipboardList,
 } from "lucide-react";
 
 export function Sidebar() {
@@ -91,6 +98,24 @@ export function Sidebar() {
             label="Inventory"
             active={isActive("/admin/products/inventory")}
           />
+          <NavItem
+            href="/admin/products/suppliers"
+            icon={<Factory size={18} />}
+            label="Suppliers"
+            active={isActive("/admin/products/suppliers")}
+          />
+          <NavItem
+            href="/admin/products/purchase-orders"
+            icon={<ClipboardList size={18} />}
+            label="Purchase Orders"
+            active={isActive("/admin/products/purchase-orders")}
+          />
+          <NavItem
+            href="/admin/reviews"
+            icon={<Star size={18} />}
+            label="Reviews"
+            active={isActive("/admin/reviews")}
+          />
         </div>
       </div>
       <div className="p-4">
@@ -142,6 +167,12 @@ export function Sidebar() {
             label="All Orders"
             active={isActive("/admin/orders")}
           />
+          <NavItem
+            href="/admin/returns"
+            icon={<RotateCcw size={18} />}
+            label="Returns"
+            active={isActive("/admin/returns")}
+          />
         </div>
       </div>
       <div className="p-4">
@@ -255,15 +286,35 @@ export function Sidebar() {
             label="Discounts & Coupons"
             active={isActive("/admin/discounts")}
           />
+          <NavItem
+            href="/admin/gift-cards"
+            icon={<Gift size={18} />}
+            label="Gift Cards & Credit"
+            active={isActive("/admin/gift-cards")}
+          />
         </div>
       </div>
       <div className="mt-auto p-4 border-t border-gray-200">
-        <NavItem
-          href="/admin/settings"
-          icon={<Settings size={18} />}
-          label="Settings"
-          active={isActive("/admin/settings")}
-        />
+        <div className="space-y-1">
+          <NavItem
+            href="/admin/settings"
+            icon={<Settings size={18} />}
+            label="Settings"
+            active={pathname === "/admin/settings"}
+          />
+          <NavItem
+            href="/admin/settings/tax"
+            icon={<Receipt size={18} />}
+            label="Tax"
+            active={isActive("/admin/settings/tax")}
+          />
+          <NavItem
+            href="/admin/settings/shipping"
+            icon={<Truck size={18} />}
+            label="Shipping"
+            active={isActive("/admin/settings/shipping")}
+          />
+        </div>
       </div>
       <div className="mt-auto p-4 border-t border-gray-200">
         <button
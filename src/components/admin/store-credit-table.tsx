@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Eye, Search } from "lucide-react"
+import { toast } from "sonner"
+import { BalanceLedger } from "@/components/admin/balance-ledger"
+import { giftCardApi, StoreCreditPayload } from "@/lib/api/gift-cards"
+import { useDebounce } from "@/hooks/useDebounce"
+
+function StoreCreditDetail({ userId }: { userId: string }) {
+  const queryClient = useQueryClient()
+  const [amount, setAmount] = useState("")
+  const [note, setNote] = useState("")
+
+  const { data: customer, isLoading } = useQuery({
+    queryKey: ["store-credit", "detail", userId],
+    queryFn: () => giftCardApi.getCustomerStoreCredit(userId),
+  })
+
+  const mutation = useMutation({
+    mutationFn: (payload: StoreCreditPayload) => giftCardApi.changeStoreCredit(userId, payload),
+    onSuccess: ({ balance }) => {
+      toast.success(`Store credit is now ₹${balance.toFixed(2)}`)
+      setAmount("")
+      setNote("")
+      queryClient.invalidateQueries({ queryKey: ["store-credit"] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  if (isLoading || !customer) return <div className="p-4">Loading...</div>
+
+  const reason = note.trim()
+  const value = Number(amount)
+
+  const handleVoid = () => {
+    if (!confirm(`Void all ₹${customer.storeCredit.toFixed(2)} of this customer's store credit?`)) return
+    mutation.mutate({ action: "void", note: reason })
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h3 className="text-lg font-medium">
+          {customer.firstName} {customer.lastName}
+        </h3>
+        {customer.email && <p className="text-gray-500">{customer.email}</p>}
+        <p className="mt-1">Store credit: ₹{customer.storeCredit.toFixed(2)}</p>
+      </div>
+
+      <div className="space-y-2 border rounded-md p-3">
+        <div className="flex gap-2">
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount"
+            className="w-32 p-2 border rounded-md"
+          />
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Reason (required)"
+            className="flex-1 p-2 border rounded-md"
+          />
+        </div>
+        <p className="text-xs text-gray-500">Issue adds credit; adjust takes a negative amount to remove some.</p>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => mutation.mutate({ action: "issue", amount: value, note: reason })}
+            disabled={mutation.isPending || !reason || value <= 0}
+            className="px-3 py-1 bg-[#a08452] text-white rounded-md disabled:opacity-50"
+          >
+            Issue credit
+          </button>
+          <button
+            onClick={() => mutation.mutate({ action: "adjust", amount: value, note: reason })}
+            disabled={mutation.isPending || !reason || !value}
+            className="px-3 py-1 border rounded-md disabled:opacity-50"
+          >
+            Adjust
+          </button>
+          <button
+            onClick={handleVoid}
+            disabled={mutation.isPending || !reason || customer.storeCredit <= 0}
+            className="px-3 py-1 bg-red-600 text-white rounded-md disabled:opacity-50"
+          >
+            Void all
+          </button>
+        </div>
+      </div>
+
+      <BalanceLedger entries={customer.storeCreditLedger} />
+    </div>
+  )
+}
+
+export function StoreCreditTable() {
+  const [currentPage, setCurrentPage] = useState(1)
+  const [search, setSearch] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const itemsPerPage = 10
+
+  const debouncedSearch = useDebounce(search, 300)
+
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [debouncedSearch])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["store-credit", currentPage, itemsPerPage, debouncedSearch],
+    queryFn: () => giftCardApi.getStoreCredit(currentPage, itemsPerPage, debouncedSearch),
+  })
+
+  const customers = data?.data || []
+  const totalPages = data?.pagination.totalPages || 1
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-lg shadow-sm">
+        <div className="relative">
+          <input
+            type="text"
+            placeholder="Find a customer by name or email to give them credit..."
+            className="w-full bg-white p-2 pl-10 border rounded-lg"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 text-gray-400" size={20} />
+        </div>
+      </div>
+
+      {isLoading && <div className="flex justify-center p-4">Loading...</div>}
+      {error && <div className="text-red-500 p-4">Error loading store credit</div>}
+
+      <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store credit</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {!isLoading && customers.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-4 text-sm text-gray-500">
+                  {debouncedSearch ? "No customers found" : "No customer holds store credit"}
+                </td>
+              </tr>
+            )}
+            {customers.map((customer) => (
+              <tr key={customer.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {customer.firstName} {customer.lastName}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customer.email ?? "—"}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">₹{customer.storeCredit.toFixed(2)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => setSelectedId(customer.id)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                    title="View store credit"
+                  >
+                    <Eye size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center bg-white p-4 rounded-lg shadow">
+        <span className="text-sm text-gray-500">
+          Page {currentPage} of {totalPages} ({data?.pagination.total ?? 0} customers)
+        </span>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage >= totalPages}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {selectedId && (
+        <div
+          className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-20"
+          onClick={() => setSelectedId(null)}
+        >
+          <div
+            className="relative top-20 mx-auto p-5 border w-[40rem] max-w-full shadow-lg rounded-md bg-white"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <StoreCreditDetail userId={selectedId} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
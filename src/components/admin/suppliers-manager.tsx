@@ -0,0 +1,275 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { supplierApi, Supplier } from "@/lib/api/suppliers"
+import type { SupplierSchema } from "@/lib/validations/purchasing-schema"
+
+interface SupplierForm {
+  name: string
+  contactName: string
+  email: string
+  phone: string
+  address: string
+  notes: string
+  leadTimeDays: number
+  isActive: boolean
+}
+
+const EMPTY_FORM: SupplierForm = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+  leadTimeDays: 7,
+  isActive: true,
+}
+
+const toForm = (supplier: Supplier): SupplierForm => ({
+  name: supplier.name,
+  contactName: supplier.contactName ?? "",
+  email: supplier.email ?? "",
+  phone: supplier.phone ?? "",
+  address: supplier.address ?? "",
+  notes: supplier.notes ?? "",
+  leadTimeDays: supplier.leadTimeDays,
+  isActive: supplier.isActive,
+})
+
+const toPayload = (form: SupplierForm): SupplierSchema => ({
+  name: form.name,
+  contactName: form.contactName.trim() || null,
+  email: form.email.trim() || null,
+  phone: form.phone.trim() || null,
+  address: form.address.trim() || null,
+  notes: form.notes.trim() || null,
+  leadTimeDays: form.leadTimeDays,
+  isActive: form.isActive,
+})
+
+export function SuppliersManager() {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<Supplier | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [form, setForm] = useState<SupplierForm>(EMPTY_FORM)
+
+  const { data: suppliers = [], isLoading } = useQuery({
+    queryKey: ["suppliers"],
+    queryFn: supplierApi.getSuppliers,
+  })
+
+  const onSuccess = (message: string) => {
+    toast.success(message)
+    queryClient.invalidateQueries({ queryKey: ["suppliers"] })
+  }
+  const onError = (error: Error) => toast.error(error.message)
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing ? supplierApi.updateSupplier(editing.id, toPayload(form)) : supplierApi.createSupplier(toPayload(form)),
+    onSuccess: () => {
+      onSuccess(editing ? "Supplier updated" : "Supplier created")
+      setIsDialogOpen(false)
+    },
+    onError,
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (supplier: Supplier) => supplierApi.updateSupplier(supplier.id, { isActive: !supplier.isActive }),
+    onSuccess: () => onSuccess("Supplier updated"),
+    onError,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: supplierApi.deleteSupplier,
+    onSuccess: () => onSuccess("Supplier deleted"),
+    onError,
+  })
+
+  const openDialog = (supplier: Supplier | null) => {
+    setEditing(supplier)
+    setForm(supplier ? toForm(supplier) : EMPTY_FORM)
+    setIsDialogOpen(true)
+  }
+
+  const update = <K extends keyof SupplierForm>(key: K, value: SupplierForm[K]) =>
+    setForm((current) => ({ ...current, [key]: value }))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Suppliers</CardTitle>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Supplier
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">
+          Purchase orders can only be raised with active suppliers. The lead time is used to work out when stock
+          needs reordering.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : suppliers.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No suppliers yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Lead time</TableHead>
+                <TableHead>Purchase orders</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppliers.map((supplier) => (
+                <TableRow key={supplier.id}>
+                  <TableCell className="font-medium">{supplier.name}</TableCell>
+                  <TableCell className="text-gray-500">
+                    {[supplier.contactName, supplier.email, supplier.phone].filter(Boolean).join(" · ") || "—"}
+                  </TableCell>
+                  <TableCell>{supplier.leadTimeDays} days</TableCell>
+                  <TableCell>{supplier._count.purchaseOrders}</TableCell>
+                  <TableCell>
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full cursor-pointer ${
+                        supplier.isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                      }`}
+                      onClick={() => toggleMutation.mutate(supplier)}
+                    >
+                      {supplier.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <button onClick={() => openDialog(supplier)} className="text-indigo-600 hover:text-indigo-900">
+                      <Edit size={18} />
+                    </button>
+                    <button
+                      onClick={() =>
+                        confirm(`Delete the supplier "${supplier.name}"?`) && deleteMutation.mutate(supplier.id)
+                      }
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Supplier" : "New Supplier"}</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              saveMutation.mutate()
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="supplier-name">Name</Label>
+                <Input
+                  id="supplier-name"
+                  value={form.name}
+                  onChange={(e) => update("name", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-contact">Contact name</Label>
+                <Input
+                  id="supplier-contact"
+                  value={form.contactName}
+                  onChange={(e) => update("contactName", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => update("email", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input id="supplier-phone" value={form.phone} onChange={(e) => update("phone", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-lead-time">Lead time (days)</Label>
+                <Input
+                  id="supplier-lead-time"
+                  type="number"
+                  min={0}
+                  max={365}
+                  value={form.leadTimeDays}
+                  onChange={(e) => update("leadTimeDays", Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="supplier-address">Address</Label>
+                <textarea
+                  id="supplier-address"
+                  value={form.address}
+                  onChange={(e) => update("address", e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="supplier-notes">Notes</Label>
+                <textarea
+                  id="supplier-notes"
+                  value={form.notes}
+                  onChange={(e) => update("notes", e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => update("isActive", checked)} />
+              Active
+            </label>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
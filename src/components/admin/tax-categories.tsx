@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { taxApi, TaxCategory } from "@/lib/api/tax"
+
+export function TaxCategories() {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<TaxCategory | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+
+  const { data: categories = [], isLoading } = useQuery({
+    queryKey: ["tax-categories"],
+    queryFn: taxApi.getCategories,
+  })
+
+  const onSuccess = (message: string) => {
+    toast.success(message)
+    queryClient.invalidateQueries({ queryKey: ["tax-categories"] })
+    queryClient.invalidateQueries({ queryKey: ["tax-rates"] })
+  }
+  const onError = (error: Error) => toast.error(error.message)
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? taxApi.updateCategory(editing.id, { name, description })
+        : taxApi.createCategory({ name, description }),
+    onSuccess: () => {
+      onSuccess(editing ? "Tax category updated" : "Tax category created")
+      setIsDialogOpen(false)
+    },
+    onError,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: taxApi.deleteCategory,
+    onSuccess: () => onSuccess("Tax category deleted"),
+    onError,
+  })
+
+  const openDialog = (category: TaxCategory | null) => {
+    setEditing(category)
+    setName(category?.name ?? "")
+    setDescription(category?.description ?? "")
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = (category: TaxCategory) => {
+    const warning = category._count.products
+      ? ` ${category._count.products} product(s) will fall back to the standard rates.`
+      : ""
+    if (!confirm(`Delete the "${category.name}" tax category?${warning}`)) return
+    deleteMutation.mutate(category.id)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Tax Categories</CardTitle>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Category
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">
+          Assign a tax category to a product to tax it with that category&apos;s rates. Standard rates, i.e. rates
+          that are not linked to any category, apply to every product unless a category rate has the same priority.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : categories.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No tax categories yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Products</TableHead>
+                <TableHead>Rates</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map((category) => (
+                <TableRow key={category.id}>
+                  <TableCell className="font-medium">{category.name}</TableCell>
+                  <TableCell className="text-gray-500">{category.description || "-"}</TableCell>
+                  <TableCell>{category._count.products}</TableCell>
+                  <TableCell>{category._count.taxRates}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <button onClick={() => openDialog(category)} className="text-indigo-600 hover:text-indigo-900">
+                      <Edit size={18} />
+                    </button>
+                    <button onClick={() => handleDelete(category)} className="text-red-600 hover:text-red-900">
+                      <Trash2 size={18} />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Tax Category" : "New Tax Category"}</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              saveMutation.mutate()
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="tax-category-name">Name</Label>
+              <Input
+                id="tax-category-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Reduced rate"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-category-description">Description</Label>
+              <Textarea
+                id="tax-category-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
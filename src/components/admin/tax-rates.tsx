@@ -0,0 +1,308 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { taxApi, TaxRate } from "@/lib/api/tax"
+import type { TaxRateSchema } from "@/lib/validations/tax-schema"
+
+const EMPTY_RATE: TaxRateSchema = {
+  name: "",
+  rate: 0,
+  country: "",
+  state: "",
+  zipCode: "",
+  priority: 1,
+  isCompound: false,
+  isActive: true,
+  taxCategoryIds: [],
+}
+
+export function TaxRates() {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<TaxRate | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [form, setForm] = useState<TaxRateSchema>(EMPTY_RATE)
+
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ["tax-rates"],
+    queryFn: taxApi.getRates,
+  })
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["tax-categories"],
+    queryFn: taxApi.getCategories,
+  })
+
+  const onSuccess = (message: string) => {
+    toast.success(message)
+    queryClient.invalidateQueries({ queryKey: ["tax-rates"] })
+    queryClient.invalidateQueries({ queryKey: ["tax-categories"] })
+  }
+  const onError = (error: Error) => toast.error(error.message)
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: TaxRateSchema) =>
+      editing ? taxApi.updateRate(editing.id, payload) : taxApi.createRate(payload),
+    onSuccess: () => {
+      onSuccess(editing ? "Tax rate updated" : "Tax rate created")
+      setIsDialogOpen(false)
+    },
+    onError,
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (rate: TaxRate) => taxApi.updateRate(rate.id, { isActive: !rate.isActive }),
+    onSuccess: () => onSuccess("Tax rate updated"),
+    onError,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: taxApi.deleteRate,
+    onSuccess: () => onSuccess("Tax rate deleted"),
+    onError,
+  })
+
+  const openDialog = (rate: TaxRate | null) => {
+    setEditing(rate)
+    setForm(
+      rate
+        ? {
+            name: rate.name,
+            rate: rate.rate,
+            country: rate.country,
+            state: rate.state ?? "",
+            zipCode: rate.zipCode ?? "",
+            priority: rate.priority,
+            isCompound: rate.isCompound,
+            isActive: rate.isActive,
+            taxCategoryIds: rate.taxCategories.map((category) => category.id),
+          }
+        : EMPTY_RATE
+    )
+    setIsDialogOpen(true)
+  }
+
+  const update = <K extends keyof TaxRateSchema>(key: K, value: TaxRateSchema[K]) =>
+    setForm((current) => ({ ...current, [key]: value }))
+
+  const toggleCategory = (id: string, checked: boolean) =>
+    update(
+      "taxCategoryIds",
+      checked ? [...form.taxCategoryIds, id] : form.taxCategoryIds.filter((categoryId) => categoryId !== id)
+    )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Tax Rates</CardTitle>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rate
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">
+          For each priority only the most specific rate for the shipping address is charged: a zip code match beats a
+          state match, which beats a country-wide rate. Rates with different priorities stack, and compound rates are
+          charged on top of the taxes before them.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : rates.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No tax rates yet. Orders are not taxed until you add one.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Categories</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">
+                    {rate.name}
+                    {rate.isCompound && <span className="ml-2 text-xs text-gray-500">(compound)</span>}
+                  </TableCell>
+                  <TableCell>{rate.rate}%</TableCell>
+                  <TableCell className="text-gray-500">
+                    {[rate.country, rate.state, rate.zipCode].filter(Boolean).join(" / ")}
+                  </TableCell>
+                  <TableCell>{rate.priority}</TableCell>
+                  <TableCell className="text-gray-500">
+                    {rate.taxCategories.length
+                      ? rate.taxCategories.map((category) => category.name).join(", ")
+                      : "Standard"}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full cursor-pointer ${
+                        rate.isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                      }`}
+                      onClick={() => toggleMutation.mutate(rate)}
+                    >
+                      {rate.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <button onClick={() => openDialog(rate)} className="text-indigo-600 hover:text-indigo-900">
+                      <Edit size={18} />
+                    </button>
+                    <button
+                      onClick={() => confirm(`Delete the "${rate.name}" tax rate?`) && deleteMutation.mutate(rate.id)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Tax Rate" : "New Tax Rate"}</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              saveMutation.mutate(form)
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate-name">Name</Label>
+                <Input
+                  id="tax-rate-name"
+                  value={form.name}
+                  onChange={(e) => update("name", e.target.value)}
+                  placeholder="GST"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate-rate">Rate (%)</Label>
+                <Input
+                  id="tax-rate-rate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={form.rate}
+                  onChange={(e) => update("rate", Number(e.target.value))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate-country">Country</Label>
+                <Input
+                  id="tax-rate-country"
+                  value={form.country}
+                  onChange={(e) => update("country", e.target.value)}
+                  placeholder="India"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate-state">State</Label>
+                <Input
+                  id="tax-rate-state"
+                  value={form.state ?? ""}
+                  onChange={(e) => update("state", e.target.value)}
+                  placeholder="Any state"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate-zip">Zip codes</Label>
+                <Input
+                  id="tax-rate-zip"
+                  value={form.zipCode ?? ""}
+                  onChange={(e) => update("zipCode", e.target.value)}
+                  placeholder="560001, 5601*"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate-priority">Priority</Label>
+                <Input
+                  id="tax-rate-priority"
+                  type="number"
+                  min={1}
+                  value={form.priority}
+                  onChange={(e) => update("priority", Number(e.target.value))}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.isCompound} onCheckedChange={(checked) => update("isCompound", checked)} />
+                Compound
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.isActive} onCheckedChange={(checked) => update("isActive", checked)} />
+                Active
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              {categories.length === 0 ? (
+                <p className="text-sm text-gray-500">All products.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.taxCategoryIds.includes(category.id)}
+                        onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Leave every category unticked for a standard rate. It applies to all products, except those whose
+                category has its own rate at the same priority.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { Plus, Trash2, Wand2, X } from "lucide-react";
+import {
+  buildVariantMatrix,
+  MAX_OPTIONS,
+  MAX_VARIANTS,
+  OptionDefinition,
+  VariantAttributes,
+  variantKey,
+  variantName,
+} from "@/lib/products/variant-matrix";
+import type { ProductVariantsSchema } from "@/lib/validations/variant-schema";
+
+// Values are edited as comma separated text and split when the matrix is built
+export interface OptionForm {
+  name: string;
+  values: string;
+}
+
+export interface VariantForm {
+  // Set for variants that already exist; their stock is counted on the inventory screen
+  id?: string;
+  attributes: VariantAttributes;
+  sku: string;
+  price: number;
+  stockQuantity: number;
+  // One of the image choices, or empty for the product's main image
+  image: string;
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+export const toOptionDefinitions = (options: OptionForm[]): OptionDefinition[] =>
+  options
+    .map((option) => ({ name: option.name.trim(), values: [...new Set(splitList(option.values))] }))
+    .filter((option) => option.name && option.values.length > 0);
+
+export const toOptionForms = (options: OptionDefinition[]): OptionForm[] =>
+  options.map((option) => ({ name: option.name, values: option.values.join(", ") }));
+
+/**
+ * The payload for the variants API. `toImageUrl` turns a row's image choice into what the
+ * endpoint expects; existing variants keep their stock, which is counted separately.
+ */
+export function toVariantsPayload(
+  options: OptionForm[],
+  variants: VariantForm[],
+  toImageUrl: (image: string) => string | null = (image) => image || null
+): ProductVariantsSchema {
+  return {
+    options: toOptionDefinitions(options),
+    variants: variants.map((variant) => ({
+      id: variant.id,
+      sku: variant.sku.trim(),
+      price: variant.price,
+      stockQuantity: variant.id ? undefined : variant.stockQuantity,
+      imageUrl: toImageUrl(variant.image),
+      attributes: variant.attributes,
+    })),
+  };
+}
+
+const skuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, "");
+
+interface VariantMatrixEditorProps {
+  options: OptionForm[];
+  variants: VariantForm[];
+  onOptionsChange: (options: OptionForm[]) => void;
+  onVariantsChange: (variants: VariantForm[]) => void;
+  // Used for the SKU and price of newly generated variants
+  baseSku: string;
+  basePrice: number;
+  imageChoices: { value: string; label: string }[];
+}
+
+/**
+ * Edits a product's option types (Colour, Size, ...) and generates one variant per combination
+ * of their values, each with its own SKU, price, stock and image.
+ */
+export function VariantMatrixEditor({
+  options,
+  variants,
+  onOptionsChange,
+  onVariantsChange,
+  baseSku,
+  basePrice,
+  imageChoices,
+}: VariantMatrixEditorProps) {
+  const definitions = toOptionDefinitions(options);
+  const combinations = definitions.reduce((count, option) => count * option.values.length, definitions.length > 0 ? 1 : 0);
+
+  const updateOption = (index: number, key: keyof OptionForm, value: string) => {
+    onOptionsChange(options.map((option, i) => (i === index ? { ...option, [key]: value } : option)));
+
+    // Keep the variants pointing at the option under its new name
+    if (key === "name") {
+      const previous = options[index].name.trim();
+      onVariantsChange(
+        variants.map((variant) => {
+          if (!(previous in variant.attributes)) return variant;
+          const { [previous]: selected, ...rest } = variant.attributes;
+          return { ...variant, attributes: { ...rest, [value.trim()]: selected } };
+        })
+      );
+    }
+  };
+
+  // Rebuilds the matrix, keeping the details of combinations that already had a variant
+  const generate = () => {
+    const existing = new Map(variants.map((variant) => [variantKey(definitions, variant.attributes), variant]));
+    onVariantsChange(
+      buildVariantMatrix(definitions).map((attributes) => {
+        const current = existing.get(variantKey(definitions, attributes));
+        if (current) return { ...current, attributes };
+        return {
+          attributes,
+          sku: [baseSku.trim() || "SKU", ...definitions.map((option) => skuPart(attributes[option.name]))].join("-"),
+          price: basePrice,
+          stockQuantity: 0,
+          image: "",
+        };
+      })
+    );
+  };
+
+  const updateVariant = <K extends keyof VariantForm>(index: number, key: K, value: VariantForm[K]) =>
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, [key]: value } : variant)));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {options.map((option, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="text"
+              value={option.name}
+              onChange={(e) => updateOption(index, "name", e.target.value)}
+              placeholder="Option, e.g. Colour"
+              className="col-span-4 px-3 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#4f507f]"
+            />
+            <input
+              type="text"
+              value={option.values}
+              onChange={(e) => updateOption(index, "values", e.target.value)}
+              placeholder="Values in display order, e.g. Red, Blue, Green"
+              className="col-span-7 px-3 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#4f507f]"
+            />
+            <button
+              type="button"
+              onClick={() => onOptionsChange(options.filter((_, i) => i !== index))}
+              className="col-span-1 text-gray-400 hover:text-red-600"
+              aria-label="Remove option">
+              <X size={18} />
+            </button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {options.length < MAX_OPTIONS && (
+            <button
+              type="button"
+              onClick={() => onOptionsChange([...options, { name: "", values: "" }])}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 flex items-center gap-1">
+              <Plus size={16} />
+              Add option
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={generate}
+            disabled={definitions.length === 0 || combinations > MAX_VARIANTS}
+            className="px-3 py-2 text-sm bg-[#4f507f] text-white rounded-md hover:bg-[#3e3f63] disabled:opacity-50 flex items-center gap-1">
+            <Wand2 size={16} />
+            Generate {combinations > 0 ? combinations : ""} variants
+          </button>
+          {combinations > MAX_VARIANTS && (
+            <p className="text-xs text-red-500">A product can have at most {MAX_VARIANTS} variants.</p>
+          )}
+        </div>
+      </div>
+
+      {variants.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Image</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {variants.map((variant, index) => (
+              <tr key={variant.id ?? variantKey(definitions, variant.attributes)}>
+                <td className="py-2 pr-2 text-sm font-medium text-gray-900">
+                  {variantName(definitions, variant.attributes) || "—"}
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={variant.sku}
+                    onChange={(e) => updateVariant(index, "sku", e.target.value)}
+                    className="w-40 px-2 py-1 bg-white border border-gray-300 rounded-md text-sm"
+                    aria-label="SKU"
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={variant.price}
+                    onChange={(e) => updateVariant(index, "price", Math.max(0, Number(e.target.value) || 0))}
+                    className="w-24 px-2 py-1 bg-white border border-gray-300 rounded-md text-sm"
+                    aria-label="Price"
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  {variant.id ? (
+                    <span className="text-sm text-gray-500">{variant.stockQuantity}</span>
+                  ) : (
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.stockQuantity}
+                      onChange={(e) =>
+                        updateVariant(index, "stockQuantity", Math.max(0, Number.parseInt(e.target.value) || 0))
+                      }
+                      className="w-20 px-2 py-1 bg-white border border-gray-300 rounded-md text-sm"
+                      aria-label="Opening stock"
+                    />
+                  )}
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    value={variant.image}
+                    onChange={(e) => updateVariant(index, "image", e.target.value)}
+                    className="w-32 px-2 py-1 bg-white border border-gray-300 rounded-md text-sm"
+                    aria-label="Image">
+                    <option value="">Main image</option>
+                    {imageChoices.map((choice) => (
+                      <option key={choice.value} value={choice.value}>
+                        {choice.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => onVariantsChange(variants.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove variant">
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
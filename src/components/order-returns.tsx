@@ -0,0 +1,155 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { returnApi, OrderReturns as OrderReturnsData } from "@/lib/api/returns"
+
+const STATUS_LABELS: Record<string, string> = {
+  REQUESTED: "Awaiting review",
+  APPROVED: "Approved, please send the items back",
+  REJECTED: "Not accepted",
+  RECEIVED: "Received, refund on its way",
+  REFUNDING: "Received, refund on its way",
+  REFUNDED: "Refunded",
+}
+
+export function OrderReturns({ orderId, canRequest }: { orderId: string; canRequest: boolean }) {
+  const [data, setData] = useState<OrderReturnsData | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [reason, setReason] = useState("")
+  const [notes, setNotes] = useState("")
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      setData(await returnApi.getOrderReturns(orderId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load returns")
+    }
+  }, [orderId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  if (!data) return null
+
+  const returnable = data.items.filter((item) => item.returnable > 0)
+  if (data.returns.length === 0 && (!canRequest || returnable.length === 0)) return null
+
+  const titleFor = (orderItemId: string) => data.items.find((item) => item.id === orderItemId)?.title ?? "Item"
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const items = returnable
+      .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] ?? 0 }))
+      .filter((line) => line.quantity > 0)
+    if (items.length === 0) {
+      setError("Select at least one item to return")
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const created = await returnApi.requestReturn(orderId, { reason, notes: notes || undefined, items })
+      setMessage(`Return ${created.rmaNumber} requested. We will let you know once it has been reviewed.`)
+      setIsFormOpen(false)
+      setReason("")
+      setNotes("")
+      setQuantities({})
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not request the return")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium">Returns</h2>
+        {canRequest && returnable.length > 0 && !isFormOpen && (
+          <button onClick={() => setIsFormOpen(true)} className="text-sm text-[#a08452] underline">
+            Return items
+          </button>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="border rounded-md p-4 bg-white space-y-3">
+          {returnable.map((item) => (
+            <label key={item.id} className="flex items-center justify-between gap-2 text-sm">
+              <span>{item.title}</span>
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={item.returnable}
+                  value={quantities[item.id] ?? 0}
+                  onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded"
+                />
+                <span className="text-xs text-gray-500">of {item.returnable}</span>
+              </span>
+            </label>
+          ))}
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the return"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+            required
+          />
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Anything else we should know (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setIsFormOpen(false)} className="px-3 py-1 text-sm border rounded">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-3 py-1 text-sm rounded bg-[#a08452] hover:bg-[#8c703d] text-white disabled:opacity-50"
+            >
+              {isSubmitting ? "Sending..." : "Request return"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {data.returns.map((returnRequest) => (
+        <div key={returnRequest.id} className="border rounded-md p-4 bg-white text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{returnRequest.rmaNumber}</span>
+            <span>{STATUS_LABELS[returnRequest.status] ?? returnRequest.status}</span>
+          </div>
+          <p className="text-gray-500">
+            Requested {new Date(returnRequest.createdAt).toLocaleDateString()} · {returnRequest.reason}
+          </p>
+          <ul className="mt-2 text-gray-600 list-disc list-inside">
+            {returnRequest.items.map((line) => (
+              <li key={line.id}>
+                {titleFor(line.orderItemId)} x{line.quantity}
+              </li>
+            ))}
+          </ul>
+          {returnRequest.status === "REFUNDED" && (
+            <p className="mt-1 font-medium">₹{returnRequest.refundAmount.toLocaleString()} refunded</p>
+          )}
+        </div>
+      ))}
+    </section>
+  )
+}
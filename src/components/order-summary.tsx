@@ -1,22 +1,154 @@
 "use client";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useCart } from "@/context/cart-context";
+import { roundCurrency } from "@/lib/orders/pricing";
+import type { AppliedTax, TaxLocation } from "@/lib/tax/calculate";
+import type { ShippingOption } from "@/lib/shipping/types";
 
-export default function OrderSummary() {
+interface Quote {
+  subtotal: number;
+  discount: number;
+  // Each automatic promotion and the code that was applied, in the order they were applied
+  discounts: { id: string; name: string; code: string | null; amount: number }[];
+  discountCode: string | null;
+  discountError: string | null;
+  tax: number;
+  taxBreakdown: { taxes: AppliedTax[] } | null;
+  shippingCost: number;
+  shippingMethod: ShippingOption | null;
+  shippingOptions: ShippingOption[];
+  total: number;
+  giftCard: { code: string; balance: number; amount: number } | null;
+  giftCardError: string | null;
+  // What the signed-in customer holds and how much of it is used; null for guests
+  storeCredit: { balance: number; amount: number } | null;
+  // Left to pay through the payment gateway
+  amountDue: number;
+}
+
+export interface StoredValueSelection {
+  giftCardCode: string | null;
+  useStoreCredit: boolean;
+  // Nothing is left for the payment gateway, so no payment method is needed
+  paidInFull: boolean;
+}
+
+interface OrderSummaryProps {
+  // Either a saved address of the signed-in user or a location typed in at checkout
+  addressId?: string;
+  address?: TaxLocation;
+  // Told which shipping method the customer picked so it can be sent with the order
+  onShippingMethodChange?: (shippingMethodId: string | null) => void;
+  // Told which gift card and store credit should pay towards the order
+  onStoredValueChange?: (selection: StoredValueSelection) => void;
+}
+
+export default function OrderSummary({
+  addressId,
+  address,
+  onShippingMethodChange,
+  onStoredValueChange,
+}: OrderSummaryProps) {
+  const { cartItems, getTotalPrice } = useCart();
   const [discountCode, setDiscountCode] = useState("");
-  const [isDiscountApplied, setIsDiscountApplied] = useState(false);
+  const [appliedCode, setAppliedCode] = useState<string | null>(null);
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [appliedGiftCard, setAppliedGiftCard] = useState<string | null>(null);
+  const [useStoreCredit, setUseStoreCredit] = useState(false);
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
 
-  const subtotal = 10470;
-  const deliveryCharge = 70;
-  const discount = isDiscountApplied ? 0 : 0; // You can implement discount logic here
-  const grandTotal = subtotal + deliveryCharge - discount;
+  const country = address?.country;
+  const state = address?.state;
+  const postalCode = address?.postalCode;
 
-  const handleApplyDiscount = () => {
-    if (discountCode.trim()) {
-      setIsDiscountApplied(true);
-      // Implement discount logic here
+  useEffect(() => {
+    if (cartItems.length === 0) {
+      setQuote(null);
+      return;
     }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch("/api/checkout/quote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          signal: controller.signal,
+          body: JSON.stringify({
+            addressId: addressId || null,
+            address: country ? { country, state, postalCode } : null,
+            discountCode: appliedCode,
+            giftCardCode: appliedGiftCard,
+            useStoreCredit,
+            shippingMethodId,
+            items: cartItems.map((item) => ({
+              productId: item.id,
+              variantId: item.variantId || null,
+              quantity: item.quantity,
+            })),
+          }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(typeof data.error === "string" ? data.error : "Failed to calculate totals");
+        }
+
+        setQuote(data);
+        setQuoteError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setQuoteError(error instanceof Error ? error.message : "Failed to calculate totals");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [cartItems, appliedCode, appliedGiftCard, useStoreCredit, shippingMethodId, addressId, country, state, postalCode]);
+
+  // Fall back to the cheapest option when the chosen one no longer delivers, e.g. below a free shipping threshold
+  useEffect(() => {
+    if (quote && shippingMethodId && !quote.shippingOptions.some((option) => option.id === shippingMethodId)) {
+      setShippingMethodId(null);
+    }
+  }, [quote, shippingMethodId]);
+
+  const selectedShippingId = quote?.shippingMethod?.id ?? null;
+  useEffect(() => {
+    onShippingMethodChange?.(selectedShippingId);
+  }, [selectedShippingId, onShippingMethodChange]);
+
+  // A gift card that cannot be used is not sent with the order
+  const usableGiftCard = quote?.giftCard ? appliedGiftCard : null;
+  const paidInFull = quote?.amountDue === 0;
+  useEffect(() => {
+    onStoredValueChange?.({ giftCardCode: usableGiftCard, useStoreCredit, paidInFull });
+  }, [usableGiftCard, useStoreCredit, paidInFull, onStoredValueChange]);
+
+  const handleApplyDiscount = () => {
+    const code = discountCode.trim();
+    setAppliedCode(code || null);
   };
 
+  const subtotal = quote?.subtotal ?? roundCurrency(getTotalPrice());
+  const deliveryCharge = quote?.shippingCost ?? 0;
+  const shippingOptions = quote?.shippingOptions ?? [];
+  const hasLocation = Boolean(addressId || country);
+  const taxes = quote?.taxBreakdown?.taxes ?? [];
+  const grandTotal = quote?.total ?? subtotal;
+  const discountError = appliedCode ? quote?.discountError : null;
+  const giftCardError = appliedGiftCard ? quote?.giftCardError : null;
+  const storeCreditBalance = quote?.storeCredit?.balance ?? 0;
+  const amountDue = quote?.amountDue ?? grandTotal;
+
   return (
     <div className="border rounded-md p-6 bg-white sticky top-4">
       <h2 className="text-lg font-medium mb-4">Subtotal</h2>
@@ -38,31 +170,135 @@ export default function OrderSummary() {
               className="flex-1 border border-gray-300 rounded-l-md px-3 py-2 focus:outline-none text-sm"
             />
             <button
-              className="bg-[#a08452] hover:bg-[#8c703d] text-white px-4 py-2 rounded-r-md text-sm"
+              className="bg-[#a08452] hover:bg-[#8c703d] text-white px-4 py-2 rounded-r-md text-sm disabled:opacity-50"
               onClick={handleApplyDiscount}
+              disabled={isLoading}
+            >
+              {isLoading ? "Updating..." : "Apply"}
+            </button>
+          </div>
+          {discountError && <p className="mt-1 text-xs text-red-600">{discountError}</p>}
+        </div>
+
+        <div>
+          <p className="mb-2 text-sm">Gift Card</p>
+          <div className="flex">
+            <input
+              type="text"
+              value={giftCardCode}
+              onChange={(e) => setGiftCardCode(e.target.value.toUpperCase())}
+              placeholder="GC-XXXX-XXXX-XXXX"
+              className="flex-1 border border-gray-300 rounded-l-md px-3 py-2 focus:outline-none text-sm font-mono"
+            />
+            <button
+              className="bg-[#a08452] hover:bg-[#8c703d] text-white px-4 py-2 rounded-r-md text-sm disabled:opacity-50"
+              onClick={() => setAppliedGiftCard(giftCardCode.trim() || null)}
+              disabled={isLoading}
             >
               Apply
             </button>
           </div>
+          {giftCardError && <p className="mt-1 text-xs text-red-600">{giftCardError}</p>}
         </div>
 
+        {storeCreditBalance > 0 && (
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input type="checkbox" checked={useStoreCredit} onChange={(e) => setUseStoreCredit(e.target.checked)} />
+            Use my store credit (₹{storeCreditBalance.toLocaleString()} available)
+          </label>
+        )}
+
+        {shippingOptions.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm">Delivery Method</p>
+            {shippingOptions.map((option) => (
+              <label key={option.id} className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+                <span className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="shipping-method"
+                    checked={option.id === selectedShippingId}
+                    onChange={() => setShippingMethodId(option.id)}
+                  />
+                  <span>
+                    {option.name}
+                    {option.estimatedDelivery && (
+                      <span className="block text-xs text-gray-500">{option.estimatedDelivery}</span>
+                    )}
+                  </span>
+                </span>
+                <span>{option.cost === 0 ? "Free" : `₹${option.cost.toLocaleString()}`}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
         <div className="flex justify-between">
           <span>Delivery Charge</span>
-          <span className="font-medium">₹{deliveryCharge}</span>
+          {!hasLocation ? (
+            <span className="text-sm text-gray-500">Calculated at checkout</span>
+          ) : quote && !quote.shippingMethod ? (
+            <span className="text-sm text-red-600">Not available for this address</span>
+          ) : (
+            <span className="font-medium">₹{deliveryCharge}</span>
+          )}
         </div>
 
-        {isDiscountApplied && discount > 0 && (
-          <div className="flex justify-between text-green-600">
-            <span>Discount</span>
-            <span className="font-medium">-₹{discount}</span>
+        {quote?.taxBreakdown ? (
+          taxes.length > 0 ? (
+            taxes.map((tax) => (
+              <div key={tax.rateId} className="flex justify-between">
+                <span>
+                  {tax.name} ({tax.rate}%)
+                </span>
+                <span className="font-medium">₹{tax.amount.toLocaleString()}</span>
+              </div>
+            ))
+          ) : (
+            <div className="flex justify-between">
+              <span>Tax</span>
+              <span className="font-medium">₹0</span>
+            </div>
+          )
+        ) : (
+          <div className="flex justify-between">
+            <span>Tax</span>
+            <span className="text-sm text-gray-500">Calculated at checkout</span>
           </div>
         )}
 
+        {quote?.discounts.map((discount) => (
+          <div key={discount.id} className="flex justify-between text-green-600">
+            <span>{discount.code ? `Discount (${discount.code})` : discount.name}</span>
+            <span className="font-medium">-₹{discount.amount.toLocaleString()}</span>
+          </div>
+        ))}
+
+        {quoteError && <p className="text-xs text-red-600">{quoteError}</p>}
+
         <div className="pt-4 border-t">
           <div className="flex justify-between text-lg font-medium">
             <span>Grand Total</span>
             <span>₹{grandTotal.toLocaleString()}</span>
           </div>
+          {quote?.giftCard && (
+            <div className="flex justify-between text-sm text-green-600 mt-2">
+              <span>Gift card ({quote.giftCard.code})</span>
+              <span>-₹{quote.giftCard.amount.toLocaleString()}</span>
+            </div>
+          )}
+          {quote?.storeCredit && quote.storeCredit.amount > 0 && (
+            <div className="flex justify-between text-sm text-green-600 mt-2">
+              <span>Store credit</span>
+              <span>-₹{quote.storeCredit.amount.toLocaleString()}</span>
+            </div>
+          )}
+          {amountDue !== grandTotal && (
+            <div className="flex justify-between font-medium mt-2">
+              <span>Amount Due</span>
+              <span>₹{amountDue.toLocaleString()}</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
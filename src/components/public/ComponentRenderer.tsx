@@ -14,9 +14,18 @@ interface ComponentRendererProps {
     caption?: string | null;
     order: number;
   }>;
+  // Approved reviews picked for a REVIEW_CARD, loaded by the page
+  reviews?: Array<{
+    id: string;
+    rating: number;
+    comment: string | null;
+    createdAt: Date | string;
+    user: { firstName: string; lastName: string };
+    product: { title: string };
+  }>;
 }
 
-export function ComponentRenderer({ type, content, styleVariant, carouselImages }: ComponentRendererProps) {
+export function ComponentRenderer({ type, content, styleVariant, carouselImages, reviews }: ComponentRendererProps) {
   const renderComponent = () => {
     switch (type) {
       case 'HEADING':
@@ -31,6 +40,8 @@ export function ComponentRenderer({ type, content, styleVariant, carouselImages
         return <VideoEmbedComponent content={content} styleVariant={styleVariant} />;
       case 'QUOTE_BLOCK':
         return <QuoteBlockComponent content={content} styleVariant={styleVariant} />;
+      case 'REVIEW_CARD':
+        return <ReviewCardComponent content={content} reviews={reviews} />;
       case 'CTA_BUTTON':
         return <CTAButtonComponent content={content} styleVariant={styleVariant} />;
       case 'SPACER':
@@ -242,6 +253,39 @@ function QuoteBlockComponent({ content, styleVariant }: { content: any; styleVar
   );
 }
 
+function ReviewCardComponent({ content, reviews = [] }: { content: any; reviews?: ComponentRendererProps['reviews'] }) {
+  const { title } = content;
+
+  if (reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-6">
+      {title && <h2 className="text-3xl font-bold text-center">{title}</h2>}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {reviews.map((review) => (
+          <Card key={review.id}>
+            <CardContent className="p-6 space-y-3">
+              <div className="text-yellow-400" aria-label={`${review.rating} out of 5 stars`}>
+                {'★'.repeat(review.rating)}
+                <span className="text-gray-300">{'★'.repeat(5 - review.rating)}</span>
+              </div>
+              {review.comment && <p className="italic">{review.comment}</p>}
+              <footer className="text-sm text-muted-foreground">
+                — {[review.user.firstName, review.user.lastName && `${review.user.lastName.charAt(0)}.`]
+                  .filter(Boolean)
+                  .join(' ')}
+                , on {review.product.title}
+              </footer>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+}
+
 function CTAButtonComponent({ content }: { content: any; styleVariant?: string }) {
   const { text, url, variant, size } = content;
   
@@ -0,0 +1,65 @@
+"use client"
+
+import { useState } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import { Heart } from "lucide-react"
+import { toast } from "sonner"
+import { wishlistApi } from "@/lib/api/wishlist"
+
+interface WishlistButtonProps {
+  productId: string
+  // Whether the product is already on the customer's wishlist, e.g. from GET /api/wishlist
+  isWishlisted?: boolean
+  onChange?: (isWishlisted: boolean) => void
+  className?: string
+}
+
+/**
+ * Heart toggle for product cards and pages. Signed-out shoppers are sent to log in first.
+ */
+export function WishlistButton({ productId, isWishlisted = false, onChange, className = "" }: WishlistButtonProps) {
+  const { status } = useSession()
+  const router = useRouter()
+  const pathname = usePathname()
+  const [active, setActive] = useState(isWishlisted)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const toggle = async () => {
+    if (status !== "authenticated") {
+      router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`)
+      return
+    }
+
+    const next = !active
+    setActive(next)
+    setIsSaving(true)
+    try {
+      if (next) {
+        await wishlistApi.add(productId)
+        toast.success("Added to your wishlist. We'll email you if it drops in price or comes back in stock.")
+      } else {
+        await wishlistApi.remove(productId)
+      }
+      onChange?.(next)
+    } catch (error) {
+      setActive(!next)
+      toast.error(error instanceof Error ? error.message : "Could not update your wishlist")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={isSaving}
+      aria-pressed={active}
+      aria-label={active ? "Remove from wishlist" : "Add to wishlist"}
+      className={`p-2 rounded-full bg-white/90 hover:bg-white shadow-sm disabled:opacity-50 ${className}`}
+    >
+      <Heart size={18} className={active ? "text-red-500 fill-red-500" : "text-gray-600"} />
+    </button>
+  )
+}
@@ -1,36 +1,82 @@
 "use client"
 
-import React, { createContext, useContext, useState, useEffect } from "react"
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from "react"
+import { useSession } from "next-auth/react"
 
 export type CartItem = {
   id: string
+  variantId?: string | null
+  // Server-side CartItem id, present once the line is stored on the account
+  cartItemId?: string
   name: string
   price: number
   originalPrice?: number
   quantity: number
-  color: string
-  size: string
+  // The chosen value of each of the product's options, keyed by option name
+  options: Record<string, string>
   image: string
 }
 
 interface CartContextType {
   cartItems: CartItem[]
   cartCount: number
+  isSynced: boolean
   addToCart: (item: CartItem) => void
-  removeFromCart: (id: string) => void
-  updateQuantity: (id: string, quantity: number) => void
+  removeFromCart: (id: string, variantId?: string | null) => void
+  updateQuantity: (id: string, quantity: number, variantId?: string | null) => void
   clearCart: () => void
   getTotalPrice: () => number
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined)
 
+const CART_STORAGE_KEY = "cart"
+
+// The variant determines the options, so it is enough to tell lines apart
+const isSameLine = (a: CartItem, b: CartItem) =>
+  a.id === b.id && (a.variantId ?? null) === (b.variantId ?? null)
+
+// When no variant is given every line of the product matches, as before variants were tracked
+const matchesProduct = (item: CartItem, id: string, variantId?: string | null) =>
+  item.id === id && (variantId === undefined || (item.variantId ?? null) === variantId)
+
+// Must be rendered inside the next-auth SessionProvider (see components/providers.tsx)
 export function CartProvider({ children }: { children: React.ReactNode }) {
+  const { status } = useSession()
   const [cartItems, setCartItems] = useState<CartItem[]>([])
+  const [isSynced, setIsSynced] = useState(false)
+  const hasLoadedLocalCart = useRef(false)
+  const previousStatus = useRef(status)
+
+  const isSignedIn = status === "authenticated"
+
+  // Send a cart request and replace local state with the server's view of the cart
+  const syncRequest = useCallback(async (url: string, init?: RequestInit) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init?.headers },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Cart request failed")
+      }
+      setCartItems(data.items)
+      setIsSynced(true)
+    } catch (error) {
+      console.error("Error syncing cart:", error)
+      // Fall back to whatever the server currently holds
+      const response = await fetch("/api/cart")
+      if (response.ok) {
+        const data = await response.json()
+        setCartItems(data.items)
+      }
+    }
+  }, [])
 
   // Load cart from localStorage on mount
   useEffect(() => {
-    const savedCart = localStorage.getItem("cart")
+    const savedCart = localStorage.getItem(CART_STORAGE_KEY)
     if (savedCart) {
       try {
         setCartItems(JSON.parse(savedCart))
@@ -38,28 +84,59 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         console.error("Error loading cart from localStorage:", error)
       }
     }
+    hasLoadedLocalCart.current = true
   }, [])
 
-  // Save cart to localStorage whenever cart changes
+  // Save anonymous carts to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem("cart", JSON.stringify(cartItems))
-  }, [cartItems])
+    if (!hasLoadedLocalCart.current || status !== "unauthenticated") return
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cartItems))
+  }, [cartItems, status])
+
+  // On sign-in merge the local cart into the account cart; on sign-out start afresh
+  useEffect(() => {
+    const wasSignedIn = previousStatus.current === "authenticated"
+    previousStatus.current = status
+
+    if (status === "authenticated" && !wasSignedIn) {
+      let localItems: CartItem[] = []
+      try {
+        localItems = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || "[]")
+      } catch {
+        localItems = []
+      }
+
+      const pending = localItems.filter(item => !item.cartItemId)
+      if (pending.length > 0) {
+        syncRequest("/api/cart/merge", {
+          method: "POST",
+          body: JSON.stringify({
+            items: pending.map(item => ({
+              productId: item.id,
+              productVariantId: item.variantId ?? null,
+              quantity: item.quantity,
+            })),
+          }),
+        }).then(() => localStorage.removeItem(CART_STORAGE_KEY))
+      } else {
+        localStorage.removeItem(CART_STORAGE_KEY)
+        syncRequest("/api/cart")
+      }
+    } else if (status === "unauthenticated" && wasSignedIn) {
+      setCartItems([])
+      setIsSynced(false)
+    }
+  }, [status, syncRequest])
 
   const cartCount = cartItems.reduce((total, item) => total + item.quantity, 0)
 
   const addToCart = (newItem: CartItem) => {
     setCartItems(prevItems => {
-      const existingItem = prevItems.find(
-        item => item.id === newItem.id && 
-                item.color === newItem.color && 
-                item.size === newItem.size
-      )
+      const existingItem = prevItems.find(item => isSameLine(item, newItem))
 
       if (existingItem) {
         return prevItems.map(item =>
-          item.id === newItem.id && 
-          item.color === newItem.color && 
-          item.size === newItem.size
+          isSameLine(item, newItem)
             ? { ...item, quantity: item.quantity + newItem.quantity }
             : item
         )
@@ -67,27 +144,61 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         return [...prevItems, newItem]
       }
     })
+
+    if (isSignedIn) {
+      syncRequest("/api/cart", {
+        method: "POST",
+        body: JSON.stringify({
+          productId: newItem.id,
+          productVariantId: newItem.variantId ?? null,
+          quantity: newItem.quantity,
+        }),
+      })
+    }
   }
 
-  const removeFromCart = (id: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.id !== id))
+  const removeFromCart = (id: string, variantId?: string | null) => {
+    const removed = cartItems.filter(item => matchesProduct(item, id, variantId))
+    setCartItems(prevItems => prevItems.filter(item => !matchesProduct(item, id, variantId)))
+
+    if (isSignedIn) {
+      removed
+        .filter(item => item.cartItemId)
+        .forEach(item => syncRequest(`/api/cart/${item.cartItemId}`, { method: "DELETE" }))
+    }
   }
 
-  const updateQuantity = (id: string, quantity: number) => {
+  const updateQuantity = (id: string, quantity: number, variantId?: string | null) => {
     if (quantity <= 0) {
-      removeFromCart(id)
+      removeFromCart(id, variantId)
       return
     }
 
+    const updated = cartItems.filter(item => matchesProduct(item, id, variantId))
     setCartItems(prevItems =>
       prevItems.map(item =>
-        item.id === id ? { ...item, quantity } : item
+        matchesProduct(item, id, variantId) ? { ...item, quantity } : item
       )
     )
+
+    if (isSignedIn) {
+      updated
+        .filter(item => item.cartItemId)
+        .forEach(item =>
+          syncRequest(`/api/cart/${item.cartItemId}`, {
+            method: "PATCH",
+            body: JSON.stringify({ quantity }),
+          })
+        )
+    }
   }
 
   const clearCart = () => {
     setCartItems([])
+
+    if (isSignedIn) {
+      syncRequest("/api/cart", { method: "DELETE" })
+    }
   }
 
   const getTotalPrice = () => {
@@ -97,6 +208,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   const value: CartContextType = {
     cartItems,
     cartCount,
+    isSynced,
     addToCart,
     removeFromCart,
     updateQuantity,
@@ -0,0 +1,119 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import type { AddressSchema } from '@/lib/validations/account-schema';
+
+export class AddressError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AddressError';
+  }
+}
+
+// Archived addresses stay behind for the orders that shipped to them
+const activeAddresses = (userId: string): Prisma.AddressWhereInput => ({ userId, archivedAt: null });
+
+export async function listAddresses(userId: string) {
+  return prisma.address.findMany({
+    where: activeAddresses(userId),
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+  });
+}
+
+async function findAddress(tx: Prisma.TransactionClient, userId: string, id: string) {
+  const address = await tx.address.findFirst({ where: { id, ...activeAddresses(userId) } });
+  if (!address) {
+    throw new AddressError('Address not found', 404);
+  }
+  return address;
+}
+
+async function clearDefault(tx: Prisma.TransactionClient, userId: string) {
+  await tx.address.updateMany({
+    where: { userId, isDefault: true },
+    data: { isDefault: false },
+  });
+}
+
+// Keeps exactly one default once the customer has any addresses, preferring the newest
+async function ensureDefault(tx: Prisma.TransactionClient, userId: string) {
+  const current = await tx.address.findFirst({ where: { ...activeAddresses(userId), isDefault: true } });
+  if (current) return;
+
+  const newest = await tx.address.findFirst({
+    where: activeAddresses(userId),
+    orderBy: { createdAt: 'desc' },
+  });
+  if (newest) {
+    await tx.address.update({ where: { id: newest.id }, data: { isDefault: true } });
+  }
+}
+
+/**
+ * Saves a new address. The first address, or one marked as default, becomes the default.
+ */
+export async function createAddress(userId: string, input: AddressSchema) {
+  return prisma.$transaction(async (tx) => {
+    if (input.isDefault) await clearDefault(tx, userId);
+
+    const address = await tx.address.create({ data: { ...input, userId } });
+    await ensureDefault(tx, userId);
+
+    return tx.address.findUniqueOrThrow({ where: { id: address.id } });
+  });
+}
+
+/**
+ * Updates an address. One that orders have shipped to is archived and replaced by
+ * an edited copy so past orders keep the address they were sent to.
+ */
+export async function updateAddress(userId: string, id: string, input: Partial<AddressSchema>) {
+  return prisma.$transaction(async (tx) => {
+    const address = await findAddress(tx, userId, id);
+    if (input.isDefault) await clearDefault(tx, userId);
+
+    const usedByOrders = (await tx.order.count({ where: { addressId: id } })) > 0;
+    let updatedId = id;
+
+    if (usedByOrders) {
+      await tx.address.update({ where: { id }, data: { archivedAt: new Date(), isDefault: false } });
+      const copy = await tx.address.create({
+        data: {
+          fullName: input.fullName ?? address.fullName,
+          phoneNumber: input.phoneNumber ?? address.phoneNumber,
+          street: input.street ?? address.street,
+          city: input.city ?? address.city,
+          state: input.state ?? address.state,
+          postalCode: input.postalCode ?? address.postalCode,
+          country: input.country ?? address.country,
+          isDefault: input.isDefault ?? address.isDefault,
+          userId,
+        },
+      });
+      updatedId = copy.id;
+    } else {
+      await tx.address.update({ where: { id }, data: input });
+    }
+
+    await ensureDefault(tx, userId);
+    return tx.address.findUniqueOrThrow({ where: { id: updatedId } });
+  });
+}
+
+/**
+ * Removes an address, archiving it instead when orders have shipped to it.
+ * If it was the default another address takes its place.
+ */
+export async function deleteAddress(userId: string, id: string) {
+  await prisma.$transaction(async (tx) => {
+    await findAddress(tx, userId, id);
+
+    const usedByOrders = (await tx.order.count({ where: { addressId: id } })) > 0;
+    if (usedByOrders) {
+      await tx.address.update({ where: { id }, data: { archivedAt: new Date(), isDefault: false } });
+    } else {
+      await tx.address.delete({ where: { id } });
+    }
+
+    await ensureDefault(tx, userId);
+  });
+}
@@ -0,0 +1,206 @@
+// src/lib/api/account.ts
+import {
+  Address as PrismaAddress,
+  AuthMethod,
+  BalanceTransactionType,
+  GiftCardStatus,
+  OrderStatus,
+  PaymentStatus,
+} from "@prisma/client";
+import type { AppliedTax } from "@/lib/tax/calculate";
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface Address extends Omit<PrismaAddress, "archivedAt" | "createdAt" | "updatedAt"> {
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AddressPayload {
+  fullName: string;
+  phoneNumber: string;
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  isDefault?: boolean;
+}
+
+export interface Profile {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phoneNumber: string | null;
+  authMethod: AuthMethod;
+  createdAt: string;
+}
+
+export interface OrderSummary {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  total: number;
+  createdAt: string;
+  _count: { items: number };
+}
+
+export interface OrderDetail {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  paymentMethod: string | null;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  // Taxes applied to the whole order, one entry per rate
+  taxBreakdown: AppliedTax[] | null;
+  shippingCost: number;
+  shippingMethod: string | null;
+  total: number;
+  // Parts of the total paid from a gift card or store credit rather than through the gateway
+  giftCardAmount: number;
+  storeCreditAmount: number;
+  refundedAmount: number;
+  invoiceNumber: string | null;
+  createdAt: string;
+  shippingAddress: Address;
+  items: {
+    id: string;
+    quantity: number;
+    price: number;
+    total: number;
+    product: { id: string; title: string };
+    variant: { id: string; name: string } | null;
+  }[];
+}
+
+export interface BalanceTransaction {
+  id: string;
+  type: BalanceTransactionType;
+  amount: number;
+  balanceAfter: number;
+  note: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+}
+
+export interface GiftCard {
+  id: string;
+  code: string;
+  initialBalance: number;
+  balance: number;
+  status: GiftCardStatus;
+  expiresAt: string | null;
+  createdAt: string;
+  transactions: BalanceTransaction[];
+}
+
+export interface StoreCredit {
+  balance: number;
+  transactions: BalanceTransaction[];
+}
+
+interface GetOrdersResponse {
+  data: OrderSummary[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const accountApi = {
+  getProfile: async (): Promise<Profile> => {
+    const response = await fetch("/api/profile");
+    return handleResponse(response);
+  },
+
+  updateProfile: async (payload: { firstName: string; lastName: string }): Promise<Profile> => {
+    const response = await fetch("/api/profile", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  changePassword: async (payload: { currentPassword: string; newPassword: string }): Promise<{ message: string }> => {
+    const response = await fetch("/api/auth/change-password", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  getOrders: async (page: number, limit: number): Promise<GetOrdersResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    const response = await fetch(`/api/orders?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  getOrder: async (id: string): Promise<OrderDetail> => {
+    const response = await fetch(`/api/orders/${id}`);
+    return handleResponse(response);
+  },
+
+  getAddresses: async (): Promise<Address[]> => {
+    const response = await fetch("/api/addresses");
+    return handleResponse(response);
+  },
+
+  createAddress: async (payload: AddressPayload): Promise<Address> => {
+    const response = await fetch("/api/addresses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  updateAddress: async (id: string, payload: Partial<AddressPayload>): Promise<Address> => {
+    const response = await fetch(`/api/addresses/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  deleteAddress: async (id: string): Promise<{ message: string }> => {
+    const response = await fetch(`/api/addresses/${id}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+
+  getGiftCards: async (): Promise<GiftCard[]> => {
+    const response = await fetch("/api/gift-cards");
+    return handleResponse(response);
+  },
+
+  addGiftCard: async (code: string): Promise<GiftCard> => {
+    const response = await fetch("/api/gift-cards", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    });
+    return handleResponse(response);
+  },
+
+  getStoreCredit: async (): Promise<StoreCredit> => {
+    const response = await fetch("/api/store-credit");
+    return handleResponse(response);
+  },
+};
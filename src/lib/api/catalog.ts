@@ -0,0 +1,53 @@
+// src/lib/api/catalog.ts
+import type { CatalogFacets, CatalogFilters, CatalogProduct as ServerCatalogProduct, CatalogSort } from "@/lib/products/catalog";
+
+export type { CatalogFacets, CatalogSort };
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface CatalogProduct extends Omit<ServerCatalogProduct, "createdAt"> {
+  createdAt: string;
+}
+
+export interface CatalogParams extends CatalogFilters {
+  sort?: CatalogSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface CatalogResponse {
+  data: CatalogProduct[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+  facets: CatalogFacets;
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const toCatalogSearchParams = ({ options, tags, ...params }: CatalogParams) => {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") searchParams.set(key, String(value));
+  });
+  if (tags?.length) searchParams.set("tags", tags.join(","));
+  Object.entries(options ?? {}).forEach(([name, values]) =>
+    values.forEach((value) => searchParams.append("option", `${name}:${value}`))
+  );
+  return searchParams;
+};
+
+export const catalogApi = {
+  getCatalog: async (params: CatalogParams = {}): Promise<CatalogResponse> => {
+    const response = await fetch(`/api/catalog?${toCatalogSearchParams(params).toString()}`);
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,146 @@
+// src/lib/api/gift-cards.ts
+import { BalanceTransactionType, GiftCard as PrismaGiftCard, GiftCardStatus } from "@prisma/client";
+
+type Staff = { id: string; firstName: string; lastName: string };
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface GiftCard extends Omit<PrismaGiftCard, "expiresAt" | "voidedAt" | "createdAt" | "updatedAt"> {
+  expiresAt: string | null;
+  voidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  user: { id: string; firstName: string; lastName: string; email: string | null } | null;
+  issuedBy: Staff | null;
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: BalanceTransactionType;
+  amount: number;
+  balanceAfter: number;
+  note: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+  createdBy: Staff | null;
+}
+
+export interface GiftCardDetail extends GiftCard {
+  transactions: LedgerEntry[];
+}
+
+export interface GiftCardFilters {
+  status?: GiftCardStatus | "";
+  search?: string;
+}
+
+export interface IssueGiftCardPayload {
+  amount: number;
+  expiresAt?: string | null;
+  customerEmail?: string | null;
+  recipientEmail?: string | null;
+  note?: string | null;
+  code?: string | null;
+}
+
+export type UpdateGiftCardPayload =
+  | { action: "adjust"; amount: number; note: string }
+  | { action: "void"; note: string };
+
+export interface StoreCreditCustomer {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  storeCredit: number;
+}
+
+export interface StoreCreditDetail extends StoreCreditCustomer {
+  storeCreditLedger: LedgerEntry[];
+}
+
+export interface StoreCreditPayload {
+  action: "issue" | "adjust" | "void";
+  amount?: number;
+  note: string;
+}
+
+interface Paginated<T> {
+  data: T[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const giftCardApi = {
+  /**
+   * Fetches a paginated, filtered list of gift cards for the admin.
+   */
+  getGiftCards: async (page: number, limit: number, filters: GiftCardFilters = {}): Promise<Paginated<GiftCard>> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    const response = await fetch(`/api/admin/gift-cards?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  getGiftCard: async (id: string): Promise<GiftCardDetail> => {
+    const response = await fetch(`/api/admin/gift-cards/${id}`);
+    return handleResponse(response);
+  },
+
+  issueGiftCard: async (payload: IssueGiftCardPayload): Promise<GiftCard> => {
+    const response = await fetch("/api/admin/gift-cards", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  updateGiftCard: async (id: string, payload: UpdateGiftCardPayload): Promise<GiftCard> => {
+    const response = await fetch(`/api/admin/gift-cards/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  /**
+   * Lists customers holding store credit, or every customer matching the search.
+   */
+  getStoreCredit: async (page: number, limit: number, search = ""): Promise<Paginated<StoreCreditCustomer>> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (search) params.set("search", search);
+
+    const response = await fetch(`/api/admin/store-credit?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  getCustomerStoreCredit: async (userId: string): Promise<StoreCreditDetail> => {
+    const response = await fetch(`/api/admin/store-credit/${userId}`);
+    return handleResponse(response);
+  },
+
+  changeStoreCredit: async (userId: string, payload: StoreCreditPayload): Promise<{ balance: number }> => {
+    const response = await fetch(`/api/admin/store-credit/${userId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
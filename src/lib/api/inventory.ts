@@ -1,106 +1,138 @@
-import { Varient } from "@/types/product-types";
+// src/lib/api/inventory.ts
+import { InventoryLog as PrismaInventoryLog, ProductStatus } from "@prisma/client";
 
-interface InventoryOverview {
+export type StockStatus = "in" | "low" | "out";
+
+export interface InventoryOverview {
   totalProducts: number;
-  lowStockItems: number;
+  inStock: number;
+  lowStock: number;
   outOfStock: number;
-  restockAlerts: number;
+  totalUnits: number;
 }
 
-// Mock data for inventory overview
-const getInventoryOverview = async (): Promise<InventoryOverview> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  return {
-    totalProducts: 150,
-    lowStockItems: 12,
-    outOfStock: 3,
-    restockAlerts: 8
-  };
-};
-
 export interface InventoryItem {
-  id: number;
-  name: string;
-  inStock: number;
+  id: string;
+  title: string;
+  sku: string;
+  status: ProductStatus;
   lowStockThreshold: number;
+  variantCount: number;
+  // Sum of the variants' stock for products with variants, otherwise the product's own stock
+  stockLevel: number;
+  stock: StockStatus;
+  image: string | null;
+  updatedAt: string;
 }
 
-// Mock data for inventory items
-const mockInventoryItems: InventoryItem[] = [
-  { id: 1, name: "Product A", inStock: 25, lowStockThreshold: 10 },
-  { id: 2, name: "Product B", inStock: 5, lowStockThreshold: 15 },
-  { id: 3, name: "Product C", inStock: 0, lowStockThreshold: 20 },
-  { id: 4, name: "Product D", inStock: 45, lowStockThreshold: 10 },
-  { id: 5, name: "Product E", inStock: 8, lowStockThreshold: 12 }
-];
-
-const getInventory = async (currentPage: number, itemsPerPage: number, debouncedSearchTerm: string): Promise<{ products: InventoryItem[], pagination: { totalPages: number } }> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Filter items based on search term
-  let filteredItems = mockInventoryItems;
-  if (debouncedSearchTerm) {
-    filteredItems = mockInventoryItems.filter(item => 
-      item.name.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
-    );
-  }
-  
-  // Paginate results
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedItems = filteredItems.slice(startIndex, endIndex);
-  
-  return {
-    products: paginatedItems,
-    pagination: {
-      totalPages: Math.ceil(filteredItems.length / itemsPerPage)
-    }
-  };
-};
+// Dates arrive as ISO strings once they have been through JSON
+export interface InventoryLog extends Omit<PrismaInventoryLog, "createdAt"> {
+  createdAt: string;
+  user: { id: string; firstName: string; lastName: string; email: string | null } | null;
+}
 
-interface Size {
+export interface InventoryDetail {
   id: string;
-  size: string;
+  title: string;
+  sku: string;
+  price: number;
+  status: ProductStatus;
+  stockQuantity: number;
+  lowStockThreshold: number;
+  variants: { id: string; name: string; sku: string; stockQuantity: number }[];
+  stockLevel: number;
+  stock: StockStatus;
+  // Units held for checkouts awaiting payment, already deducted from the stock levels
+  reserved: number;
+  logs: InventoryLog[];
+}
+
+export interface InventoryUpdatePayload {
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  variants?: { id: string; stockQuantity: number }[];
+  notes?: string;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  variantId: string | null;
+  title: string;
+  variantName: string | null;
+  sku: string;
   stock: number;
-  colorId: string;
+  incoming: number;
+  soldPerDay: number;
+  daysOfStock: number | null;
+  leadTimeDays: number;
+  supplierId: string | null;
+  suggestedQuantity: number;
 }
 
-const updateStock = async (variantId: string, stock: number): Promise<Size> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 200));
-  
-  // Return mock updated size
-  return {
-    id: variantId,
-    size: "M",
-    stock: stock,
-    colorId: "color-1"
+interface GetInventoryResponse {
+  data: InventoryItem[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
   };
-};
-
-const addNewSize = async (colorId: string, sizes: Array<{ size: string; stock: number }>): Promise<Varient[]> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Return mock variants (you may need to adjust this based on your Varient type)
-  return [];
-};
+}
 
-const addNewColor = async (productId: string, newColorData: {name : string,imageUrl:string, sizes: Array<{ size: string; stock: number }>}): Promise<Varient[]> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 400));
-  
-  // Return mock variants (you may need to adjust this based on your Varient type)
-  return [];
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
 };
 
 export const inventoryApi = {
-  getInventoryOverview,
-  getInventory,
-  updateStock,
-  addNewSize,
-  addNewColor,
-};
\ No newline at end of file
+  getInventoryOverview: async (): Promise<InventoryOverview> => {
+    const response = await fetch("/api/admin/inventory/overview");
+    return handleResponse(response);
+  },
+
+  /**
+   * Fetches a paginated list of stock levels, lowest first.
+   */
+  getInventory: async (
+    page: number,
+    limit: number,
+    search = "",
+    stock: StockStatus | "" = ""
+  ): Promise<GetInventoryResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (search) params.set("search", search);
+    if (stock) params.set("stock", stock);
+
+    const response = await fetch(`/api/admin/inventory?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  getProductInventory: async (productId: string): Promise<InventoryDetail> => {
+    const response = await fetch(`/api/admin/inventory/${productId}`);
+    return handleResponse(response);
+  },
+
+  /**
+   * Products and variants due for reordering, based on the last `days` days of sales.
+   */
+  getReorderSuggestions: async (days = 30, limit = 20): Promise<ReorderSuggestion[]> => {
+    const params = new URLSearchParams({ days: String(days), limit: String(limit) });
+    const response = await fetch(`/api/admin/inventory/reorder-suggestions?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  /**
+   * Records counted stock levels for a product and its variants. Each change is logged.
+   */
+  updateStock: async (productId: string, payload: InventoryUpdatePayload): Promise<InventoryDetail> => {
+    const response = await fetch(`/api/admin/inventory/${productId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,151 @@
+// src/lib/api/orders.ts
+import {
+  Address,
+  Order as PrismaOrder,
+  OrderStatus,
+  PaymentStatus,
+  Shipment as PrismaShipment,
+  ShipmentStatus,
+} from "@prisma/client";
+
+export interface OrderItem {
+  id: string;
+  quantity: number;
+  price: number;
+  total: number;
+  product: { id: string; title: string; sku: string };
+  variant: { id: string; name: string; sku: string } | null;
+}
+
+export interface Shipment extends Omit<PrismaShipment, "shippedAt" | "deliveredAt" | "createdAt" | "updatedAt"> {
+  shippedAt: string;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  items: {
+    id: string;
+    quantity: number;
+    orderItemId: string;
+    orderItem: { product: { title: string }; variant: { name: string } | null };
+  }[];
+}
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface Order extends Omit<PrismaOrder, "createdAt" | "updatedAt"> {
+  createdAt: string;
+  updatedAt: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string | null;
+    phoneNumber: string | null;
+  };
+  items: OrderItem[];
+  shippingAddress?: Address;
+  shipments?: Shipment[];
+}
+
+export interface OrderFilters {
+  status?: OrderStatus | "";
+  paymentStatus?: PaymentStatus | "";
+  from?: string;
+  to?: string;
+  customer?: string;
+}
+
+interface GetOrdersResponse {
+  data: Order[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface UpdateOrderPayload {
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  notes?: string | null;
+}
+
+export interface CreateShipmentPayload {
+  carrier: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  notes?: string;
+  items: { orderItemId: string; quantity: number }[];
+}
+
+export interface UpdateShipmentPayload {
+  carrier?: string;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  notes?: string | null;
+  status?: ShipmentStatus;
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const orderApi = {
+  /**
+   * Fetches a paginated, filtered list of orders for the admin.
+   */
+  getOrders: async (
+    page: number,
+    limit: number,
+    filters: OrderFilters = {}
+  ): Promise<GetOrdersResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    const response = await fetch(`/api/admin/orders?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  getById: async (id: string): Promise<Order> => {
+    const response = await fetch(`/api/admin/orders/${id}`);
+    return handleResponse(response);
+  },
+
+  updateOrder: async (id: string, payload: UpdateOrderPayload): Promise<Order> => {
+    const response = await fetch(`/api/admin/orders/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  emailInvoice: async (id: string): Promise<{ message: string; invoiceNumber: string }> => {
+    const response = await fetch(`/api/admin/orders/${id}/invoice`, { method: "POST" });
+    return handleResponse(response);
+  },
+
+  createShipment: async (orderId: string, payload: CreateShipmentPayload): Promise<Shipment> => {
+    const response = await fetch(`/api/admin/orders/${orderId}/shipments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  updateShipment: async (orderId: string, shipmentId: string, payload: UpdateShipmentPayload): Promise<Shipment> => {
+    const response = await fetch(`/api/admin/orders/${orderId}/shipments/${shipmentId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
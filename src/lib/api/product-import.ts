@@ -0,0 +1,53 @@
+// src/lib/api/product-import.ts
+import type { ProductImportError } from "@/lib/products/csv";
+
+export type { ProductImportError };
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  rows: number;
+  // Valid products in the file, split into new ones and ones matched by SKU
+  products: number;
+  toCreate: number;
+  toUpdate: number;
+  errors: ProductImportError[];
+}
+
+export interface ProductImportBatchResult extends ProductImportReport {
+  created: number;
+  updated: number;
+  variants: number;
+  processed: number;
+  // Where the next batch starts; null once every product has been imported
+  nextOffset: number | null;
+}
+
+export const PRODUCT_EXPORT_URL = "/api/admin/products/export";
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+const postImport = (file: File, fields: Record<string, string>) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+  return fetch("/api/admin/products/import", { method: "POST", body: formData });
+};
+
+export const productImportApi = {
+  // Validates the whole file without changing anything
+  checkImport: async (file: File): Promise<ProductImportReport> => {
+    const response = await postImport(file, { dryRun: "true" });
+    return handleResponse(response);
+  },
+
+  importBatch: async (file: File, offset: number, limit = 100): Promise<ProductImportBatchResult> => {
+    const response = await postImport(file, { dryRun: "false", offset: String(offset), limit: String(limit) });
+    return handleResponse(response);
+  },
+};
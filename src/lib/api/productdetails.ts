@@ -1,5 +1,6 @@
 // src/lib/api/productdetails.ts
 import { Product as PrismaProduct, ProductImage } from "@prisma/client";
+import type { ProductBulkSchema } from "@/lib/validations/product-bulk-schema";
 
 // Define types based on the provided JSON structure
 export interface Size {
@@ -147,4 +148,20 @@ export const productApi = {
     }
     return response.json();
   },
+
+  /**
+   * Applies one bulk action to the selected products. Returns how many of them changed.
+   */
+  bulkUpdate: async (payload: ProductBulkSchema): Promise<{ affected: number }> => {
+    const response = await fetch(`${API_BASE_URL}/products/bulk`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(typeof errorData.error === "string" ? errorData.error : "Failed to update products");
+    }
+    return response.json();
+  },
 };
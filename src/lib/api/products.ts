@@ -1,6 +1,8 @@
 // lib/api/products.ts
 import { Product } from "@/types/product-types";
 import { ProductStatus } from '@prisma/client';
+import type { OptionDefinition } from "@/lib/products/variant-matrix";
+import type { ProductVariantSchema } from "@/lib/validations/variant-schema";
 
 export interface AddProductPayload {
   title: string;
@@ -18,6 +20,9 @@ export interface AddProductPayload {
   seoDescription?: string;
   images: File[];
   status: ProductStatus;
+  options?: OptionDefinition[];
+  // `imageIndex` picks one of the uploaded images for a new product's variant
+  variants?: (ProductVariantSchema & { imageIndex?: number })[];
 }
 
 export const productsApi = {
@@ -27,8 +32,8 @@ export const productsApi = {
     Object.entries(payload).forEach(([key, value]) => {
       if (key === 'images' && Array.isArray(value)) {
         value.forEach(file => formData.append('images', file));
-      } else if (key === 'variants' && Array.isArray(value)) {
-        formData.append('variants', JSON.stringify(value));
+      } else if ((key === 'variants' || key === 'options') && Array.isArray(value)) {
+        formData.append(key, JSON.stringify(value));
       } else if (value !== undefined && value !== null) {
         formData.append(key, String(value));
       }
@@ -47,14 +52,16 @@ export const productsApi = {
     return response.json();
   },
 
-  updateProduct: async (id: string, payload: Partial<AddProductPayload>): Promise<Product> => {
+  // Options and variants are saved separately with variantApi.saveVariants
+  updateProduct: async (
+    id: string,
+    payload: Partial<Omit<AddProductPayload, 'options' | 'variants'>>
+  ): Promise<Product> => {
     const formData = new FormData();
 
     Object.entries(payload).forEach(([key, value]) => {
       if (key === 'images' && Array.isArray(value)) {
         value.forEach(file => formData.append('images', file));
-      } else if (key === 'variants' && Array.isArray(value)) {
-        formData.append('variants', JSON.stringify(value));
       } else if (value !== undefined && value !== null) {
         formData.append(key, String(value));
       }
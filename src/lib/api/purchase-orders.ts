@@ -0,0 +1,111 @@
+// src/lib/api/purchase-orders.ts
+import {
+  PurchaseOrder as PrismaPurchaseOrder,
+  PurchaseOrderItem as PrismaPurchaseOrderItem,
+  PurchaseOrderStatus,
+} from "@prisma/client";
+import type { PurchaseOrderSchema, ReceivePurchaseOrderSchema } from "@/lib/validations/purchasing-schema";
+
+export interface PurchaseOrderItem extends Omit<PrismaPurchaseOrderItem, "createdAt" | "updatedAt"> {
+  createdAt: string;
+  updatedAt: string;
+  product: { id: string; title: string; sku: string };
+  variant: { id: string; name: string; sku: string } | null;
+}
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface PurchaseOrder
+  extends Omit<PrismaPurchaseOrder, "expectedAt" | "sentAt" | "receivedAt" | "createdAt" | "updatedAt"> {
+  expectedAt: string | null;
+  sentAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  supplier: { id: string; name: string; email: string | null };
+  createdBy: { id: string; firstName: string; lastName: string; email: string | null } | null;
+  items: PurchaseOrderItem[];
+}
+
+// Dates are sent as ISO strings
+export type PurchaseOrderPayload = Omit<PurchaseOrderSchema, "expectedAt"> & { expectedAt?: string | null };
+
+interface GetPurchaseOrdersResponse {
+  data: PurchaseOrder[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const purchaseOrderApi = {
+  getPurchaseOrders: async (
+    page: number,
+    limit: number,
+    status: PurchaseOrderStatus | "" = "",
+    search = ""
+  ): Promise<GetPurchaseOrdersResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (status) params.set("status", status);
+    if (search) params.set("search", search);
+
+    const response = await fetch(`/api/admin/purchase-orders?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  getPurchaseOrder: async (id: string): Promise<PurchaseOrder> => {
+    const response = await fetch(`/api/admin/purchase-orders/${id}`);
+    return handleResponse(response);
+  },
+
+  createPurchaseOrder: async (payload: PurchaseOrderPayload): Promise<PurchaseOrder> => {
+    const response = await fetch("/api/admin/purchase-orders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  updatePurchaseOrder: async (id: string, payload: Partial<PurchaseOrderPayload>): Promise<PurchaseOrder> => {
+    const response = await fetch(`/api/admin/purchase-orders/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  setStatus: async (
+    id: string,
+    status: typeof PurchaseOrderStatus.SENT | typeof PurchaseOrderStatus.CANCELLED
+  ): Promise<PurchaseOrder> => {
+    const response = await fetch(`/api/admin/purchase-orders/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status }),
+    });
+    return handleResponse(response);
+  },
+
+  /**
+   * Books delivered quantities into stock. Lines left at 0 are skipped.
+   */
+  receive: async (id: string, payload: ReceivePurchaseOrderSchema): Promise<PurchaseOrder> => {
+    const response = await fetch(`/api/admin/purchase-orders/${id}/receive`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,141 @@
+// src/lib/api/returns.ts
+import {
+  PaymentStatus,
+  ReturnItem as PrismaReturnItem,
+  ReturnRequest as PrismaReturnRequest,
+  ReturnStatus,
+} from "@prisma/client";
+
+export interface ReturnItem extends PrismaReturnItem {
+  orderItem: {
+    id: string;
+    quantity: number;
+    price: number;
+    product: { id: string; title: string; sku: string };
+    variant: { id: string; name: string; sku: string } | null;
+  };
+}
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface ReturnRequest
+  extends Omit<PrismaReturnRequest, "approvedAt" | "receivedAt" | "refundedAt" | "createdAt" | "updatedAt"> {
+  approvedAt: string | null;
+  receivedAt: string | null;
+  refundedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  order: {
+    id: string;
+    orderNumber: string;
+    total: number;
+    refundedAmount: number;
+    giftCardAmount: number;
+    storeCreditAmount: number;
+    paymentMethod: string | null;
+    paymentStatus: PaymentStatus;
+  };
+  user: { id: string; firstName: string; lastName: string; email: string | null };
+  items: ReturnItem[];
+}
+
+export interface ReturnFilters {
+  status?: ReturnStatus | "";
+  search?: string;
+}
+
+interface GetReturnsResponse {
+  data: ReturnRequest[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export type UpdateReturnPayload =
+  | { action: "approve" | "reject"; adminNotes?: string | null }
+  | { action: "receive"; adminNotes?: string | null; items?: { id: string; restock: boolean }[] }
+  | {
+      action: "refund";
+      adminNotes?: string | null;
+      items?: { id: string; refundAmount: number }[];
+      refundTo?: "ORIGINAL" | "STORE_CREDIT";
+    };
+
+export interface OrderReturns {
+  items: { id: string; title: string; quantity: number; returnable: number }[];
+  returns: {
+    id: string;
+    rmaNumber: string;
+    status: ReturnStatus;
+    reason: string;
+    customerNotes: string | null;
+    refundAmount: number;
+    createdAt: string;
+    refundedAt: string | null;
+    items: { id: string; orderItemId: string; quantity: number; refundAmount: number }[];
+  }[];
+}
+
+export interface CreateReturnPayload {
+  reason: string;
+  notes?: string;
+  items: { orderItemId: string; quantity: number }[];
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const returnApi = {
+  /**
+   * Fetches a paginated, filtered list of return requests for the admin.
+   */
+  getReturns: async (
+    page: number,
+    limit: number,
+    filters: ReturnFilters = {}
+  ): Promise<GetReturnsResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    const response = await fetch(`/api/admin/returns?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  updateReturn: async (id: string, payload: UpdateReturnPayload): Promise<ReturnRequest> => {
+    const response = await fetch(`/api/admin/returns/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  /**
+   * Fetches the signed-in customer's returns for one of their orders.
+   */
+  getOrderReturns: async (orderId: string): Promise<OrderReturns> => {
+    const response = await fetch(`/api/orders/${orderId}/returns`);
+    return handleResponse(response);
+  },
+
+  requestReturn: async (
+    orderId: string,
+    payload: CreateReturnPayload
+  ): Promise<{ id: string; rmaNumber: string; status: ReturnStatus }> => {
+    const response = await fetch(`/api/orders/${orderId}/returns`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
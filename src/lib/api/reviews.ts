@@ -0,0 +1,116 @@
+// src/lib/api/reviews.ts
+import { Review as PrismaReview, ReviewStatus } from "@prisma/client";
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface Review extends Omit<PrismaReview, "createdAt" | "updatedAt"> {
+  createdAt: string;
+  updatedAt: string;
+  user: { id: string; firstName: string; lastName: string; email: string | null };
+  product: { id: string; title: string; sku: string };
+}
+
+export type MyReview = Omit<Review, "userId" | "user" | "product">;
+
+export interface ProductReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  createdAt: string;
+  user: { firstName: string; lastName: string };
+  product: { id: string; title: string };
+}
+
+export interface ReviewFilters {
+  status?: ReviewStatus | "";
+  rating?: string;
+  search?: string;
+}
+
+export interface ReviewPayload {
+  rating: number;
+  comment?: string;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+interface GetReviewsResponse {
+  data: Review[];
+  pagination: Pagination;
+}
+
+interface GetProductReviewsResponse {
+  data: ProductReview[];
+  summary: { rating: number; reviewCount: number; distribution: Record<string, number> };
+  pagination: Pagination;
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const reviewApi = {
+  /**
+   * Fetches a paginated, filtered list of reviews for the admin moderation queue.
+   */
+  getReviews: async (page: number, limit: number, filters: ReviewFilters = {}): Promise<GetReviewsResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    const response = await fetch(`/api/admin/reviews?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  moderateReviews: async (
+    ids: string[],
+    status: typeof ReviewStatus.APPROVED | typeof ReviewStatus.REJECTED
+  ): Promise<{ count: number }> => {
+    const response = await fetch("/api/admin/reviews", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids, status }),
+    });
+    return handleResponse(response);
+  },
+
+  deleteReview: async (id: string): Promise<{ message: string }> => {
+    const response = await fetch(`/api/admin/reviews/${id}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+
+  /**
+   * Fetches a product's approved reviews and rating summary.
+   */
+  getProductReviews: async (productId: string, page = 1, limit = 10): Promise<GetProductReviewsResponse> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    const response = await fetch(`/api/products/${productId}/reviews?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  /**
+   * Fetches the signed-in customer's own reviews.
+   */
+  getMyReviews: async (): Promise<MyReview[]> => {
+    const response = await fetch("/api/reviews");
+    return handleResponse(response);
+  },
+
+  submitReview: async (productId: string, payload: ReviewPayload): Promise<MyReview> => {
+    const response = await fetch(`/api/products/${productId}/reviews`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,32 @@
+// src/lib/api/search.ts
+import type { SearchResult as ServerSearchResult, SearchType } from "@/lib/search/search";
+
+export type { SearchType };
+
+// Dates arrive as ISO strings once they have been through JSON
+export type SearchResult =
+  | Exclude<ServerSearchResult, { type: "post" }>
+  | (Omit<Extract<ServerSearchResult, { type: "post" }>, "publishedAt"> & { publishedAt: string | null });
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const searchApi = {
+  search: async (query: string, types?: SearchType[], limit = 10): Promise<SearchResponse> => {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    if (types?.length) params.set("types", types.join(","));
+
+    const response = await fetch(`/api/search?${params.toString()}`);
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,48 @@
+// src/lib/api/shipping.ts
+import { ShippingProvider as PrismaShippingProvider } from "@prisma/client";
+import type { ShippingConfig, ShippingProviderSchema } from "@/lib/validations/shipping-schema";
+
+export interface ShippingProvider
+  extends Omit<PrismaShippingProvider, "configSettings" | "createdAt" | "updatedAt"> {
+  configSettings: ShippingConfig;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const shippingApi = {
+  getProviders: async (): Promise<ShippingProvider[]> => {
+    const response = await fetch("/api/admin/shipping/providers");
+    return handleResponse(response);
+  },
+
+  createProvider: async (payload: ShippingProviderSchema): Promise<ShippingProvider> => {
+    const response = await fetch("/api/admin/shipping/providers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  updateProvider: async (id: string, payload: Partial<ShippingProviderSchema>): Promise<ShippingProvider> => {
+    const response = await fetch(`/api/admin/shipping/providers/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  deleteProvider: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/admin/shipping/providers/${id}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,47 @@
+// src/lib/api/suppliers.ts
+import { Supplier as PrismaSupplier } from "@prisma/client";
+import type { SupplierSchema } from "@/lib/validations/purchasing-schema";
+
+export interface Supplier extends Omit<PrismaSupplier, "createdAt" | "updatedAt"> {
+  createdAt: string;
+  updatedAt: string;
+  _count: { purchaseOrders: number };
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const supplierApi = {
+  getSuppliers: async (): Promise<Supplier[]> => {
+    const response = await fetch("/api/admin/suppliers");
+    return handleResponse(response);
+  },
+
+  createSupplier: async (payload: SupplierSchema): Promise<Supplier> => {
+    const response = await fetch("/api/admin/suppliers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  updateSupplier: async (id: string, payload: Partial<SupplierSchema>): Promise<Supplier> => {
+    const response = await fetch(`/api/admin/suppliers/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+
+  deleteSupplier: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/admin/suppliers/${id}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+};
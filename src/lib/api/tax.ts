@@ -0,0 +1,71 @@
+// src/lib/api/tax.ts
+import { TaxCategory as PrismaTaxCategory, TaxRate as PrismaTaxRate } from "@prisma/client";
+import type { TaxCategorySchema, TaxRateSchema } from "@/lib/validations/tax-schema";
+
+export interface TaxCategory extends Omit<PrismaTaxCategory, "createdAt" | "updatedAt"> {
+  createdAt: string;
+  updatedAt: string;
+  _count: { products: number; taxRates: number };
+}
+
+export interface TaxRate extends Omit<PrismaTaxRate, "createdAt" | "updatedAt"> {
+  createdAt: string;
+  updatedAt: string;
+  taxCategories: { id: string; name: string }[];
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+export const taxApi = {
+  getCategories: async (): Promise<TaxCategory[]> => {
+    const response = await fetch("/api/admin/tax/categories");
+    return handleResponse(response);
+  },
+
+  createCategory: async (payload: TaxCategorySchema): Promise<TaxCategory> => {
+    const response = await fetch("/api/admin/tax/categories", jsonRequest("POST", payload));
+    return handleResponse(response);
+  },
+
+  updateCategory: async (id: string, payload: Partial<TaxCategorySchema>): Promise<TaxCategory> => {
+    const response = await fetch(`/api/admin/tax/categories/${id}`, jsonRequest("PATCH", payload));
+    return handleResponse(response);
+  },
+
+  deleteCategory: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/admin/tax/categories/${id}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+
+  getRates: async (): Promise<TaxRate[]> => {
+    const response = await fetch("/api/admin/tax/rates");
+    return handleResponse(response);
+  },
+
+  createRate: async (payload: TaxRateSchema): Promise<TaxRate> => {
+    const response = await fetch("/api/admin/tax/rates", jsonRequest("POST", payload));
+    return handleResponse(response);
+  },
+
+  updateRate: async (id: string, payload: Partial<TaxRateSchema>): Promise<TaxRate> => {
+    const response = await fetch(`/api/admin/tax/rates/${id}`, jsonRequest("PATCH", payload));
+    return handleResponse(response);
+  },
+
+  deleteRate: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/admin/tax/rates/${id}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+};
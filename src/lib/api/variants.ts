@@ -0,0 +1,46 @@
+// src/lib/api/variants.ts
+import { ProductVariant as PrismaProductVariant } from "@prisma/client";
+import type { OptionDefinition, VariantAttributes } from "@/lib/products/variant-matrix";
+import type { ProductVariantsSchema } from "@/lib/validations/variant-schema";
+
+// Dates arrive as ISO strings once they have been through JSON
+export interface ProductVariant extends Omit<PrismaProductVariant, "attributes" | "createdAt" | "updatedAt"> {
+  attributes: VariantAttributes;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductVariants {
+  productId: string;
+  options: OptionDefinition[];
+  // In the order of the option values
+  variants: ProductVariant[];
+  images: { id: string; url: string; alt: string | null }[];
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const variantApi = {
+  getVariants: async (productId: string): Promise<ProductVariants> => {
+    const response = await fetch(`/api/products/${productId}/variants`);
+    return handleResponse(response);
+  },
+
+  /**
+   * Replaces the product's options and variant matrix. Variants left out are removed.
+   */
+  saveVariants: async (productId: string, payload: ProductVariantsSchema): Promise<ProductVariants> => {
+    const response = await fetch(`/api/products/${productId}/variants`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    return handleResponse(response);
+  },
+};
@@ -0,0 +1,52 @@
+// src/lib/api/wishlist.ts
+import { ProductStatus } from "@prisma/client";
+
+export interface WishlistEntry {
+  id: string;
+  productId: string;
+  // Price when the product was wishlisted
+  addedPrice: number;
+  createdAt: string;
+  product: {
+    id: string;
+    title: string;
+    sku: string;
+    price: number;
+    comparePrice: number | null;
+    status: ProductStatus;
+    image: string | null;
+    inStock: boolean;
+  };
+}
+
+const handleResponse = async (response: Response) => {
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(typeof error.error === "string" ? error.error : "Something went wrong");
+  }
+  return response.json();
+};
+
+export const wishlistApi = {
+  /**
+   * Fetches the signed-in customer's wishlist.
+   */
+  getWishlist: async (): Promise<WishlistEntry[]> => {
+    const response = await fetch("/api/wishlist");
+    return handleResponse(response);
+  },
+
+  add: async (productId: string): Promise<WishlistEntry> => {
+    const response = await fetch("/api/wishlist", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ productId }),
+    });
+    return handleResponse(response);
+  },
+
+  remove: async (productId: string): Promise<{ message: string }> => {
+    const response = await fetch(`/api/wishlist/${productId}`, { method: "DELETE" });
+    return handleResponse(response);
+  },
+};
@@ -19,4 +19,17 @@ export async function checkAdmin() {
   }
 
   return session.user;
-}
\ No newline at end of file
+}
+/**
+ * Maps the errors thrown by checkAdmin to a 401/403 response.
+ * Returns null for any other error so the caller can handle it.
+ */
+export function authErrorResponse(error: any) {
+  if (error?.message === "Not authenticated") {
+    return NextResponse.json({ error: "You must be logged in." }, { status: 401 });
+  }
+  if (error?.message === "Forbidden: Insufficient privileges") {
+    return NextResponse.json({ error: "You do not have permission to perform this action." }, { status: 403 });
+  }
+  return null;
+}
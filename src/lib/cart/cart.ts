@@ -0,0 +1,182 @@
+import { Prisma, ProductStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { toVariantAttributes } from '@/lib/products/variant-matrix';
+
+export class CartError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CartError';
+  }
+}
+
+export interface CartLineInput {
+  productId: string;
+  productVariantId?: string | null;
+  quantity: number;
+}
+
+const cartItemInclude = {
+  product: {
+    select: {
+      id: true,
+      title: true,
+      price: true,
+      comparePrice: true,
+      stockQuantity: true,
+      images: { orderBy: { position: 'asc' }, take: 1, select: { url: true } },
+    },
+  },
+  variant: {
+    select: { id: true, name: true, price: true, stockQuantity: true, attributes: true, imageUrl: true },
+  },
+} satisfies Prisma.CartItemInclude;
+
+type CartItemWithProduct = Prisma.CartItemGetPayload<{ include: typeof cartItemInclude }>;
+
+// Shape a cart row the way the storefront cart context expects it
+function formatCartItem(item: CartItemWithProduct) {
+  return {
+    cartItemId: item.id,
+    id: item.productId,
+    variantId: item.productVariantId,
+    name: item.variant ? `${item.product.title} - ${item.variant.name}` : item.product.title,
+    price: item.variant ? item.variant.price : item.product.price,
+    originalPrice: item.product.comparePrice ?? undefined,
+    quantity: item.quantity,
+    // The chosen value of each of the product's options, e.g. { Colour: 'Red', Size: 'M' }
+    options: toVariantAttributes(item.variant?.attributes),
+    image: item.variant?.imageUrl || item.product.images[0]?.url || '',
+  };
+}
+
+export type CartLine = ReturnType<typeof formatCartItem>;
+
+export async function getCart(userId: string): Promise<CartLine[]> {
+  const items = await prisma.cartItem.findMany({
+    where: { userId },
+    include: cartItemInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+  return items.map(formatCartItem);
+}
+
+// Look up how many units of a product (or one of its variants) can be bought
+async function getAvailableStock(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  productVariantId: string | null
+): Promise<number> {
+  const product = await tx.product.findUnique({
+    where: { id: productId },
+    select: { status: true, stockQuantity: true },
+  });
+
+  if (!product || product.status !== ProductStatus.PUBLISHED) {
+    throw new CartError('Product not found', 404);
+  }
+
+  if (!productVariantId) return product.stockQuantity;
+
+  const variant = await tx.productVariant.findFirst({
+    where: { id: productVariantId, productId },
+    select: { stockQuantity: true },
+  });
+
+  if (!variant) {
+    throw new CartError('Product variant not found', 404);
+  }
+
+  return variant.stockQuantity;
+}
+
+// Add (or top up) one cart line inside a transaction
+async function upsertLine(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  line: CartLineInput,
+  { clampToStock }: { clampToStock: boolean }
+) {
+  const productVariantId = line.productVariantId || null;
+  const available = await getAvailableStock(tx, line.productId, productVariantId);
+
+  const existing = await tx.cartItem.findFirst({
+    where: { userId, productId: line.productId, productVariantId },
+  });
+
+  let quantity = (existing?.quantity ?? 0) + line.quantity;
+  if (quantity > available) {
+    if (!clampToStock) {
+      throw new CartError(`Only ${available} left in stock`, 409);
+    }
+    quantity = available;
+  }
+
+  if (quantity <= 0) {
+    if (existing) await tx.cartItem.delete({ where: { id: existing.id } });
+    return;
+  }
+
+  if (existing) {
+    await tx.cartItem.update({ where: { id: existing.id }, data: { quantity } });
+  } else {
+    await tx.cartItem.create({
+      data: { userId, productId: line.productId, productVariantId, quantity },
+    });
+  }
+}
+
+export async function addCartItem(userId: string, line: CartLineInput): Promise<CartLine[]> {
+  await prisma.$transaction((tx) => upsertLine(tx, userId, line, { clampToStock: false }));
+  return getCart(userId);
+}
+
+export async function updateCartItemQuantity(
+  userId: string,
+  cartItemId: string,
+  quantity: number
+): Promise<CartLine[]> {
+  const item = await prisma.cartItem.findFirst({ where: { id: cartItemId, userId } });
+  if (!item) {
+    throw new CartError('Cart item not found', 404);
+  }
+
+  if (quantity <= 0) {
+    await prisma.cartItem.delete({ where: { id: item.id } });
+    return getCart(userId);
+  }
+
+  const available = await getAvailableStock(prisma, item.productId, item.productVariantId);
+  if (quantity > available) {
+    throw new CartError(`Only ${available} left in stock`, 409);
+  }
+
+  await prisma.cartItem.update({ where: { id: item.id }, data: { quantity } });
+  return getCart(userId);
+}
+
+export async function removeCartItem(userId: string, cartItemId: string): Promise<CartLine[]> {
+  await prisma.cartItem.deleteMany({ where: { id: cartItemId, userId } });
+  return getCart(userId);
+}
+
+export async function clearCart(userId: string): Promise<void> {
+  await prisma.cartItem.deleteMany({ where: { userId } });
+}
+
+/**
+ * Merges an anonymous (localStorage) cart into the user's account cart.
+ * Quantities are added together and capped at available stock; lines for
+ * products that no longer exist are dropped instead of failing the merge.
+ */
+export async function mergeCart(userId: string, lines: CartLineInput[]): Promise<CartLine[]> {
+  await prisma.$transaction(async (tx) => {
+    for (const line of lines) {
+      try {
+        await upsertLine(tx, userId, line, { clampToStock: true });
+      } catch (error) {
+        if (!(error instanceof CartError)) throw error;
+      }
+    }
+  });
+  return getCart(userId);
+}
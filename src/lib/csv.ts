@@ -0,0 +1,93 @@
+// Minimal RFC 4180 CSV reading and writing: quoted fields, doubled quotes and CRLF or LF line ends.
+// Text that a spreadsheet would run as a formula is written with a leading quote.
+
+/**
+ * Splits CSV text into rows of fields. Quoted fields may contain commas, quotes ("") and line
+ * breaks. A byte order mark and blank lines are ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Reads CSV text with a header row into records keyed by the trimmed header names.
+ * Missing trailing fields read as empty strings.
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim());
+
+  return {
+    headers,
+    records: rows.map((row) =>
+      Object.fromEntries(headers.map((header, index) => [header, unescapeFormula(row[index] ?? '')]))
+    ),
+  };
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Drops the quote toCsvRow puts in front of text that would read as a formula, so exports import unchanged
+const unescapeFormula = (field: string) =>
+  field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+
+const escapeField = (value: string | number | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Text is kept from running as a formula with a leading quote; numbers such as -5 are left alone
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One CSV line, including its line break
+export const toCsvRow = (values: (string | number | null | undefined)[]) => values.map(escapeField).join(',') + '\r\n';
+
+export function csvResponseHeaders(fileName: string): HeadersInit {
+  return {
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    'Cache-Control': 'private, no-store',
+  };
+}
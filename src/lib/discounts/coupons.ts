@@ -0,0 +1,184 @@
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { toCsvRow } from '@/lib/csv';
+
+export class CouponError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+export const MAX_BATCH_SIZE = 10_000;
+export const DEFAULT_COUPON_PATTERN = 'XXXX-XXXX';
+
+// Letters and digits that are easily mistaken for each other (0/O, 1/I) are left out
+const LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const DIGITS = '23456789';
+const PATTERN_CHARS: Record<string, string> = { X: LETTERS + DIGITS, A: LETTERS, '#': DIGITS };
+
+// A pattern has to allow many more codes than are asked for, or most random draws would be repeats
+const MIN_CAPACITY_RATIO = 100;
+const INSERT_CHUNK_SIZE = 1000;
+const MAX_GENERATION_ROUNDS = 10;
+const EXPORT_BATCH_SIZE = 1000;
+// Writing ten thousand codes takes a while
+const TRANSACTION_TIMEOUT = 60_000;
+
+// Codes are stored in upper case and looked up the same way, whatever the customer typed
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// How many different codes a pattern can produce
+export function patternCapacity(pattern: string): number {
+  return [...pattern].reduce((total, char) => total * (PATTERN_CHARS[char]?.length ?? 1), 1);
+}
+
+export function generateCouponCode(prefix: string, pattern: string): string {
+  let code = prefix;
+  for (const char of pattern) {
+    const chars = PATTERN_CHARS[char];
+    code += chars ? chars[randomInt(chars.length)] : char;
+  }
+  return normalizeCouponCode(code);
+}
+
+export interface CouponBatchInput {
+  discountId: string;
+  name: string;
+  prefix: string;
+  pattern: string;
+  quantity: number;
+  createdById?: string;
+}
+
+/**
+ * Generates a batch of single-use codes for a discount. Codes are drawn at random and written
+ * with skipDuplicates, so a draw that collides with an existing coupon is simply replaced in
+ * the next round; draws matching a discount's own code are left out before writing.
+ */
+export async function createCouponBatch(input: CouponBatchInput) {
+  const prefix = normalizeCouponCode(input.prefix);
+  const pattern = input.pattern.trim().toUpperCase();
+
+  if (input.quantity < 1 || input.quantity > MAX_BATCH_SIZE) {
+    throw new CouponError(`A batch holds between 1 and ${MAX_BATCH_SIZE} codes`);
+  }
+  if (!Object.keys(PATTERN_CHARS).some((char) => pattern.includes(char))) {
+    throw new CouponError('The pattern needs at least one X, A or # to generate codes from');
+  }
+  if (patternCapacity(pattern) < input.quantity * MIN_CAPACITY_RATIO) {
+    throw new CouponError('The pattern is too short for this many codes; add more X, A or # characters');
+  }
+
+  const discount = await prisma.discount.findUnique({
+    where: { id: input.discountId },
+    select: { id: true, isAutomatic: true },
+  });
+  if (!discount) throw new CouponError('Discount not found', 404);
+  if (discount.isAutomatic) {
+    throw new CouponError('Automatic promotions apply without a code and cannot have coupons');
+  }
+
+  return prisma.$transaction(
+    async (tx) => {
+      const batch = await tx.couponBatch.create({
+        data: {
+          discountId: discount.id,
+          name: input.name,
+          prefix,
+          pattern,
+          quantity: input.quantity,
+          createdById: input.createdById,
+        },
+      });
+
+      let remaining = input.quantity;
+      for (let round = 0; remaining > 0; round++) {
+        if (round === MAX_GENERATION_ROUNDS) {
+          throw new CouponError('Could not generate enough unique codes; try a longer pattern', 409);
+        }
+
+        const drawn = new Set<string>();
+        while (drawn.size < remaining) drawn.add(generateCouponCode(prefix, pattern));
+
+        const codes = [...drawn];
+        for (let start = 0; start < codes.length; start += INSERT_CHUNK_SIZE) {
+          const chunk = codes.slice(start, start + INSERT_CHUNK_SIZE);
+          const taken = await tx.discount.findMany({ where: { code: { in: chunk } }, select: { code: true } });
+          const takenCodes = new Set(taken.map((discount) => discount.code));
+
+          const created = await tx.couponCode.createMany({
+            data: chunk
+              .filter((code) => !takenCodes.has(code))
+              .map((code) => ({ batchId: batch.id, discountId: discount.id, code })),
+            skipDuplicates: true,
+          });
+          remaining -= created.count;
+        }
+      }
+
+      return batch;
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+}
+
+// The latest use of each code that still counts; released uses belong to cancelled or refunded orders
+export const couponRedemptionInclude = {
+  redemptions: {
+    where: { releasedAt: null },
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    include: {
+      order: { select: { id: true, orderNumber: true, status: true } },
+      user: { select: { id: true, firstName: true, lastName: true, email: true } },
+    },
+  },
+} satisfies Prisma.CouponCodeInclude;
+
+export const COUPON_CSV_COLUMNS = ['code', 'status', 'redeemedAt', 'orderNumber', 'customer', 'email'] as const;
+
+/**
+ * Streams the codes of a batch as CSV, with who redeemed each one so far.
+ */
+export function exportCouponCodesCsv(batchId: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cursor: string | undefined;
+
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvRow([...COUPON_CSV_COLUMNS])));
+    },
+
+    async pull(controller) {
+      const codes = await prisma.couponCode.findMany({
+        where: { batchId },
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+        include: couponRedemptionInclude,
+      });
+
+      let chunk = '';
+      for (const coupon of codes) {
+        const redemption = coupon.redemptions[0];
+        chunk += toCsvRow([
+          coupon.code,
+          coupon.redeemedAt ? 'REDEEMED' : 'AVAILABLE',
+          coupon.redeemedAt?.toISOString(),
+          redemption?.order.orderNumber,
+          redemption ? `${redemption.user.firstName} ${redemption.user.lastName}` : '',
+          redemption?.user.email,
+        ]);
+      }
+
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (codes.length < EXPORT_BATCH_SIZE) {
+        controller.close();
+      } else {
+        cursor = codes[codes.length - 1].id;
+      }
+    },
+  });
+}
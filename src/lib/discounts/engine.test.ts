@@ -0,0 +1,463 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { roundCurrency } from '@/lib/orders/pricing';
+import {
+  DiscountContext,
+  DiscountLine,
+  DiscountRejectionReason,
+  DiscountRules,
+  StackableDiscount,
+  evaluateDiscount,
+  stackDiscounts,
+} from './engine';
+
+const NOW = new Date('2025-06-15T00:00:00Z');
+
+const context = (overrides: Partial<DiscountContext> = {}): DiscountContext => ({
+  now: NOW,
+  isFirstPurchase: null,
+  ...overrides,
+});
+
+const rules = (overrides: Partial<DiscountRules> = {}): DiscountRules => ({
+  discountType: 'PERCENTAGE',
+  discountValue: 10,
+  applicability: 'ALL_PRODUCTS',
+  isActive: true,
+  validFrom: new Date('2025-01-01T00:00:00Z'),
+  validTo: new Date('2025-12-31T00:00:00Z'),
+  minimumPurchase: null,
+  maximumDiscount: null,
+  minQuantity: null,
+  newDaysThreshold: null,
+  buyQuantity: null,
+  getQuantity: null,
+  productIds: [],
+  categoryIds: [],
+  ...overrides,
+});
+
+// A cart line for product `key`; the total follows from the price and quantity unless given
+const line = (key: string, overrides: Partial<DiscountLine> = {}): DiscountLine => {
+  const price = overrides.price ?? 100;
+  const quantity = overrides.quantity ?? 1;
+  return {
+    key,
+    productId: key,
+    categoryIds: [],
+    isBestSeller: false,
+    productCreatedAt: new Date('2024-01-01T00:00:00Z'),
+    quantity,
+    price,
+    total: price * quantity,
+    ...overrides,
+  };
+};
+
+const discount = (id: string, overrides: Partial<StackableDiscount> = {}): StackableDiscount => ({
+  id,
+  name: id,
+  code: null,
+  stacking: 'STACKABLE',
+  priority: 0,
+  rules: rules(),
+  ...overrides,
+});
+
+const discounts = (evaluation: { lines: { discount: number }[] }) => evaluation.lines.map((result) => result.discount);
+
+describe('evaluateDiscount', () => {
+  describe('applicability', () => {
+    const cases: {
+      name: string;
+      rules: Partial<DiscountRules>;
+      cart: DiscountLine[];
+      context?: Partial<DiscountContext>;
+      amount: number;
+      eligible: string[];
+    }[] = [
+      {
+        name: 'ALL_PRODUCTS covers every line',
+        rules: {},
+        cart: [line('a'), line('b', { price: 50, quantity: 2 })],
+        amount: 20,
+        eligible: ['a', 'b'],
+      },
+      {
+        name: 'SPECIFIC_PRODUCTS covers only the chosen products',
+        rules: { applicability: 'SPECIFIC_PRODUCTS', productIds: ['a'] },
+        cart: [line('a'), line('b')],
+        amount: 10,
+        eligible: ['a'],
+      },
+      {
+        name: 'SPECIFIC_CATEGORIES covers products in a subcategory of a chosen one',
+        rules: { applicability: 'SPECIFIC_CATEGORIES', categoryIds: ['bags'] },
+        cart: [line('a', { categoryIds: ['totes', 'bags'] }), line('b', { categoryIds: ['shoes'] })],
+        amount: 10,
+        eligible: ['a'],
+      },
+      {
+        name: 'NEW_PRODUCTS defaults to products added in the last 30 days',
+        rules: { applicability: 'NEW_PRODUCTS' },
+        cart: [
+          line('a', { productCreatedAt: new Date('2025-06-01T00:00:00Z') }),
+          line('b', { productCreatedAt: new Date('2025-04-01T00:00:00Z') }),
+        ],
+        amount: 10,
+        eligible: ['a'],
+      },
+      {
+        name: 'NEW_PRODUCTS honours its own threshold',
+        rules: { applicability: 'NEW_PRODUCTS', newDaysThreshold: 90 },
+        cart: [
+          line('a', { productCreatedAt: new Date('2025-06-01T00:00:00Z') }),
+          line('b', { productCreatedAt: new Date('2025-04-01T00:00:00Z') }),
+        ],
+        amount: 20,
+        eligible: ['a', 'b'],
+      },
+      {
+        name: 'BEST_SELLERS covers only best sellers',
+        rules: { applicability: 'BEST_SELLERS' },
+        cart: [line('a', { isBestSeller: true }), line('b')],
+        amount: 10,
+        eligible: ['a'],
+      },
+      {
+        name: 'VOLUME counts every unit in the cart without chosen products',
+        rules: { applicability: 'VOLUME' },
+        cart: [line('a', { quantity: 2 })],
+        amount: 20,
+        eligible: ['a'],
+      },
+      {
+        name: 'VOLUME is limited to the chosen products when there are any',
+        rules: { applicability: 'VOLUME', productIds: ['a'], minQuantity: 3 },
+        cart: [line('a', { quantity: 3 }), line('b')],
+        amount: 30,
+        eligible: ['a'],
+      },
+      {
+        name: 'FIRST_PURCHASE applies to guests until they sign in',
+        rules: { applicability: 'FIRST_PURCHASE' },
+        cart: [line('a')],
+        context: { isFirstPurchase: null },
+        amount: 10,
+        eligible: ['a'],
+      },
+      {
+        name: 'FIRST_PURCHASE applies to a customer without a paid order',
+        rules: { applicability: 'FIRST_PURCHASE' },
+        cart: [line('a')],
+        context: { isFirstPurchase: true },
+        amount: 10,
+        eligible: ['a'],
+      },
+      {
+        name: 'BUNDLE covers one unit of each product per complete bundle',
+        rules: { applicability: 'BUNDLE', productIds: ['a', 'b'] },
+        cart: [line('a', { quantity: 2 }), line('b', { price: 50 }), line('c')],
+        amount: 15,
+        eligible: ['a', 'b'],
+      },
+    ];
+
+    for (const testCase of cases) {
+      it(testCase.name, () => {
+        const evaluation = evaluateDiscount(rules(testCase.rules), testCase.cart, context(testCase.context));
+
+        assert.equal(evaluation.rejection, null);
+        assert.equal(evaluation.amount, testCase.amount);
+        assert.deepEqual(
+          evaluation.lines.filter((result) => result.eligible).map((result) => result.key),
+          testCase.eligible
+        );
+      });
+    }
+  });
+
+  describe('rejections', () => {
+    const cases: {
+      name: string;
+      rules: Partial<DiscountRules>;
+      cart: DiscountLine[];
+      context?: Partial<DiscountContext>;
+      reason: DiscountRejectionReason;
+    }[] = [
+      { name: 'an inactive discount', rules: { isActive: false }, cart: [line('a')], reason: 'INACTIVE' },
+      {
+        name: 'a discount that has not started',
+        rules: { validFrom: new Date('2025-07-01T00:00:00Z') },
+        cart: [line('a')],
+        reason: 'NOT_STARTED',
+      },
+      {
+        name: 'an expired discount',
+        rules: { validTo: new Date('2025-06-01T00:00:00Z') },
+        cart: [line('a')],
+        reason: 'EXPIRED',
+      },
+      {
+        name: 'a cart below the minimum purchase',
+        rules: { minimumPurchase: 500 },
+        cart: [line('a'), line('b')],
+        reason: 'MINIMUM_PURCHASE',
+      },
+      {
+        name: 'a cart below the minimum quantity',
+        rules: { minQuantity: 3 },
+        cart: [line('a', { quantity: 2 })],
+        reason: 'MINIMUM_QUANTITY',
+      },
+      {
+        name: 'a single unit for a volume discount',
+        rules: { applicability: 'VOLUME' },
+        cart: [line('a')],
+        reason: 'MINIMUM_QUANTITY',
+      },
+      {
+        name: 'too few units of the chosen volume products',
+        rules: { applicability: 'VOLUME', productIds: ['a'] },
+        cart: [line('a'), line('b', { quantity: 5 })],
+        reason: 'MINIMUM_QUANTITY',
+      },
+      {
+        name: 'a returning customer on a first purchase discount',
+        rules: { applicability: 'FIRST_PURCHASE' },
+        cart: [line('a')],
+        context: { isFirstPurchase: false },
+        reason: 'NOT_FIRST_PURCHASE',
+      },
+      {
+        name: 'a bundle with a product missing',
+        rules: { applicability: 'BUNDLE', productIds: ['a', 'b'] },
+        cart: [line('a', { quantity: 2 })],
+        reason: 'INCOMPLETE_BUNDLE',
+      },
+      {
+        name: 'a cart without qualifying items',
+        rules: { applicability: 'SPECIFIC_PRODUCTS', productIds: ['z'] },
+        cart: [line('a')],
+        reason: 'NO_ELIGIBLE_ITEMS',
+      },
+      {
+        name: 'too few units to buy and get',
+        rules: { discountType: 'BUY_X_GET_Y', discountValue: 100, buyQuantity: 2, getQuantity: 1 },
+        cart: [line('a', { quantity: 2 })],
+        reason: 'MINIMUM_QUANTITY',
+      },
+    ];
+
+    for (const testCase of cases) {
+      it(`rejects ${testCase.name}`, () => {
+        const evaluation = evaluateDiscount(rules(testCase.rules), testCase.cart, context(testCase.context));
+
+        assert.equal(evaluation.rejection?.reason, testCase.reason);
+        assert.equal(evaluation.amount, 0);
+        assert.ok(evaluation.lines.every((result) => result.discount === 0));
+      });
+    }
+  });
+
+  describe('amounts', () => {
+    const cases: {
+      name: string;
+      rules: Partial<DiscountRules>;
+      cart: DiscountLine[];
+      amount: number;
+      lines: number[];
+    }[] = [
+      {
+        name: 'caps a percentage at the maximum discount',
+        rules: { discountValue: 50, maximumDiscount: 30 },
+        cart: [line('a'), line('b')],
+        amount: 30,
+        lines: [15, 15],
+      },
+      {
+        name: 'caps a fixed amount at the eligible subtotal',
+        rules: { discountType: 'FIXED_AMOUNT', discountValue: 500, applicability: 'SPECIFIC_PRODUCTS', productIds: ['a'] },
+        cart: [line('a'), line('b')],
+        amount: 100,
+        lines: [100, 0],
+      },
+      {
+        name: 'makes the cheapest unit of each group free',
+        rules: { discountType: 'BUY_X_GET_Y', discountValue: 100, buyQuantity: 2, getQuantity: 1 },
+        cart: [line('a', { price: 300 }), line('b'), line('c', { price: 200 })],
+        amount: 100,
+        lines: [0, 100, 0],
+      },
+      {
+        name: 'groups units from the most expensive down',
+        rules: { discountType: 'BUY_X_GET_Y', discountValue: 100, buyQuantity: 2, getQuantity: 1 },
+        cart: [line('a', { quantity: 3 }), line('b', { price: 50, quantity: 3 })],
+        amount: 150,
+        lines: [100, 50],
+      },
+      {
+        name: 'takes a percentage off the units that are got',
+        rules: { discountType: 'BUY_X_GET_Y', discountValue: 50, buyQuantity: 1, getQuantity: 1 },
+        cart: [line('a'), line('b', { price: 60 })],
+        amount: 30,
+        lines: [0, 30],
+      },
+      {
+        name: 'works out a bundle discount on the bundled units only',
+        rules: { discountType: 'FIXED_AMOUNT', discountValue: 30, applicability: 'BUNDLE', productIds: ['a', 'b'] },
+        cart: [line('a', { quantity: 2 }), line('b', { price: 50 })],
+        amount: 30,
+        lines: [20, 10],
+      },
+    ];
+
+    for (const testCase of cases) {
+      it(testCase.name, () => {
+        const evaluation = evaluateDiscount(rules(testCase.rules), testCase.cart, context());
+
+        assert.equal(evaluation.rejection, null);
+        assert.equal(evaluation.amount, testCase.amount);
+        assert.deepEqual(discounts(evaluation), testCase.lines);
+      });
+    }
+  });
+
+  describe('allocation', () => {
+    it('puts the rounding remainder on the last line so the shares add up exactly', () => {
+      const evaluation = evaluateDiscount(
+        rules({ discountType: 'FIXED_AMOUNT', discountValue: 10 }),
+        [line('a', { price: 10 }), line('b', { price: 10 }), line('c', { price: 10 })],
+        context()
+      );
+
+      assert.deepEqual(discounts(evaluation), [3.33, 3.33, 3.34]);
+      assert.equal(roundCurrency(discounts(evaluation).reduce((sum, share) => sum + share, 0)), evaluation.amount);
+    });
+
+    it('leaves lines that do not qualify out of the rounding', () => {
+      const evaluation = evaluateDiscount(
+        rules({ discountType: 'FIXED_AMOUNT', discountValue: 10, applicability: 'SPECIFIC_PRODUCTS', productIds: ['a', 'b'] }),
+        [line('a', { price: 10 }), line('b', { price: 20 }), line('c', { price: 10 })],
+        context()
+      );
+
+      assert.deepEqual(discounts(evaluation), [3.33, 6.67, 0]);
+    });
+
+    it('spreads a percentage in proportion to the line totals', () => {
+      const evaluation = evaluateDiscount(
+        rules({ discountValue: 15 }),
+        [line('a', { price: 33.33 }), line('b', { price: 66.67 }), line('c', { price: 19.99, quantity: 3 })],
+        context()
+      );
+
+      assert.equal(evaluation.amount, 24);
+      assert.equal(roundCurrency(discounts(evaluation).reduce((sum, share) => sum + share, 0)), 24);
+    });
+  });
+});
+
+describe('stackDiscounts', () => {
+  const cart = [line('a'), line('b')];
+  const fixed = (value: number) => rules({ discountType: 'FIXED_AMOUNT', discountValue: value });
+  const percentage = (value: number) => rules({ discountValue: value });
+
+  const cases: {
+    name: string;
+    discounts: StackableDiscount[];
+    applied: string[];
+    skipped: [string, DiscountRejectionReason][];
+    amount: number;
+    lines: number[];
+  }[] = [
+    {
+      name: 'applies the highest priority first',
+      discounts: [
+        discount('low', { priority: 1, rules: percentage(10) }),
+        discount('high', { priority: 5, rules: fixed(50) }),
+      ],
+      applied: ['high', 'low'],
+      skipped: [],
+      amount: 65,
+      lines: [32.5, 32.5],
+    },
+    {
+      name: 'applies automatic promotions before a code of equal priority',
+      discounts: [
+        discount('code', { code: 'SAVE10', rules: percentage(10) }),
+        discount('automatic', { rules: fixed(20) }),
+      ],
+      applied: ['automatic', 'code'],
+      skipped: [],
+      amount: 38,
+      lines: [19, 19],
+    },
+    {
+      name: 'works each percentage out on what the discounts before it left',
+      discounts: [discount('first', { rules: percentage(60) }), discount('second', { rules: percentage(60) })],
+      applied: ['first', 'second'],
+      skipped: [],
+      amount: 168,
+      lines: [84, 84],
+    },
+    {
+      name: 'skips a discount with nothing left to take off',
+      discounts: [discount('all', { priority: 1, rules: fixed(1000) }), discount('more', { rules: percentage(10) })],
+      applied: ['all'],
+      skipped: [['more', 'NO_ELIGIBLE_ITEMS']],
+      amount: 200,
+      lines: [100, 100],
+    },
+    {
+      name: 'blocks everything after an exclusive discount',
+      discounts: [
+        discount('exclusive', { priority: 10, stacking: 'EXCLUSIVE', rules: percentage(20) }),
+        discount('stackable', { rules: fixed(10) }),
+      ],
+      applied: ['exclusive'],
+      skipped: [['stackable', 'NOT_COMBINABLE']],
+      amount: 40,
+      lines: [20, 20],
+    },
+    {
+      name: 'skips an exclusive discount once a higher priority one applied',
+      discounts: [
+        discount('exclusive', { stacking: 'EXCLUSIVE', rules: percentage(20) }),
+        discount('stackable', { priority: 10, rules: fixed(10) }),
+      ],
+      applied: ['stackable'],
+      skipped: [['exclusive', 'NOT_COMBINABLE']],
+      amount: 10,
+      lines: [5, 5],
+    },
+    {
+      name: 'does not let an exclusive discount that does not apply block the rest',
+      discounts: [
+        discount('exclusive', { priority: 10, stacking: 'EXCLUSIVE', rules: rules({ minimumPurchase: 1000 }) }),
+        discount('stackable', { rules: fixed(10) }),
+      ],
+      applied: ['stackable'],
+      skipped: [['exclusive', 'MINIMUM_PURCHASE']],
+      amount: 10,
+      lines: [5, 5],
+    },
+  ];
+
+  for (const testCase of cases) {
+    it(testCase.name, () => {
+      const stacked = stackDiscounts(testCase.discounts, cart, context());
+
+      assert.deepEqual(
+        stacked.applied.map((applied) => applied.discount.id),
+        testCase.applied
+      );
+      assert.deepEqual(
+        stacked.skipped.map((skipped) => [skipped.discount.id, skipped.rejection.reason]),
+        testCase.skipped
+      );
+      assert.equal(stacked.amount, testCase.amount);
+      assert.deepEqual(stacked.lineDiscounts, testCase.lines);
+    });
+  }
+});
@@ -0,0 +1,392 @@
+// Pure discount rules: no database access, so they can be unit tested and used by the
+// storefront as well as the validate route and checkout.
+import type { DiscountApplicability, DiscountStacking, DiscountType } from '@prisma/client';
+import { allocateDiscount, roundCurrency } from '@/lib/orders/pricing';
+
+// NEW_PRODUCTS discounts without a threshold count products added in the last 30 days as new
+export const DEFAULT_NEW_DAYS_THRESHOLD = 30;
+// A volume discount without a minimum still needs more than one unit to mean anything
+const DEFAULT_VOLUME_MIN_QUANTITY = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DiscountRules {
+  discountType: DiscountType;
+  discountValue: number;
+  applicability: DiscountApplicability;
+  isActive: boolean;
+  validFrom: Date;
+  validTo: Date;
+  minimumPurchase: number | null;
+  maximumDiscount: number | null;
+  minQuantity: number | null;
+  newDaysThreshold: number | null;
+  // BUY_X_GET_Y discounts only
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  // The chosen products (SPECIFIC_PRODUCTS, BUNDLE and optionally VOLUME) and categories (SPECIFIC_CATEGORIES)
+  productIds: string[];
+  categoryIds: string[];
+}
+
+export interface DiscountLine {
+  // Identifies the line, e.g. its variant id or product id
+  key: string;
+  productId: string;
+  // The product's category and all of its ancestors, so a discount on "Bags" covers "Bags > Totes"
+  categoryIds: string[];
+  isBestSeller: boolean;
+  productCreatedAt: Date;
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface DiscountContext {
+  now: Date;
+  // Unknown (null) for guests, who are asked again once they sign in to check out
+  isFirstPurchase: boolean | null;
+}
+
+export type DiscountRejectionReason =
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'MINIMUM_PURCHASE'
+  | 'MINIMUM_QUANTITY'
+  | 'NO_ELIGIBLE_ITEMS'
+  | 'INCOMPLETE_BUNDLE'
+  | 'NOT_FIRST_PURCHASE'
+  | 'NOT_COMBINABLE';
+
+export interface DiscountRejection {
+  reason: DiscountRejectionReason;
+  message: string;
+}
+
+export interface DiscountLineResult {
+  key: string;
+  eligible: boolean;
+  // The part of the line total the discount is worked out on; below the total when only some
+  // units of a line complete a bundle
+  eligibleAmount: number;
+  // This line's share of the discount
+  discount: number;
+  // Why the line does not qualify
+  reason: string | null;
+}
+
+export interface DiscountEvaluation {
+  amount: number;
+  eligibleSubtotal: number;
+  lines: DiscountLineResult[];
+  rejection: DiscountRejection | null;
+}
+
+type LineCheck = (line: DiscountLine) => string | null;
+
+function lineCheck(rules: DiscountRules, now: Date): LineCheck {
+  switch (rules.applicability) {
+    case 'SPECIFIC_PRODUCTS':
+    case 'BUNDLE':
+      return (line) => (rules.productIds.includes(line.productId) ? null : 'Not included in this offer');
+    case 'SPECIFIC_CATEGORIES':
+      return (line) =>
+        line.categoryIds.some((id) => rules.categoryIds.includes(id)) ? null : 'Not in a category covered by this offer';
+    case 'NEW_PRODUCTS': {
+      const days = rules.newDaysThreshold ?? DEFAULT_NEW_DAYS_THRESHOLD;
+      const since = now.getTime() - days * DAY_MS;
+      return (line) =>
+        line.productCreatedAt.getTime() >= since ? null : `Only products added in the last ${days} days qualify`;
+    }
+    case 'BEST_SELLERS':
+      return (line) => (line.isBestSeller ? null : 'Only best sellers qualify');
+    case 'VOLUME':
+      // Limited to the chosen products when there are any, otherwise the whole cart counts
+      return (line) =>
+        rules.productIds.length === 0 || rules.productIds.includes(line.productId) ? null : 'Not included in this offer';
+    case 'ALL_PRODUCTS':
+    case 'FIRST_PURCHASE':
+      return () => null;
+  }
+}
+
+/**
+ * How many units of each line a bundle discount covers: one unit of every bundle product per
+ * complete bundle in the cart. Lines of the same product share its units in cart order.
+ */
+function bundleUnits(productIds: string[], lines: DiscountLine[]): { bundles: number; units: number[]; missing: number } {
+  const quantities = new Map(productIds.map((id) => [id, 0]));
+  for (const line of lines) {
+    if (quantities.has(line.productId)) quantities.set(line.productId, quantities.get(line.productId)! + line.quantity);
+  }
+
+  const counts = [...quantities.values()];
+  const missing = counts.filter((quantity) => quantity === 0).length;
+  const bundles = counts.length > 0 ? Math.min(...counts) : 0;
+
+  const left = new Map(productIds.map((id) => [id, bundles]));
+  const units = lines.map((line) => {
+    const available = left.get(line.productId) ?? 0;
+    const used = Math.min(available, line.quantity);
+    left.set(line.productId, available - used);
+    return used;
+  });
+
+  return { bundles, units, missing };
+}
+
+// Like allocateDiscount, but lines with nothing to discount are left out so no rounding remainder lands on them
+function allocateAmong(weights: number[], amount: number): number[] {
+  const indexes = weights.flatMap((weight, index) => (weight > 0 ? [index] : []));
+  const shares = allocateDiscount(
+    indexes.map((index) => weights[index]),
+    amount
+  );
+  const result = weights.map(() => 0);
+  indexes.forEach((index, position) => (result[index] = shares[position]));
+  return result;
+}
+
+const rejected = (lines: DiscountLineResult[], reason: DiscountRejectionReason, message: string): DiscountEvaluation => ({
+  amount: 0,
+  eligibleSubtotal: 0,
+  lines: lines.map((line) => ({ ...line, discount: 0 })),
+  rejection: { reason, message },
+});
+
+/**
+ * Of every buyQuantity + getQuantity qualifying units, the getQuantity cheapest are discountValue
+ * percent off (100 makes them free). Units are grouped from the most expensive down, so the
+ * customer never gets a dearer unit for free than one they pay for.
+ */
+function buyXGetY(
+  rules: DiscountRules,
+  cart: DiscountLine[],
+  lines: DiscountLineResult[],
+  eligibleSubtotal: number
+): DiscountEvaluation {
+  const buy = rules.buyQuantity ?? 1;
+  const get = rules.getQuantity ?? 1;
+
+  const units = lines
+    .flatMap((result, index) => {
+      if (!result.eligible) return [];
+      const line = cart[index];
+      const unitPrice = line.total / line.quantity;
+      const count = unitPrice > 0 ? Math.round(result.eligibleAmount / unitPrice) : line.quantity;
+      return Array.from({ length: count }, () => ({ index, price: unitPrice }));
+    })
+    .sort((a, b) => b.price - a.price);
+
+  const groups = Math.floor(units.length / (buy + get));
+  if (groups === 0) {
+    return rejected(
+      lines,
+      'MINIMUM_QUANTITY',
+      `Add ${buy + get - units.length} more qualifying ${buy + get - units.length === 1 ? 'item' : 'items'} to use this offer`
+    );
+  }
+
+  const perLine = lines.map(() => 0);
+  for (let group = 0; group < groups; group++) {
+    for (let position = buy; position < buy + get; position++) {
+      const unit = units[group * (buy + get) + position];
+      perLine[unit.index] += (unit.price * rules.discountValue) / 100;
+    }
+  }
+
+  const total = perLine.reduce((sum, value) => sum + value, 0);
+  const amount = roundCurrency(
+    rules.maximumDiscount && total > rules.maximumDiscount ? rules.maximumDiscount : total
+  );
+  const shares = allocateAmong(perLine, amount);
+
+  return {
+    amount,
+    eligibleSubtotal,
+    lines: lines.map((line, index) => ({ ...line, discount: shares[index] })),
+    rejection: null,
+  };
+}
+
+/**
+ * Works out what a discount takes off a cart. Every line is checked against the discount's
+ * applicability, the discount is calculated on the eligible lines only and then spread over
+ * them in proportion to their value. When the discount does not apply, `rejection` says why
+ * and the amount is 0; the per-line reasons are returned either way.
+ */
+export function evaluateDiscount(
+  rules: DiscountRules,
+  cart: DiscountLine[],
+  context: DiscountContext
+): DiscountEvaluation {
+  const check = lineCheck(rules, context.now);
+  const bundle = rules.applicability === 'BUNDLE' ? bundleUnits(rules.productIds, cart) : null;
+
+  const lines: DiscountLineResult[] = cart.map((line, index) => {
+    const reason = check(line);
+    const units = bundle ? bundle.units[index] : line.quantity;
+    const eligible = reason === null && units > 0;
+    return {
+      key: line.key,
+      eligible,
+      eligibleAmount: eligible ? roundCurrency(units === line.quantity ? line.total : line.price * units) : 0,
+      discount: 0,
+      reason: reason ?? (eligible ? null : 'Not part of a complete bundle'),
+    };
+  });
+
+  if (!rules.isActive) return rejected(lines, 'INACTIVE', 'This discount code is not currently valid');
+  if (context.now < rules.validFrom) return rejected(lines, 'NOT_STARTED', 'This discount code is not valid yet');
+  if (context.now > rules.validTo) return rejected(lines, 'EXPIRED', 'This discount code has expired');
+
+  const subtotal = roundCurrency(cart.reduce((sum, line) => sum + line.total, 0));
+  if (rules.minimumPurchase && subtotal < rules.minimumPurchase) {
+    return rejected(
+      lines,
+      'MINIMUM_PURCHASE',
+      `Minimum purchase amount of ₹${rules.minimumPurchase} required for this discount`
+    );
+  }
+
+  if (rules.applicability === 'FIRST_PURCHASE' && context.isFirstPurchase === false) {
+    return rejected(lines, 'NOT_FIRST_PURCHASE', 'This discount is only valid for first-time customers');
+  }
+
+  if (bundle && (rules.productIds.length === 0 || bundle.missing > 0)) {
+    return rejected(
+      lines,
+      'INCOMPLETE_BUNDLE',
+      bundle.missing > 0
+        ? `Add the ${bundle.missing === 1 ? 'last product' : `other ${bundle.missing} products`} of the bundle to use this discount`
+        : 'This discount code is not applicable to any items in your cart'
+    );
+  }
+
+  const eligible = lines.filter((line) => line.eligible);
+  if (eligible.length === 0) {
+    return rejected(lines, 'NO_ELIGIBLE_ITEMS', 'This discount code is not applicable to any items in your cart');
+  }
+
+  // Volume discounts count the qualifying units; the minimum applies to every other kind as a cart minimum
+  const quantity =
+    rules.applicability === 'VOLUME'
+      ? cart.reduce((sum, line, index) => sum + (lines[index].eligible ? line.quantity : 0), 0)
+      : cart.reduce((sum, line) => sum + line.quantity, 0);
+  const minQuantity = rules.minQuantity ?? (rules.applicability === 'VOLUME' ? DEFAULT_VOLUME_MIN_QUANTITY : null);
+  if (minQuantity && quantity < minQuantity) {
+    return rejected(
+      lines,
+      'MINIMUM_QUANTITY',
+      rules.applicability === 'VOLUME' && rules.productIds.length > 0
+        ? `Buy at least ${minQuantity} of the qualifying items to use this discount`
+        : `Minimum quantity of ${minQuantity} items required for this discount`
+    );
+  }
+
+  const eligibleSubtotal = roundCurrency(eligible.reduce((sum, line) => sum + line.eligibleAmount, 0));
+
+  if (rules.discountType === 'BUY_X_GET_Y') {
+    return buyXGetY(rules, cart, lines, eligibleSubtotal);
+  }
+
+  let amount: number;
+  if (rules.discountType === 'PERCENTAGE') {
+    amount = (eligibleSubtotal * rules.discountValue) / 100;
+    if (rules.maximumDiscount && amount > rules.maximumDiscount) amount = rules.maximumDiscount;
+  } else {
+    amount = Math.min(rules.discountValue, eligibleSubtotal);
+  }
+  amount = roundCurrency(amount);
+
+  const shares = allocateAmong(
+    lines.map((line) => line.eligibleAmount),
+    amount
+  );
+
+  return {
+    amount,
+    eligibleSubtotal,
+    lines: lines.map((line, index) => ({ ...line, discount: shares[index] })),
+    rejection: null,
+  };
+}
+
+export interface StackableDiscount {
+  id: string;
+  name: string;
+  // The code the customer entered; null for automatic promotions
+  code: string | null;
+  stacking: DiscountStacking;
+  priority: number;
+  rules: DiscountRules;
+}
+
+export interface StackedDiscounts {
+  applied: { discount: StackableDiscount; evaluation: DiscountEvaluation }[];
+  skipped: { discount: StackableDiscount; evaluation: DiscountEvaluation; rejection: DiscountRejection }[];
+  // What all applied discounts together take off each line
+  lineDiscounts: number[];
+  amount: number;
+}
+
+/**
+ * Applies several discounts to one cart, highest priority first; at equal priority automatic
+ * promotions go before a code. Each discount is worked out on what is left of the lines after
+ * the ones before it, so percentages never add up to more than the price. An EXCLUSIVE discount
+ * is only applied on its own: once one applies nothing else is, and it is skipped itself when
+ * something with a higher priority already applied.
+ */
+export function stackDiscounts(
+  discounts: StackableDiscount[],
+  cart: DiscountLine[],
+  context: DiscountContext
+): StackedDiscounts {
+  const ordered = [...discounts].sort(
+    (a, b) => b.priority - a.priority || Number(a.code !== null) - Number(b.code !== null)
+  );
+
+  const result: StackedDiscounts = { applied: [], skipped: [], lineDiscounts: cart.map(() => 0), amount: 0 };
+
+  for (const discount of ordered) {
+    const remaining = cart.map((line, index) => {
+      const total = roundCurrency(line.total - result.lineDiscounts[index]);
+      return { ...line, total, price: total / line.quantity };
+    });
+
+    const evaluation = evaluateDiscount(discount.rules, remaining, context);
+    if (evaluation.rejection) {
+      result.skipped.push({ discount, evaluation, rejection: evaluation.rejection });
+      continue;
+    }
+    if (evaluation.amount <= 0) {
+      result.skipped.push({
+        discount,
+        evaluation,
+        rejection: { reason: 'NO_ELIGIBLE_ITEMS', message: 'Nothing is left in your cart for this discount to take off' },
+      });
+      continue;
+    }
+
+    const blocker =
+      result.applied.find((applied) => applied.discount.stacking === 'EXCLUSIVE') ??
+      (discount.stacking === 'EXCLUSIVE' ? result.applied[0] : undefined);
+    if (blocker) {
+      result.skipped.push({
+        discount,
+        evaluation,
+        rejection: { reason: 'NOT_COMBINABLE', message: `Cannot be combined with "${blocker.discount.name}"` },
+      });
+      continue;
+    }
+
+    result.applied.push({ discount, evaluation });
+    evaluation.lines.forEach((line, index) => {
+      result.lineDiscounts[index] = roundCurrency(result.lineDiscounts[index] + line.discount);
+    });
+    result.amount = roundCurrency(result.amount + evaluation.amount);
+  }
+
+  return result;
+}
@@ -0,0 +1,99 @@
+import { Prisma } from '@prisma/client';
+
+export type RedemptionFailure = 'USAGE_LIMIT' | 'PER_USER_LIMIT' | 'COUPON_USED';
+
+export const REDEMPTION_FAILURE_MESSAGES: Record<RedemptionFailure, string> = {
+  USAGE_LIMIT: 'This discount has reached its maximum usage limit',
+  PER_USER_LIMIT: 'You have already used this discount the maximum number of times',
+  COUPON_USED: 'This code has already been used',
+};
+
+interface RedeemInput {
+  discount: { id: string; perUserLimit: number | null };
+  orderId: string;
+  userId: string;
+  amount: number;
+  // The single-use coupon the discount was reached through, if any
+  couponCodeId?: string | null;
+}
+
+/**
+ * Records the use of a discount by an order, inside the order's transaction.
+ * The counters are raised with conditional updates, so the row lock decides which of two
+ * concurrent checkouts gets the last use and the other one sees nothing updated.
+ * Returns why the code cannot be used, or null once it has been redeemed. The caller must
+ * abort the transaction on failure, since the overall count may already have been raised.
+ */
+export async function redeemDiscount(
+  tx: Prisma.TransactionClient,
+  { discount, orderId, userId, amount, couponCodeId }: RedeemInput
+): Promise<RedemptionFailure | null> {
+  if (couponCodeId) {
+    const coupon = await tx.couponCode.updateMany({
+      where: { id: couponCodeId, redeemedAt: null },
+      data: { redeemedAt: new Date() },
+    });
+    if (coupon.count === 0) return 'COUPON_USED';
+  }
+
+  const claimed = await tx.discount.updateMany({
+    where: {
+      id: discount.id,
+      OR: [{ usageLimit: null }, { usageCount: { lt: tx.discount.fields.usageLimit } }],
+    },
+    data: { usageCount: { increment: 1 } },
+  });
+  if (claimed.count === 0) return 'USAGE_LIMIT';
+
+  // Make sure the user's row exists so the conditional update below has something to lock
+  await tx.userDiscountUsage.createMany({
+    data: [{ userId, discountId: discount.id, usageCount: 0 }],
+    skipDuplicates: true,
+  });
+  const used = await tx.userDiscountUsage.updateMany({
+    where: {
+      userId,
+      discountId: discount.id,
+      ...(discount.perUserLimit && { usageCount: { lt: discount.perUserLimit } }),
+    },
+    data: { usageCount: { increment: 1 }, lastUsed: new Date() },
+  });
+  if (used.count === 0) return 'PER_USER_LIMIT';
+
+  await tx.discountRedemption.create({
+    data: { discountId: discount.id, orderId, userId, amount, couponCodeId },
+  });
+  return null;
+}
+
+/**
+ * Gives back the discount uses of a cancelled or refunded order, so they count towards the
+ * limits no more and its coupon can be used again. Safe to call more than once and for orders without discounts.
+ */
+export async function releaseDiscountRedemptions(tx: Prisma.TransactionClient, orderId: string): Promise<number> {
+  const redemptions = await tx.discountRedemption.findMany({ where: { orderId, releasedAt: null } });
+
+  let released = 0;
+  for (const redemption of redemptions) {
+    // Claim the release first so a second call cannot lower the counters twice
+    const claimed = await tx.discountRedemption.updateMany({
+      where: { id: redemption.id, releasedAt: null },
+      data: { releasedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    await tx.discount.updateMany({
+      where: { id: redemption.discountId, usageCount: { gt: 0 } },
+      data: { usageCount: { decrement: 1 } },
+    });
+    await tx.userDiscountUsage.updateMany({
+      where: { userId: redemption.userId, discountId: redemption.discountId, usageCount: { gt: 0 } },
+      data: { usageCount: { decrement: 1 } },
+    });
+    if (redemption.couponCodeId) {
+      await tx.couponCode.update({ where: { id: redemption.couponCodeId }, data: { redeemedAt: null } });
+    }
+    released += 1;
+  }
+  return released;
+}
@@ -0,0 +1,198 @@
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { stackDiscounts, type DiscountEvaluation, type DiscountLine, type StackableDiscount } from './engine';
+import { normalizeCouponCode } from './coupons';
+import { REDEMPTION_FAILURE_MESSAGES } from './redemptions';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A priced cart line, as worked out by the checkout from the catalogue
+export interface DiscountCartLine {
+  productId: string;
+  productVariantId: string | null;
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface DiscountInput {
+  lines: DiscountCartLine[];
+  // The code the customer entered, if any
+  code?: string | null;
+  userId?: string;
+}
+
+const discountInclude = {
+  products: { select: { productId: true } },
+  categories: { select: { categoryId: true } },
+} satisfies Prisma.DiscountInclude;
+
+export type DiscountWithTargets = Prisma.DiscountGetPayload<{ include: typeof discountInclude }>;
+
+export interface DiscountApplication {
+  applied: { discount: DiscountWithTargets; evaluation: DiscountEvaluation }[];
+  // What all applied discounts together take off each line
+  lineDiscounts: number[];
+  amount: number;
+  // Set when the entered code is a single-use coupon from a batch, to be claimed with the order
+  couponCodeId: string | null;
+  // Why the entered code does not apply; automatic promotions that do not apply are left out quietly
+  codeError: { message: string; status: number; evaluation: DiscountEvaluation | null } | null;
+}
+
+// Attach what the rules need to know about each product, including every category above its own
+async function toDiscountLines(db: DbClient, lines: DiscountCartLine[]): Promise<DiscountLine[]> {
+  const [products, categories] = await Promise.all([
+    db.product.findMany({
+      where: { id: { in: lines.map((line) => line.productId) } },
+      select: { id: true, categoryId: true, isBestSeller: true, createdAt: true },
+    }),
+    db.category.findMany({ select: { id: true, parentId: true } }),
+  ]);
+  const parents = new Map(categories.map((category) => [category.id, category.parentId]));
+
+  const withAncestors = (categoryId: string | null) => {
+    const ids: string[] = [];
+    for (let id = categoryId; id && !ids.includes(id); id = parents.get(id) ?? null) ids.push(id);
+    return ids;
+  };
+
+  return lines.map((line) => {
+    const product = products.find((p) => p.id === line.productId);
+    return {
+      key: line.productVariantId ?? line.productId,
+      productId: line.productId,
+      categoryIds: withAncestors(product?.categoryId ?? null),
+      isBestSeller: product?.isBestSeller ?? false,
+      productCreatedAt: product?.createdAt ?? new Date(0),
+      quantity: line.quantity,
+      price: line.price,
+      total: line.total,
+    };
+  });
+}
+
+// Why a discount cannot be used any more, or null
+async function usageLimitError(db: DbClient, discount: DiscountWithTargets, userId?: string) {
+  // Checked again when the order is placed, see redeemDiscount
+  if (discount.usageLimit && discount.usageCount >= discount.usageLimit) {
+    return REDEMPTION_FAILURE_MESSAGES.USAGE_LIMIT;
+  }
+
+  // Check per-user usage limit if user is logged in
+  if (userId && discount.perUserLimit) {
+    const userUsage = await db.userDiscountUsage.findUnique({
+      where: {
+        userId_discountId: {
+          userId,
+          discountId: discount.id
+        }
+      }
+    });
+
+    if (userUsage && userUsage.usageCount >= discount.perUserLimit) {
+      return REDEMPTION_FAILURE_MESSAGES.PER_USER_LIMIT;
+    }
+  }
+
+  return null;
+}
+
+const toStackable = (discount: DiscountWithTargets): StackableDiscount => ({
+  id: discount.id,
+  name: discount.name,
+  code: discount.isAutomatic ? null : discount.code,
+  stacking: discount.stacking,
+  priority: discount.priority,
+  rules: {
+    ...discount,
+    productIds: discount.products.map((p) => p.productId),
+    categoryIds: discount.categories.map((c) => c.categoryId),
+  },
+});
+
+/**
+ * Works out every discount on priced cart lines: all running automatic promotions plus the
+ * code the customer entered, combined by their stacking rules (see stackDiscounts in ./engine).
+ * The code may also be a coupon from a batch, which stands in for its discount under its own code.
+ * Usage limits and first purchases depend on stored orders, so they are checked here rather
+ * than in the engine.
+ */
+export async function applyDiscounts(input: DiscountInput, db: DbClient = prisma): Promise<DiscountApplication> {
+  const { lines, code, userId } = input;
+  const now = new Date();
+
+  const promotions = await db.discount.findMany({
+    where: { isAutomatic: true, isActive: true, validFrom: { lte: now }, validTo: { gte: now } },
+    include: discountInclude,
+  });
+
+  const codeFailure = (message: string, status: number): DiscountApplication => ({
+    applied: [],
+    lineDiscounts: lines.map(() => 0),
+    amount: 0,
+    couponCodeId: null,
+    codeError: { message, status, evaluation: null },
+  });
+
+  let codeDiscount: DiscountWithTargets | null = null;
+  let couponCodeId: string | null = null;
+  if (code) {
+    codeDiscount = await db.discount.findUnique({ where: { code }, include: discountInclude });
+
+    // Not a discount's own code, so it may be a coupon that uses its batch's discount rules
+    if (!codeDiscount) {
+      const coupon = await db.couponCode.findUnique({
+        where: { code: normalizeCouponCode(code) },
+        include: { discount: { include: discountInclude } },
+      });
+      if (coupon?.redeemedAt) {
+        return codeFailure(REDEMPTION_FAILURE_MESSAGES.COUPON_USED, 400);
+      }
+      if (coupon) {
+        codeDiscount = { ...coupon.discount, code: coupon.code };
+        couponCodeId = coupon.id;
+      }
+    }
+
+    if (!codeDiscount || codeDiscount.isAutomatic) {
+      return codeFailure('Invalid discount code', 404);
+    }
+  }
+
+  const candidates: DiscountWithTargets[] = [];
+  let codeError: DiscountApplication['codeError'] = null;
+  for (const discount of [...promotions, ...(codeDiscount ? [codeDiscount] : [])]) {
+    const error = await usageLimitError(db, discount, userId);
+    if (!error) candidates.push(discount);
+    else if (discount === codeDiscount) codeError = { message: error, status: 400, evaluation: null };
+  }
+
+  // Guests are checked again when they sign in to place the order. Only paid orders count, so a
+  // first order that was cancelled or never paid for does not use up the offer.
+  const isFirstPurchase =
+    userId && candidates.some((discount) => discount.applicability === 'FIRST_PURCHASE')
+      ? (await db.order.count({ where: { userId, paymentStatus: PaymentStatus.PAID } })) === 0
+      : null;
+
+  const stacked = stackDiscounts(candidates.map(toStackable), await toDiscountLines(db, lines), {
+    now,
+    isFirstPurchase,
+  });
+
+  const skippedCode = stacked.skipped.find((skipped) => skipped.discount.id === codeDiscount?.id);
+  if (skippedCode) {
+    codeError = { message: skippedCode.rejection.message, status: 400, evaluation: skippedCode.evaluation };
+  }
+
+  return {
+    applied: stacked.applied.map(({ discount, evaluation }) => ({
+      discount: candidates.find((candidate) => candidate.id === discount.id)!,
+      evaluation,
+    })),
+    lineDiscounts: stacked.lineDiscounts,
+    amount: stacked.amount,
+    couponCodeId,
+    codeError,
+  };
+}
@@ -0,0 +1,169 @@
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export type StockStatus = 'in' | 'low' | 'out';
+
+export interface InventoryOverview {
+  totalProducts: number;
+  inStock: number;
+  lowStock: number;
+  outOfStock: number;
+  totalUnits: number;
+}
+
+export interface InventoryRow {
+  id: string;
+  title: string;
+  sku: string;
+  status: string;
+  lowStockThreshold: number;
+  variantCount: number;
+  stockLevel: number;
+  image: string | null;
+  updatedAt: Date;
+}
+
+export interface InventoryListOptions {
+  page: number;
+  limit: number;
+  search?: string;
+  stock?: StockStatus;
+}
+
+// One row per product that is still on sale, with the stock it can actually sell: the sum of
+// its variants when it has any, otherwise its own stock quantity
+const stockLevels = Prisma.sql`
+  SELECT p."id", p."title", p."sku", p."status"::text AS "status", p."lowStockThreshold", p."updatedAt",
+    COUNT(v."id")::int AS "variantCount",
+    (CASE WHEN COUNT(v."id") > 0 THEN COALESCE(SUM(v."stockQuantity"), 0) ELSE p."stockQuantity" END)::int AS "stockLevel"
+  FROM "Product" p
+  LEFT JOIN "ProductVariant" v ON v."productId" = p."id"
+  WHERE p."status" <> 'ARCHIVED'
+  GROUP BY p."id"
+`;
+
+const stockFilters: Record<StockStatus, Prisma.Sql> = {
+  out: Prisma.sql`"stockLevel" <= 0`,
+  low: Prisma.sql`"stockLevel" > 0 AND "stockLevel" <= "lowStockThreshold"`,
+  in: Prisma.sql`"stockLevel" > "lowStockThreshold"`,
+};
+
+export function stockStatus(stockLevel: number, lowStockThreshold: number): StockStatus {
+  if (stockLevel <= 0) return 'out';
+  return stockLevel <= lowStockThreshold ? 'low' : 'in';
+}
+
+/**
+ * Headline stock figures for the admin dashboard. Archived products are left out.
+ */
+export async function getInventoryOverview(): Promise<InventoryOverview> {
+  const [overview] = await prisma.$queryRaw<InventoryOverview[]>`
+    WITH levels AS (${stockLevels})
+    SELECT
+      COUNT(*)::int AS "totalProducts",
+      (COUNT(*) FILTER (WHERE ${stockFilters.in}))::int AS "inStock",
+      (COUNT(*) FILTER (WHERE ${stockFilters.low}))::int AS "lowStock",
+      (COUNT(*) FILTER (WHERE ${stockFilters.out}))::int AS "outOfStock",
+      COALESCE(SUM(GREATEST("stockLevel", 0)), 0)::int AS "totalUnits"
+    FROM levels
+  `;
+  return overview;
+}
+
+/**
+ * Stock levels of products still on sale, lowest stock first, filtered by title/SKU and
+ * by whether they are in stock, running low or sold out.
+ */
+export async function listInventory({ page, limit, search, stock }: InventoryListOptions) {
+  const conditions: Prisma.Sql[] = [];
+  if (search) {
+    const pattern = `%${search}%`;
+    conditions.push(Prisma.sql`("title" ILIKE ${pattern} OR "sku" ILIKE ${pattern})`);
+  }
+  if (stock) {
+    conditions.push(stockFilters[stock]);
+  }
+  const where = conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<Omit<InventoryRow, 'image'>[]>`
+      WITH levels AS (${stockLevels})
+      SELECT * FROM levels ${where}
+      ORDER BY "stockLevel" ASC, "title" ASC
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      WITH levels AS (${stockLevels})
+      SELECT COUNT(*)::int AS "total" FROM levels ${where}
+    `,
+  ]);
+
+  const images = await prisma.productImage.findMany({
+    where: { productId: { in: rows.map((row) => row.id) }, position: 0 },
+    select: { productId: true, url: true },
+  });
+  const imageByProduct = new Map(images.map((image) => [image.productId, image.url]));
+
+  const data: (InventoryRow & { stock: StockStatus })[] = rows.map((row) => ({
+    ...row,
+    image: imageByProduct.get(row.id) ?? null,
+    stock: stockStatus(row.stockLevel, row.lowStockThreshold),
+  }));
+
+  return { data, total };
+}
+
+export const inventoryLogInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, email: true } },
+} satisfies Prisma.InventoryLogInclude;
+
+/**
+ * A product's stock, per variant where it has them, with its most recent stock movements and
+ * the units held for unpaid orders.
+ */
+export async function getInventoryDetail(productId: string, logLimit = 50) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: {
+      id: true,
+      title: true,
+      sku: true,
+      price: true,
+      status: true,
+      stockQuantity: true,
+      lowStockThreshold: true,
+      variants: {
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, name: true, sku: true, stockQuantity: true },
+      },
+    },
+  });
+  if (!product) return null;
+
+  const [logs, held] = await Promise.all([
+    prisma.inventoryLog.findMany({
+      where: { productId },
+      orderBy: { createdAt: 'desc' },
+      take: logLimit,
+      include: inventoryLogInclude,
+    }),
+    prisma.stockReservation.aggregate({
+      where: { productId, status: ReservationStatus.RESERVED },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const stockLevel =
+    product.variants.length > 0
+      ? product.variants.reduce((sum, variant) => sum + variant.stockQuantity, 0)
+      : product.stockQuantity;
+
+  return {
+    ...product,
+    stockLevel,
+    stock: stockStatus(stockLevel, product.lowStockThreshold),
+    // Already taken out of stock by checkouts that have not been paid for yet
+    reserved: held._sum.quantity ?? 0,
+    logs,
+  };
+}
@@ -0,0 +1,166 @@
+import { OrderStatus, PaymentStatus, Prisma, ReservationStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { releaseDiscountRedemptions } from '@/lib/discounts/redemptions';
+import { releaseStoredValue } from '@/lib/stored-value/payments';
+import { changeStock, InventoryAction } from './stock';
+
+// How long checkout holds stock for a payment to come through
+export const RESERVATION_MINUTES = Number(process.env.STOCK_RESERVATION_MINUTES) || 15;
+
+const BATCH_SIZE = 100;
+
+export interface ReservationLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ReleaseSummary {
+  orders: number;
+  reservations: number;
+}
+
+/**
+ * Holds stock for an unpaid order. The stock is taken off the shelf straight away with a
+ * conditional decrement, so concurrent checkouts can never push it below zero; returns false
+ * when there is not enough left. The hold lapses after RESERVATION_MINUTES unless the order is paid.
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  order: { id: string; orderNumber: string },
+  line: ReservationLine
+): Promise<boolean> {
+  const taken = await changeStock(tx, {
+    productId: line.productId,
+    variantId: line.variantId,
+    quantity: -line.quantity,
+    action: InventoryAction.SALE,
+    notes: `Reserved for order ${order.orderNumber}`,
+  });
+  if (!taken) return false;
+
+  await tx.stockReservation.create({
+    data: {
+      orderId: order.id,
+      productId: line.productId,
+      variantId: line.variantId || null,
+      quantity: line.quantity,
+      expiresAt: new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000),
+    },
+  });
+  return true;
+}
+
+/**
+ * Makes an order's held stock permanent once it has been paid for. Holds that already lapsed
+ * are left alone; their stock went back on sale when they were released.
+ */
+export async function commitReservations(tx: Prisma.TransactionClient, orderId: string) {
+  const { count } = await tx.stockReservation.updateMany({
+    where: { orderId, status: ReservationStatus.RESERVED },
+    data: { status: ReservationStatus.COMMITTED },
+  });
+  return count;
+}
+
+/**
+ * Puts the stock an order still holds back on sale, whether the hold was committed or not.
+ * Each reservation is claimed with a conditional update so stock is never returned twice,
+ * even when the expiry job and a cancellation run at the same time.
+ */
+export async function releaseReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  change: { action: InventoryAction; notes: string; userId?: string; expiredOnly?: boolean }
+) {
+  const reservations = await tx.stockReservation.findMany({
+    where: {
+      orderId,
+      ...(change.expiredOnly
+        ? { status: ReservationStatus.RESERVED, expiresAt: { lt: new Date() } }
+        : { status: { not: ReservationStatus.RELEASED } }),
+    },
+  });
+
+  let released = 0;
+  for (const reservation of reservations) {
+    const { count } = await tx.stockReservation.updateMany({
+      where: { id: reservation.id, status: reservation.status },
+      data: { status: ReservationStatus.RELEASED },
+    });
+    if (count === 0) continue;
+
+    await changeStock(tx, {
+      productId: reservation.productId,
+      variantId: reservation.variantId,
+      quantity: reservation.quantity,
+      action: change.action,
+      userId: change.userId,
+      notes: change.notes,
+    });
+    released += 1;
+  }
+  return released;
+}
+
+// Only unpaid orders still waiting for their payment can lapse; one an admin has moved on is kept
+const lapsableOrder = {
+  status: OrderStatus.PENDING,
+  paymentStatus: { not: PaymentStatus.PAID },
+} satisfies Prisma.OrderWhereInput;
+
+/**
+ * Releases the stock held by checkouts whose payment did not complete in time and cancels
+ * those orders. Meant to run on a schedule; checkout also calls it for the products in the
+ * cart so a lapsed hold never blocks a new customer. Orders paid on delivery never get here,
+ * since their holds are committed as soon as the order is placed.
+ */
+export async function releaseExpiredReservations(productIds?: string[]): Promise<ReleaseSummary> {
+  const summary: ReleaseSummary = { orders: 0, reservations: 0 };
+
+  for (;;) {
+    const expired = await prisma.stockReservation.findMany({
+      where: {
+        status: ReservationStatus.RESERVED,
+        expiresAt: { lt: new Date() },
+        order: lapsableOrder,
+        ...(productIds && { productId: { in: productIds } }),
+      },
+      distinct: ['orderId'],
+      take: BATCH_SIZE,
+      select: { orderId: true },
+    });
+    if (expired.length === 0) break;
+
+    for (const { orderId } of expired) {
+      const released = await prisma.$transaction(async (tx) => {
+        // The order may have been paid or moved on since it was listed
+        const order = await tx.order.findFirst({ where: { id: orderId, ...lapsableOrder } });
+        if (!order) return 0;
+
+        const count = await releaseReservations(tx, orderId, {
+          action: InventoryAction.RELEASE,
+          notes: `Reservation for order ${order.orderNumber} expired`,
+          expiredOnly: true,
+        });
+
+        // Without its stock the order cannot be fulfilled, so it is called off
+        if (count > 0) {
+          await tx.order.update({ where: { id: orderId }, data: { status: OrderStatus.CANCELLED } });
+          await releaseDiscountRedemptions(tx, orderId);
+          await releaseStoredValue(tx, orderId, 'cancelled');
+        }
+        return count;
+      });
+
+      if (released > 0) {
+        summary.orders += 1;
+        summary.reservations += released;
+      }
+    }
+
+    if (expired.length < BATCH_SIZE) break;
+  }
+
+  return summary;
+}
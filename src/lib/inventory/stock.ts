@@ -0,0 +1,158 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export class InventoryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'InventoryError';
+  }
+}
+
+// Why a stock level moved, as recorded on InventoryLog.action
+export const InventoryAction = {
+  INITIAL: 'INITIAL',
+  SALE: 'SALE',
+  RELEASE: 'RELEASE',
+  CANCELLATION: 'CANCELLATION',
+  RETURN: 'RETURN',
+  PURCHASE: 'PURCHASE',
+  ADJUSTMENT: 'ADJUSTMENT',
+} as const;
+
+export type InventoryAction = (typeof InventoryAction)[keyof typeof InventoryAction];
+
+export interface StockChange {
+  productId: string;
+  // Stock is held on the variant when one is given, otherwise on the product
+  variantId?: string | null;
+  // Positive to add stock, negative to take it out
+  quantity: number;
+  action: InventoryAction;
+  // The staff member behind the change; empty for customer-driven changes like sales
+  userId?: string | null;
+  notes?: string | null;
+}
+
+export interface StockLevelInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  userId?: string | null;
+  notes?: string | null;
+}
+
+function logChange(tx: Prisma.TransactionClient, change: StockChange) {
+  return tx.inventoryLog.create({
+    data: {
+      action: change.action,
+      quantity: change.quantity,
+      productId: change.productId,
+      variant: change.variantId || null,
+      userId: change.userId || null,
+      notes: change.notes || null,
+    },
+  });
+}
+
+/**
+ * Moves the stock of a product or variant and records the movement in the inventory log.
+ * Stock never goes below zero: a decrement larger than what is left changes nothing and
+ * returns false, so the caller can fail its transaction with its own error.
+ */
+export async function changeStock(tx: Prisma.TransactionClient, change: StockChange): Promise<boolean> {
+  if (change.quantity === 0) return true;
+
+  const stockQuantity =
+    change.quantity > 0 ? { increment: change.quantity } : { decrement: -change.quantity };
+  const enoughStock = change.quantity < 0 ? { stockQuantity: { gte: -change.quantity } } : {};
+
+  const result = change.variantId
+    ? await tx.productVariant.updateMany({
+        where: { id: change.variantId, productId: change.productId, ...enoughStock },
+        data: { stockQuantity },
+      })
+    : await tx.product.updateMany({
+        where: { id: change.productId, ...enoughStock },
+        data: { stockQuantity },
+      });
+
+  if (result.count === 0) return false;
+
+  await logChange(tx, change);
+  return true;
+}
+
+/**
+ * Sets the stock of a product or variant to a counted figure, logging the difference as an
+ * adjustment. Returns the difference, which is 0 when the count matched.
+ */
+export async function setStock(tx: Prisma.TransactionClient, input: StockLevelInput): Promise<number> {
+  const current = input.variantId
+    ? await tx.productVariant.findFirst({
+        where: { id: input.variantId, productId: input.productId },
+        select: { stockQuantity: true },
+      })
+    : await tx.product.findUnique({ where: { id: input.productId }, select: { stockQuantity: true } });
+
+  if (!current) {
+    throw new InventoryError(input.variantId ? 'Variant not found' : 'Product not found', 404);
+  }
+
+  const difference = input.quantity - current.stockQuantity;
+  if (difference === 0) return 0;
+
+  // Only overwrite the level that was read, so a sale landing in between is not lost
+  const unchanged = { stockQuantity: current.stockQuantity };
+  const result = input.variantId
+    ? await tx.productVariant.updateMany({
+        where: { id: input.variantId, ...unchanged },
+        data: { stockQuantity: input.quantity },
+      })
+    : await tx.product.updateMany({
+        where: { id: input.productId, ...unchanged },
+        data: { stockQuantity: input.quantity },
+      });
+
+  if (result.count === 0) {
+    throw new InventoryError('Stock changed while it was being updated. Please reload and try again.', 409);
+  }
+
+  await logChange(tx, { ...input, quantity: difference, action: InventoryAction.ADJUSTMENT });
+  return difference;
+}
+
+export interface InventoryUpdateInput {
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  variants?: { id: string; stockQuantity: number }[];
+  notes?: string | null;
+}
+
+/**
+ * Applies a stock count from the admin inventory screen: new stock levels for the product
+ * and any of its variants, and optionally a new low-stock threshold.
+ */
+export async function updateInventory(productId: string, input: InventoryUpdateInput, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const product = await tx.product.findUnique({ where: { id: productId }, select: { id: true } });
+    if (!product) {
+      throw new InventoryError('Product not found', 404);
+    }
+
+    if (input.lowStockThreshold !== undefined) {
+      await tx.product.update({ where: { id: productId }, data: { lowStockThreshold: input.lowStockThreshold } });
+    }
+    if (input.stockQuantity !== undefined) {
+      await setStock(tx, { productId, quantity: input.stockQuantity, userId, notes: input.notes });
+    }
+    for (const variant of input.variants ?? []) {
+      await setStock(tx, {
+        productId,
+        variantId: variant.id,
+        quantity: variant.stockQuantity,
+        userId,
+        notes: input.notes,
+      });
+    }
+  });
+}
@@ -0,0 +1,264 @@
+import { itemDiscountShares, roundCurrency } from '@/lib/orders/pricing';
+import type { AppliedTax } from '@/lib/tax/calculate';
+import { getSellerDetails, InvoicedOrder, OrderDocument, SellerDetails } from './invoice';
+import { PdfDocument } from './pdf';
+
+const MARGIN = 40;
+const LINE_HEIGHT = 13;
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const money = (amount: number) =>
+  `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', year: 'numeric' });
+
+const itemTitle = (item: OrderDocument['items'][number]) =>
+  item.variant ? `${item.product.title} (${item.variant.name})` : item.product.title;
+
+const itemSku = (item: OrderDocument['items'][number]) => item.variant?.sku ?? item.product.sku;
+
+const appliedTaxes = (value: unknown): AppliedTax[] => (Array.isArray(value) ? (value as AppliedTax[]) : []);
+
+function addressLines(order: OrderDocument): string[] {
+  const address = order.shippingAddress;
+  const name = address.fullName || `${order.user.firstName} ${order.user.lastName}`.trim();
+  return [
+    name,
+    address.street,
+    `${address.city}, ${address.state} ${address.postalCode}`,
+    address.country,
+    address.phoneNumber || order.user.phoneNumber || '',
+  ].filter(Boolean);
+}
+
+// Draws the seller block and document title, returning where the page content starts
+function drawHeader(pdf: PdfDocument, seller: SellerDetails, title: string): number {
+  let y = MARGIN + 12;
+  pdf.text(seller.name, MARGIN, y, { size: 16, bold: true });
+  pdf.text(title, pdf.width - MARGIN, y, { size: 14, bold: true, align: 'right' });
+
+  for (const line of seller.address) {
+    y += LINE_HEIGHT;
+    pdf.text(line, MARGIN, y, { size: 9 });
+  }
+  if (seller.gstin) {
+    y += LINE_HEIGHT;
+    pdf.text(`GSTIN: ${seller.gstin}`, MARGIN, y, { size: 9 });
+  }
+  if (seller.email) {
+    y += LINE_HEIGHT;
+    pdf.text(seller.email, MARGIN, y, { size: 9 });
+  }
+
+  y += 10;
+  pdf.line(MARGIN, y, pdf.width - MARGIN, y);
+  return y + 20;
+}
+
+// Writes label/value pairs one under the other, returning the y below the last one
+function drawDetails(pdf: PdfDocument, x: number, y: number, rows: [string, string][]): number {
+  for (const [label, value] of rows) {
+    pdf.text(label, x, y, { size: 9, bold: true });
+    pdf.text(value, x + 85, y, { size: 9 });
+    y += LINE_HEIGHT;
+  }
+  return y;
+}
+
+function drawBlock(pdf: PdfDocument, x: number, y: number, heading: string, lines: string[]): number {
+  pdf.text(heading, x, y, { size: 9, bold: true });
+  for (const line of lines) {
+    y += LINE_HEIGHT;
+    pdf.text(line, x, y, { size: 9 });
+  }
+  return y + LINE_HEIGHT;
+}
+
+function drawTableHeader(pdf: PdfDocument, columns: Column[], y: number): number {
+  pdf.rect(MARGIN, y - 11, pdf.width - MARGIN * 2, 16, 0.92);
+  let x = MARGIN;
+  for (const column of columns) {
+    const anchor = column.align === 'right' ? x + column.width - 4 : x + 4;
+    pdf.text(column.header, anchor, y, { size: 9, bold: true, align: column.align });
+    x += column.width;
+  }
+  return y + 18;
+}
+
+/**
+ * Draws a table whose cells may wrap over several lines, starting new pages as needed.
+ * Each row is a list of cells, each cell a list of lines.
+ */
+function drawTable(pdf: PdfDocument, columns: Column[], rows: string[][][], startY: number): number {
+  let y = drawTableHeader(pdf, columns, startY);
+
+  for (const row of rows) {
+    const height = Math.max(...row.map((cell) => cell.length)) * LINE_HEIGHT;
+    if (y + height > pdf.height - MARGIN * 2) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, columns, MARGIN + 12);
+    }
+
+    let x = MARGIN;
+    row.forEach((cell, index) => {
+      const column = columns[index];
+      cell.forEach((line, lineIndex) => {
+        const anchor = column.align === 'right' ? x + column.width - 4 : x + 4;
+        // Lines after the first are details, e.g. the SKU under an item
+        pdf.text(line, anchor, y + lineIndex * LINE_HEIGHT, {
+          size: lineIndex === 0 ? 9 : 8,
+          align: column.align,
+        });
+      });
+      x += column.width;
+    });
+
+    y += height + 4;
+    pdf.line(MARGIN, y - 10, pdf.width - MARGIN, y - 10, 0.25);
+  }
+
+  return y;
+}
+
+/**
+ * Renders a GST-style tax invoice for an order that has been given an invoice number.
+ */
+export function renderInvoice(order: InvoicedOrder): Buffer {
+  const pdf = new PdfDocument();
+  let y = drawHeader(pdf, getSellerDetails(), 'TAX INVOICE');
+
+  const detailsEnd = drawDetails(pdf, MARGIN, y, [
+    ['Invoice No.', order.invoiceNumber],
+    ['Invoice Date', formatDate(order.invoicedAt)],
+    ['Order No.', order.orderNumber],
+    ['Order Date', formatDate(order.createdAt)],
+  ]);
+  const middle = pdf.width / 2;
+  drawDetails(pdf, middle, y, [
+    ['Place of Supply', order.shippingAddress.state],
+    ['Payment', order.paymentMethod ?? '-'],
+  ]);
+
+  y = detailsEnd + 10;
+  const billTo = addressLines(order);
+  const blockEnd = drawBlock(pdf, MARGIN, y, 'Bill To', [...billTo, order.user.email ?? ''].filter(Boolean));
+  drawBlock(pdf, middle, y, 'Ship To', billTo);
+  y = blockEnd + 10;
+
+  const columns: Column[] = [
+    { header: '#', width: 22 },
+    { header: 'Item', width: 180 },
+    { header: 'Qty', width: 35, align: 'right' },
+    { header: 'Rate', width: 70, align: 'right' },
+    { header: 'Taxable', width: 70, align: 'right' },
+    { header: 'Tax', width: 60, align: 'right' },
+    { header: 'Amount', width: pdf.width - MARGIN * 2 - 437, align: 'right' },
+  ];
+
+  const shares = itemDiscountShares(order);
+  const rows = order.items.map((item, index) => {
+    const taxable = roundCurrency(item.total - shares[index]);
+    const taxes = appliedTaxes(item.taxBreakdown)
+      .map((tax) => `${tax.name} ${tax.rate}%`)
+      .join(', ');
+    return [
+      [String(index + 1)],
+      [...pdf.wrap(itemTitle(item), 172, 9), `SKU: ${itemSku(item)}`, ...(taxes ? [taxes] : [])],
+      [String(item.quantity)],
+      [money(item.price)],
+      [money(taxable)],
+      [money(item.tax)],
+      [money(roundCurrency(taxable + item.tax))],
+    ];
+  });
+
+  y = drawTable(pdf, columns, rows, y);
+
+  const summary: [string, string][] = [['Subtotal', money(order.subtotal)]];
+  if (order.discount > 0) summary.push(['Discount', `- ${money(order.discount)}`]);
+  summary.push(['Taxable Value', money(roundCurrency(order.subtotal - order.discount))]);
+  for (const tax of appliedTaxes(order.taxBreakdown)) {
+    summary.push([`${tax.name} (${tax.rate}%)`, money(tax.amount)]);
+  }
+  summary.push([`Shipping${order.shippingMethod ? ` (${order.shippingMethod})` : ''}`, money(order.shippingCost)]);
+
+  if (y + (summary.length + 3) * LINE_HEIGHT > pdf.height - MARGIN) {
+    pdf.addPage();
+    y = MARGIN + 12;
+  }
+
+  y += 6;
+  const right = pdf.width - MARGIN;
+  for (const [label, value] of summary) {
+    pdf.text(label, right - 130, y, { size: 9, align: 'right' });
+    pdf.text(value, right, y, { size: 9, align: 'right' });
+    y += LINE_HEIGHT;
+  }
+  pdf.line(right - 220, y - 8, right, y - 8);
+  y += 4;
+  pdf.text('Total', right - 130, y, { size: 11, bold: true, align: 'right' });
+  pdf.text(money(order.total), right, y, { size: 11, bold: true, align: 'right' });
+
+  if (order.refundedAmount > 0) {
+    y += LINE_HEIGHT + 2;
+    pdf.text('Refunded', right - 130, y, { size: 9, align: 'right' });
+    pdf.text(`- ${money(order.refundedAmount)}`, right, y, { size: 9, align: 'right' });
+  }
+
+  pdf.text('This is a computer generated invoice and does not need a signature.', MARGIN, pdf.height - MARGIN, {
+    size: 8,
+  });
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Renders a packing slip listing what goes in the parcel, without prices.
+ */
+export function renderPackingSlip(order: OrderDocument): Buffer {
+  const pdf = new PdfDocument();
+  let y = drawHeader(pdf, getSellerDetails(), 'PACKING SLIP');
+
+  const detailsEnd = drawDetails(pdf, MARGIN, y, [
+    ['Order No.', order.orderNumber],
+    ['Order Date', formatDate(order.createdAt)],
+    ['Shipping', order.shippingMethod ?? '-'],
+  ]);
+  y = drawBlock(pdf, pdf.width / 2, y, 'Ship To', addressLines(order));
+  y = Math.max(y, detailsEnd) + 10;
+
+  const columns: Column[] = [
+    { header: '#', width: 22 },
+    { header: 'Item', width: 300 },
+    { header: 'SKU', width: 130 },
+    { header: 'Qty', width: pdf.width - MARGIN * 2 - 452, align: 'right' },
+  ];
+  const rows = order.items.map((item, index) => [
+    [String(index + 1)],
+    pdf.wrap(itemTitle(item), 292, 9),
+    [itemSku(item)],
+    [String(item.quantity)],
+  ]);
+
+  y = drawTable(pdf, columns, rows, y);
+
+  const units = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  pdf.text(`${units} ${units === 1 ? 'unit' : 'units'} in total`, pdf.width - MARGIN, y + 6, {
+    size: 9,
+    bold: true,
+    align: 'right',
+  });
+
+  if (order.notes) {
+    const notes = pdf.wrap(order.notes, pdf.width - MARGIN * 2, 9);
+    drawBlock(pdf, MARGIN, y + 30, 'Notes', notes);
+  }
+
+  return pdf.toBuffer();
+}
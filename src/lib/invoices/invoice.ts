@@ -0,0 +1,104 @@
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { nextInvoiceNumber } from './numbering';
+
+export class InvoiceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+// An invoice is only issued for money that was actually taken
+const INVOICEABLE_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.PAID, PaymentStatus.REFUNDED];
+
+export const orderDocumentInclude = {
+  user: { select: { firstName: true, lastName: true, email: true, phoneNumber: true } },
+  shippingAddress: true,
+  items: {
+    include: {
+      product: { select: { title: true, sku: true } },
+      variant: { select: { name: true, sku: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.OrderInclude;
+
+export type OrderDocument = Prisma.OrderGetPayload<{ include: typeof orderDocumentInclude }>;
+
+export type InvoicedOrder = OrderDocument & { invoiceNumber: string; invoicedAt: Date };
+
+export interface SellerDetails {
+  name: string;
+  address: string[];
+  gstin: string | null;
+  email: string | null;
+}
+
+// Read from the environment so the legal entity can differ between deployments
+export function getSellerDetails(): SellerDetails {
+  return {
+    name: process.env.INVOICE_SELLER_NAME || 'Leeford',
+    address: (process.env.INVOICE_SELLER_ADDRESS || '')
+      .split(/\n|\|/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+    gstin: process.env.INVOICE_SELLER_GSTIN || null,
+    email: process.env.INVOICE_SELLER_EMAIL || process.env.EMAIL_FROM || null,
+  };
+}
+
+/**
+ * Loads an order for printing, limited to the given customer's orders when userId is set.
+ */
+export async function loadOrderDocument(orderId: string, userId?: string): Promise<OrderDocument> {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, ...(userId && { userId }) },
+    include: orderDocumentInclude,
+  });
+  if (!order) {
+    throw new InvoiceError('Order not found', 404);
+  }
+  return order;
+}
+
+/**
+ * Gives a paid order its invoice number the first time an invoice is asked for.
+ * Numbers are sequential per financial year and kept apart from the order number.
+ */
+export async function issueInvoice(orderId: string, userId?: string): Promise<InvoicedOrder> {
+  const order = await loadOrderDocument(orderId, userId);
+  if (order.invoiceNumber) return order as InvoicedOrder;
+
+  if (!INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw new InvoiceError('An invoice is issued once the order has been paid', 409);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const invoicedAt = new Date();
+    const invoiceNumber = await nextInvoiceNumber(tx, invoicedAt);
+
+    // Another request may have issued the invoice meanwhile; rolling back returns the number
+    const claimed = await tx.order.updateMany({
+      where: { id: order.id, invoiceNumber: null },
+      data: { invoiceNumber, invoicedAt },
+    });
+    if (claimed.count === 0) {
+      throw new InvoiceError('The invoice for this order was just issued, please try again', 409);
+    }
+
+    return { ...order, invoiceNumber, invoicedAt };
+  });
+}
+
+
+// File names cannot contain the slashes used in invoice numbers
+export const documentFileName = (prefix: string, number: string) => `${prefix}-${number.replace(/[^\w-]+/g, '-')}.pdf`;
+
+export function pdfResponseHeaders(fileName: string): HeadersInit {
+  return {
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    'Cache-Control': 'private, no-store',
+  };
+}
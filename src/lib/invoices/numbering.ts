@@ -0,0 +1,30 @@
+import { Prisma } from '@prisma/client';
+
+// Indian financial years run from April to March, e.g. "2025-26"
+export function financialYear(date: Date): string {
+  const parts = new Intl.DateTimeFormat('en-IN', { timeZone: 'Asia/Kolkata', year: 'numeric', month: 'numeric' })
+    .formatToParts(date);
+  const year = Number(parts.find((part) => part.type === 'year')?.value);
+  const month = Number(parts.find((part) => part.type === 'month')?.value);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Takes the next invoice number for the financial year of the given date.
+ * The sequence row stays locked until the transaction ends and a rollback hands the
+ * number back, so numbers are never skipped or issued twice.
+ */
+export async function nextInvoiceNumber(tx: Prisma.TransactionClient, date: Date): Promise<string> {
+  const period = financialYear(date);
+
+  const [sequence] = await tx.$queryRaw<{ lastNumber: number }[]>`
+    INSERT INTO "InvoiceSequence" ("period", "lastNumber", "updatedAt")
+    VALUES (${period}, 1, NOW())
+    ON CONFLICT ("period")
+    DO UPDATE SET "lastNumber" = "InvoiceSequence"."lastNumber" + 1, "updatedAt" = NOW()
+    RETURNING "lastNumber"
+  `;
+
+  return `INV/${period}/${String(sequence.lastNumber).padStart(5, '0')}`;
+}
@@ -0,0 +1,161 @@
+// A small PDF writer for text-only documents such as invoices. It only uses the
+// standard Helvetica fonts, which every PDF viewer has, so nothing is embedded.
+
+type FontName = 'regular' | 'bold';
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  // Where x is measured from: the start, end or middle of the text
+  align?: 'left' | 'right' | 'center';
+}
+
+// Glyph widths of the printable ASCII characters (32-126) in 1/1000 of the font size
+const WIDTHS: Record<FontName, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+const FONT_RESOURCES: Record<FontName, string> = { regular: 'F1', bold: 'F2' };
+
+// The standard fonts only cover Latin characters, so accents are dropped and
+// anything else that cannot be drawn becomes a question mark
+function toPdfText(value: string): string {
+  return value
+    .replace(/₹/g, 'Rs.')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+const escape = (value: string) => value.replace(/[\\()]/g, (char) => `\\${char}`);
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(
+    public readonly width = 595.28,
+    public readonly height = 841.89
+  ) {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  textWidth(value: string, size = 10, bold = false): number {
+    const widths = WIDTHS[bold ? 'bold' : 'regular'];
+    let total = 0;
+    for (const char of toPdfText(value)) {
+      total += widths[char.charCodeAt(0) - 32] ?? 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  // Splits text into lines no wider than width, breaking between words where possible
+  wrap(value: string, width: number, size = 10, bold = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of value.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  // Coordinates are in points from the top-left corner of the page
+  text(value: string, x: number, y: number, options: TextOptions = {}) {
+    const { size = 10, bold = false, align = 'left' } = options;
+    const width = this.textWidth(value, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    const font = FONT_RESOURCES[bold ? 'bold' : 'regular'];
+
+    this.current.push(
+      `BT /${font} ${num(size)} Tf ${num(left)} ${num(this.height - y)} Td (${escape(toPdfText(value))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5) {
+    this.current.push(
+      `${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  // Fills a rectangle with a shade of grey, 0 being black and 1 white
+  rect(x: number, y: number, width: number, height: number, gray = 0.9) {
+    this.current.push(
+      `${num(gray)} g ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f 0 g`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // Objects 1-4 are the catalogue, page tree and fonts; pages and their contents follow
+    const firstPageId = 5;
+    this.pages.forEach((operations, index) => {
+      const pageId = firstPageId + index * 2;
+      const content = operations.join('\n');
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output);
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output);
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
@@ -103,4 +103,89 @@ export const sendInvitationEmail = async (to: string, invitationUrl: string, rol
     console.error('💥 Failed to send invitation email:', error);
     throw new Error('Could not send invitation email.');
   }
-};
\ No newline at end of file
+};
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * Sends a customer the invoice for their order.
+ * @param to The recipient's email address.
+ * @param orderNumber The order the invoice is for.
+ * @param invoiceNumber The invoice number printed on the document.
+ * @param attachments The invoice PDF and any other documents to include.
+ */
+export const sendInvoiceEmail = async (
+  to: string,
+  orderNumber: string,
+  invoiceNumber: string,
+  attachments: MailAttachment[]
+) => {
+  const mailOptions = {
+    from: process.env.EMAIL_FROM,
+    to: to,
+    subject: `Invoice ${invoiceNumber} for your order ${orderNumber}`,
+    html: `
+      <h1>Thank you for your order</h1>
+      <p>Please find attached invoice <strong>${invoiceNumber}</strong> for your order <strong>${orderNumber}</strong>.</p>
+      <p>You can also download it at any time from your order history.</p>
+    `,
+    text: `Please find attached invoice ${invoiceNumber} for your order ${orderNumber}. You can also download it at any time from your order history.`,
+    attachments,
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log('✅ Invoice email sent to:', to);
+  } catch (error) {
+    console.error('💥 Failed to send invoice email:', error);
+    throw new Error('Could not send invoice email.');
+  }
+};
+
+export interface WishlistAlert {
+  title: string;
+  reason: 'BACK_IN_STOCK' | 'PRICE_DROP';
+  price: number;
+  previousPrice?: number;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const describeWishlistAlert = (alert: WishlistAlert) =>
+  alert.reason === 'BACK_IN_STOCK'
+    ? `is back in stock at ₹${alert.price.toLocaleString('en-IN')}`
+    : `has dropped from ₹${alert.previousPrice?.toLocaleString('en-IN')} to ₹${alert.price.toLocaleString('en-IN')}`;
+
+/**
+ * Tells a customer that products on their wishlist are back in stock or cheaper.
+ * @param to The recipient's email address.
+ * @param alerts One entry per wishlisted product that changed.
+ */
+export const sendWishlistAlertEmail = async (to: string, alerts: WishlistAlert[]) => {
+  const wishlistUrl = `${process.env.NEXTAUTH_URL}/profile/wishlist`;
+  const mailOptions = {
+    from: process.env.EMAIL_FROM,
+    to: to,
+    subject: alerts.length === 1 ? `${alerts[0].title} on your wishlist` : 'Updates to items on your wishlist',
+    html: `
+      <h1>Good news from your wishlist</h1>
+      <ul>
+        ${alerts.map((alert) => `<li><strong>${escapeHtml(alert.title)}</strong> ${describeWishlistAlert(alert)}</li>`).join('')}
+      </ul>
+      <p><a href="${wishlistUrl}">View your wishlist</a></p>
+    `,
+    text: `${alerts.map((alert) => `${alert.title} ${describeWishlistAlert(alert)}`).join('\n')}\n\nView your wishlist: ${wishlistUrl}`,
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log('✅ Wishlist alert email sent to:', to);
+  } catch (error) {
+    console.error('💥 Failed to send wishlist alert email:', error);
+    throw new Error('Could not send wishlist alert email.');
+  }
+};
@@ -1,34 +1,6 @@
 import { ProductPerformanceTable } from "@/components/admin/product-performance-table";
 import { ProductPerformance } from "@/lib/api/productperformance";
 
-// Mock data for recent orders
-export const mockOrders = [
-  {
-    id: "1",
-    customer: "John Doe",
-    product: "T-Shirt",
-    amount: 29.99,
-    status: "Delivered",
-    date: "2025-08-25"
-  },
-  {
-    id: "2",
-    customer: "Jane Smith",
-    product: "Jeans",
-    amount: 59.99,
-    status: "Shipped",
-    date: "2025-08-24"
-  },
-  {
-    id: "3",
-    customer: "Mike Johnson",
-    product: "Sneakers",
-    amount: 89.99,
-    status: "Processing",
-    date: "2025-08-23"
-  }
-];
-
 // Mock data for customers
 export const mockCustomers = [
   {
@@ -0,0 +1,181 @@
+import { OrderStatus, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { releaseDiscountRedemptions } from '@/lib/discounts/redemptions';
+import { commitReservations, releaseReservations } from '@/lib/inventory/reservations';
+import { releaseStoredValue } from '@/lib/stored-value/payments';
+import { changeStock, InventoryAction } from '@/lib/inventory/stock';
+import { canTransitionOrderStatus, canTransitionPaymentStatus } from './status';
+
+export class OrderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OrderError';
+  }
+}
+
+export interface OrderListFilters {
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  from?: Date;
+  to?: Date;
+  customer?: string;
+}
+
+export interface OrderUpdateInput {
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  notes?: string | null;
+}
+
+export const orderListInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, email: true, phoneNumber: true } },
+  items: {
+    select: {
+      id: true,
+      quantity: true,
+      price: true,
+      total: true,
+      product: { select: { id: true, title: true, sku: true } },
+      variant: { select: { id: true, name: true, sku: true } },
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+export const shipmentInclude = {
+  items: {
+    select: {
+      id: true,
+      quantity: true,
+      orderItemId: true,
+      orderItem: {
+        select: {
+          product: { select: { title: true } },
+          variant: { select: { name: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ShipmentInclude;
+
+export const orderDetailInclude = {
+  ...orderListInclude,
+  shippingAddress: true,
+  shipments: { include: shipmentInclude, orderBy: { shippedAt: 'asc' } },
+} satisfies Prisma.OrderInclude;
+
+export function buildOrderWhere(filters: OrderListFilters): Prisma.OrderWhereInput {
+  const where: Prisma.OrderWhereInput = {};
+
+  if (filters.status) where.status = filters.status;
+  if (filters.paymentStatus) where.paymentStatus = filters.paymentStatus;
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+
+  if (filters.customer) {
+    const term = filters.customer;
+    where.OR = [
+      { orderNumber: { contains: term, mode: 'insensitive' } },
+      { userId: term },
+      { user: { email: { contains: term, mode: 'insensitive' } } },
+      { user: { firstName: { contains: term, mode: 'insensitive' } } },
+      { user: { lastName: { contains: term, mode: 'insensitive' } } },
+      { user: { phoneNumber: { contains: term } } },
+    ];
+  }
+
+  return where;
+}
+
+// Put the stock of a cancelled order back on the shelf
+async function restockOrderItems(
+  tx: Prisma.TransactionClient,
+  order: { id: string; orderNumber: string },
+  userId?: string
+) {
+  const notes = `Order ${order.orderNumber} cancelled`;
+
+  // Orders placed since stock reservations were introduced only return what they still hold
+  if ((await tx.stockReservation.count({ where: { orderId: order.id } })) > 0) {
+    await releaseReservations(tx, order.id, { action: InventoryAction.CANCELLATION, notes, userId });
+    return;
+  }
+
+  const items = await tx.orderItem.findMany({ where: { orderId: order.id } });
+
+  for (const item of items) {
+    await changeStock(tx, {
+      productId: item.productId,
+      variantId: item.productVariantId,
+      quantity: item.quantity,
+      action: InventoryAction.CANCELLATION,
+      userId,
+      notes,
+    });
+  }
+}
+
+/**
+ * Applies an admin update to an order, enforcing the allowed status transitions.
+ * Cancelling an order returns its items to stock; marking it paid keeps its reserved stock for good.
+ * Cancelled and refunded orders give back the use of their discount code, and the gift card and
+ * store credit they were paid with.
+ */
+export async function updateOrder(orderId: string, input: OrderUpdateInput, userId?: string) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+    if (!order) {
+      throw new OrderError('Order not found', 404);
+    }
+
+    const data: Prisma.OrderUpdateInput = {};
+
+    if (input.status && input.status !== order.status) {
+      if (!canTransitionOrderStatus(order.status, input.status)) {
+        throw new OrderError(`Cannot change order status from ${order.status} to ${input.status}`, 409);
+      }
+      data.status = input.status;
+    }
+
+    if (input.paymentStatus && input.paymentStatus !== order.paymentStatus) {
+      if (!canTransitionPaymentStatus(order.paymentStatus, input.paymentStatus)) {
+        throw new OrderError(
+          `Cannot change payment status from ${order.paymentStatus} to ${input.paymentStatus}`,
+          409
+        );
+      }
+      data.paymentStatus = input.paymentStatus;
+    }
+
+    if (input.notes !== undefined) data.notes = input.notes;
+
+    if (data.status === OrderStatus.CANCELLED) {
+      const shipments = await tx.shipment.count({ where: { orderId: order.id } });
+      if (shipments > 0) {
+        throw new OrderError('Orders that have already shipped items cannot be cancelled', 409);
+      }
+      await restockOrderItems(tx, order, userId);
+    } else if (data.paymentStatus === PaymentStatus.PAID) {
+      await commitReservations(tx, order.id);
+    }
+
+    if (
+      data.status === OrderStatus.CANCELLED ||
+      data.status === OrderStatus.REFUNDED ||
+      data.paymentStatus === PaymentStatus.REFUNDED
+    ) {
+      await releaseDiscountRedemptions(tx, order.id);
+      await releaseStoredValue(tx, order.id, data.status === OrderStatus.CANCELLED ? 'cancelled' : 'refunded', userId);
+    }
+
+    return tx.order.update({
+      where: { id: order.id },
+      data,
+      include: orderDetailInclude,
+    });
+  });
+}
@@ -0,0 +1,426 @@
+import { PaymentStatus, Prisma, Product, ProductStatus, ProductVariant } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { redeemDiscount, REDEMPTION_FAILURE_MESSAGES } from '@/lib/discounts/redemptions';
+import { applyDiscounts, type DiscountApplication } from '@/lib/discounts/validate';
+import { commitReservations, releaseExpiredReservations, reserveStock } from '@/lib/inventory/reservations';
+import {
+  planStoredValue,
+  redeemStoredValue,
+  storedValuePaymentMethod,
+  type StoredValueInput,
+} from '@/lib/stored-value/payments';
+import type { TaxBreakdown, TaxLocation } from '@/lib/tax/calculate';
+import { calculateTaxForLocation } from '@/lib/tax/service';
+import { getShippingOptions } from '@/lib/shipping/service';
+import type { ShippingOption } from '@/lib/shipping/types';
+import { roundCurrency } from './pricing';
+import { generateOrderNumber } from './utils';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export class CheckoutError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+// Gift card and store credit pay first; the payment method is only needed for what they leave
+export interface CheckoutInput extends StoredValueInput {
+  addressId: string;
+  discountCode?: string | null;
+  // ShippingProvider id; the cheapest option is used when omitted
+  shippingMethodId?: string | null;
+  paymentMethod?: string | null;
+  notes?: string | null;
+}
+
+export interface QuoteInput extends StoredValueInput {
+  addressId?: string | null;
+  address?: TaxLocation | null;
+  discountCode?: string | null;
+  shippingMethodId?: string | null;
+  items?: { productId: string; variantId?: string | null; quantity: number }[];
+}
+
+export interface PricedLine {
+  productId: string;
+  productVariantId: string | null;
+  categoryId: string | null;
+  taxCategoryId: string | null;
+  weight: number | null;
+  title: string;
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface CheckoutTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxBreakdown: TaxBreakdown | null;
+  shippingCost: number;
+  shippingMethod: ShippingOption | null;
+  shippingOptions: ShippingOption[];
+  total: number;
+}
+
+interface PriceableItem {
+  productId: string;
+  productVariantId: string | null;
+  quantity: number;
+  product: Product;
+  variant: ProductVariant | null;
+}
+
+// Re-price every cart line from the catalogue, ignoring anything the client sent
+export function priceCartItems(cartItems: PriceableItem[]): PricedLine[] {
+  return cartItems.map((item) => {
+    if (item.product.status !== ProductStatus.PUBLISHED) {
+      throw new CheckoutError(`"${item.product.title}" is no longer available`, 409);
+    }
+
+    if (item.productVariantId && !item.variant) {
+      throw new CheckoutError(`The selected option for "${item.product.title}" is no longer available`, 409);
+    }
+
+    const available = item.variant ? item.variant.stockQuantity : item.product.stockQuantity;
+    if (available < item.quantity) {
+      throw new CheckoutError(`Only ${available} of "${item.product.title}" left in stock`, 409);
+    }
+
+    const price = item.variant ? item.variant.price : item.product.price;
+
+    return {
+      productId: item.productId,
+      productVariantId: item.productVariantId,
+      categoryId: item.product.categoryId,
+      taxCategoryId: item.product.taxCategoryId,
+      weight: item.product.weight,
+      title: item.variant ? `${item.product.title} - ${item.variant.name}` : item.product.title,
+      quantity: item.quantity,
+      price,
+      total: roundCurrency(price * item.quantity),
+    };
+  });
+}
+
+// Look up the products behind a client-side cart so they can be priced like a saved one
+async function loadQuoteItems(db: DbClient, items: NonNullable<QuoteInput['items']>): Promise<PriceableItem[]> {
+  const products = await db.product.findMany({
+    where: { id: { in: items.map((item) => item.productId) } },
+  });
+  const variants = await db.productVariant.findMany({
+    where: { id: { in: items.flatMap((item) => (item.variantId ? [item.variantId] : [])) } },
+  });
+
+  return items.map((item) => {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product) {
+      throw new CheckoutError('A product in your cart is no longer available', 409);
+    }
+
+    const variant = item.variantId
+      ? variants.find((v) => v.id === item.variantId && v.productId === product.id) ?? null
+      : null;
+
+    return {
+      productId: product.id,
+      productVariantId: item.variantId ?? null,
+      quantity: item.quantity,
+      product,
+      variant,
+    };
+  });
+}
+
+/**
+ * Prices the lines of a client-side cart, or of the user's saved cart when no items are sent.
+ * Guests without items have nothing to price.
+ */
+export async function loadCheckoutLines(
+  userId: string | null,
+  items?: QuoteInput['items'],
+  db: DbClient = prisma
+): Promise<PricedLine[]> {
+  const cartItems = items
+    ? await loadQuoteItems(db, items)
+    : userId
+      ? await db.cartItem.findMany({
+          where: { userId },
+          include: { product: true, variant: true },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+  return priceCartItems(cartItems);
+}
+
+// The discounts as shown in the order summary
+const summarizeDiscounts = (applied: DiscountApplication['applied']) =>
+  applied.map(({ discount, evaluation }) => ({
+    id: discount.id,
+    name: discount.name,
+    code: discount.isAutomatic ? null : discount.code,
+    amount: evaluation.amount,
+  }));
+
+/**
+ * Works out tax, shipping and the grand total for priced lines.
+ * lineDiscounts holds each line's share of the discount, which comes off before tax so each
+ * line is taxed on what the customer pays for it; pass an empty array when there is none.
+ * Without a location tax and shipping cannot be known yet and are left at zero.
+ * shippingMethod is null when the chosen method, or any method, does not deliver to the location.
+ */
+export async function calculateTotals(
+  db: DbClient,
+  lines: PricedLine[],
+  lineDiscounts: number[],
+  location: TaxLocation | null,
+  shippingMethodId?: string | null
+): Promise<CheckoutTotals> {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.total, 0));
+  const shares = lines.map((line, index) => Math.min(lineDiscounts[index] ?? 0, line.total));
+  const discount = roundCurrency(shares.reduce((sum, share) => sum + share, 0));
+
+  const taxBreakdown = location
+    ? await calculateTaxForLocation(
+        lines.map((line, index) => ({
+          key: line.productVariantId ?? line.productId,
+          taxCategoryId: line.taxCategoryId,
+          amount: line.total - shares[index],
+        })),
+        location,
+        db
+      )
+    : null;
+
+  const shippingOptions =
+    location && lines.length > 0
+      ? await getShippingOptions(
+          {
+            value: subtotal - discount,
+            lines: lines.map((line) => ({ quantity: line.quantity, weight: line.weight })),
+          },
+          location,
+          db
+        )
+      : [];
+  const shippingMethod = shippingMethodId
+    ? shippingOptions.find((option) => option.id === shippingMethodId) ?? null
+    : shippingOptions[0] ?? null;
+
+  const tax = taxBreakdown?.total ?? 0;
+  const shippingCost = shippingMethod?.cost ?? 0;
+
+  return {
+    subtotal,
+    discount,
+    tax,
+    taxBreakdown,
+    shippingCost,
+    shippingMethod,
+    shippingOptions,
+    total: roundCurrency(subtotal - discount + tax + shippingCost),
+  };
+}
+
+/**
+ * Prices a cart without placing an order, for the order summary.
+ * With an address it also lists the shipping options that deliver there.
+ * Signed-in users are quoted from their saved cart unless items are sent; guests must send their items.
+ * Automatic promotions are applied to every cart and listed one by one under discounts.
+ * An invalid discount code is reported alongside the quote instead of failing it.
+ * A gift card and store credit are shown with what they would cover and what is left to pay.
+ */
+export async function quoteCheckout(userId: string | null, input: QuoteInput) {
+  let location: TaxLocation | null = input.address ?? null;
+
+  if (input.addressId) {
+    const address = userId
+      ? await prisma.address.findFirst({ where: { id: input.addressId, userId, archivedAt: null } })
+      : null;
+    if (!address) {
+      throw new CheckoutError('Shipping address not found', 404);
+    }
+    location = address;
+  }
+
+  const lines = await loadCheckoutLines(userId, input.items);
+
+  const discounts =
+    lines.length > 0
+      ? await applyDiscounts({ lines, code: input.discountCode, userId: userId ?? undefined })
+      : null;
+
+  const totals = await calculateTotals(prisma, lines, discounts?.lineDiscounts ?? [], location, input.shippingMethodId);
+  const storedValue = await planStoredValue(prisma, userId, totals.total, input);
+
+  return {
+    lines: lines.map((line, index) => ({ ...line, discount: discounts?.lineDiscounts[index] ?? 0 })),
+    discounts: summarizeDiscounts(discounts?.applied ?? []),
+    discountCode: input.discountCode && discounts && !discounts.codeError ? input.discountCode : null,
+    discountError: discounts?.codeError?.message ?? null,
+    ...totals,
+    giftCard: storedValue.giftCard && {
+      code: storedValue.giftCard.code,
+      balance: storedValue.giftCard.balance,
+      amount: storedValue.giftCard.amount,
+    },
+    giftCardError: storedValue.giftCardError,
+    storeCredit: storedValue.storeCredit,
+    amountDue: storedValue.amountDue,
+  };
+}
+
+/**
+ * Turns the user's cart into an order.
+ * Prices, discount, tax, stock and the order itself are all handled in a single transaction,
+ * which also records the use of the discount code and of every automatic promotion applied,
+ * and takes what the gift card and store credit cover. An order that leaves nothing to pay,
+ * whether through them or its discounts, is paid straight away; otherwise the rest goes through
+ * the payment gateway.
+ * The stock is only reserved until the order is paid; see lib/inventory/reservations.
+ */
+export async function placeOrder(userId: string, input: CheckoutInput) {
+  // Hand back stock from lapsed checkouts first so it can be bought again
+  const cartProducts = await prisma.cartItem.findMany({ where: { userId }, select: { productId: true } });
+  if (cartProducts.length > 0) {
+    await releaseExpiredReservations(cartProducts.map((item) => item.productId));
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const address = await tx.address.findFirst({
+      where: { id: input.addressId, userId, archivedAt: null },
+    });
+
+    if (!address) {
+      throw new CheckoutError('Shipping address not found', 404);
+    }
+
+    const cartItems = await tx.cartItem.findMany({
+      where: { userId },
+      include: { product: true, variant: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (cartItems.length === 0) {
+      throw new CheckoutError('Your cart is empty');
+    }
+
+    const lines = priceCartItems(cartItems);
+
+    const { applied, lineDiscounts, couponCodeId, codeError } = await applyDiscounts(
+      { lines, code: input.discountCode, userId },
+      tx
+    );
+    if (codeError) {
+      throw new CheckoutError(codeError.message, codeError.status);
+    }
+
+    const { subtotal, discount, tax, taxBreakdown, shippingCost, shippingMethod, total } = await calculateTotals(
+      tx,
+      lines,
+      lineDiscounts,
+      address,
+      input.shippingMethodId
+    );
+
+    if (!shippingMethod) {
+      throw new CheckoutError(
+        input.shippingMethodId
+          ? 'The selected shipping method is not available for this address'
+          : 'We do not deliver to this address yet'
+      );
+    }
+
+    const storedValue = await planStoredValue(tx, userId, total, input);
+    if (storedValue.giftCardError) {
+      throw new CheckoutError(storedValue.giftCardError);
+    }
+    // Discounts, a gift card and store credit can leave nothing for the gateway to charge
+    const paidInFull = storedValue.amountDue === 0;
+    if (!paidInFull && !input.paymentMethod) {
+      throw new CheckoutError('Please choose how to pay for your order');
+    }
+
+    const order = await tx.order.create({
+      data: {
+        orderNumber: generateOrderNumber(),
+        userId,
+        addressId: address.id,
+        paymentMethod: paidInFull ? storedValuePaymentMethod(storedValue) : input.paymentMethod || null,
+        ...(paidInFull && { paymentStatus: PaymentStatus.PAID }),
+        notes: input.notes || null,
+        subtotal,
+        discount,
+        tax,
+        taxBreakdown: taxBreakdown ? taxBreakdown.taxes : Prisma.JsonNull,
+        shippingCost,
+        shippingMethod: shippingMethod.name,
+        shippingProviderId: shippingMethod.id,
+        total,
+        giftCardAmount: storedValue.giftCard?.amount ?? 0,
+        storeCreditAmount: storedValue.storeCredit?.amount ?? 0,
+        items: {
+          create: lines.map((line, index) => ({
+            productId: line.productId,
+            productVariantId: line.productVariantId,
+            quantity: line.quantity,
+            price: line.price,
+            total: line.total,
+            discount: lineDiscounts[index] ?? 0,
+            tax: taxBreakdown?.lines[index].tax ?? 0,
+            taxBreakdown: taxBreakdown ? taxBreakdown.lines[index].taxes : Prisma.JsonNull,
+          })),
+        },
+      },
+      include: {
+        items: true,
+        shippingAddress: true,
+      },
+    });
+
+    for (const { discount: used, evaluation } of applied) {
+      const failure = await redeemDiscount(tx, {
+        discount: used,
+        orderId: order.id,
+        userId,
+        amount: evaluation.amount,
+        couponCodeId: used.isAutomatic ? null : couponCodeId,
+      });
+      if (failure) {
+        throw new CheckoutError(
+          used.isAutomatic
+            ? `The "${used.name}" promotion is no longer available. Please review your order.`
+            : REDEMPTION_FAILURE_MESSAGES[failure],
+          409
+        );
+      }
+    }
+
+    const storedValueFailure = await redeemStoredValue(tx, order, storedValue);
+    if (storedValueFailure) {
+      throw new CheckoutError(`${storedValueFailure}. Please review your order.`, 409);
+    }
+
+    // Hold the stock until the payment comes through, failing if another order took it first
+    for (const line of lines) {
+      const reserved = await reserveStock(tx, order, {
+        productId: line.productId,
+        variantId: line.productVariantId,
+        quantity: line.quantity,
+      });
+      if (!reserved) {
+        throw new CheckoutError(`"${line.title}" sold out while you were checking out`, 409);
+      }
+    }
+
+    if (paidInFull) await commitReservations(tx, order.id);
+
+    await tx.cartItem.deleteMany({ where: { userId } });
+
+    return order;
+  });
+}
@@ -0,0 +1,185 @@
+import { OrderStatus, Prisma, ShipmentStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { OrderError, shipmentInclude } from './admin';
+import { canTransitionShipmentStatus } from './status';
+
+export interface ShipmentItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface CreateShipmentInput {
+  carrier: string;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  notes?: string | null;
+  shippedAt?: Date;
+  items: ShipmentItemInput[];
+}
+
+export interface UpdateShipmentInput {
+  carrier?: string;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  notes?: string | null;
+  status?: ShipmentStatus;
+}
+
+// Orders in these statuses can still have parcels sent out
+const SHIPPABLE_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.PROCESSING, OrderStatus.SHIPPED];
+
+// The order statuses fulfilment moves through, in order
+const FULFILMENT_PROGRESS: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+type FulfilmentItem = Prisma.OrderItemGetPayload<{
+  include: { shipmentItems: { include: { shipment: { select: { status: true } } } } };
+}>;
+
+export interface ItemFulfilment {
+  orderItemId: string;
+  ordered: number;
+  shipped: number;
+  delivered: number;
+}
+
+// How many units of each order item are in a parcel, and how many of those have arrived
+export function summariseFulfilment(items: FulfilmentItem[]): ItemFulfilment[] {
+  return items.map((item) => ({
+    orderItemId: item.id,
+    ordered: item.quantity,
+    shipped: item.shipmentItems.reduce((sum, line) => sum + line.quantity, 0),
+    delivered: item.shipmentItems
+      .filter((line) => line.shipment.status === ShipmentStatus.DELIVERED)
+      .reduce((sum, line) => sum + line.quantity, 0),
+  }));
+}
+
+async function loadFulfilment(tx: Prisma.TransactionClient, orderId: string) {
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    include: { shipmentItems: { include: { shipment: { select: { status: true } } } } },
+  });
+  return summariseFulfilment(items);
+}
+
+/**
+ * Moves the order forward to match its parcels: PROCESSING once anything has shipped,
+ * SHIPPED once every item has shipped and DELIVERED once every item has arrived.
+ * Never moves an order backwards or out of CANCELLED/REFUNDED.
+ */
+async function progressOrderStatus(tx: Prisma.TransactionClient, orderId: string) {
+  const order = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+  const current = FULFILMENT_PROGRESS.indexOf(order.status);
+  if (current === -1) return;
+
+  const fulfilment = await loadFulfilment(tx, orderId);
+  const target = fulfilment.every((item) => item.delivered >= item.ordered)
+    ? OrderStatus.DELIVERED
+    : fulfilment.every((item) => item.shipped >= item.ordered)
+      ? OrderStatus.SHIPPED
+      : fulfilment.some((item) => item.shipped > 0)
+        ? OrderStatus.PROCESSING
+        : null;
+
+  if (target && FULFILMENT_PROGRESS.indexOf(target) > current) {
+    await tx.order.update({ where: { id: orderId }, data: { status: target } });
+  }
+}
+
+/**
+ * Records a parcel for some or all of an order's items.
+ * Quantities cannot exceed what is still waiting to ship.
+ */
+export async function createShipment(orderId: string, input: CreateShipmentInput) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+    if (!order) {
+      throw new OrderError('Order not found', 404);
+    }
+    if (!SHIPPABLE_STATUSES.includes(order.status)) {
+      throw new OrderError(`Cannot ship an order that is ${order.status.toLowerCase()}`, 409);
+    }
+
+    // Merge repeated lines for the same item before checking quantities
+    const quantities = new Map<string, number>();
+    for (const item of input.items) {
+      quantities.set(item.orderItemId, (quantities.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+    if (quantities.size === 0) {
+      throw new OrderError('A shipment needs at least one item');
+    }
+
+    const fulfilment = await loadFulfilment(tx, orderId);
+    for (const [orderItemId, quantity] of quantities) {
+      const item = fulfilment.find((line) => line.orderItemId === orderItemId);
+      if (!item) {
+        throw new OrderError('Item does not belong to this order');
+      }
+      const remaining = item.ordered - item.shipped;
+      if (quantity > remaining) {
+        throw new OrderError(`Only ${remaining} of this item are left to ship`, 409);
+      }
+    }
+
+    const shipment = await tx.shipment.create({
+      data: {
+        orderId,
+        carrier: input.carrier,
+        trackingNumber: input.trackingNumber || null,
+        trackingUrl: input.trackingUrl || null,
+        notes: input.notes || null,
+        shippedAt: input.shippedAt,
+        items: {
+          create: Array.from(quantities, ([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        },
+      },
+      include: shipmentInclude,
+    });
+
+    await progressOrderStatus(tx, orderId);
+
+    return shipment;
+  });
+}
+
+/**
+ * Updates a shipment's tracking details or status.
+ * Marking it delivered stamps deliveredAt and may complete the order.
+ */
+export async function updateShipment(orderId: string, shipmentId: string, input: UpdateShipmentInput) {
+  return prisma.$transaction(async (tx) => {
+    const shipment = await tx.shipment.findFirst({ where: { id: shipmentId, orderId } });
+    if (!shipment) {
+      throw new OrderError('Shipment not found', 404);
+    }
+
+    const data: Prisma.ShipmentUpdateInput = {};
+    if (input.carrier !== undefined) data.carrier = input.carrier;
+    if (input.trackingNumber !== undefined) data.trackingNumber = input.trackingNumber || null;
+    if (input.trackingUrl !== undefined) data.trackingUrl = input.trackingUrl || null;
+    if (input.notes !== undefined) data.notes = input.notes || null;
+
+    if (input.status && input.status !== shipment.status) {
+      if (!canTransitionShipmentStatus(shipment.status, input.status)) {
+        throw new OrderError(`Cannot change shipment status from ${shipment.status} to ${input.status}`, 409);
+      }
+      data.status = input.status;
+      if (input.status === ShipmentStatus.DELIVERED) data.deliveredAt = new Date();
+    }
+
+    const updated = await tx.shipment.update({
+      where: { id: shipment.id },
+      data,
+      include: shipmentInclude,
+    });
+
+    await progressOrderStatus(tx, orderId);
+
+    return updated;
+  });
+}
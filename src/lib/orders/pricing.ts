@@ -0,0 +1,40 @@
+// Shared between the checkout service and the storefront order summary,
+// so this file must stay free of server-only imports.
+
+// Round a currency amount to two decimal places
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+// Spread an order-level discount over line totals in proportion to their value.
+// The last line takes the rounding remainder so the shares add up exactly.
+export function allocateDiscount(totals: number[], discount: number): number[] {
+  const subtotal = totals.reduce((sum, total) => sum + total, 0);
+  if (discount <= 0 || subtotal <= 0) return totals.map(() => 0);
+
+  const capped = Math.min(discount, subtotal);
+  let remaining = capped;
+
+  return totals.map((total, index) => {
+    if (index === totals.length - 1) return roundCurrency(remaining);
+    const share = roundCurrency((capped * total) / subtotal);
+    remaining -= share;
+    return share;
+  });
+}
+
+// Each order item's share of the order discount. Items store the share worked out at checkout;
+// orders placed before that was recorded spread the discount in proportion to the item totals.
+export function itemDiscountShares(order: { discount: number; items: { total: number; discount: number }[] }): number[] {
+  const stored = order.items.reduce((sum, item) => sum + item.discount, 0);
+  if (order.discount > 0 && stored > 0) return order.items.map((item) => item.discount);
+  return allocateDiscount(
+    order.items.map((item) => item.total),
+    order.discount
+  );
+}
+
+// What is left for the payment gateway once a gift card and store credit have paid their part
+export function amountDue(order: { total: number; giftCardAmount: number; storeCreditAmount: number }): number {
+  return roundCurrency(Math.max(0, order.total - order.giftCardAmount - order.storeCreditAmount));
+}
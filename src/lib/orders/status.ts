@@ -0,0 +1,67 @@
+import { OrderStatus, PaymentStatus, PurchaseOrderStatus, ReturnStatus, ShipmentStatus } from '@prisma/client';
+
+// Which order statuses an order may move to from each status
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  PROCESSING: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  SHIPPED: [OrderStatus.DELIVERED],
+  DELIVERED: [OrderStatus.REFUNDED],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+// Which payment statuses an order may move to from each payment status
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: [PaymentStatus.PAID, PaymentStatus.FAILED],
+  FAILED: [PaymentStatus.PENDING, PaymentStatus.PAID],
+  PAID: [PaymentStatus.REFUNDED],
+  REFUNDED: [],
+};
+
+// Which statuses a shipment may move to from each status
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  SHIPPED: [ShipmentStatus.IN_TRANSIT, ShipmentStatus.DELIVERED],
+  IN_TRANSIT: [ShipmentStatus.DELIVERED],
+  DELIVERED: [],
+};
+
+// Which statuses a return request may move to from each status
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  REQUESTED: [ReturnStatus.APPROVED, ReturnStatus.REJECTED],
+  APPROVED: [ReturnStatus.RECEIVED, ReturnStatus.REJECTED],
+  RECEIVED: [ReturnStatus.REFUNDING, ReturnStatus.REFUNDED],
+  // Back to RECEIVED when the gateway turns the refund down
+  REFUNDING: [ReturnStatus.REFUNDED, ReturnStatus.RECEIVED],
+  REJECTED: [],
+  REFUNDED: [],
+};
+
+// Which statuses a purchase order may move to from each status. Receiving goods moves it
+// to PARTIALLY_RECEIVED or RECEIVED on its own.
+export const PURCHASE_ORDER_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  DRAFT: [PurchaseOrderStatus.SENT, PurchaseOrderStatus.CANCELLED],
+  SENT: [PurchaseOrderStatus.PARTIALLY_RECEIVED, PurchaseOrderStatus.RECEIVED, PurchaseOrderStatus.CANCELLED],
+  PARTIALLY_RECEIVED: [PurchaseOrderStatus.RECEIVED],
+  RECEIVED: [],
+  CANCELLED: [],
+};
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionPaymentStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionShipmentStatus(from: ShipmentStatus, to: ShipmentStatus): boolean {
+  return SHIPMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionReturnStatus(from: ReturnStatus, to: ReturnStatus): boolean {
+  return RETURN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionPurchaseOrderStatus(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PURCHASE_ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,22 @@
+import { randomBytes } from 'crypto';
+
+function datedReference(prefix: string, date: Date): string {
+  const datePart = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const randomPart = randomBytes(3).toString('hex').toUpperCase();
+  return `${prefix}-${datePart}-${randomPart}`;
+}
+
+// Generate a human readable order number, e.g. LF-20250906-4F9A2C
+export function generateOrderNumber(date: Date = new Date()): string {
+  return datedReference('LF', date);
+}
+
+// Generate a return authorisation number, e.g. RMA-20250906-4F9A2C
+export function generateReturnNumber(date: Date = new Date()): string {
+  return datedReference('RMA', date);
+}
+
+// Generate a purchase order number, e.g. PO-20250906-4F9A2C
+export function generatePurchaseOrderNumber(date: Date = new Date()): string {
+  return datedReference('PO', date);
+}
@@ -0,0 +1,66 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { PaymentStatus } from '@prisma/client';
+import { PaymentProviderFactory } from '../types';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+export function signFakePayload(rawBody: string, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+/**
+ * Stand-in processor for local development and testing. It never talks to the
+ * network; webhooks are HMAC-SHA256 signed with configSettings.webhookSecret.
+ * Set configSettings.autoCapture to mark intents PAID immediately.
+ */
+export const createFakeProvider: PaymentProviderFactory = (config) => {
+  const webhookSecret = typeof config.webhookSecret === 'string' ? config.webhookSecret : 'fake-secret';
+  const autoCapture = config.autoCapture === true;
+
+  return {
+    key: 'fake',
+    displayName: typeof config.displayName === 'string' ? config.displayName : 'Test Payments',
+
+    async createIntent() {
+      const reference = `fake_${randomUUID()}`;
+      return {
+        reference,
+        status: autoCapture ? PaymentStatus.PAID : PaymentStatus.PENDING,
+        clientSecret: `${reference}_secret`,
+      };
+    },
+
+    async confirm(reference, payload) {
+      const status = payload?.fail === true ? PaymentStatus.FAILED : PaymentStatus.PAID;
+      return { reference, status };
+    },
+
+    async refund(reference, amount) {
+      return { reference, amount, status: 'SUCCEEDED' };
+    },
+
+    async verifyWebhook(rawBody, headers) {
+      const signature = headers.get(FAKE_SIGNATURE_HEADER);
+      if (!signature) return null;
+
+      const expected = Buffer.from(signFakePayload(rawBody, webhookSecret));
+      const received = Buffer.from(signature);
+      if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        return null;
+      }
+
+      // A malformed body is rejected like a bad signature rather than failing the route
+      let event;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        return null;
+      }
+      if (typeof event?.reference !== 'string' || !Object.values(PaymentStatus).includes(event.status)) {
+        return null;
+      }
+
+      return { reference: event.reference, status: event.status, orderId: event.orderId };
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { randomUUID } from 'crypto';
+import { PaymentStatus } from '@prisma/client';
+import { PaymentProviderFactory } from '../types';
+
+/**
+ * Manual / cash on delivery. Nothing is charged up front: the order stays
+ * PENDING until an admin confirms the cash was collected.
+ */
+export const createManualProvider: PaymentProviderFactory = (config) => ({
+  key: 'manual',
+  displayName: typeof config.displayName === 'string' ? config.displayName : 'Cash on Delivery',
+  settlesOnDelivery: true,
+
+  async createIntent() {
+    return { reference: `manual_${randomUUID()}`, status: PaymentStatus.PENDING };
+  },
+
+  async confirm(reference) {
+    return { reference, status: PaymentStatus.PAID };
+  },
+
+  async refund(reference, amount) {
+    // Cash refunds are handed back outside the system
+    return { reference, amount, status: 'SUCCEEDED' };
+  },
+
+  async verifyWebhook() {
+    // There is no remote processor to call us back
+    return null;
+  },
+});
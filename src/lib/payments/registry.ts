@@ -0,0 +1,63 @@
+import { PaymentGateway } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { PaymentProvider, PaymentProviderFactory } from './types';
+import { createManualProvider } from './providers/manual';
+import { createFakeProvider } from './providers/fake';
+
+// Provider implementations by key. Add new processors here.
+const PROVIDER_FACTORIES: Record<string, PaymentProviderFactory> = {
+  manual: createManualProvider,
+  ...(process.env.NODE_ENV !== 'production' && { fake: createFakeProvider }),
+};
+
+export interface ActiveGateway {
+  id: string;
+  name: string;
+  provider: PaymentProvider;
+}
+
+function readConfig(gateway: PaymentGateway): Record<string, unknown> {
+  const config = gateway.configSettings;
+  return config && typeof config === 'object' && !Array.isArray(config)
+    ? (config as Record<string, unknown>)
+    : {};
+}
+
+// configSettings.provider picks the implementation; otherwise the gateway name is used
+function providerKeyFor(gateway: PaymentGateway): string {
+  const config = readConfig(gateway);
+  return (typeof config.provider === 'string' ? config.provider : gateway.name).toLowerCase();
+}
+
+function buildGateway(gateway: PaymentGateway): ActiveGateway | null {
+  const factory = PROVIDER_FACTORIES[providerKeyFor(gateway)];
+  if (!factory) {
+    console.warn(`No payment provider registered for gateway "${gateway.name}"`);
+    return null;
+  }
+  return { id: gateway.id, name: gateway.name, provider: factory(readConfig(gateway)) };
+}
+
+/**
+ * Loads every active PaymentGateway that has a registered provider.
+ */
+export async function getActiveGateways(): Promise<ActiveGateway[]> {
+  const gateways = await prisma.paymentGateway.findMany({
+    where: { isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return gateways.map(buildGateway).filter((gateway): gateway is ActiveGateway => gateway !== null);
+}
+
+/**
+ * Finds an active gateway by its name or provider key (case-insensitive).
+ */
+export async function getActiveGateway(name: string): Promise<ActiveGateway | null> {
+  const wanted = name.toLowerCase();
+  const gateways = await getActiveGateways();
+  return (
+    gateways.find((gateway) => gateway.name.toLowerCase() === wanted) ??
+    gateways.find((gateway) => gateway.provider.key === wanted) ??
+    null
+  );
+}
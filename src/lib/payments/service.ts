@@ -0,0 +1,96 @@
+import { Order, OrderStatus, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { commitReservations } from '@/lib/inventory/reservations';
+import { amountDue } from '@/lib/orders/pricing';
+import { canTransitionPaymentStatus } from '@/lib/orders/status';
+import { ActiveGateway, getActiveGateway } from './registry';
+import { RefundResult } from './types';
+
+// Orders are always charged in rupees
+export const PAYMENT_CURRENCY = 'INR';
+
+/**
+ * Opens a payment with the gateway for a freshly placed order and stores the
+ * provider reference so later webhooks can find the order. The gateway is only asked for
+ * what a gift card and store credit did not cover.
+ * A payment taken straight away commits the order's stock like any other; so does one
+ * collected on delivery, whose stock stays held until the order is paid or cancelled.
+ */
+export async function startPayment(gateway: ActiveGateway, orderId: string) {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { user: { select: { email: true } } },
+  });
+
+  const intent = await gateway.provider.createIntent({
+    id: order.id,
+    orderNumber: order.orderNumber,
+    total: amountDue(order),
+    currency: PAYMENT_CURRENCY,
+    customerEmail: order.user.email,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.order.update({
+      where: { id: order.id },
+      data: { paymentMethod: gateway.name, paymentReference: intent.reference },
+    });
+    if (gateway.provider.settlesOnDelivery) {
+      await commitReservations(tx, order.id);
+    }
+    if (intent.status !== order.paymentStatus && canTransitionPaymentStatus(order.paymentStatus, intent.status)) {
+      await updatePaymentStatus(tx, order, intent.status);
+    }
+  });
+
+  return intent;
+}
+
+// A successful payment turns the order's stock reservations into a permanent sale
+async function updatePaymentStatus(tx: Prisma.TransactionClient, order: Order, status: PaymentStatus) {
+  if (status === PaymentStatus.PAID) {
+    await commitReservations(tx, order.id);
+    if (order.status === OrderStatus.CANCELLED) {
+      // Its reservation lapsed before the money arrived, so it needs refunding by hand
+      console.warn(`Payment received for cancelled order ${order.orderNumber}`);
+    }
+  }
+
+  return tx.order.update({
+    where: { id: order.id },
+    data: { paymentStatus: status },
+  });
+}
+
+/**
+ * Moves an order to a new payment status reported by a gateway.
+ * Statuses that are not allowed from the current one are ignored, so
+ * replayed or out-of-order webhooks cannot undo a later state.
+ * A successful payment turns the order's stock reservations into a permanent sale.
+ */
+export async function applyPaymentStatus(reference: string, status: PaymentStatus) {
+  const order = await prisma.order.findUnique({ where: { paymentReference: reference } });
+  if (!order) return null;
+
+  if (order.paymentStatus === status || !canTransitionPaymentStatus(order.paymentStatus, status)) {
+    return order;
+  }
+
+  return prisma.$transaction((tx) => updatePaymentStatus(tx, order, status));
+}
+
+/**
+ * Refunds part of an order's payment through the gateway that took it.
+ * Returns null when the order has no payment reference or its gateway is no longer active.
+ */
+export async function refundPayment(
+  order: Pick<Order, 'paymentMethod' | 'paymentReference'>,
+  amount: number
+): Promise<RefundResult | null> {
+  if (!order.paymentMethod || !order.paymentReference) return null;
+
+  const gateway = await getActiveGateway(order.paymentMethod);
+  if (!gateway) return null;
+
+  return gateway.provider.refund(order.paymentReference, amount);
+}
@@ -0,0 +1,55 @@
+import { PaymentStatus } from '@prisma/client';
+
+// What a provider needs to know about an order to take payment for it
+export interface PaymentOrder {
+  id: string;
+  orderNumber: string;
+  total: number;
+  currency: string;
+  customerEmail?: string | null;
+}
+
+export interface PaymentIntent {
+  // Provider-side reference stored on Order.paymentReference
+  reference: string;
+  status: PaymentStatus;
+  // Secret the storefront hands to the provider's client SDK, if any
+  clientSecret?: string;
+  // Hosted payment page to send the customer to, if any
+  redirectUrl?: string;
+}
+
+export interface PaymentConfirmation {
+  reference: string;
+  status: PaymentStatus;
+}
+
+export interface RefundResult {
+  reference: string;
+  amount: number;
+  status: 'SUCCEEDED' | 'PENDING' | 'FAILED';
+}
+
+export interface WebhookEvent {
+  reference: string;
+  status: PaymentStatus;
+  orderId?: string;
+}
+
+/**
+ * A payment processor. Implementations are created by the registry from a
+ * PaymentGateway row, so any credentials live in its configSettings.
+ */
+export interface PaymentProvider {
+  readonly key: string;
+  readonly displayName: string;
+  // Payment is only collected once the order is delivered, e.g. cash on delivery
+  readonly settlesOnDelivery?: boolean;
+  createIntent(order: PaymentOrder): Promise<PaymentIntent>;
+  confirm(reference: string, payload?: Record<string, unknown>): Promise<PaymentConfirmation>;
+  refund(reference: string, amount: number): Promise<RefundResult>;
+  // Returns null when the signature does not match
+  verifyWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null>;
+}
+
+export type PaymentProviderFactory = (config: Record<string, unknown>) => PaymentProvider;
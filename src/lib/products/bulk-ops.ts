@@ -0,0 +1,180 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import type { ProductBulkSchema } from '@/lib/validations/product-bulk-schema';
+
+export class ProductBulkError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ProductBulkError';
+  }
+}
+
+// Saving a price change touches every variant of every selected product
+const TRANSACTION_TIMEOUT = 30_000;
+
+type ProductChanges = Record<string, unknown>;
+
+const roundPrice = (price: number) => Math.round(price * 100) / 100;
+
+/**
+ * Applies one bulk action to the selected products in a single transaction, so either every
+ * product changes or none does. Each product that actually changed gets a ProductChangeLog
+ * entry with the values before and after. Returns how many products changed.
+ */
+export async function applyBulkProductOperation(input: ProductBulkSchema, userId: string): Promise<number> {
+  return prisma.$transaction(
+    async (tx) => {
+      const products = await tx.product.findMany({
+        where: { id: { in: input.productIds } },
+        select: {
+          id: true,
+          title: true,
+          sku: true,
+          status: true,
+          categoryId: true,
+          price: true,
+          isBestSeller: true,
+          isNewProduct: true,
+          tags: { select: { name: true } },
+          variants: { select: { id: true, price: true } },
+          _count: { select: { orderItems: true, purchaseOrderItems: true, reviews: true } },
+        },
+      });
+      if (products.length !== new Set(input.productIds).size) {
+        throw new ProductBulkError('Some of the selected products no longer exist. Reload and try again.', 404);
+      }
+
+      const changes = new Map<string, ProductChanges>();
+      const ids = products.map((product) => product.id);
+
+      switch (input.operation) {
+        case 'setStatus': {
+          await tx.product.updateMany({ where: { id: { in: ids } }, data: { status: input.status } });
+          for (const product of products) {
+            if (product.status !== input.status) {
+              changes.set(product.id, { status: { from: product.status, to: input.status } });
+            }
+          }
+          break;
+        }
+
+        case 'setCategory': {
+          const category = await tx.category.findUnique({ where: { id: input.categoryId }, select: { id: true } });
+          if (!category) throw new ProductBulkError('Category not found', 404);
+
+          await tx.product.updateMany({ where: { id: { in: ids } }, data: { categoryId: input.categoryId } });
+          for (const product of products) {
+            if (product.categoryId !== input.categoryId) {
+              changes.set(product.id, { categoryId: { from: product.categoryId, to: input.categoryId } });
+            }
+          }
+          break;
+        }
+
+        case 'addTags': {
+          for (const product of products) {
+            const current = new Set(product.tags.map((tag) => tag.name));
+            const added = [...new Set(input.tags)].filter((name) => !current.has(name));
+            if (added.length === 0) continue;
+
+            await tx.product.update({
+              where: { id: product.id },
+              data: { tags: { connectOrCreate: added.map((name) => ({ where: { name }, create: { name } })) } },
+            });
+            changes.set(product.id, { tags: { added } });
+          }
+          break;
+        }
+
+        case 'removeTags': {
+          const remove = new Set(input.tags);
+          for (const product of products) {
+            const removed = product.tags.map((tag) => tag.name).filter((name) => remove.has(name));
+            if (removed.length === 0) continue;
+
+            await tx.product.update({
+              where: { id: product.id },
+              data: { tags: { disconnect: removed.map((name) => ({ name })) } },
+            });
+            changes.set(product.id, { tags: { removed } });
+          }
+          break;
+        }
+
+        case 'adjustPrice': {
+          const factor = 1 + input.percent / 100;
+          for (const product of products) {
+            const price = roundPrice(product.price * factor);
+            await tx.product.update({ where: { id: product.id }, data: { price } });
+            for (const variant of product.variants) {
+              await tx.productVariant.update({
+                where: { id: variant.id },
+                data: { price: roundPrice(variant.price * factor) },
+              });
+            }
+            changes.set(product.id, {
+              price: { from: product.price, to: price },
+              percent: input.percent,
+              variants: product.variants.length,
+            });
+          }
+          break;
+        }
+
+        case 'setFlags': {
+          const data = { isBestSeller: input.isBestSeller, isNewProduct: input.isNewProduct };
+          await tx.product.updateMany({ where: { id: { in: ids } }, data });
+          for (const product of products) {
+            const changed: ProductChanges = {};
+            if (data.isBestSeller !== undefined && product.isBestSeller !== data.isBestSeller) {
+              changed.isBestSeller = { from: product.isBestSeller, to: data.isBestSeller };
+            }
+            if (data.isNewProduct !== undefined && product.isNewProduct !== data.isNewProduct) {
+              changed.isNewProduct = { from: product.isNewProduct, to: data.isNewProduct };
+            }
+            if (Object.keys(changed).length > 0) changes.set(product.id, changed);
+          }
+          break;
+        }
+
+        case 'delete': {
+          // Orders, purchase orders and reviews keep pointing at the product, so those are archived instead
+          const inUse = products.filter(
+            (product) =>
+              product._count.orderItems > 0 || product._count.purchaseOrderItems > 0 || product._count.reviews > 0
+          );
+          if (inUse.length > 0) {
+            const titles = inUse.slice(0, 3).map((product) => `"${product.title}"`).join(', ');
+            throw new ProductBulkError(
+              `${titles}${inUse.length > 3 ? ` and ${inUse.length - 3} more` : ''} ${
+                inUse.length === 1 ? 'has' : 'have'
+              } orders, purchase orders or reviews and cannot be deleted. Archive them instead.`,
+              409
+            );
+          }
+
+          await tx.cartItem.deleteMany({ where: { productId: { in: ids } } });
+          await tx.product.deleteMany({ where: { id: { in: ids } } });
+          for (const product of products) {
+            changes.set(product.id, { title: product.title, sku: product.sku });
+          }
+          break;
+        }
+      }
+
+      if (changes.size > 0) {
+        await tx.productChangeLog.createMany({
+          data: [...changes].map(([productId, changed]) => ({
+            productId,
+            action: input.operation,
+            changes: changed as Prisma.InputJsonObject,
+            userId,
+          })),
+        });
+      }
+
+      return changes.size;
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+}
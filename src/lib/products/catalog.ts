@@ -0,0 +1,279 @@
+import { Prisma, ProductStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export const CATALOG_SORTS = ['newest', 'price_asc', 'price_desc', 'rating', 'popularity'] as const;
+export type CatalogSort = (typeof CATALOG_SORTS)[number];
+
+export interface CatalogFilters {
+  // Slug of a category; products of its subcategories are included
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Products with any of these tags
+  tags?: string[];
+  // Option name to accepted values, e.g. { Colour: ['Red', 'Blue'], Size: ['M'] }. Values of one
+  // option are alternatives; a product matches when one variant has an accepted value for every option.
+  options?: Record<string, string[]>;
+  inStock?: boolean;
+  isBestSeller?: boolean;
+  isNewProduct?: boolean;
+}
+
+export interface CatalogQuery extends CatalogFilters {
+  sort: CatalogSort;
+  page: number;
+  limit: number;
+}
+
+// Each facet is counted with every filter applied except its own, so its choices stay visible
+type FacetKey = 'category' | 'price' | 'tags' | 'options' | 'inStock' | 'isBestSeller' | 'isNewProduct';
+
+interface CategoryNode {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+}
+
+export interface CategoryFacet extends CategoryNode {
+  // Includes the products of subcategories
+  count: number;
+}
+
+export interface CatalogFacets {
+  categories: CategoryFacet[];
+  price: { min: number | null; max: number | null };
+  tags: { name: string; count: number }[];
+  options: { name: string; values: { value: string; count: number }[] }[];
+  inStock: number;
+  isBestSeller: number;
+  isNewProduct: number;
+}
+
+const catalogProductSelect = {
+  id: true,
+  title: true,
+  shortDescription: true,
+  sku: true,
+  price: true,
+  minPrice: true,
+  maxPrice: true,
+  comparePrice: true,
+  rating: true,
+  reviewCount: true,
+  isBestSeller: true,
+  isNewProduct: true,
+  stockQuantity: true,
+  createdAt: true,
+  category: { select: { id: true, name: true, slug: true } },
+  images: { orderBy: { position: 'asc' }, take: 1, select: { url: true, alt: true } },
+  tags: { select: { name: true } },
+  variants: { select: { stockQuantity: true } },
+} satisfies Prisma.ProductSelect;
+
+type CatalogProductRow = Prisma.ProductGetPayload<{ select: typeof catalogProductSelect }>;
+
+const SORT_ORDERS: Record<CatalogSort, Prisma.ProductOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }],
+  // By the lowest price a product can be bought for, since listings show it as the price "from"
+  price_asc: [{ minPrice: 'asc' }],
+  price_desc: [{ minPrice: 'desc' }],
+  rating: [{ rating: 'desc' }, { reviewCount: 'desc' }],
+  popularity: [{ orderItems: { _count: 'desc' } }, { reviewCount: 'desc' }],
+};
+
+// Products stocked per variant are in stock when any of their variants is
+const inStockWhere: Prisma.ProductWhereInput = {
+  OR: [
+    { variants: { none: {} }, stockQuantity: { gt: 0 } },
+    { variants: { some: { stockQuantity: { gt: 0 } } } },
+  ],
+};
+
+function variantOptionsWhere(options: Record<string, string[]>): Prisma.ProductVariantWhereInput[] {
+  return Object.entries(options).map(([name, values]) => ({
+    OR: values.map((value) => ({ attributes: { path: [name], equals: value } })),
+  }));
+}
+
+function buildWhere(filters: CatalogFilters, categoryIds: string[] | null, exclude?: FacetKey): Prisma.ProductWhereInput {
+  const and: Prisma.ProductWhereInput[] = [{ status: ProductStatus.PUBLISHED }];
+
+  if (categoryIds && exclude !== 'category') and.push({ categoryId: { in: categoryIds } });
+  if (exclude !== 'price' && (filters.minPrice !== undefined || filters.maxPrice !== undefined)) {
+    // Matches when any variant is priced within the range
+    and.push({ maxPrice: { gte: filters.minPrice }, minPrice: { lte: filters.maxPrice } });
+  }
+  if (filters.tags?.length && exclude !== 'tags') and.push({ tags: { some: { name: { in: filters.tags } } } });
+  if (filters.isBestSeller !== undefined && exclude !== 'isBestSeller') and.push({ isBestSeller: filters.isBestSeller });
+  if (filters.isNewProduct !== undefined && exclude !== 'isNewProduct') and.push({ isNewProduct: filters.isNewProduct });
+
+  const options = exclude !== 'options' && filters.options ? variantOptionsWhere(filters.options) : [];
+  const inStock = filters.inStock && exclude !== 'inStock';
+  if (options.length > 0) {
+    // The chosen options and the stock have to be on the same variant
+    and.push({
+      variants: { some: { AND: [...options, ...(inStock ? [{ stockQuantity: { gt: 0 } }] : [])] } },
+    });
+  } else if (inStock) {
+    and.push(inStockWhere);
+  }
+
+  return { AND: and };
+}
+
+function descendantIds(categories: CategoryNode[], rootId: string): string[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...categories.filter((category) => category.parentId === ids[i]).map((category) => category.id));
+  }
+  return ids;
+}
+
+// Adds each category's own count to all of its ancestors
+function rollUpCategoryCounts(categories: CategoryNode[], counts: Map<string | null, number>): CategoryFacet[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const totals = new Map<string, number>();
+
+  for (const [categoryId, count] of counts) {
+    const seen = new Set<string>();
+    let current = categoryId ? byId.get(categoryId) : undefined;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      totals.set(current.id, (totals.get(current.id) ?? 0) + count);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+  }
+
+  return categories
+    .filter((category) => totals.has(category.id))
+    .map((category) => ({ ...category, count: totals.get(category.id)! }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The filters in SQL, for the option facet which Prisma cannot aggregate. Mirrors buildWhere
+// without the options filter; the stock filter applies to the variants being counted.
+function optionFacetSql(filters: CatalogFilters, categoryIds: string[] | null): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`p."status" = 'PUBLISHED'`];
+
+  if (categoryIds) conditions.push(Prisma.sql`p."categoryId" = ANY(${categoryIds})`);
+  if (filters.minPrice !== undefined) conditions.push(Prisma.sql`p."maxPrice" >= ${filters.minPrice}`);
+  if (filters.maxPrice !== undefined) conditions.push(Prisma.sql`p."minPrice" <= ${filters.maxPrice}`);
+  if (filters.tags?.length) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "public"."_ProductToProductTag" pt
+      JOIN "public"."ProductTag" t ON t."id" = pt."B"
+      WHERE pt."A" = p."id" AND t."name" = ANY(${filters.tags})
+    )`);
+  }
+  if (filters.isBestSeller !== undefined) conditions.push(Prisma.sql`p."isBestSeller" = ${filters.isBestSeller}`);
+  if (filters.isNewProduct !== undefined) conditions.push(Prisma.sql`p."isNewProduct" = ${filters.isNewProduct}`);
+  if (filters.inStock) conditions.push(Prisma.sql`v."stockQuantity" > 0`);
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Counts products per option value in the database. A value counts a product when one of its
+ * variants has that value and also matches what is chosen for the other options, so picking a
+ * colour narrows the sizes to the ones available in that colour.
+ */
+async function countOptionValues(
+  filters: CatalogFilters,
+  categoryIds: string[] | null
+): Promise<CatalogFacets['options']> {
+  const otherOptions = Object.entries(filters.options ?? {}).map(
+    ([name, values]) => Prisma.sql`(a."key" = ${name} OR v."attributes" ->> ${name} = ANY(${values}))`
+  );
+
+  const rows = await prisma.$queryRaw<{ name: string; value: string; count: number }[]>`
+    SELECT a."key" AS name, a."value" AS value, COUNT(DISTINCT v."productId")::int AS count
+    FROM "public"."ProductVariant" v
+    JOIN "public"."Product" p ON p."id" = v."productId"
+    CROSS JOIN LATERAL jsonb_each_text(
+      CASE WHEN jsonb_typeof(v."attributes") = 'object' THEN v."attributes" ELSE '{}'::jsonb END
+    ) a
+    WHERE ${Prisma.join([optionFacetSql(filters, categoryIds), ...otherOptions], ' AND ')}
+    GROUP BY a."key", a."value"
+  `;
+
+  const byName = new Map<string, { value: string; count: number }[]>();
+  for (const row of rows) {
+    byName.set(row.name, [...(byName.get(row.name) ?? []), { value: row.value, count: row.count }]);
+  }
+
+  return [...byName]
+    .map(([name, values]) => ({
+      name,
+      values: values.sort((a, b) => a.value.localeCompare(b.value, undefined, { numeric: true })),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const toCatalogProduct = ({ variants, stockQuantity, tags, images, ...product }: CatalogProductRow) => ({
+  ...product,
+  image: images[0] ?? null,
+  tags: tags.map((tag) => tag.name),
+  inStock: variants.length > 0 ? variants.some((variant) => variant.stockQuantity > 0) : stockQuantity > 0,
+});
+
+export type CatalogProduct = ReturnType<typeof toCatalogProduct>;
+
+/**
+ * The published catalogue: one page of products matching the filters, and the facet counts a
+ * listing page needs to offer further filtering. An unknown category slug matches nothing.
+ */
+export async function getCatalog({ sort, page, limit, ...filters }: CatalogQuery) {
+  const categories = await prisma.category.findMany({ select: { id: true, name: true, slug: true, parentId: true } });
+
+  let categoryIds: string[] | null = null;
+  if (filters.category) {
+    const root = categories.find((category) => category.slug === filters.category);
+    categoryIds = root ? descendantIds(categories, root.id) : [];
+  }
+
+  const where = buildWhere(filters, categoryIds);
+  const except = (key: FacetKey) => buildWhere(filters, categoryIds, key);
+
+  const [products, total, categoryCounts, price, tags, options, inStock, isBestSeller, isNewProduct] =
+    await Promise.all([
+      prisma.product.findMany({
+        where,
+        select: catalogProductSelect,
+        orderBy: [...SORT_ORDERS[sort], { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.product.count({ where }),
+      prisma.product.groupBy({ by: ['categoryId'], where: except('category'), _count: { _all: true } }),
+      prisma.product.aggregate({ where: except('price'), _min: { minPrice: true }, _max: { maxPrice: true } }),
+      prisma.productTag.findMany({
+        where: { products: { some: except('tags') } },
+        select: { name: true, _count: { select: { products: { where: except('tags') } } } },
+        orderBy: { name: 'asc' },
+      }),
+      countOptionValues(filters, categoryIds),
+      prisma.product.count({ where: { AND: [except('inStock'), inStockWhere] } }),
+      prisma.product.count({ where: { AND: [except('isBestSeller'), { isBestSeller: true }] } }),
+      prisma.product.count({ where: { AND: [except('isNewProduct'), { isNewProduct: true }] } }),
+    ]);
+
+  const facets: CatalogFacets = {
+    categories: rollUpCategoryCounts(
+      categories,
+      new Map(categoryCounts.map((row) => [row.categoryId, row._count._all]))
+    ),
+    price: { min: price._min.minPrice, max: price._max.maxPrice },
+    tags: tags.map((tag) => ({ name: tag.name, count: tag._count.products })),
+    options,
+    inStock,
+    isBestSeller,
+    isNewProduct,
+  };
+
+  return {
+    data: products.map(toCatalogProduct),
+    pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    facets,
+  };
+}
@@ -0,0 +1,543 @@
+import { ProductStatus } from '@prisma/client';
+import { z } from 'zod';
+import { parseCsvRecords, toCsvRow } from '@/lib/csv';
+import { prisma } from '@/lib/db';
+import { changeStock, InventoryAction, setStock } from '@/lib/inventory/stock';
+import { type OptionDefinition, toVariantAttributes, type VariantAttributes } from '@/lib/products/variant-matrix';
+import { saveProductVariants } from '@/lib/products/variants';
+import { productSchema } from '@/lib/validations/product-schema';
+import { productVariantSchema, productVariantsSchema, type ProductVariantsSchema } from '@/lib/validations/variant-schema';
+
+/**
+ * One row per product, followed by one row per variant. Variant rows carry the product's SKU in
+ * `parentSku`, their own SKU, price, stock and image, and their option values as
+ * "Colour=Red|Size=M". Tags and image URLs are separated by "|", and the category is written as
+ * its path from the top, e.g. "Bags > Totes".
+ */
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'parentSku',
+  'title',
+  'description',
+  'shortDescription',
+  'status',
+  'price',
+  'comparePrice',
+  'stockQuantity',
+  'lowStockThreshold',
+  'weight',
+  'madeOf',
+  'category',
+  'categorySlug',
+  'tags',
+  'images',
+  'options',
+] as const;
+
+type ProductCsvColumn = (typeof PRODUCT_CSV_COLUMNS)[number];
+type ProductCsvRecord = Record<string, string>;
+
+const REQUIRED_COLUMNS: ProductCsvColumn[] = ['sku', 'title', 'description', 'price'];
+
+const LIST_SEPARATOR = '|';
+const PATH_SEPARATOR = ' > ';
+
+// Products are read in batches so exports of large catalogues stay within memory
+const EXPORT_BATCH_SIZE = 500;
+// Keeps `in` lists well below Postgres' bind parameter limit
+const LOOKUP_CHUNK_SIZE = 1000;
+// A product with a full variant matrix takes a few hundred queries to save
+const TRANSACTION_TIMEOUT = 30_000;
+
+const splitList = (value: string | undefined) => [
+  ...new Set(
+    (value ?? '')
+      .split(LIST_SEPARATOR)
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+  ),
+];
+
+const normalizePath = (path: string) =>
+  path
+    .split('>')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .join(PATH_SEPARATOR);
+
+/**
+ * Every category's path from the top of the tree, keyed by id.
+ */
+async function getCategoryPaths() {
+  const categories = await prisma.category.findMany({ select: { id: true, name: true, slug: true, parentId: true } });
+  const byId = new Map(categories.map((category) => [category.id, category]));
+
+  const paths = new Map<string, string>();
+  const pathOf = (id: string, seen = new Set<string>()): string => {
+    const cached = paths.get(id);
+    if (cached !== undefined) return cached;
+
+    const category = byId.get(id)!;
+    // Guards against a parent loop in bad data
+    const parentPath =
+      category.parentId && byId.has(category.parentId) && !seen.has(category.parentId)
+        ? pathOf(category.parentId, seen.add(id))
+        : '';
+    const path = parentPath ? `${parentPath}${PATH_SEPARATOR}${category.name}` : category.name;
+    paths.set(id, path);
+    return path;
+  };
+
+  return categories.map((category) => ({ ...category, path: pathOf(category.id) }));
+}
+
+async function inChunks<T>(values: string[], load: (chunk: string[]) => Promise<T[]>): Promise<T[]> {
+  const results: T[] = [];
+  for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+    results.push(...(await load(values.slice(i, i + LOOKUP_CHUNK_SIZE))));
+  }
+  return results;
+}
+
+const formatOptions = (options: OptionDefinition[], attributes: VariantAttributes) =>
+  options.map((option) => `${option.name}=${attributes[option.name] ?? ''}`).join(LIST_SEPARATOR);
+
+/**
+ * Streams the whole catalogue as CSV, including archived products, so it can be edited and
+ * imported again.
+ */
+export function exportProductsCsv(): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cursor: string | undefined;
+  let categoryPaths: Map<string, string>;
+
+  return new ReadableStream({
+    async start(controller) {
+      categoryPaths = new Map((await getCategoryPaths()).map((category) => [category.id, category.path]));
+      controller.enqueue(encoder.encode(toCsvRow([...PRODUCT_CSV_COLUMNS])));
+    },
+
+    async pull(controller) {
+      const products = await prisma.product.findMany({
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+        include: {
+          category: { select: { slug: true } },
+          tags: { select: { name: true }, orderBy: { name: 'asc' } },
+          images: { select: { url: true }, orderBy: { position: 'asc' } },
+          options: { orderBy: { position: 'asc' }, include: { values: { orderBy: { position: 'asc' } } } },
+          variants: { orderBy: { createdAt: 'asc' } },
+        },
+      });
+
+      let chunk = '';
+      for (const product of products) {
+        const row: Record<ProductCsvColumn, string | number | null> = {
+          sku: product.sku,
+          parentSku: '',
+          title: product.title,
+          description: product.description,
+          shortDescription: product.shortDescription,
+          status: product.status,
+          price: product.price,
+          comparePrice: product.comparePrice,
+          stockQuantity: product.stockQuantity,
+          lowStockThreshold: product.lowStockThreshold,
+          weight: product.weight,
+          madeOf: product.madeOf,
+          category: product.categoryId ? categoryPaths.get(product.categoryId) ?? '' : '',
+          categorySlug: product.category?.slug ?? '',
+          tags: product.tags.map((tag) => tag.name).join(LIST_SEPARATOR),
+          images: product.images.map((image) => image.url).join(LIST_SEPARATOR),
+          options: '',
+        };
+        chunk += toCsvRow(PRODUCT_CSV_COLUMNS.map((column) => row[column]));
+
+        const options = product.options.map((option) => ({
+          name: option.name,
+          values: option.values.map((value) => value.value),
+        }));
+        for (const variant of product.variants) {
+          const variantRow: Partial<Record<ProductCsvColumn, string | number | null>> = {
+            sku: variant.sku,
+            parentSku: product.sku,
+            price: variant.price,
+            stockQuantity: variant.stockQuantity,
+            images: variant.imageUrl,
+            options: formatOptions(options, toVariantAttributes(variant.attributes)),
+          };
+          chunk += toCsvRow(PRODUCT_CSV_COLUMNS.map((column) => variantRow[column]));
+        }
+      }
+
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (products.length < EXPORT_BATCH_SIZE) {
+        controller.close();
+      } else {
+        cursor = products[products.length - 1].id;
+      }
+    },
+  });
+}
+
+export interface ProductImportError {
+  // Position of the row in the file, counting the header as row 1
+  row: number;
+  sku: string;
+  message: string;
+}
+
+export interface ProductImportItem {
+  row: number;
+  sku: string;
+  // Set when a product with this SKU already exists and will be updated
+  existingId: string | null;
+  // Fields left out of the file are undefined and keep their current value on update
+  data: {
+    title: string;
+    description: string;
+    shortDescription?: string | null;
+    status?: ProductStatus;
+    price: number;
+    comparePrice?: number | null;
+    lowStockThreshold?: number;
+    weight?: number | null;
+    madeOf?: string | null;
+    categoryId?: string;
+  };
+  // Empty keeps the current stock of existing products and means 0 for new ones
+  stockQuantity?: number;
+  images?: string[];
+  tags?: string[];
+  // Only set when the file has variant rows for the product; they replace its variants
+  variants: ProductVariantsSchema | null;
+}
+
+export interface ProductImportPlan {
+  rows: number;
+  items: ProductImportItem[];
+  errors: ProductImportError[];
+}
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  variants: number;
+}
+
+const urlListSchema = z.array(z.string().url({ message: 'Images must be full URLs' }));
+
+const toNumber = (value: string | undefined) => (value?.trim() ? Number(value.trim()) : undefined);
+const toInteger = (value: string | undefined) => {
+  const number = toNumber(value);
+  return number === undefined || Number.isInteger(number) ? number : NaN;
+};
+
+const formatIssues = (issues: z.core.$ZodIssue[]) =>
+  [...new Set(issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)))].join(
+    '; '
+  );
+
+// "Colour=Red|Size=M" to { Colour: 'Red', Size: 'M' }
+function parseOptions(value: string): VariantAttributes | null {
+  const attributes: VariantAttributes = {};
+  for (const pair of splitList(value)) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return null;
+    const name = pair.slice(0, separator).trim();
+    const selected = pair.slice(separator + 1).trim();
+    if (!name || !selected || name in attributes) return null;
+    attributes[name] = selected;
+  }
+  return Object.keys(attributes).length > 0 ? attributes : null;
+}
+
+/**
+ * Validates a product CSV against the catalogue without changing anything. Product rows are
+ * checked against productSchema and variant rows against the variant schemas; categories must
+ * already exist. Only products whose rows are all valid are planned. Existing products and
+ * variants are matched by SKU.
+ */
+export async function planProductImport(text: string): Promise<ProductImportPlan> {
+  const { headers, records } = parseCsvRecords(text);
+  const errors: ProductImportError[] = [];
+
+  const missing = REQUIRED_COLUMNS.filter((column) => !headers.includes(column));
+  if (missing.length > 0) {
+    return {
+      rows: records.length,
+      items: [],
+      errors: [{ row: 1, sku: '', message: `Missing required columns: ${missing.join(', ')}` }],
+    };
+  }
+
+  const has = (column: ProductCsvColumn) => headers.includes(column);
+  const value = (record: ProductCsvRecord, column: ProductCsvColumn) => (record[column] ?? '').trim();
+  // Undefined when the column is not in the file, null when it is but the cell is empty
+  const optional = (record: ProductCsvRecord, column: ProductCsvColumn) =>
+    has(column) ? value(record, column) || null : undefined;
+
+  const rows = records.map((record, index) => ({ record, row: index + 2, sku: value(record, 'sku') }));
+  const fail = (row: { row: number; sku: string }, message: string) => errors.push({ row: row.row, sku: row.sku, message });
+
+  // SKUs are unique across products and variants of the file
+  const seen = new Map<string, number>();
+  const usable = rows.filter((row) => {
+    if (!row.sku) {
+      fail(row, 'SKU is required');
+      return false;
+    }
+    const first = seen.get(row.sku);
+    if (first !== undefined) {
+      fail(row, `SKU ${row.sku} is already used on row ${first}`);
+      return false;
+    }
+    seen.set(row.sku, row.row);
+    return true;
+  });
+
+  const productRows = usable.filter((row) => !value(row.record, 'parentSku'));
+  const variantRows = usable.filter((row) => value(row.record, 'parentSku'));
+
+  const [categories, existingProducts, existingVariants] = await Promise.all([
+    getCategoryPaths(),
+    inChunks(
+      productRows.map((row) => row.sku),
+      (skus) => prisma.product.findMany({ where: { sku: { in: skus } }, select: { id: true, sku: true } })
+    ),
+    inChunks(
+      variantRows.map((row) => row.sku),
+      (skus) =>
+        prisma.productVariant.findMany({
+          where: { sku: { in: skus } },
+          select: { id: true, sku: true, productId: true },
+        })
+    ),
+  ]);
+  const categoriesByPath = new Map(categories.map((category) => [normalizePath(category.path), category.id]));
+  const categoriesBySlug = new Map(categories.map((category) => [category.slug.toLowerCase(), category.id]));
+  const productIds = new Map(existingProducts.map((product) => [product.sku, product.id]));
+  const variantsBySku = new Map(existingVariants.map((variant) => [variant.sku, variant]));
+
+  const items = new Map<string, ProductImportItem>();
+  for (const row of productRows) {
+    const { record } = row;
+    const existingId = productIds.get(row.sku) ?? null;
+    let problems: string[] = [];
+
+    const status = value(record, 'status').toUpperCase();
+    const stockQuantity = toInteger(record.stockQuantity);
+    const parsed = {
+      sku: row.sku,
+      title: value(record, 'title'),
+      description: value(record, 'description'),
+      shortDescription: optional(record, 'shortDescription') ?? undefined,
+      status: status || ProductStatus.DRAFT,
+      price: toNumber(record.price) ?? NaN,
+      comparePrice: toNumber(record.comparePrice),
+      stockQuantity: stockQuantity ?? 0,
+      lowStockThreshold: toInteger(record.lowStockThreshold),
+      weight: toNumber(record.weight),
+      madeOf: optional(record, 'madeOf') ?? undefined,
+    };
+    const validation = productSchema.safeParse(parsed);
+    if (!validation.success) problems.push(formatIssues(validation.error.issues));
+
+    let categoryId: string | undefined;
+    const categoryPath = value(record, 'category');
+    const categorySlug = value(record, 'categorySlug');
+    if (categoryPath) {
+      categoryId = categoriesByPath.get(normalizePath(categoryPath));
+      if (!categoryId) problems.push(`Category "${categoryPath}" not found`);
+    } else if (categorySlug) {
+      categoryId = categoriesBySlug.get(categorySlug.toLowerCase());
+      if (!categoryId) problems.push(`Category "${categorySlug}" not found`);
+    } else if (!existingId) {
+      problems.push('Category is required');
+    }
+
+    const images = has('images') ? splitList(record.images) : undefined;
+    const imagesValidation = urlListSchema.safeParse(images ?? []);
+    if (!imagesValidation.success) problems.push(imagesValidation.error.issues[0].message);
+
+    problems = problems.filter(Boolean);
+    if (problems.length > 0 || !validation.success) {
+      fail(row, problems.join('; '));
+      continue;
+    }
+
+    items.set(row.sku, {
+      row: row.row,
+      sku: row.sku,
+      existingId,
+      data: {
+        title: validation.data.title,
+        description: validation.data.description,
+        shortDescription: optional(record, 'shortDescription'),
+        status: has('status') || !existingId ? validation.data.status : undefined,
+        price: validation.data.price,
+        comparePrice: has('comparePrice') ? validation.data.comparePrice ?? null : undefined,
+        lowStockThreshold: validation.data.lowStockThreshold,
+        weight: has('weight') ? validation.data.weight ?? null : undefined,
+        madeOf: optional(record, 'madeOf'),
+        categoryId,
+      },
+      stockQuantity,
+      images,
+      tags: has('tags') ? splitList(record.tags) : undefined,
+      variants: null,
+    });
+  }
+
+  // Group the variant rows under their product, deriving its options in order of first use
+  const productSkus = new Set(productRows.map((row) => row.sku));
+  const groups = new Map<string, { rows: typeof variantRows; variants: ProductVariantsSchema['variants'] }>();
+  for (const row of variantRows) {
+    const parentSku = value(row.record, 'parentSku');
+    if (!productSkus.has(parentSku)) {
+      fail(row, `Parent product ${parentSku} must be in the same file`);
+      continue;
+    }
+    const item = items.get(parentSku);
+    // The parent row already has its own errors
+    if (!item) continue;
+
+    const existing = variantsBySku.get(row.sku);
+    if (existing && existing.productId !== item.existingId) {
+      fail(row, `SKU ${row.sku} belongs to a variant of another product`);
+      items.delete(parentSku);
+      continue;
+    }
+
+    const attributes = parseOptions(value(row.record, 'options'));
+    const [imageUrl] = splitList(row.record.images);
+    const validation = productVariantSchema.safeParse({
+      id: existing?.id,
+      sku: row.sku,
+      price: toNumber(row.record.price) ?? item.data.price,
+      stockQuantity: toInteger(row.record.stockQuantity),
+      imageUrl: imageUrl ?? null,
+      attributes: attributes ?? {},
+    });
+    if (!attributes || !validation.success) {
+      fail(
+        row,
+        [!attributes && 'Options must look like "Colour=Red|Size=M"', validation.error && formatIssues(validation.error.issues)]
+          .filter(Boolean)
+          .join('; ')
+      );
+      items.delete(parentSku);
+      continue;
+    }
+
+    const group = groups.get(parentSku) ?? { rows: [], variants: [] };
+    group.rows.push(row);
+    group.variants.push(validation.data);
+    groups.set(parentSku, group);
+  }
+
+  for (const [parentSku, group] of groups) {
+    const item = items.get(parentSku);
+    if (!item) continue;
+
+    const options: OptionDefinition[] = [];
+    for (const variant of group.variants) {
+      for (const [name, selected] of Object.entries(variant.attributes)) {
+        let option = options.find((entry) => entry.name === name);
+        if (!option) {
+          option = { name, values: [] };
+          options.push(option);
+        }
+        if (!option.values.includes(selected)) option.values.push(selected);
+      }
+    }
+
+    const validation = productVariantsSchema.safeParse({ options, variants: group.variants });
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        const [field, index] = issue.path;
+        const row = field === 'variants' && typeof index === 'number' ? group.rows[index] : undefined;
+        fail(row ?? { row: item.row, sku: item.sku }, issue.message);
+      }
+      items.delete(parentSku);
+      continue;
+    }
+    item.variants = validation.data;
+  }
+
+  return {
+    rows: records.length,
+    items: [...items.values()].sort((a, b) => a.row - b.row),
+    errors: errors.sort((a, b) => a.row - b.row),
+  };
+}
+
+/**
+ * Creates or updates the planned products, each in its own transaction so a large file is
+ * applied in steps rather than one long lock. Stock changes are logged as "CSV import".
+ */
+export async function applyProductImport(items: ProductImportItem[], userId: string): Promise<ProductImportResult> {
+  const result: ProductImportResult = { created: 0, updated: 0, variants: 0 };
+  const notes = 'CSV import';
+
+  for (const item of items) {
+    await prisma.$transaction(async (tx) => {
+      const tags = item.tags?.map((name) => ({ where: { name }, create: { name } }));
+      let productId: string;
+
+      if (item.existingId) {
+        productId = item.existingId;
+        await tx.product.update({
+          where: { id: productId },
+          data: { ...item.data, ...(tags ? { tags: { set: [], connectOrCreate: tags } } : {}) },
+        });
+        if (item.stockQuantity !== undefined) {
+          await setStock(tx, { productId, quantity: item.stockQuantity, userId, notes });
+        }
+      } else {
+        const product = await tx.product.create({
+          data: {
+            ...item.data,
+            sku: item.sku,
+            stockQuantity: 0,
+            ...(tags ? { tags: { connectOrCreate: tags } } : {}),
+          },
+        });
+        productId = product.id;
+        await changeStock(tx, {
+          productId,
+          quantity: item.stockQuantity ?? 0,
+          action: InventoryAction.INITIAL,
+          userId,
+          notes,
+        });
+      }
+
+      // Images are only replaced when the list actually changed
+      if (item.images) {
+        const current = await tx.productImage.findMany({
+          where: { productId },
+          orderBy: { position: 'asc' },
+          select: { url: true },
+        });
+        if (current.map((image) => image.url).join('\n') !== item.images.join('\n')) {
+          await tx.productImage.deleteMany({ where: { productId } });
+          await tx.productImage.createMany({
+            data: item.images.map((url, position) => ({ productId, url, position })),
+          });
+        }
+      }
+
+      if (item.variants) {
+        await saveProductVariants(tx, productId, item.variants, userId);
+        result.variants += item.variants.variants.length;
+      }
+    }, { timeout: TRANSACTION_TIMEOUT });
+
+    if (item.existingId) result.updated++;
+    else result.created++;
+  }
+
+  return result;
+}
@@ -0,0 +1,69 @@
+// Pure helpers for product option matrices, shared by the admin forms and the server
+
+export interface OptionDefinition {
+  name: string;
+  // In display order
+  values: string[];
+}
+
+// The value chosen for each option, keyed by option name, as stored on ProductVariant.attributes
+export type VariantAttributes = Record<string, string>;
+
+export const MAX_OPTIONS = 3;
+export const MAX_VARIANTS = 100;
+
+/**
+ * Every combination of the options' values, varying the last option fastest
+ * (Red/S, Red/M, Blue/S, Blue/M). No options gives no variants.
+ */
+export function buildVariantMatrix(options: OptionDefinition[]): VariantAttributes[] {
+  if (options.length === 0) return [];
+
+  return options.reduce<VariantAttributes[]>(
+    (combinations, option) =>
+      combinations.flatMap((attributes) => option.values.map((value) => ({ ...attributes, [option.name]: value }))),
+    [{}]
+  );
+}
+
+// Display name of a variant, e.g. "Red / M"
+export function variantName(options: OptionDefinition[], attributes: VariantAttributes): string {
+  return options.map((option) => attributes[option.name]).join(' / ');
+}
+
+// Identifies a combination regardless of the key order in the attributes object
+export function variantKey(options: OptionDefinition[], attributes: VariantAttributes): string {
+  return JSON.stringify(options.map((option) => attributes[option.name] ?? null));
+}
+
+/**
+ * Checks that a variant picks exactly one of the defined values for each option and nothing else.
+ * Returns a message describing the first problem, or null when the attributes are valid.
+ */
+export function validateVariantAttributes(
+  options: OptionDefinition[],
+  attributes: VariantAttributes
+): string | null {
+  for (const option of options) {
+    const value = attributes[option.name];
+    if (value === undefined) {
+      return `Missing a value for ${option.name}`;
+    }
+    if (!option.values.includes(value)) {
+      return `"${value}" is not one of the values of ${option.name}`;
+    }
+  }
+
+  const unknown = Object.keys(attributes).find((name) => !options.some((option) => option.name === name));
+  return unknown ? `${unknown} is not an option of this product` : null;
+}
+
+// Reads attributes stored as JSON, dropping anything that is not a string value
+export function toVariantAttributes(json: unknown): VariantAttributes {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return {};
+  return Object.fromEntries(
+    Object.entries(json as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    )
+  );
+}
@@ -0,0 +1,136 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { changeStock, InventoryAction, setStock } from '@/lib/inventory/stock';
+import { toVariantAttributes, variantName, type OptionDefinition } from '@/lib/products/variant-matrix';
+import type { ProductVariantsSchema } from '@/lib/validations/variant-schema';
+
+export class ProductVariantError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ProductVariantError';
+  }
+}
+
+const productOptionInclude = {
+  values: { orderBy: { position: 'asc' } },
+} satisfies Prisma.ProductOptionInclude;
+
+type ProductOptionWithValues = Prisma.ProductOptionGetPayload<{ include: typeof productOptionInclude }>;
+
+export const toOptionDefinitions = (options: ProductOptionWithValues[]): OptionDefinition[] =>
+  options.map((option) => ({ name: option.name, values: option.values.map((value) => value.value) }));
+
+/**
+ * A product's options with their values in display order, and its variants in matrix order.
+ */
+export async function getProductVariants(productId: string) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: {
+      id: true,
+      options: { orderBy: { position: 'asc' }, include: productOptionInclude },
+      variants: { orderBy: { createdAt: 'asc' } },
+      images: { orderBy: { position: 'asc' }, select: { id: true, url: true, alt: true } },
+    },
+  });
+  if (!product) return null;
+
+  const options = toOptionDefinitions(product.options);
+  const variants = product.variants.map((variant) => ({
+    ...variant,
+    attributes: toVariantAttributes(variant.attributes),
+  }));
+
+  // Follow the order of the option values rather than the order variants were added in
+  const rank = (attributes: Record<string, string>) =>
+    options.map((option) => option.values.indexOf(attributes[option.name]));
+  variants.sort((a, b) => {
+    const [rankA, rankB] = [rank(a.attributes), rank(b.attributes)];
+    const index = rankA.findIndex((value, i) => value !== rankB[i]);
+    return index === -1 ? 0 : rankA[index] - rankB[index];
+  });
+
+  return { productId: product.id, options, variants, images: product.images };
+}
+
+/**
+ * Replaces a product's options and brings its variants in line with the given matrix:
+ * variants with an id are updated, new ones created and missing ones removed. Attributes must
+ * already have been validated against the options (see productVariantsSchema). Opening stock
+ * and any new stock levels are logged like any other stock movement. Variants that have been ordered or purchased
+ * cannot be removed, since orders keep pointing at them.
+ */
+export async function saveProductVariants(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  input: ProductVariantsSchema,
+  userId?: string | null
+) {
+  const existing = await tx.productVariant.findMany({
+    where: { productId },
+    select: {
+      id: true,
+      name: true,
+      _count: { select: { orderItems: true, purchaseOrderItems: true } },
+    },
+  });
+  const existingIds = new Set(existing.map((variant) => variant.id));
+
+  if (input.variants.some((variant) => variant.id && !existingIds.has(variant.id))) {
+    throw new ProductVariantError('Variant not found', 404);
+  }
+
+  const keptIds = new Set(input.variants.map((variant) => variant.id));
+  const removed = existing.filter((variant) => !keptIds.has(variant.id));
+  const inUse = removed.find((variant) => variant._count.orderItems > 0 || variant._count.purchaseOrderItems > 0);
+  if (inUse) {
+    throw new ProductVariantError(
+      `"${inUse.name}" has already been ordered and cannot be removed. Set its stock to 0 instead.`,
+      409
+    );
+  }
+  if (removed.length > 0) {
+    const removedIds = removed.map((variant) => variant.id);
+    // Otherwise the cart lines would fall back to the product without a variant
+    await tx.cartItem.deleteMany({ where: { productVariantId: { in: removedIds } } });
+    await tx.productVariant.deleteMany({ where: { id: { in: removedIds } } });
+  }
+
+  await tx.productOption.deleteMany({ where: { productId } });
+  for (const [position, option] of input.options.entries()) {
+    await tx.productOption.create({
+      data: {
+        productId,
+        name: option.name,
+        position,
+        values: { create: option.values.map((value, index) => ({ value, position: index })) },
+      },
+    });
+  }
+
+  for (const variant of input.variants) {
+    const data = {
+      name: variantName(input.options, variant.attributes),
+      sku: variant.sku,
+      price: variant.price,
+      attributes: variant.attributes,
+      imageUrl: variant.imageUrl || null,
+    };
+
+    if (variant.id) {
+      await tx.productVariant.update({ where: { id: variant.id }, data });
+      if (variant.stockQuantity !== undefined) {
+        await setStock(tx, { productId, variantId: variant.id, quantity: variant.stockQuantity, userId });
+      }
+    } else {
+      const created = await tx.productVariant.create({ data: { ...data, productId, stockQuantity: 0 } });
+      await changeStock(tx, {
+        productId,
+        variantId: created.id,
+        quantity: variant.stockQuantity ?? 0,
+        action: InventoryAction.INITIAL,
+        userId,
+      });
+    }
+  }
+}
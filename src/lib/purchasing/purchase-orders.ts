@@ -0,0 +1,226 @@
+import { Prisma, PurchaseOrderStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { changeStock, InventoryAction } from '@/lib/inventory/stock';
+import { canTransitionPurchaseOrderStatus } from '@/lib/orders/status';
+import { generatePurchaseOrderNumber } from '@/lib/orders/utils';
+import type {
+  PurchaseOrderSchema,
+  ReceivePurchaseOrderSchema,
+} from '@/lib/validations/purchasing-schema';
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+export const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true, email: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+  items: {
+    orderBy: { createdAt: 'asc' },
+    include: {
+      product: { select: { id: true, title: true, sku: true } },
+      variant: { select: { id: true, name: true, sku: true } },
+    },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+function assertTransition(from: PurchaseOrderStatus, to: PurchaseOrderStatus) {
+  if (!canTransitionPurchaseOrderStatus(from, to)) {
+    throw new PurchaseOrderError(`Cannot change purchase order status from ${from} to ${to}`, 409);
+  }
+}
+
+// Every line must point at an existing product, and at one of its own variants if it names one
+async function assertItemsExist(tx: Prisma.TransactionClient, items: PurchaseOrderSchema['items']) {
+  const products = await tx.product.findMany({
+    where: { id: { in: items.map((item) => item.productId) } },
+    select: { id: true, variants: { select: { id: true } } },
+  });
+  const variantsByProduct = new Map(
+    products.map((product) => [product.id, product.variants.map((variant) => variant.id)])
+  );
+
+  for (const item of items) {
+    const variants = variantsByProduct.get(item.productId);
+    if (!variants) {
+      throw new PurchaseOrderError('Product not found', 404);
+    }
+    if (item.variantId && !variants.includes(item.variantId)) {
+      throw new PurchaseOrderError('Variant not found', 404);
+    }
+    if (!item.variantId && variants.length > 0) {
+      throw new PurchaseOrderError('Choose which variant to order for products that have variants');
+    }
+  }
+}
+
+async function assertActiveSupplier(tx: Prisma.TransactionClient, supplierId: string) {
+  const supplier = await tx.supplier.findUnique({ where: { id: supplierId } });
+  if (!supplier) {
+    throw new PurchaseOrderError('Supplier not found', 404);
+  }
+  if (!supplier.isActive) {
+    throw new PurchaseOrderError('This supplier is inactive');
+  }
+}
+
+const toItemData = (items: PurchaseOrderSchema['items']) =>
+  items.map((item) => ({
+    productId: item.productId,
+    variantId: item.variantId || null,
+    quantity: item.quantity,
+    unitCost: item.unitCost,
+  }));
+
+/**
+ * Drafts a purchase order for a supplier.
+ */
+export async function createPurchaseOrder(input: PurchaseOrderSchema, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    await assertActiveSupplier(tx, input.supplierId);
+    await assertItemsExist(tx, input.items);
+
+    return tx.purchaseOrder.create({
+      data: {
+        poNumber: generatePurchaseOrderNumber(),
+        supplierId: input.supplierId,
+        expectedAt: input.expectedAt ?? null,
+        notes: input.notes || null,
+        createdById: userId,
+        items: { create: toItemData(input.items) },
+      },
+      include: purchaseOrderInclude,
+    });
+  });
+}
+
+/**
+ * Edits a draft purchase order. Line items, when given, replace the existing ones.
+ * The expected date and notes can still be changed once the order has been sent.
+ */
+export async function updatePurchaseOrder(id: string, input: Partial<PurchaseOrderSchema>) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.purchaseOrder.findUnique({ where: { id } });
+    if (!order) {
+      throw new PurchaseOrderError('Purchase order not found', 404);
+    }
+
+    const changesContents = input.supplierId !== undefined || input.items !== undefined;
+    if (changesContents && order.status !== PurchaseOrderStatus.DRAFT) {
+      throw new PurchaseOrderError('Only draft purchase orders can change supplier or items', 409);
+    }
+
+    if (input.supplierId) await assertActiveSupplier(tx, input.supplierId);
+    if (input.items) {
+      await assertItemsExist(tx, input.items);
+      await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: id } });
+    }
+
+    return tx.purchaseOrder.update({
+      where: { id },
+      data: {
+        ...(input.supplierId && { supplierId: input.supplierId }),
+        ...(input.expectedAt !== undefined && { expectedAt: input.expectedAt }),
+        ...(input.notes !== undefined && { notes: input.notes || null }),
+        ...(input.items && { items: { create: toItemData(input.items) } }),
+      },
+      include: purchaseOrderInclude,
+    });
+  });
+}
+
+/**
+ * Marks a draft purchase order as sent to the supplier, or cancels one that has not been received yet.
+ */
+export async function setPurchaseOrderStatus(
+  id: string,
+  status: typeof PurchaseOrderStatus.SENT | typeof PurchaseOrderStatus.CANCELLED
+) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.purchaseOrder.findUnique({ where: { id } });
+    if (!order) {
+      throw new PurchaseOrderError('Purchase order not found', 404);
+    }
+    assertTransition(order.status, status);
+
+    return tx.purchaseOrder.update({
+      where: { id },
+      data: {
+        status,
+        ...(status === PurchaseOrderStatus.SENT && { sentAt: new Date() }),
+      },
+      include: purchaseOrderInclude,
+    });
+  });
+}
+
+/**
+ * Books goods delivered against a sent purchase order into stock, logging each line in the
+ * inventory log. Deliveries may arrive in parts; the order is RECEIVED once every line is complete.
+ */
+export async function receivePurchaseOrder(id: string, input: ReceivePurchaseOrderSchema, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.purchaseOrder.findUnique({
+      where: { id },
+      include: { items: { include: { product: { select: { title: true } } } } },
+    });
+    if (!order) {
+      throw new PurchaseOrderError('Purchase order not found', 404);
+    }
+    if (order.status !== PurchaseOrderStatus.SENT && order.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED) {
+      throw new PurchaseOrderError(`Cannot receive goods on a ${order.status.toLowerCase()} purchase order`, 409);
+    }
+
+    const received = new Map<string, number>();
+    for (const line of input.items) {
+      if (line.quantity === 0) continue;
+
+      const item = order.items.find((candidate) => candidate.id === line.id);
+      if (!item) {
+        throw new PurchaseOrderError('Purchase order item not found', 404);
+      }
+      const outstanding = item.quantity - item.receivedQuantity;
+      if (line.quantity > outstanding) {
+        throw new PurchaseOrderError(`Only ${outstanding} of "${item.product.title}" are still outstanding`);
+      }
+
+      // Guards against the same delivery being booked twice at once
+      const { count } = await tx.purchaseOrderItem.updateMany({
+        where: { id: item.id, receivedQuantity: item.receivedQuantity },
+        data: { receivedQuantity: { increment: line.quantity } },
+      });
+      if (count === 0) {
+        throw new PurchaseOrderError('This purchase order was updated by someone else. Please reload it.', 409);
+      }
+
+      await changeStock(tx, {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: line.quantity,
+        action: InventoryAction.PURCHASE,
+        userId,
+        notes: [`Received on ${order.poNumber}`, input.notes].filter(Boolean).join(': '),
+      });
+      received.set(item.id, line.quantity);
+    }
+
+    if (received.size === 0) {
+      throw new PurchaseOrderError('Enter a quantity for at least one item');
+    }
+
+    const complete = order.items.every(
+      (item) => item.receivedQuantity + (received.get(item.id) ?? 0) >= item.quantity
+    );
+    const status = complete ? PurchaseOrderStatus.RECEIVED : PurchaseOrderStatus.PARTIALLY_RECEIVED;
+    if (status !== order.status) assertTransition(order.status, status);
+
+    return tx.purchaseOrder.update({
+      where: { id },
+      data: { status, ...(complete && { receivedAt: new Date() }) },
+      include: purchaseOrderInclude,
+    });
+  });
+}
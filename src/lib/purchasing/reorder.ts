@@ -0,0 +1,149 @@
+import { OrderStatus, ProductStatus, PurchaseOrderStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+// Used for products that have never been bought from a supplier
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+export interface ReorderOptions {
+  // How many days of sales the velocity is measured over
+  days?: number;
+  // How many days of sales a reorder should cover once it arrives
+  coverDays?: number;
+  limit?: number;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  variantId: string | null;
+  title: string;
+  variantName: string | null;
+  sku: string;
+  stock: number;
+  // Still to arrive on sent purchase orders
+  incoming: number;
+  soldPerDay: number;
+  // How long current stock lasts at the current rate; null when nothing sold
+  daysOfStock: number | null;
+  leadTimeDays: number;
+  supplierId: string | null;
+  suggestedQuantity: number;
+}
+
+const stockKey = (productId: string, variantId: string | null) => `${productId}:${variantId ?? ''}`;
+
+/**
+ * Suggests what to reorder from recent sales velocity. A product or variant is due for
+ * reordering once its stock plus what is already on order would not last through its
+ * supplier's lead time, or has dropped to its low-stock threshold. The suggestion tops it up
+ * to cover the lead time plus `coverDays` of sales.
+ */
+export async function getReorderSuggestions({
+  days = 30,
+  coverDays = 30,
+  limit = 20,
+}: ReorderOptions = {}): Promise<ReorderSuggestion[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const [sales, products, openItems] = await Promise.all([
+    prisma.orderItem.groupBy({
+      by: ['productId', 'productVariantId'],
+      where: { order: { createdAt: { gte: since }, status: { not: OrderStatus.CANCELLED } } },
+      _sum: { quantity: true },
+    }),
+    prisma.product.findMany({
+      where: { status: { not: ProductStatus.ARCHIVED } },
+      select: {
+        id: true,
+        title: true,
+        sku: true,
+        stockQuantity: true,
+        lowStockThreshold: true,
+        variants: { select: { id: true, name: true, sku: true, stockQuantity: true } },
+      },
+    }),
+    prisma.purchaseOrderItem.findMany({
+      where: {
+        purchaseOrder: { status: { in: [PurchaseOrderStatus.SENT, PurchaseOrderStatus.PARTIALLY_RECEIVED] } },
+      },
+      select: { productId: true, variantId: true, quantity: true, receivedQuantity: true },
+    }),
+  ]);
+
+  const sold = new Map(
+    sales.map((row) => [stockKey(row.productId, row.productVariantId), row._sum.quantity ?? 0])
+  );
+  const incoming = new Map<string, number>();
+  for (const item of openItems) {
+    const key = stockKey(item.productId, item.variantId);
+    incoming.set(key, (incoming.get(key) ?? 0) + item.quantity - item.receivedQuantity);
+  }
+
+  const candidates: Omit<ReorderSuggestion, 'leadTimeDays' | 'supplierId' | 'suggestedQuantity'>[] = [];
+  const thresholds = new Map<string, number>();
+  for (const product of products) {
+    // Products with variants are stocked per variant
+    const units =
+      product.variants.length > 0
+        ? product.variants.map((variant) => ({
+            variantId: variant.id,
+            variantName: variant.name,
+            sku: variant.sku,
+            stock: variant.stockQuantity,
+          }))
+        : [{ variantId: null, variantName: null, sku: product.sku, stock: product.stockQuantity }];
+
+    for (const unit of units) {
+      const key = stockKey(product.id, unit.variantId);
+      const soldPerDay = (sold.get(key) ?? 0) / days;
+      candidates.push({
+        productId: product.id,
+        title: product.title,
+        ...unit,
+        incoming: incoming.get(key) ?? 0,
+        soldPerDay: Math.round(soldPerDay * 100) / 100,
+        daysOfStock: soldPerDay > 0 ? Math.floor(unit.stock / soldPerDay) : null,
+      });
+      thresholds.set(key, product.lowStockThreshold);
+    }
+  }
+
+  // The lead time of whoever supplied each product last
+  const lastPurchases = await prisma.purchaseOrderItem.findMany({
+    where: {
+      productId: { in: [...new Set(candidates.map((candidate) => candidate.productId))] },
+      purchaseOrder: { status: { not: PurchaseOrderStatus.CANCELLED } },
+    },
+    orderBy: { createdAt: 'desc' },
+    distinct: ['productId'],
+    select: { productId: true, purchaseOrder: { select: { supplier: { select: { id: true, leadTimeDays: true } } } } },
+  });
+  const suppliers = new Map(lastPurchases.map((item) => [item.productId, item.purchaseOrder.supplier]));
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const candidate of candidates) {
+    const key = stockKey(candidate.productId, candidate.variantId);
+    const supplier = suppliers.get(candidate.productId);
+    const leadTimeDays = supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+    const rate = (sold.get(key) ?? 0) / days;
+
+    const available = candidate.stock + candidate.incoming;
+    const reorderPoint = Math.max(thresholds.get(key) ?? 0, Math.ceil(rate * leadTimeDays));
+    if (available > reorderPoint) continue;
+
+    const target = Math.max(Math.ceil(rate * (leadTimeDays + coverDays)), reorderPoint + 1);
+    suggestions.push({
+      ...candidate,
+      leadTimeDays,
+      supplierId: supplier?.id ?? null,
+      suggestedQuantity: target - available,
+    });
+  }
+
+  // Whatever runs out first comes first; unsold items go last
+  return suggestions
+    .sort(
+      (a, b) =>
+        (a.daysOfStock ?? Infinity) - (b.daysOfStock ?? Infinity) || b.suggestedQuantity - a.suggestedQuantity
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,411 @@
+import { BalanceTransactionType, OrderStatus, PaymentStatus, Prisma, ReturnStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { releaseDiscountRedemptions } from '@/lib/discounts/redemptions';
+import { changeStock, InventoryAction } from '@/lib/inventory/stock';
+import { itemDiscountShares, roundCurrency } from '@/lib/orders/pricing';
+import { canTransitionOrderStatus, canTransitionPaymentStatus, canTransitionReturnStatus } from '@/lib/orders/status';
+import { generateReturnNumber } from '@/lib/orders/utils';
+import { refundPayment } from '@/lib/payments/service';
+import { changeStoreCredit } from '@/lib/stored-value/ledger';
+import { gatewayRefundable } from '@/lib/stored-value/payments';
+
+export class ReturnError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ReturnError';
+  }
+}
+
+export interface ReturnRequestInput {
+  reason: string;
+  notes?: string | null;
+  items: { orderItemId: string; quantity: number }[];
+}
+
+export interface ReceiveReturnInput {
+  // Items left out are restocked
+  items?: { id: string; restock: boolean }[];
+  adminNotes?: string | null;
+}
+
+export interface RefundReturnInput {
+  // Items left out are refunded in full
+  items?: { id: string; refundAmount: number }[];
+  // ORIGINAL refunds through the gateway as far as it charged the order and pays the rest, which
+  // came from a gift card or store credit, as store credit; STORE_CREDIT pays it all as store credit
+  refundTo?: 'ORIGINAL' | 'STORE_CREDIT';
+  adminNotes?: string | null;
+}
+
+export const returnInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      total: true,
+      refundedAmount: true,
+      giftCardAmount: true,
+      storeCreditAmount: true,
+      paymentMethod: true,
+      paymentStatus: true,
+    },
+  },
+  user: { select: { id: true, firstName: true, lastName: true, email: true } },
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          id: true,
+          quantity: true,
+          price: true,
+          product: { select: { id: true, title: true, sku: true } },
+          variant: { select: { id: true, name: true, sku: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ReturnRequestInclude;
+
+// Returns that still hold on to their items; rejected ones free them up again
+const OPEN_RETURN_STATUSES: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.RECEIVED,
+  ReturnStatus.REFUNDING,
+  ReturnStatus.REFUNDED,
+];
+
+export const openReturnItemsInclude = {
+  returnItems: { where: { returnRequest: { status: { in: OPEN_RETURN_STATUSES } } } },
+} satisfies Prisma.OrderItemInclude;
+
+type ReturnableItem = Prisma.OrderItemGetPayload<{ include: typeof openReturnItemsInclude }>;
+
+// Units of an order item that are not already part of a return
+export function returnableQuantity(item: ReturnableItem): number {
+  return item.quantity - item.returnItems.reduce((sum, line) => sum + line.quantity, 0);
+}
+
+type OrderWithItems = Prisma.OrderGetPayload<{ include: { items: true } }>;
+
+/**
+ * The most that can be refunded for each unit of every order item: what the customer
+ * actually paid for it, i.e. its price less its share of the order discount plus its tax.
+ * Shipping is not included.
+ */
+export function refundableUnitPrices(order: OrderWithItems): Map<string, number> {
+  const shares = itemDiscountShares(order);
+
+  return new Map(
+    order.items.map((item, index) => [item.id, (item.total - shares[index] + item.tax) / item.quantity])
+  );
+}
+
+async function loadReturn(tx: Prisma.TransactionClient, id: string) {
+  const returnRequest = await tx.returnRequest.findUnique({
+    where: { id },
+    include: { items: { include: { orderItem: true } } },
+  });
+  if (!returnRequest) {
+    throw new ReturnError('Return request not found', 404);
+  }
+  return returnRequest;
+}
+
+function assertTransition(from: ReturnStatus, to: ReturnStatus) {
+  if (!canTransitionReturnStatus(from, to)) {
+    throw new ReturnError(`Cannot change return status from ${from} to ${to}`, 409);
+  }
+}
+
+/**
+ * Opens a return for items from one of the customer's delivered orders.
+ * Items already in another open return cannot be returned twice.
+ */
+export async function createReturnRequest(userId: string, orderId: string, input: ReturnRequestInput) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findFirst({
+      where: { id: orderId, userId },
+      include: { items: { include: openReturnItemsInclude } },
+    });
+    if (!order) {
+      throw new ReturnError('Order not found', 404);
+    }
+    if (order.status !== OrderStatus.DELIVERED) {
+      throw new ReturnError('Only delivered orders can be returned', 409);
+    }
+
+    const quantities = new Map<string, number>();
+    for (const item of input.items) {
+      quantities.set(item.orderItemId, (quantities.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+
+    for (const [orderItemId, quantity] of quantities) {
+      const item = order.items.find((line) => line.id === orderItemId);
+      if (!item) {
+        throw new ReturnError('Item does not belong to this order');
+      }
+      const returnable = returnableQuantity(item);
+      if (quantity > returnable) {
+        throw new ReturnError(`Only ${returnable} of this item can be returned`, 409);
+      }
+    }
+
+    return tx.returnRequest.create({
+      data: {
+        rmaNumber: generateReturnNumber(),
+        orderId: order.id,
+        userId,
+        reason: input.reason,
+        customerNotes: input.notes || null,
+        items: {
+          create: Array.from(quantities, ([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        },
+      },
+      include: returnInclude,
+    });
+  });
+}
+
+/**
+ * Approves or rejects a return request.
+ */
+export async function reviewReturn(
+  id: string,
+  status: typeof ReturnStatus.APPROVED | typeof ReturnStatus.REJECTED,
+  adminNotes?: string | null
+) {
+  return prisma.$transaction(async (tx) => {
+    const returnRequest = await loadReturn(tx, id);
+    assertTransition(returnRequest.status, status);
+
+    return tx.returnRequest.update({
+      where: { id },
+      data: {
+        status,
+        ...(status === ReturnStatus.APPROVED && { approvedAt: new Date() }),
+        ...(adminNotes !== undefined && { adminNotes }),
+      },
+      include: returnInclude,
+    });
+  });
+}
+
+/**
+ * Records that the returned goods arrived and puts the restockable ones back into stock,
+ * logging each movement in the inventory log.
+ */
+export async function receiveReturn(id: string, input: ReceiveReturnInput = {}, userId?: string) {
+  return prisma.$transaction(async (tx) => {
+    const returnRequest = await loadReturn(tx, id);
+    assertTransition(returnRequest.status, ReturnStatus.RECEIVED);
+
+    for (const item of returnRequest.items) {
+      const restock = input.items?.find((line) => line.id === item.id)?.restock ?? true;
+
+      if (restock) {
+        await changeStock(tx, {
+          productId: item.orderItem.productId,
+          variantId: item.orderItem.productVariantId,
+          quantity: item.quantity,
+          action: InventoryAction.RETURN,
+          userId,
+          notes: `Returned under ${returnRequest.rmaNumber}`,
+        });
+      }
+
+      if (restock !== item.restock) {
+        await tx.returnItem.update({ where: { id: item.id }, data: { restock } });
+      }
+    }
+
+    return tx.returnRequest.update({
+      where: { id },
+      data: {
+        status: ReturnStatus.RECEIVED,
+        receivedAt: new Date(),
+        ...(input.adminNotes !== undefined && { adminNotes: input.adminNotes }),
+      },
+      include: returnInclude,
+    });
+  });
+}
+
+/**
+ * Refunds a received return through the order's payment gateway, or as store credit.
+ * Each line can be refunded partly; by default it gets back what was paid for it.
+ * What the gateway did not charge, because a gift card or store credit paid for it, always goes
+ * back as store credit.
+ * The return is claimed and its amount set aside on the order before any money moves, so two
+ * refunds racing each other can neither pay out the same return twice nor refund more than was paid.
+ * A return left REFUNDING after the gateway refunded it is finished off when this is called again,
+ * without refunding it a second time.
+ * Once everything paid has been refunded the order and its payment are marked REFUNDED and the
+ * use of its discount code is given back.
+ */
+export async function refundReturn(id: string, input: RefundReturnInput = {}, userId?: string) {
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id },
+    include: { items: true, order: { include: { items: true } } },
+  });
+  if (!returnRequest) {
+    throw new ReturnError('Return request not found', 404);
+  }
+  const { order } = returnRequest;
+
+  if (returnRequest.status === ReturnStatus.REFUNDING) {
+    // Without a reference the gateway refund is still under way, or its outcome is unknown
+    if (!returnRequest.refundReference && returnRequest.storeCreditRefund < returnRequest.refundAmount) {
+      throw new ReturnError('This return is already being refunded', 409);
+    }
+    return completeRefund(returnRequest, input.adminNotes, userId);
+  }
+  assertTransition(returnRequest.status, ReturnStatus.REFUNDING);
+
+  if (order.paymentStatus !== PaymentStatus.PAID) {
+    throw new ReturnError('Only paid orders can be refunded', 409);
+  }
+
+  const unitPrices = refundableUnitPrices(order);
+  const lines = returnRequest.items.map((item) => {
+    const max = roundCurrency((unitPrices.get(item.orderItemId) ?? 0) * item.quantity);
+    const requested = input.items?.find((line) => line.id === item.id)?.refundAmount;
+    if (requested !== undefined && (requested < 0 || requested > max)) {
+      throw new ReturnError(`Refund for a line must be between 0 and ${max}`);
+    }
+    return { id: item.id, refundAmount: roundCurrency(requested ?? max) };
+  });
+  const amount = roundCurrency(lines.reduce((sum, line) => sum + line.refundAmount, 0));
+
+  const toGateway = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.returnRequest.updateMany({
+      where: { id, status: ReturnStatus.RECEIVED },
+      data: { status: ReturnStatus.REFUNDING },
+    });
+    if (claimed.count === 0) {
+      throw new ReturnError('This return is already being refunded', 409);
+    }
+
+    // The check and the increment happen in one statement, so concurrent refunds of other
+    // returns on the order are counted too. The allowance absorbs float drift in the stored sum.
+    const reserved = await tx.order.updateMany({
+      where: { id: order.id, refundedAmount: { lte: roundCurrency(order.total - amount) + 0.001 } },
+      data: { refundedAmount: { increment: amount } },
+    });
+    if (reserved.count === 0) {
+      const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+      throw new ReturnError(
+        `Only ${roundCurrency(current.total - current.refundedAmount)} of this order is left to refund`,
+        409
+      );
+    }
+
+    let toGateway = 0;
+    if (input.refundTo !== 'STORE_CREDIT') {
+      const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+      const refundable = await gatewayRefundable(tx, { ...current, refundedAmount: current.refundedAmount - amount });
+      toGateway = Math.min(amount, refundable);
+    }
+
+    // The split is kept on the return so the refund can be finished off from it later
+    await tx.returnRequest.update({
+      where: { id },
+      data: { refundAmount: amount, storeCreditRefund: roundCurrency(amount - toGateway) },
+    });
+    for (const line of lines) {
+      await tx.returnItem.update({ where: { id: line.id }, data: { refundAmount: line.refundAmount } });
+    }
+    return toGateway;
+  });
+
+  if (toGateway > 0) {
+    const result = await refundPayment(order, toGateway).catch(async (error) => {
+      await releaseRefundClaim(id, order.id, amount);
+      throw error;
+    });
+    if (!result || result.status === 'FAILED') {
+      await releaseRefundClaim(id, order.id, amount);
+      throw result
+        ? new ReturnError('The payment gateway declined the refund', 502)
+        : new ReturnError('The payment gateway for this order is not available', 409);
+    }
+    // A PENDING refund has been accepted by the gateway and settles on its own. The reference is
+    // saved on its own, so whatever happens next the money is never sent back twice.
+    await prisma.returnRequest.update({ where: { id }, data: { refundReference: result.reference } });
+  }
+
+  return completeRefund(returnRequest, input.adminNotes, userId);
+}
+
+/**
+ * Books a claimed refund once no money has to move through the gateway any more: issues its
+ * store credit, marks it REFUNDED and settles the order when everything paid is back. Only the
+ * call that moves the return out of REFUNDING does this, so running it twice is harmless.
+ */
+async function completeRefund(
+  returnRequest: { id: string; rmaNumber: string; order: { id: string; userId: string } },
+  adminNotes: string | null | undefined,
+  userId?: string
+) {
+  const { id, order } = returnRequest;
+
+  return prisma.$transaction(async (tx) => {
+    const completed = await tx.returnRequest.updateMany({
+      where: { id, status: ReturnStatus.REFUNDING },
+      data: {
+        status: ReturnStatus.REFUNDED,
+        refundedAt: new Date(),
+        ...(adminNotes !== undefined && { adminNotes }),
+      },
+    });
+
+    if (completed.count > 0) {
+      const { storeCreditRefund } = await tx.returnRequest.findUniqueOrThrow({ where: { id } });
+      if (storeCreditRefund > 0) {
+        // Only a concurrent change to the balance can stop a credit, and each attempt reads the
+        // balance that change left, so it is tried until it goes through
+        let balance: number | null = null;
+        while (balance === null) {
+          balance = await changeStoreCredit(tx, order.userId, {
+            type: BalanceTransactionType.REFUND,
+            amount: storeCreditRefund,
+            orderId: order.id,
+            createdById: userId,
+            note: `Refund for return ${returnRequest.rmaNumber}`,
+          });
+        }
+      }
+
+      // refundedAmount itself is only ever moved by increments, so it is read here and not written
+      const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+      if (roundCurrency(current.refundedAmount) >= roundCurrency(current.total)) {
+        await tx.order.update({
+          where: { id: order.id },
+          data: {
+            ...(canTransitionPaymentStatus(current.paymentStatus, PaymentStatus.REFUNDED) && {
+              paymentStatus: PaymentStatus.REFUNDED,
+            }),
+            ...(canTransitionOrderStatus(current.status, OrderStatus.REFUNDED) && { status: OrderStatus.REFUNDED }),
+          },
+        });
+        await releaseDiscountRedemptions(tx, order.id);
+      }
+    }
+
+    return tx.returnRequest.findUniqueOrThrow({ where: { id }, include: returnInclude });
+  });
+}
+
+// Hands a return back to RECEIVED, with the amount it had set aside, when the gateway refund fails
+async function releaseRefundClaim(id: string, orderId: string, amount: number) {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.returnRequest.updateMany({
+      where: { id, status: ReturnStatus.REFUNDING },
+      data: { status: ReturnStatus.RECEIVED, refundAmount: 0, storeCreditRefund: 0 },
+    });
+    if (count > 0) {
+      await tx.returnItem.updateMany({ where: { returnRequestId: id }, data: { refundAmount: 0 } });
+      await tx.order.update({ where: { id: orderId }, data: { refundedAmount: { decrement: amount } } });
+    }
+  });
+}
@@ -0,0 +1,151 @@
+import { OrderStatus, Prisma, ReviewStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export class ReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export interface ReviewInput {
+  rating: number;
+  comment?: string | null;
+}
+
+export const reviewInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, email: true } },
+  product: { select: { id: true, title: true, sku: true } },
+} satisfies Prisma.ReviewInclude;
+
+// What shoppers get to see of a review: no email or moderation details
+export const publicReviewSelect = {
+  id: true,
+  rating: true,
+  comment: true,
+  createdAt: true,
+  user: { select: { firstName: true, lastName: true } },
+  product: { select: { id: true, title: true } },
+} satisfies Prisma.ReviewSelect;
+
+/**
+ * Whether the customer has received the product on one of their orders.
+ * Only verified purchasers may review a product.
+ */
+export async function hasPurchased(tx: Prisma.TransactionClient, userId: string, productId: string) {
+  const item = await tx.orderItem.findFirst({
+    where: { productId, order: { userId, status: OrderStatus.DELIVERED } },
+    select: { id: true },
+  });
+  return item !== null;
+}
+
+/**
+ * Recalculates a product's rating and review count from its approved reviews.
+ * The rating is the average rounded to one decimal place, or 0 with no reviews.
+ */
+export async function recomputeProductRating(tx: Prisma.TransactionClient, productId: string) {
+  const { _avg, _count } = await tx.review.aggregate({
+    where: { productId, status: ReviewStatus.APPROVED },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  return tx.product.update({
+    where: { id: productId },
+    data: {
+      rating: Math.round((_avg.rating ?? 0) * 10) / 10,
+      reviewCount: _count._all,
+    },
+    select: { id: true, rating: true, reviewCount: true },
+  });
+}
+
+/**
+ * Records the customer's review of a product they have received.
+ * A customer has one review per product; submitting again replaces it and sends it
+ * back to the moderation queue.
+ */
+export async function submitReview(userId: string, productId: string, input: ReviewInput) {
+  return prisma.$transaction(async (tx) => {
+    const product = await tx.product.findUnique({ where: { id: productId }, select: { id: true } });
+    if (!product) {
+      throw new ReviewError('Product not found', 404);
+    }
+    if (!(await hasPurchased(tx, userId, productId))) {
+      throw new ReviewError('Only customers who have received this product can review it', 403);
+    }
+
+    const data = { rating: input.rating, comment: input.comment || null, status: ReviewStatus.PENDING };
+    const review = await tx.review.upsert({
+      where: { userId_productId: { userId, productId } },
+      create: { userId, productId, ...data },
+      update: data,
+    });
+
+    // An edited review leaves the approved set until it is looked at again
+    await recomputeProductRating(tx, productId);
+
+    return review;
+  });
+}
+
+/**
+ * Approves or rejects a batch of reviews and refreshes the ratings of the products they belong to.
+ */
+export async function moderateReviews(
+  ids: string[],
+  status: typeof ReviewStatus.APPROVED | typeof ReviewStatus.REJECTED
+) {
+  return prisma.$transaction(async (tx) => {
+    const reviews = await tx.review.findMany({ where: { id: { in: ids } }, select: { productId: true } });
+    if (reviews.length === 0) {
+      throw new ReviewError('No matching reviews found', 404);
+    }
+
+    const { count } = await tx.review.updateMany({ where: { id: { in: ids } }, data: { status } });
+
+    for (const productId of new Set(reviews.map((review) => review.productId))) {
+      await recomputeProductRating(tx, productId);
+    }
+
+    return { count };
+  });
+}
+
+/**
+ * Deletes a review and refreshes its product's rating.
+ */
+export async function deleteReview(id: string) {
+  return prisma.$transaction(async (tx) => {
+    const review = await tx.review.findUnique({ where: { id } });
+    if (!review) {
+      throw new ReviewError('Review not found', 404);
+    }
+
+    await tx.review.delete({ where: { id } });
+    await recomputeProductRating(tx, review.productId);
+  });
+}
+
+export interface FeaturedReviewOptions {
+  sku?: string | null;
+  minRating?: number;
+  limit?: number;
+}
+
+/**
+ * The latest approved reviews, optionally of a single product, for showcasing on content pages.
+ */
+export async function getFeaturedReviews({ sku, minRating = 1, limit = 3 }: FeaturedReviewOptions = {}) {
+  return prisma.review.findMany({
+    where: {
+      status: ReviewStatus.APPROVED,
+      rating: { gte: minRating },
+      ...(sku && { product: { sku } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(Math.max(limit, 1), 12),
+    select: publicReviewSelect,
+  });
+}
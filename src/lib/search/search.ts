@@ -0,0 +1,131 @@
+import { prisma } from '@/lib/db';
+
+export const SEARCH_TYPES = ['products', 'services', 'posts'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+// Longer queries add little and make every term a prefix scan
+const MAX_TERMS = 8;
+
+// ts_headline wraps matches in these; control characters cannot clash with the text itself
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+interface SearchResultBase {
+  id: string;
+  title: string;
+  // HTML-escaped text with the matching words wrapped in <mark>
+  snippet: string;
+  rank: number;
+  image: string | null;
+}
+
+export type SearchResult =
+  | (SearchResultBase & { type: 'product'; sku: string; price: number })
+  | (SearchResultBase & { type: 'service'; slug: string })
+  | (SearchResultBase & { type: 'post'; slug: string; publishedAt: Date | null });
+
+export interface SearchOptions {
+  types?: readonly SearchType[];
+  limit?: number;
+}
+
+/**
+ * Turns what the user typed into a tsquery where every word has to match as a prefix, so
+ * "leath bag" finds "Leather Bags" while it is still being typed. Returns null when nothing
+ * searchable is left.
+ */
+export function toPrefixQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.slice(0, MAX_TERMS) ?? [];
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(' & ') : null;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function highlight(headline: string | null): string {
+  return escapeHtml(headline ?? '')
+    .split(MATCH_START)
+    .join('<mark>')
+    .split(MATCH_END)
+    .join('</mark>');
+}
+
+type RawResult<T> = Omit<T, 'snippet' | 'type'> & { snippet: string | null };
+
+// Headlines are only worked out for the rows that make the cut, since they are the costly part
+function searchProducts(query: string, limit: number) {
+  return prisma.$queryRaw<RawResult<Extract<SearchResult, { type: 'product' }>>[]>`
+    SELECT r."id", r."title", r."sku", r."price", r."image", r."rank",
+      ts_headline('english', r."text", to_tsquery('english', ${query}), ${HEADLINE_OPTIONS}) AS "snippet"
+    FROM (
+      SELECT p."id", p."title", p."sku", p."price",
+        coalesce(nullif(p."shortDescription", ''), p."description") AS "text",
+        (SELECT i."url" FROM "ProductImage" i WHERE i."productId" = p."id" ORDER BY i."position" LIMIT 1) AS "image",
+        ts_rank(p."searchVector", to_tsquery('english', ${query})) AS "rank"
+      FROM "Product" p
+      WHERE p."status" = 'PUBLISHED' AND p."searchVector" @@ to_tsquery('english', ${query})
+      ORDER BY "rank" DESC, p."title" ASC
+      LIMIT ${limit}
+    ) r
+    ORDER BY r."rank" DESC, r."title" ASC
+  `;
+}
+
+function searchServices(query: string, limit: number) {
+  return prisma.$queryRaw<RawResult<Extract<SearchResult, { type: 'service' }>>[]>`
+    SELECT r."id", r."title", r."slug", r."image", r."rank",
+      ts_headline('english', r."text", to_tsquery('english', ${query}), ${HEADLINE_OPTIONS}) AS "snippet"
+    FROM (
+      SELECT s."id", s."name" AS "title", s."slug", s."image", coalesce(s."description", '') AS "text",
+        ts_rank(s."searchVector", to_tsquery('english', ${query})) AS "rank"
+      FROM "Service" s
+      WHERE s."isActive" AND s."searchVector" @@ to_tsquery('english', ${query})
+      ORDER BY "rank" DESC, s."name" ASC
+      LIMIT ${limit}
+    ) r
+    ORDER BY r."rank" DESC, r."title" ASC
+  `;
+}
+
+// The excerpt makes the better snippet; posts without one fall back to their text (see tiptap_text in the migration)
+function searchPosts(query: string, limit: number) {
+  return prisma.$queryRaw<RawResult<Extract<SearchResult, { type: 'post' }>>[]>`
+    SELECT r."id", r."title", r."slug", r."image", r."publishedAt", r."rank",
+      ts_headline('english', coalesce(nullif(r."excerpt", ''), tiptap_text(r."content")), to_tsquery('english', ${query}), ${HEADLINE_OPTIONS}) AS "snippet"
+    FROM (
+      SELECT b."id", b."title", b."slug", b."featuredImage" AS "image", b."publishedAt", b."excerpt", b."content",
+        ts_rank(b."searchVector", to_tsquery('english', ${query})) AS "rank"
+      FROM "BlogPost" b
+      WHERE b."status" = 'PUBLISHED' AND b."searchVector" @@ to_tsquery('english', ${query})
+      ORDER BY "rank" DESC, b."publishedAt" DESC NULLS LAST
+      LIMIT ${limit}
+    ) r
+    ORDER BY r."rank" DESC, r."publishedAt" DESC NULLS LAST
+  `;
+}
+
+/**
+ * Searches published products, active services and published blog posts with Postgres full-text
+ * search and returns them as one list, best match first. Fields are weighted when the search
+ * vectors are built: a match in a title ranks above one in the tags or excerpt, which ranks above
+ * one in the description or body text.
+ */
+export async function search(input: string, { types = SEARCH_TYPES, limit = 10 }: SearchOptions = {}) {
+  const query = toPrefixQuery(input);
+  if (!query) return [];
+
+  const [products, services, posts] = await Promise.all([
+    types.includes('products') ? searchProducts(query, limit) : [],
+    types.includes('services') ? searchServices(query, limit) : [],
+    types.includes('posts') ? searchPosts(query, limit) : [],
+  ]);
+
+  const results: SearchResult[] = [
+    ...products.map((row) => ({ ...row, type: 'product' as const, snippet: highlight(row.snippet) })),
+    ...services.map((row) => ({ ...row, type: 'service' as const, snippet: highlight(row.snippet) })),
+    ...posts.map((row) => ({ ...row, type: 'post' as const, snippet: highlight(row.snippet) })),
+  ];
+
+  return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
@@ -0,0 +1,14 @@
+import type { z } from 'zod';
+import type { flatRateConfigSchema } from '@/lib/validations/shipping-schema';
+import { ShippingRateProviderFactory } from '../types';
+
+/**
+ * The same delivery charge for every order.
+ */
+export const createFlatRateProvider: ShippingRateProviderFactory<z.infer<typeof flatRateConfigSchema>> = (config) => ({
+  key: 'flat',
+
+  quote() {
+    return { cost: config.cost, estimatedDelivery: config.estimatedDelivery };
+  },
+});
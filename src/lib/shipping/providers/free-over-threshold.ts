@@ -0,0 +1,17 @@
+import type { z } from 'zod';
+import type { freeOverThresholdConfigSchema } from '@/lib/validations/shipping-schema';
+import { ShippingRateProviderFactory } from '../types';
+
+/**
+ * Free delivery, offered only once the order value reaches the threshold.
+ */
+export const createFreeOverThresholdProvider: ShippingRateProviderFactory<
+  z.infer<typeof freeOverThresholdConfigSchema>
+> = (config) => ({
+  key: 'free_over_threshold',
+
+  quote(pkg) {
+    if (pkg.value < config.threshold) return null;
+    return { cost: 0, estimatedDelivery: config.estimatedDelivery };
+  },
+});
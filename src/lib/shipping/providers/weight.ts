@@ -0,0 +1,22 @@
+import type { z } from 'zod';
+import type { weightRateConfigSchema } from '@/lib/validations/shipping-schema';
+import { roundCurrency } from '@/lib/orders/pricing';
+import { ShippingRateProviderFactory } from '../types';
+import { packageWeight } from '../utils';
+
+/**
+ * A base charge plus a charge for every started kilogram of Product.weight.
+ */
+export const createWeightRateProvider: ShippingRateProviderFactory<z.infer<typeof weightRateConfigSchema>> = (
+  config
+) => ({
+  key: 'weight',
+
+  quote(pkg) {
+    const weight = Math.ceil(packageWeight(pkg, config.defaultWeight));
+    return {
+      cost: roundCurrency(config.baseCost + weight * config.costPerKg),
+      estimatedDelivery: config.estimatedDelivery,
+    };
+  },
+});
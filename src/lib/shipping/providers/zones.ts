@@ -0,0 +1,37 @@
+import type { z } from 'zod';
+import type { ShippingZone, zoneRateConfigSchema } from '@/lib/validations/shipping-schema';
+import { roundCurrency } from '@/lib/orders/pricing';
+import { ShippingDestination, ShippingRateProviderFactory } from '../types';
+import { normaliseRegion, packageWeight } from '../utils';
+
+function zoneMatches(zone: ShippingZone, destination: ShippingDestination) {
+  const country = normaliseRegion(destination.country);
+  const inCountry = zone.countries.some((entry) => entry === '*' || normaliseRegion(entry) === country);
+  if (!inCountry) return false;
+
+  if (!zone.states?.length) return true;
+  const state = normaliseRegion(destination.state);
+  return zone.states.some((entry) => normaliseRegion(entry) === state);
+}
+
+/**
+ * Per-country zones, each with its own charge and optional per-kg rate.
+ * Zones are checked in order and the first match wins, so a catch-all "*" zone belongs last.
+ */
+export const createZoneRateProvider: ShippingRateProviderFactory<z.infer<typeof zoneRateConfigSchema>> = (
+  config
+) => ({
+  key: 'zones',
+
+  quote(pkg, destination) {
+    const zone = config.zones.find((candidate) => zoneMatches(candidate, destination));
+    if (!zone) return null;
+
+    const weight = Math.ceil(packageWeight(pkg, config.defaultWeight));
+    return {
+      cost: roundCurrency(zone.cost + weight * (zone.costPerKg ?? 0)),
+      estimatedDelivery: config.estimatedDelivery,
+      label: zone.name,
+    };
+  },
+});
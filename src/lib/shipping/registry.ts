@@ -0,0 +1,50 @@
+import { Prisma, ShippingProvider } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { shippingConfigSchema, ShippingConfig } from '@/lib/validations/shipping-schema';
+import { ShippingRateProvider } from './types';
+import { createFlatRateProvider } from './providers/flat';
+import { createWeightRateProvider } from './providers/weight';
+import { createFreeOverThresholdProvider } from './providers/free-over-threshold';
+import { createZoneRateProvider } from './providers/zones';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface ActiveShippingProvider {
+  id: string;
+  name: string;
+  provider: ShippingRateProvider;
+}
+
+// configSettings.type picks the implementation. Add new rule types here.
+function createProvider(config: ShippingConfig): ShippingRateProvider {
+  switch (config.type) {
+    case 'flat':
+      return createFlatRateProvider(config);
+    case 'weight':
+      return createWeightRateProvider(config);
+    case 'free_over_threshold':
+      return createFreeOverThresholdProvider(config);
+    case 'zones':
+      return createZoneRateProvider(config);
+  }
+}
+
+function buildProvider(shippingProvider: ShippingProvider): ActiveShippingProvider | null {
+  const config = shippingConfigSchema.safeParse(shippingProvider.configSettings);
+  if (!config.success) {
+    console.warn(`Invalid configuration for shipping provider "${shippingProvider.name}"`);
+    return null;
+  }
+  return { id: shippingProvider.id, name: shippingProvider.name, provider: createProvider(config.data) };
+}
+
+/**
+ * Loads every active ShippingProvider with a valid configuration.
+ */
+export async function getActiveShippingProviders(db: DbClient = prisma): Promise<ActiveShippingProvider[]> {
+  const providers = await db.shippingProvider.findMany({
+    where: { isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return providers.map(buildProvider).filter((provider): provider is ActiveShippingProvider => provider !== null);
+}
@@ -0,0 +1,33 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getActiveShippingProviders } from './registry';
+import { ShippingDestination, ShippingOption, ShippingPackage } from './types';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Asks every active provider to price the package and returns the options
+ * that deliver to the destination, cheapest first.
+ */
+export async function getShippingOptions(
+  pkg: ShippingPackage,
+  destination: ShippingDestination,
+  db: DbClient = prisma
+): Promise<ShippingOption[]> {
+  const providers = await getActiveShippingProviders(db);
+
+  const options: ShippingOption[] = [];
+  for (const { id, name, provider } of providers) {
+    const rate = provider.quote(pkg, destination);
+    if (!rate) continue;
+
+    options.push({
+      id,
+      name: rate.label ? `${name} (${rate.label})` : name,
+      cost: rate.cost,
+      estimatedDelivery: rate.estimatedDelivery,
+    });
+  }
+
+  return options.sort((a, b) => a.cost - b.cost);
+}
@@ -0,0 +1,45 @@
+import type { ShippingConfig } from '@/lib/validations/shipping-schema';
+
+export interface ShippingDestination {
+  country: string;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+export interface ShippingPackageLine {
+  quantity: number;
+  // Kilograms per unit, null when the product has no weight set
+  weight: number | null;
+}
+
+// What a provider needs to know about the cart to price delivery
+export interface ShippingPackage {
+  // Order value after discounts, used for free shipping thresholds
+  value: number;
+  lines: ShippingPackageLine[];
+}
+
+export interface ShippingRate {
+  cost: number;
+  estimatedDelivery?: string;
+  // Shown after the method name, e.g. the matched zone
+  label?: string;
+}
+
+export interface ShippingRateProvider {
+  key: ShippingConfig['type'];
+  // Returns null when the provider does not deliver this package to the destination
+  quote(pkg: ShippingPackage, destination: ShippingDestination): ShippingRate | null;
+}
+
+export type ShippingRateProviderFactory<T extends ShippingConfig = ShippingConfig> = (
+  config: T
+) => ShippingRateProvider;
+
+// One way the customer can choose to have an order delivered
+export interface ShippingOption {
+  id: string;
+  name: string;
+  cost: number;
+  estimatedDelivery?: string;
+}
@@ -0,0 +1,8 @@
+import type { ShippingPackage } from './types';
+
+// Total package weight in kg, counting products without a weight as fallbackWeight each
+export function packageWeight(pkg: ShippingPackage, fallbackWeight = 0): number {
+  return pkg.lines.reduce((sum, line) => sum + (line.weight ?? fallbackWeight) * line.quantity, 0);
+}
+
+export const normaliseRegion = (value?: string | null) => (value ?? '').trim().toUpperCase();
@@ -0,0 +1,173 @@
+import { BalanceTransactionType, GiftCard, GiftCardStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { generateCouponCode, normalizeCouponCode } from '@/lib/discounts/coupons';
+import { changeGiftCardBalance, StoredValueError } from './ledger';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+const GIFT_CARD_PREFIX = 'GC-';
+const GIFT_CARD_PATTERN = 'XXXX-XXXX-XXXX';
+
+export interface IssueGiftCardInput {
+  amount: number;
+  expiresAt?: Date | null;
+  // Registers the card to a customer straight away
+  userId?: string | null;
+  recipientEmail?: string | null;
+  note?: string | null;
+  // A code of your own, e.g. for printed cards; one is generated when left out
+  code?: string | null;
+}
+
+export const giftCardInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, email: true } },
+  issuedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.GiftCardInclude;
+
+export const giftCardTransactionInclude = {
+  order: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.GiftCardTransactionInclude;
+
+export const findGiftCard = (db: DbClient, code: string) =>
+  db.giftCard.findUnique({ where: { code: normalizeCouponCode(code) } });
+
+// Why a gift card cannot be spent by this customer right now, or null
+export function giftCardUnusableReason(card: GiftCard, userId: string | null, now = new Date()): string | null {
+  if (card.status === GiftCardStatus.VOIDED) return 'This gift card has been cancelled';
+  if (card.expiresAt && card.expiresAt < now) return 'This gift card has expired';
+  if (card.userId && card.userId !== userId) return 'This gift card belongs to another account';
+  if (card.balance <= 0) return 'This gift card has no balance left';
+  return null;
+}
+
+/**
+ * Issues a new gift card. The opening balance is booked through the ledger like any other
+ * change, so the card's history always adds up to its balance.
+ */
+export async function issueGiftCard(input: IssueGiftCardInput, issuedById: string) {
+  if (input.amount <= 0) {
+    throw new StoredValueError('A gift card needs a balance above zero');
+  }
+  if (input.expiresAt && input.expiresAt <= new Date()) {
+    throw new StoredValueError('The expiry date must be in the future');
+  }
+
+  let code = input.code ? normalizeCouponCode(input.code) : generateCouponCode(GIFT_CARD_PREFIX, GIFT_CARD_PATTERN);
+  // Generated codes practically never collide, but a custom one may already be in use
+  while (await findGiftCard(prisma, code)) {
+    if (input.code) throw new StoredValueError('A gift card with this code already exists', 409);
+    code = generateCouponCode(GIFT_CARD_PREFIX, GIFT_CARD_PATTERN);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const card = await tx.giftCard.create({
+      data: {
+        code,
+        initialBalance: input.amount,
+        balance: 0,
+        expiresAt: input.expiresAt,
+        userId: input.userId,
+        recipientEmail: input.recipientEmail,
+        note: input.note,
+        issuedById,
+      },
+    });
+    await changeGiftCardBalance(tx, card.id, {
+      type: BalanceTransactionType.ISSUE,
+      amount: input.amount,
+      createdById: issuedById,
+      note: input.note,
+    });
+    return tx.giftCard.findUniqueOrThrow({ where: { id: card.id }, include: giftCardInclude });
+  });
+}
+
+async function loadActiveCard(tx: Prisma.TransactionClient, id: string) {
+  const card = await tx.giftCard.findUnique({ where: { id } });
+  if (!card) {
+    throw new StoredValueError('Gift card not found', 404);
+  }
+  if (card.status === GiftCardStatus.VOIDED) {
+    throw new StoredValueError('This gift card has been voided', 409);
+  }
+  return card;
+}
+
+/**
+ * Corrects a gift card's balance by a positive or negative amount, recording who did it and why.
+ */
+export async function adjustGiftCard(id: string, amount: number, note: string, createdById: string) {
+  return prisma.$transaction(async (tx) => {
+    const card = await loadActiveCard(tx, id);
+    if (card.balance + amount < 0) {
+      throw new StoredValueError(`The balance is ${card.balance} and cannot go below zero`);
+    }
+
+    const balance = await changeGiftCardBalance(tx, id, {
+      type: BalanceTransactionType.ADJUSTMENT,
+      amount,
+      createdById,
+      note,
+    });
+    if (balance === null) {
+      throw new StoredValueError('The balance changed while it was being adjusted; please try again', 409);
+    }
+    return tx.giftCard.findUniqueOrThrow({ where: { id }, include: giftCardInclude });
+  });
+}
+
+/**
+ * Cancels a gift card for good, writing off whatever was left on it.
+ * Orders already paid with the card keep their payment.
+ */
+export async function voidGiftCard(id: string, note: string, createdById: string) {
+  return prisma.$transaction(async (tx) => {
+    const card = await loadActiveCard(tx, id);
+
+    if (card.balance > 0) {
+      const balance = await changeGiftCardBalance(tx, id, {
+        type: BalanceTransactionType.VOID,
+        amount: -card.balance,
+        createdById,
+        note,
+      });
+      if (balance === null) {
+        throw new StoredValueError('The balance changed while the card was being voided; please try again', 409);
+      }
+    }
+
+    return tx.giftCard.update({
+      where: { id },
+      data: { status: GiftCardStatus.VOIDED, voidedAt: new Date() },
+      include: giftCardInclude,
+    });
+  });
+}
+
+/**
+ * Registers a gift card to the signed-in customer so it shows in their account.
+ * After that only they can spend it.
+ */
+export async function addGiftCardToAccount(userId: string, code: string) {
+  const card = await findGiftCard(prisma, code);
+  if (!card) {
+    throw new StoredValueError('Gift card not found', 404);
+  }
+  if (card.userId && card.userId !== userId) {
+    throw new StoredValueError('This gift card belongs to another account', 409);
+  }
+  if (card.status === GiftCardStatus.VOIDED) {
+    throw new StoredValueError('This gift card has been cancelled', 409);
+  }
+
+  // Someone else may be adding the same card right now
+  const { count } = await prisma.giftCard.updateMany({
+    where: { id: card.id, OR: [{ userId: null }, { userId }] },
+    data: { userId },
+  });
+  if (count === 0) {
+    throw new StoredValueError('This gift card belongs to another account', 409);
+  }
+  return prisma.giftCard.findUniqueOrThrow({ where: { id: card.id } });
+}
@@ -0,0 +1,87 @@
+import { BalanceTransactionType, Prisma } from '@prisma/client';
+import { roundCurrency } from '@/lib/orders/pricing';
+
+export class StoredValueError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'StoredValueError';
+  }
+}
+
+export interface BalanceChange {
+  type: BalanceTransactionType;
+  // Positive to add to the balance, negative to take off it
+  amount: number;
+  orderId?: string | null;
+  // The staff member behind the change; empty for checkouts
+  createdById?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Moves a gift card's balance and records the change in its ledger.
+ * The balance is only written if nobody changed it since it was read, so two checkouts
+ * spending the same card cannot both succeed. Returns the new balance, or null when the
+ * balance would drop below zero or changed in the meantime.
+ */
+export async function changeGiftCardBalance(
+  tx: Prisma.TransactionClient,
+  giftCardId: string,
+  change: BalanceChange
+): Promise<number | null> {
+  const card = await tx.giftCard.findUniqueOrThrow({ where: { id: giftCardId }, select: { balance: true } });
+  const balance = roundCurrency(card.balance + change.amount);
+  if (balance < 0) return null;
+
+  const { count } = await tx.giftCard.updateMany({
+    where: { id: giftCardId, balance: card.balance },
+    data: { balance },
+  });
+  if (count === 0) return null;
+
+  await tx.giftCardTransaction.create({
+    data: {
+      giftCardId,
+      type: change.type,
+      amount: roundCurrency(change.amount),
+      balanceAfter: balance,
+      orderId: change.orderId,
+      createdById: change.createdById,
+      note: change.note,
+    },
+  });
+  return balance;
+}
+
+/**
+ * Moves a customer's store credit and records the change in their ledger, guarded the same
+ * way as changeGiftCardBalance. Returns the new balance, or null when it cannot be changed.
+ */
+export async function changeStoreCredit(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  change: BalanceChange
+): Promise<number | null> {
+  const user = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { storeCredit: true } });
+  const balance = roundCurrency(user.storeCredit + change.amount);
+  if (balance < 0) return null;
+
+  const { count } = await tx.user.updateMany({
+    where: { id: userId, storeCredit: user.storeCredit },
+    data: { storeCredit: balance },
+  });
+  if (count === 0) return null;
+
+  await tx.storeCreditTransaction.create({
+    data: {
+      userId,
+      type: change.type,
+      amount: roundCurrency(change.amount),
+      balanceAfter: balance,
+      orderId: change.orderId,
+      createdById: change.createdById,
+      note: change.note,
+    },
+  });
+  return balance;
+}
@@ -0,0 +1,182 @@
+import { BalanceTransactionType, GiftCardStatus, Order, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { amountDue, roundCurrency } from '@/lib/orders/pricing';
+import { findGiftCard, giftCardUnusableReason } from './gift-cards';
+import { changeGiftCardBalance, changeStoreCredit } from './ledger';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface StoredValueInput {
+  giftCardCode?: string | null;
+  useStoreCredit?: boolean;
+}
+
+export interface StoredValuePlan {
+  giftCard: { id: string; code: string; balance: number; amount: number } | null;
+  // Why the entered gift card cannot be used
+  giftCardError: string | null;
+  // What the customer holds and how much of it goes towards the order; null for guests
+  storeCredit: { balance: number; amount: number } | null;
+  // Left for the payment gateway
+  amountDue: number;
+}
+
+/**
+ * Works out how much of an order total a gift card and the customer's store credit cover.
+ * The gift card goes first since it may expire; store credit only covers the rest when asked to.
+ */
+export async function planStoredValue(
+  db: DbClient,
+  userId: string | null,
+  total: number,
+  input: StoredValueInput
+): Promise<StoredValuePlan> {
+  let remaining = roundCurrency(total);
+
+  let giftCard: StoredValuePlan['giftCard'] = null;
+  let giftCardError: string | null = null;
+  if (input.giftCardCode) {
+    const card = await findGiftCard(db, input.giftCardCode);
+    giftCardError = card ? giftCardUnusableReason(card, userId) : 'Gift card not found';
+    if (card && !giftCardError) {
+      const amount = roundCurrency(Math.min(card.balance, remaining));
+      giftCard = { id: card.id, code: card.code, balance: card.balance, amount };
+      remaining = roundCurrency(remaining - amount);
+    }
+  }
+
+  let storeCredit: StoredValuePlan['storeCredit'] = null;
+  if (userId) {
+    const user = await db.user.findUnique({ where: { id: userId }, select: { storeCredit: true } });
+    const balance = user?.storeCredit ?? 0;
+    const amount = input.useStoreCredit ? roundCurrency(Math.min(balance, remaining)) : 0;
+    storeCredit = { balance, amount };
+    remaining = roundCurrency(remaining - amount);
+  }
+
+  return { giftCard, giftCardError, storeCredit, amountDue: remaining };
+}
+
+// How an order that leaves nothing for the gateway shows its payment method
+export function storedValuePaymentMethod(plan: StoredValuePlan): string {
+  const giftCard = (plan.giftCard?.amount ?? 0) > 0;
+  const storeCredit = (plan.storeCredit?.amount ?? 0) > 0;
+  if (!giftCard && !storeCredit) return 'No payment due';
+  return giftCard && storeCredit ? 'Gift card and store credit' : giftCard ? 'Gift card' : 'Store credit';
+}
+
+/**
+ * Takes the planned gift card and store credit amounts for a freshly placed order, inside the
+ * order's transaction. Returns why they could not be taken, or null; the caller must then abort
+ * the transaction so nothing is half spent.
+ */
+export async function redeemStoredValue(
+  tx: Prisma.TransactionClient,
+  order: { id: string; userId: string },
+  plan: StoredValuePlan
+): Promise<string | null> {
+  if (plan.giftCard && plan.giftCard.amount > 0) {
+    const balance = await changeGiftCardBalance(tx, plan.giftCard.id, {
+      type: BalanceTransactionType.REDEEM,
+      amount: -plan.giftCard.amount,
+      orderId: order.id,
+    });
+    if (balance === null) return 'The balance of your gift card changed while you were checking out';
+  }
+
+  if (plan.storeCredit && plan.storeCredit.amount > 0) {
+    const balance = await changeStoreCredit(tx, order.userId, {
+      type: BalanceTransactionType.REDEEM,
+      amount: -plan.storeCredit.amount,
+      orderId: order.id,
+    });
+    if (balance === null) return 'Your store credit changed while you were checking out';
+  }
+
+  return null;
+}
+
+// Store credit already paid out for refunds of an order
+async function storeCreditRefunded(db: DbClient, orderId: string): Promise<number> {
+  const { _sum } = await db.storeCreditTransaction.aggregate({
+    where: { orderId, type: BalanceTransactionType.REFUND },
+    _sum: { amount: true },
+  });
+  return _sum.amount ?? 0;
+}
+
+/**
+ * How much of an order can still be refunded through its payment gateway: what the gateway
+ * charged less what it already refunded. Refunds paid out as store credit do not count.
+ */
+export async function gatewayRefundable(
+  db: DbClient,
+  order: Pick<Order, 'id' | 'total' | 'giftCardAmount' | 'storeCreditAmount' | 'refundedAmount'>
+): Promise<number> {
+  const gatewayRefunded = order.refundedAmount - (await storeCreditRefunded(db, order.id));
+  return roundCurrency(Math.max(0, amountDue(order) - gatewayRefunded));
+}
+
+/**
+ * Gives the gift card and store credit spent on a cancelled or refunded order back, less what
+ * has already been refunded as store credit. Gift card money goes back on the card unless it
+ * has been voided or has expired since, in which case it becomes store credit.
+ * Safe to call more than once and for orders paid in full by the gateway. Callers say why, since
+ * the order's status may not have been changed yet.
+ */
+export async function releaseStoredValue(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  reason: 'cancelled' | 'refunded',
+  createdById?: string
+) {
+  // Claim the release first so a second call cannot give the money back twice
+  const claimed = await tx.order.updateMany({
+    where: {
+      id: orderId,
+      storedValueReleasedAt: null,
+      OR: [{ giftCardAmount: { gt: 0 } }, { storeCreditAmount: { gt: 0 } }],
+    },
+    data: { storedValueReleasedAt: new Date() },
+  });
+  if (claimed.count === 0) return;
+
+  const order = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+  const refunded = await storeCreditRefunded(tx, orderId);
+  // Refunds as store credit count against the store credit spent first, then the gift card
+  let credit = roundCurrency(Math.max(0, order.storeCreditAmount - refunded));
+  const toCard = roundCurrency(Math.max(0, order.giftCardAmount - Math.max(0, refunded - order.storeCreditAmount)));
+  const note = `Order ${order.orderNumber} was ${reason}`;
+
+  if (toCard > 0) {
+    const redemption = await tx.giftCardTransaction.findFirst({
+      where: { orderId, type: BalanceTransactionType.REDEEM },
+      include: { giftCard: true },
+    });
+    const card = redemption?.giftCard;
+    const usable = card && card.status === GiftCardStatus.ACTIVE && !(card.expiresAt && card.expiresAt < new Date());
+    const released = usable
+      ? await changeGiftCardBalance(tx, card.id, {
+          type: BalanceTransactionType.RELEASE,
+          amount: toCard,
+          orderId,
+          createdById,
+          note,
+        })
+      : null;
+    if (released === null) credit = roundCurrency(credit + toCard);
+  }
+
+  if (credit > 0) {
+    const balance = await changeStoreCredit(tx, order.userId, {
+      type: BalanceTransactionType.RELEASE,
+      amount: credit,
+      orderId,
+      createdById,
+      note,
+    });
+    if (balance === null) {
+      throw new Error(`Store credit of the customer of order ${order.orderNumber} changed while it was given back`);
+    }
+  }
+}
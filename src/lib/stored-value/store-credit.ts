@@ -0,0 +1,65 @@
+import { BalanceTransactionType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { changeStoreCredit, StoredValueError } from './ledger';
+
+export const StoreCreditAction = {
+  ISSUE: 'issue',
+  ADJUST: 'adjust',
+  VOID: 'void',
+} as const;
+
+export type StoreCreditAction = (typeof StoreCreditAction)[keyof typeof StoreCreditAction];
+
+export interface StoreCreditChangeInput {
+  action: StoreCreditAction;
+  // Required to issue or adjust; voiding always clears the whole balance
+  amount?: number;
+  note: string;
+}
+
+export const storeCreditTransactionInclude = {
+  order: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.StoreCreditTransactionInclude;
+
+/**
+ * Lets staff grant store credit to a customer, correct it either way or void all of it.
+ * Every change lands in the customer's ledger with the staff member and the reason.
+ */
+export async function changeCustomerStoreCredit(userId: string, input: StoreCreditChangeInput, createdById: string) {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({ where: { id: userId }, select: { storeCredit: true } });
+    if (!user) {
+      throw new StoredValueError('Customer not found', 404);
+    }
+
+    let type: BalanceTransactionType;
+    let amount: number;
+    switch (input.action) {
+      case StoreCreditAction.ISSUE:
+        if (!input.amount || input.amount <= 0) throw new StoredValueError('Enter an amount above zero');
+        type = BalanceTransactionType.ISSUE;
+        amount = input.amount;
+        break;
+      case StoreCreditAction.ADJUST:
+        if (!input.amount) throw new StoredValueError('Enter the amount to add or take off');
+        if (user.storeCredit + input.amount < 0) {
+          throw new StoredValueError(`The balance is ${user.storeCredit} and cannot go below zero`);
+        }
+        type = BalanceTransactionType.ADJUSTMENT;
+        amount = input.amount;
+        break;
+      case StoreCreditAction.VOID:
+        if (user.storeCredit <= 0) throw new StoredValueError('There is no store credit to void', 409);
+        type = BalanceTransactionType.VOID;
+        amount = -user.storeCredit;
+        break;
+    }
+
+    const balance = await changeStoreCredit(tx, userId, { type, amount, createdById, note: input.note });
+    if (balance === null) {
+      throw new StoredValueError('The balance changed while it was being updated; please try again', 409);
+    }
+    return balance;
+  });
+}
@@ -0,0 +1,180 @@
+import { roundCurrency } from '@/lib/orders/pricing';
+
+export interface TaxLocation {
+  country: string;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+export interface TaxRateRule {
+  id: string;
+  name: string;
+  rate: number;
+  country: string;
+  state: string | null;
+  zipCode: string | null;
+  priority: number;
+  isCompound: boolean;
+  taxCategoryIds: string[];
+}
+
+export interface TaxableLine {
+  key: string;
+  taxCategoryId: string | null;
+  amount: number;
+}
+
+// A type alias rather than an interface so it can be stored in a Json column
+export type AppliedTax = {
+  rateId: string;
+  name: string;
+  rate: number;
+  isCompound: boolean;
+  amount: number;
+};
+
+export interface LineTax {
+  key: string;
+  taxableAmount: number;
+  taxes: AppliedTax[];
+  tax: number;
+}
+
+export interface TaxBreakdown {
+  lines: LineTax[];
+  taxes: AppliedTax[];
+  total: number;
+}
+
+const normalise = (value?: string | null) => (value ?? '').trim().toUpperCase();
+
+// A rate's zip code may be a comma separated list; entries ending in * match by prefix
+function matchesZip(zipCode: string, postalCode: string) {
+  const code = normalise(postalCode).replace(/\s+/g, '');
+  return zipCode.split(',').some((entry) => {
+    const pattern = normalise(entry).replace(/\s+/g, '');
+    if (!pattern) return false;
+    return pattern.endsWith('*') ? code.startsWith(pattern.slice(0, -1)) : code === pattern;
+  });
+}
+
+// Returns how specific a rate's match is for the location, or -1 when it does not apply
+export function matchRate(rate: TaxRateRule, location: TaxLocation): number {
+  if (normalise(rate.country) !== normalise(location.country)) return -1;
+
+  let score = 0;
+  if (rate.state) {
+    if (normalise(rate.state) !== normalise(location.state)) return -1;
+    score += 1;
+  }
+  if (rate.zipCode) {
+    if (!matchesZip(rate.zipCode, location.postalCode ?? '')) return -1;
+    score += 2;
+  }
+  return score;
+}
+
+/**
+ * Picks the rates that apply to a tax category at a location.
+ * Only the most specific matching rate is used for each priority, so a zip code
+ * rate overrides a state rate, which overrides a country-wide one.
+ * Standard rates, which are not linked to any category, tax every product. A rate linked to the
+ * product's category replaces the standard rate at its priority, however specific that one is;
+ * a standard rate at a priority with no category rate, e.g. a flat state levy, still applies.
+ */
+export function selectRates(
+  rates: TaxRateRule[],
+  location: TaxLocation,
+  taxCategoryId: string | null
+): TaxRateRule[] {
+  const best = new Map<number, { rate: TaxRateRule; inCategory: boolean; score: number }>();
+
+  for (const rate of rates) {
+    const inCategory = taxCategoryId !== null && rate.taxCategoryIds.includes(taxCategoryId);
+    if (!inCategory && rate.taxCategoryIds.length > 0) continue;
+
+    const score = matchRate(rate, location);
+    if (score < 0) continue;
+
+    const current = best.get(rate.priority);
+    const better =
+      !current || (inCategory && !current.inCategory) || (inCategory === current.inCategory && score > current.score);
+    if (better) {
+      best.set(rate.priority, { rate, inCategory, score });
+    }
+  }
+
+  return Array.from(best.values())
+    .map(({ rate }) => rate)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Calculates tax for a single amount.
+ * Regular rates are charged on the amount; compound rates are then charged in
+ * priority order on the amount plus every tax charged before them.
+ */
+export function calculateLineTax(amount: number, rates: TaxRateRule[]): AppliedTax[] {
+  const regular = rates.filter((rate) => !rate.isCompound);
+  const compound = rates.filter((rate) => rate.isCompound);
+
+  const taxes: AppliedTax[] = regular.map((rate) => ({
+    rateId: rate.id,
+    name: rate.name,
+    rate: rate.rate,
+    isCompound: false,
+    amount: roundCurrency((amount * rate.rate) / 100),
+  }));
+
+  for (const rate of compound) {
+    const base = amount + taxes.reduce((sum, tax) => sum + tax.amount, 0);
+    taxes.push({
+      rateId: rate.id,
+      name: rate.name,
+      rate: rate.rate,
+      isCompound: true,
+      amount: roundCurrency((base * rate.rate) / 100),
+    });
+  }
+
+  return taxes;
+}
+
+/**
+ * Calculates tax for every line at a location and totals it per rate.
+ * Rates are percentages, e.g. 18 for 18%.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  rates: TaxRateRule[],
+  location: TaxLocation
+): TaxBreakdown {
+  const totals = new Map<string, AppliedTax>();
+
+  const lineTaxes = lines.map((line) => {
+    const taxableAmount = roundCurrency(Math.max(line.amount, 0));
+    const taxes = calculateLineTax(taxableAmount, selectRates(rates, location, line.taxCategoryId));
+
+    for (const tax of taxes) {
+      const total = totals.get(tax.rateId);
+      if (total) {
+        total.amount = roundCurrency(total.amount + tax.amount);
+      } else {
+        totals.set(tax.rateId, { ...tax });
+      }
+    }
+
+    return {
+      key: line.key,
+      taxableAmount,
+      taxes,
+      tax: roundCurrency(taxes.reduce((sum, tax) => sum + tax.amount, 0)),
+    };
+  });
+
+  return {
+    lines: lineTaxes,
+    taxes: Array.from(totals.values()),
+    total: roundCurrency(lineTaxes.reduce((sum, line) => sum + line.tax, 0)),
+  };
+}
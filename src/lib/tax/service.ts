@@ -0,0 +1,41 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { calculateTax, type TaxableLine, type TaxBreakdown, type TaxLocation, type TaxRateRule } from './calculate';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Load the active rates that could apply in the location's country
+export async function loadTaxRates(location: TaxLocation, db: DbClient = prisma): Promise<TaxRateRule[]> {
+  const rates = await db.taxRate.findMany({
+    where: {
+      isActive: true,
+      country: { equals: location.country.trim(), mode: 'insensitive' },
+    },
+    include: { taxCategories: { select: { id: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return rates.map((rate) => ({
+    id: rate.id,
+    name: rate.name,
+    rate: rate.rate,
+    country: rate.country,
+    state: rate.state,
+    zipCode: rate.zipCode,
+    priority: rate.priority,
+    isCompound: rate.isCompound,
+    taxCategoryIds: rate.taxCategories.map((category) => category.id),
+  }));
+}
+
+/**
+ * Calculates the tax on a set of lines shipped to the given location.
+ */
+export async function calculateTaxForLocation(
+  lines: TaxableLine[],
+  location: TaxLocation,
+  db: DbClient = prisma
+): Promise<TaxBreakdown> {
+  const rates = await loadTaxRates(location, db);
+  return calculateTax(lines, rates, location);
+}
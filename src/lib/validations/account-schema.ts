@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const addressSchema = z.object({
+  fullName: z.string().trim().min(1, { message: 'Name is required' }),
+  phoneNumber: z
+    .string()
+    .trim()
+    .regex(/^\+?\d{10,15}$/, { message: 'Please enter a valid mobile number' }),
+  street: z.string().trim().min(1, { message: 'Street address is required' }),
+  city: z.string().trim().min(1, { message: 'City is required' }),
+  state: z.string().trim().min(1, { message: 'State is required' }),
+  postalCode: z.string().trim().min(3, { message: 'Postal code is required' }).max(12),
+  country: z.string().trim().min(2, { message: 'Country is required' }),
+  isDefault: z.boolean().optional(),
+});
+
+export const profileSchema = z.object({
+  firstName: z.string().trim().min(1, { message: 'First name is required' }).max(100),
+  lastName: z.string().trim().max(100),
+});
+
+export type AddressSchema = z.infer<typeof addressSchema>;
+export type ProfileSchema = z.infer<typeof profileSchema>;
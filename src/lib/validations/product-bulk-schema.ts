@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// Keeps a single bulk action within one reasonably sized transaction
+export const MAX_BULK_PRODUCTS = 500;
+
+const productIds = z
+  .array(z.string().uuid())
+  .min(1, { message: 'Select at least one product' })
+  .max(MAX_BULK_PRODUCTS, { message: `At most ${MAX_BULK_PRODUCTS} products can be changed at once` });
+
+const tags = z
+  .array(z.string().trim().min(1, { message: 'Tags cannot be empty' }).max(50))
+  .min(1, { message: 'Enter at least one tag' })
+  .max(20);
+
+export const productBulkSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('setStatus'),
+    productIds,
+    status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']),
+  }),
+  z.object({
+    operation: z.literal('setCategory'),
+    productIds,
+    categoryId: z.string().uuid({ message: 'Choose a category' }),
+  }),
+  z.object({ operation: z.literal('addTags'), productIds, tags }),
+  z.object({ operation: z.literal('removeTags'), productIds, tags }),
+  z.object({
+    operation: z.literal('adjustPrice'),
+    productIds,
+    // +10 raises prices by 10%, -25 takes a quarter off; variant prices move with the product
+    percent: z
+      .number()
+      .min(-90, { message: 'Prices can be lowered by at most 90%' })
+      .max(1000)
+      .refine((percent) => percent !== 0, { message: 'Enter a percentage other than 0' }),
+  }),
+  z
+    .object({
+      operation: z.literal('setFlags'),
+      productIds,
+      isBestSeller: z.boolean().optional(),
+      isNewProduct: z.boolean().optional(),
+    })
+    .refine((input) => input.isBestSeller !== undefined || input.isNewProduct !== undefined, {
+      message: 'Choose a flag to change',
+      path: ['isBestSeller'],
+    }),
+  z.object({ operation: z.literal('delete'), productIds }),
+]);
+
+export type ProductBulkSchema = z.infer<typeof productBulkSchema>;
+export type ProductBulkOperation = ProductBulkSchema['operation'];
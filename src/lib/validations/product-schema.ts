@@ -15,7 +15,6 @@ export const productSchema = z.object({
   categoryId: z.string().optional(),
   weight: z.number().optional(),
   size: z.string().optional(),
-  rating: z.number().optional(),
   taxCategoryId: z.string().optional(),
   madeOf: z.string().optional(),
   includes: z.string().optional(),
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+export const supplierSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required' }),
+  contactName: z.string().trim().optional().nullable(),
+  email: z
+    .union([z.string().trim().email({ message: 'Invalid email address' }), z.literal('')])
+    .optional()
+    .nullable()
+    .transform((email) => email || null),
+  phone: z.string().trim().optional().nullable(),
+  address: z.string().trim().optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  leadTimeDays: z.number().int().min(0, { message: 'Lead time cannot be negative' }).max(365),
+  isActive: z.boolean(),
+});
+
+export const purchaseOrderItemSchema = z.object({
+  productId: z.string().uuid(),
+  variantId: z.string().uuid().optional().nullable(),
+  quantity: z.number().int().min(1, { message: 'Quantity must be at least 1' }),
+  unitCost: z.number().min(0, { message: 'Unit cost cannot be negative' }),
+});
+
+export const purchaseOrderSchema = z.object({
+  supplierId: z.string().uuid({ message: 'Supplier is required' }),
+  expectedAt: z.coerce.date().optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  items: z.array(purchaseOrderItemSchema).min(1, { message: 'Add at least one item' }),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        quantity: z.number().int().min(0),
+      })
+    )
+    .min(1, { message: 'Nothing to receive' }),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export type SupplierSchema = z.infer<typeof supplierSchema>;
+export type PurchaseOrderSchema = z.infer<typeof purchaseOrderSchema>;
+export type ReceivePurchaseOrderSchema = z.infer<typeof receivePurchaseOrderSchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const reviewSchema = z.object({
+  rating: z
+    .number({ message: 'Please choose a rating' })
+    .int()
+    .min(1, { message: 'Please choose a rating' })
+    .max(5, { message: 'Rating cannot be more than 5' }),
+  comment: z.string().trim().max(2000, { message: 'Review must be 2000 characters or fewer' }).optional(),
+});
+
+export type ReviewSchema = z.infer<typeof reviewSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const cost = (label: string) => z.number().min(0, { message: `${label} must be a positive number` });
+
+// Free text shown next to the option, e.g. "3-5 business days"
+const estimatedDelivery = z.string().trim().optional();
+
+export const flatRateConfigSchema = z.object({
+  type: z.literal('flat'),
+  cost: cost('Cost'),
+  estimatedDelivery,
+});
+
+export const weightRateConfigSchema = z.object({
+  type: z.literal('weight'),
+  baseCost: cost('Base cost'),
+  costPerKg: cost('Cost per kg'),
+  // Used for products that have no weight set
+  defaultWeight: cost('Default weight').default(0),
+  estimatedDelivery,
+});
+
+export const freeOverThresholdConfigSchema = z.object({
+  type: z.literal('free_over_threshold'),
+  threshold: cost('Threshold'),
+  estimatedDelivery,
+});
+
+export const shippingZoneSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Zone name is required' }),
+  // Country names or codes; "*" matches every country not listed in an earlier zone
+  countries: z.array(z.string().trim().min(1)).min(1, { message: 'Add at least one country' }),
+  states: z.array(z.string().trim().min(1)).optional(),
+  cost: cost('Cost'),
+  costPerKg: cost('Cost per kg').optional(),
+});
+
+export const zoneRateConfigSchema = z.object({
+  type: z.literal('zones'),
+  zones: z.array(shippingZoneSchema).min(1, { message: 'Add at least one zone' }),
+  defaultWeight: cost('Default weight').default(0),
+  estimatedDelivery,
+});
+
+export const shippingConfigSchema = z.discriminatedUnion('type', [
+  flatRateConfigSchema,
+  weightRateConfigSchema,
+  freeOverThresholdConfigSchema,
+  zoneRateConfigSchema,
+]);
+
+export const shippingProviderSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required' }),
+  isActive: z.boolean(),
+  configSettings: shippingConfigSchema,
+});
+
+export type ShippingConfig = z.infer<typeof shippingConfigSchema>;
+export type ShippingZone = z.infer<typeof shippingZoneSchema>;
+export type ShippingProviderSchema = z.infer<typeof shippingProviderSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const taxCategorySchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required' }),
+  description: z.string().trim().optional().nullable(),
+});
+
+export const taxRateSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required' }),
+  rate: z.number().min(0, { message: 'Rate must be a positive number' }).max(100, { message: 'Rate cannot exceed 100%' }),
+  country: z.string().trim().min(1, { message: 'Country is required' }),
+  state: z.string().trim().optional().nullable(),
+  // Comma separated; an entry ending in * matches every zip code starting with it
+  zipCode: z.string().trim().optional().nullable(),
+  priority: z.number().int().min(1, { message: 'Priority must be at least 1' }),
+  isCompound: z.boolean(),
+  isActive: z.boolean(),
+  taxCategoryIds: z.array(z.string().uuid()),
+});
+
+export type TaxCategorySchema = z.infer<typeof taxCategorySchema>;
+export type TaxRateSchema = z.infer<typeof taxRateSchema>;
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import {
+  MAX_OPTIONS,
+  MAX_VARIANTS,
+  validateVariantAttributes,
+  variantKey,
+} from '@/lib/products/variant-matrix';
+
+const hasDuplicates = (values: string[]) =>
+  new Set(values.map((value) => value.toLowerCase())).size !== values.length;
+
+export const productOptionSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: 'Option name is required' }).max(50),
+    values: z
+      .array(z.string().trim().min(1, { message: 'Option values cannot be empty' }).max(50))
+      .min(1, { message: 'Add at least one value' })
+      .max(50),
+  })
+  .refine((option) => !hasDuplicates(option.values), {
+    message: 'Option values must be unique',
+    path: ['values'],
+  });
+
+export const productVariantSchema = z.object({
+  // Present for variants that already exist
+  id: z.string().uuid().optional(),
+  sku: z.string().trim().min(1, { message: 'SKU is required' }),
+  price: z.number().min(0, { message: 'Price must be a positive number' }),
+  // Opening stock for new variants; existing ones keep their stock unless it is given
+  stockQuantity: z.number().int().min(0, { message: 'Stock cannot be negative' }).optional(),
+  imageUrl: z.string().url().optional().nullable(),
+  attributes: z.record(z.string(), z.string()),
+});
+
+export const productVariantsSchema = z
+  .object({
+    options: z
+      .array(productOptionSchema)
+      .max(MAX_OPTIONS, { message: `A product can have at most ${MAX_OPTIONS} options` }),
+    variants: z
+      .array(productVariantSchema)
+      .max(MAX_VARIANTS, { message: `A product can have at most ${MAX_VARIANTS} variants` }),
+  })
+  .superRefine(({ options, variants }, ctx) => {
+    if (hasDuplicates(options.map((option) => option.name))) {
+      ctx.addIssue({ code: 'custom', message: 'Option names must be unique', path: ['options'] });
+      return;
+    }
+    if (options.length === 0 && variants.length > 0) {
+      ctx.addIssue({ code: 'custom', message: 'Define the options before adding variants', path: ['variants'] });
+      return;
+    }
+
+    const combinations = new Set<string>();
+    const skus = new Set<string>();
+    variants.forEach((variant, index) => {
+      const problem = validateVariantAttributes(options, variant.attributes);
+      if (problem) {
+        ctx.addIssue({ code: 'custom', message: problem, path: ['variants', index, 'attributes'] });
+        return;
+      }
+
+      const key = variantKey(options, variant.attributes);
+      if (combinations.has(key)) {
+        ctx.addIssue({ code: 'custom', message: 'Each combination can only be used once', path: ['variants', index, 'attributes'] });
+      }
+      combinations.add(key);
+
+      if (skus.has(variant.sku)) {
+        ctx.addIssue({ code: 'custom', message: `SKU ${variant.sku} is used twice`, path: ['variants', index, 'sku'] });
+      }
+      skus.add(variant.sku);
+    });
+  });
+
+export type ProductOptionSchema = z.infer<typeof productOptionSchema>;
+export type ProductVariantSchema = z.infer<typeof productVariantSchema>;
+export type ProductVariantsSchema = z.infer<typeof productVariantsSchema>;
@@ -0,0 +1,114 @@
+import { Prisma, ProductStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { sendWishlistAlertEmail, WishlistAlert } from '@/lib/mailer';
+import { isInStock, stockSelect } from './wishlist';
+
+const BATCH_SIZE = 200;
+
+const alertInclude = {
+  product: { select: { title: true, price: true, status: true, ...stockSelect } },
+  user: { select: { email: true } },
+} satisfies Prisma.WishlistItemInclude;
+
+type AlertItem = Prisma.WishlistItemGetPayload<{ include: typeof alertInclude }>;
+
+interface PendingAlert {
+  item: AlertItem;
+  inStock: boolean;
+  alert: WishlistAlert | null;
+}
+
+export interface WishlistAlertSummary {
+  checked: number;
+  emailsSent: number;
+  backInStock: number;
+  priceDrops: number;
+  failed: number;
+}
+
+/**
+ * Works out whether a wishlisted product should be announced to its owner: it has come back
+ * into stock since the last check, or its price is below the price it was wishlisted at and
+ * below any price we already told them about.
+ */
+function evaluate(item: AlertItem): PendingAlert {
+  const inStock = isInStock(item.product);
+  const { title, price } = item.product;
+
+  if (inStock && !item.inStock) {
+    return { item, inStock, alert: { title, reason: 'BACK_IN_STOCK', price } };
+  }
+  if (inStock && price < item.addedPrice && (item.alertedPrice === null || price < item.alertedPrice)) {
+    return {
+      item,
+      inStock,
+      alert: { title, reason: 'PRICE_DROP', price, previousPrice: item.alertedPrice ?? item.addedPrice },
+    };
+  }
+  return { item, inStock, alert: null };
+}
+
+async function recordChecked({ item, inStock, alert }: PendingAlert) {
+  const data: Prisma.WishlistItemUpdateInput = {};
+  if (inStock !== item.inStock) data.inStock = inStock;
+  if (alert) data.alertedPrice = item.product.price;
+  if (Object.keys(data).length > 0) {
+    await prisma.wishlistItem.update({ where: { id: item.id }, data });
+  }
+}
+
+/**
+ * Checks every wishlisted, published product for restocks and price drops and emails each
+ * customer one summary of their changes. Meant to run on a schedule.
+ *
+ * An item only remembers its new stock state and alerted price once the email went out,
+ * so a failed email is retried on the next run.
+ */
+export async function runWishlistAlerts(): Promise<WishlistAlertSummary> {
+  const summary: WishlistAlertSummary = { checked: 0, emailsSent: 0, backInStock: 0, priceDrops: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const items = await prisma.wishlistItem.findMany({
+      where: { product: { status: ProductStatus.PUBLISHED } },
+      // Grouped by customer so their changes usually land in a single email
+      orderBy: [{ userId: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      include: alertInclude,
+    });
+    if (items.length === 0) break;
+    cursor = items[items.length - 1].id;
+    summary.checked += items.length;
+
+    const byUser = new Map<string, PendingAlert[]>();
+    for (const item of items) {
+      const pending = evaluate(item);
+      byUser.set(item.userId, [...(byUser.get(item.userId) ?? []), pending]);
+    }
+
+    for (const pending of byUser.values()) {
+      const alerts = pending.flatMap(({ alert }) => (alert ? [alert] : []));
+      const email = pending[0].item.user.email;
+
+      if (alerts.length > 0 && email) {
+        try {
+          await sendWishlistAlertEmail(email, alerts);
+        } catch {
+          summary.failed += 1;
+          // Keep the old state so these alerts are tried again next time
+          continue;
+        }
+        summary.emailsSent += 1;
+        summary.backInStock += alerts.filter((alert) => alert.reason === 'BACK_IN_STOCK').length;
+        summary.priceDrops += alerts.filter((alert) => alert.reason === 'PRICE_DROP').length;
+      }
+
+      for (const entry of pending) {
+        await recordChecked(entry);
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,100 @@
+import { Prisma, ProductStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export class WishlistError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WishlistError';
+  }
+}
+
+// Just enough of a product to tell whether it is available
+export const stockSelect = {
+  stockQuantity: true,
+  variants: { select: { stockQuantity: true } },
+} satisfies Prisma.ProductSelect;
+
+type StockedProduct = Prisma.ProductGetPayload<{ select: typeof stockSelect }>;
+
+// Products with variants are sold through their variants, so only their stock counts
+export function isInStock(product: StockedProduct): boolean {
+  return product.variants.length > 0
+    ? product.variants.some((variant) => variant.stockQuantity > 0)
+    : product.stockQuantity > 0;
+}
+
+export const wishlistInclude = {
+  product: {
+    select: {
+      id: true,
+      title: true,
+      sku: true,
+      price: true,
+      comparePrice: true,
+      status: true,
+      images: { orderBy: { position: 'asc' }, take: 1, select: { url: true } },
+      ...stockSelect,
+    },
+  },
+} satisfies Prisma.WishlistItemInclude;
+
+type WishlistItemWithProduct = Prisma.WishlistItemGetPayload<{ include: typeof wishlistInclude }>;
+
+function toWishlistEntry(item: WishlistItemWithProduct) {
+  const { variants, stockQuantity, images, ...product } = item.product;
+  return {
+    id: item.id,
+    productId: item.productId,
+    addedPrice: item.addedPrice,
+    createdAt: item.createdAt,
+    product: {
+      ...product,
+      image: images[0]?.url ?? null,
+      inStock: isInStock({ variants, stockQuantity }),
+    },
+  };
+}
+
+/**
+ * The customer's wishlist, newest first, with each product's current price and availability.
+ */
+export async function listWishlist(userId: string) {
+  const items = await prisma.wishlistItem.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    include: wishlistInclude,
+  });
+  return items.map(toWishlistEntry);
+}
+
+/**
+ * Adds a published product to the customer's wishlist, recording its price and stock so
+ * price drops and restocks can be spotted later. Adding it again leaves the entry as it is.
+ */
+export async function addToWishlist(userId: string, productId: string) {
+  const product = await prisma.product.findFirst({
+    where: { id: productId, status: ProductStatus.PUBLISHED },
+    select: { price: true, ...stockSelect },
+  });
+  if (!product) {
+    throw new WishlistError('Product not found', 404);
+  }
+
+  const item = await prisma.wishlistItem.upsert({
+    where: { userId_productId: { userId, productId } },
+    create: { userId, productId, addedPrice: product.price, inStock: isInStock(product) },
+    update: {},
+    include: wishlistInclude,
+  });
+  return toWishlistEntry(item);
+}
+
+/**
+ * Removes a product from the customer's wishlist.
+ */
+export async function removeFromWishlist(userId: string, productId: string) {
+  const { count } = await prisma.wishlistItem.deleteMany({ where: { userId, productId } });
+  if (count === 0) {
+    throw new WishlistError('Product is not in your wishlist', 404);
+  }
+}
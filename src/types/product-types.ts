@@ -33,13 +33,6 @@ export interface Category {
   updatedAt?: string;
 }
 
-export interface Size {
-  id?: string;
-  size: string;
-  stock: number;
-  colorId?: string;
-}
-
 export interface Asset {
   id?: string;
   asset_url: string;
@@ -48,11 +41,3 @@ export interface Asset {
   colorId: string | null;
   productId: string | null;
 }
-
-export interface Varient {
-  id?: string; // Make id optional for new variants
-  color: string;
-  productId: string;
-  assets: Asset[];
-  sizes: Size[];
-}